@@ -5,7 +5,15 @@ export default defineManifest({
 	name: 'Page to Markdown LLM Converter',
 	version: '1.0.0',
 	description: 'Converts the current page to Markdown suitable for LLM input.',
-	permissions: ['activeTab', 'scripting', 'clipboardWrite', 'contextMenus', 'storage'],
+	permissions: [
+		'activeTab',
+		'scripting',
+		'clipboardWrite',
+		'contextMenus',
+		'downloads',
+		'storage',
+		'unlimitedStorage',
+	],
 	icons: {
 		'16': 'public/icon-16.png',
 		'32': 'public/icon-32.png',
@@ -14,6 +22,7 @@ export default defineManifest({
 	},
 	action: {
 		default_title: 'Convert page to Markdown',
+		default_popup: 'src/popup.html',
 		default_icon: {
 			'16': 'public/icon-16.png',
 			'32': 'public/icon-32.png',
@@ -40,6 +49,13 @@ export default defineManifest({
 			},
 			description: 'Convert current page to Markdown',
 		},
+		'save-as-markdown': {
+			suggested_key: {
+				default: 'Alt+Shift+M',
+				mac: 'Alt+Shift+M',
+			},
+			description: 'Save current page as a Markdown file',
+		},
 	},
 	options_page: 'src/options.html',
 });
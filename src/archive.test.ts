@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+	type AssetFetcher,
+	assetPath,
+	buildArchive,
+	collectImageUrls,
+	rewriteImageUrls,
+} from './archive';
+import type { PageMetadata } from './frontmatter';
+
+const meta: PageMetadata = {
+	title: 'Gallery',
+	source: 'https://example.com/gallery',
+	authors: [],
+	description: '',
+	retrieved: '2025-01-01T00:00:00.000Z',
+};
+
+const markdown = [
+	'# Gallery',
+	'',
+	'![Cat](https://cdn.example.com/img/cat.jpg?w=800 "A cat")',
+	'',
+	'[![Dog](https://cdn.example.com/img/dog.png)](https://example.com/dog)',
+	'',
+	'```md',
+	'![Not an image](https://example.com/code.png)',
+	'```',
+	'',
+	'![Again](https://cdn.example.com/img/cat.jpg?w=800) ![Inline](data:image/png;base64,AAAA)',
+].join('\n');
+
+describe('collectImageUrls', () => {
+	it('lists distinct remote images outside code blocks', () => {
+		expect(collectImageUrls(markdown)).toEqual([
+			'https://cdn.example.com/img/cat.jpg?w=800',
+			'https://cdn.example.com/img/dog.png',
+		]);
+	});
+
+	it('reads URLs in angle brackets', () => {
+		expect(collectImageUrls('![x](<https://example.com/a b.png>)')).toEqual([
+			'https://example.com/a b.png',
+		]);
+	});
+});
+
+describe('rewriteImageUrls', () => {
+	it('replaces downloaded URLs and keeps titles and the rest', () => {
+		const rewritten = rewriteImageUrls(
+			markdown,
+			new Map([['https://cdn.example.com/img/cat.jpg?w=800', 'assets/cat.jpg']])
+		);
+		expect(rewritten).toContain('![Cat](assets/cat.jpg "A cat")');
+		expect(rewritten).toContain('![Again](assets/cat.jpg)');
+		expect(rewritten).toContain('(https://cdn.example.com/img/dog.png)');
+		expect(rewritten).toContain('![Not an image](https://example.com/code.png)');
+	});
+});
+
+describe('assetPath', () => {
+	it('uses the URL name with an extension matching the content type', () => {
+		const used = new Set<string>();
+		expect(assetPath('https://a.example/x/photo.jpeg?v=2', 'image/jpeg', used)).toBe(
+			'assets/photo.jpg'
+		);
+		expect(assetPath('https://b.example/photo.jpg', 'image/jpeg', used)).toBe('assets/photo-2.jpg');
+		expect(assetPath('https://a.example/render', 'image/webp; q=1', used)).toBe(
+			'assets/render.webp'
+		);
+		expect(assetPath('https://a.example/', '', used)).toBe('assets/image.bin');
+	});
+});
+
+describe('buildArchive', () => {
+	it('stores images, rewrites references and records failures in the manifest', async () => {
+		const fetcher = vi.fn<AssetFetcher>(async (url) => {
+			if (url.endsWith('dog.png')) throw new Error('HTTP 403');
+			return { data: new Uint8Array([1, 2, 3]), contentType: 'image/jpeg' };
+		});
+
+		const { zip, manifest } = await buildArchive(markdown, meta, fetcher);
+
+		expect(fetcher).toHaveBeenCalledTimes(2);
+		expect(manifest.document).toBe('index.md');
+		expect(manifest.assets).toEqual([
+			{
+				url: 'https://cdn.example.com/img/cat.jpg?w=800',
+				path: 'assets/cat.jpg',
+				contentType: 'image/jpeg',
+				bytes: 3,
+			},
+		]);
+		expect(manifest.failures).toEqual([
+			{ url: 'https://cdn.example.com/img/dog.png', reason: 'HTTP 403' },
+		]);
+
+		const text = new TextDecoder().decode(zip);
+		expect(text).toContain('![Cat](assets/cat.jpg "A cat")');
+		expect(text).toContain('[![Dog](https://cdn.example.com/img/dog.png)]');
+		expect(text).toContain('manifest.json');
+	});
+});
@@ -0,0 +1,250 @@
+import type { PageMetadata } from './frontmatter';
+import { createZip } from './zip';
+
+/**
+ * An image stored in the archive.
+ */
+export interface ArchiveAsset {
+	/** Absolute URL the image was downloaded from, as referenced by the converted Markdown. */
+	url: string;
+	/** Path inside the archive, e.g. `assets/diagram.png`. */
+	path: string;
+	contentType: string;
+	bytes: number;
+}
+
+/**
+ * An image that could not be downloaded; its reference keeps pointing at the original URL.
+ */
+export interface ArchiveFailure {
+	url: string;
+	reason: string;
+}
+
+/**
+ * Contents of `manifest.json`, describing where every image came from and which ones failed.
+ */
+export interface ArchiveManifest {
+	source: string;
+	title: string;
+	created: string;
+	document: string;
+	assets: ArchiveAsset[];
+	failures: ArchiveFailure[];
+}
+
+export interface FetchedAsset {
+	data: Uint8Array;
+	contentType: string;
+}
+
+/**
+ * Downloads one image; rejects with a readable reason when it cannot.
+ */
+export type AssetFetcher = (url: string) => Promise<FetchedAsset>;
+
+export const ARCHIVE_DOCUMENT = 'index.md';
+export const ARCHIVE_MANIFEST = 'manifest.json';
+const ASSET_FOLDER = 'assets';
+
+/** Images downloaded at the same time. */
+const FETCH_CONCURRENCY = 4;
+
+/** Markdown image syntax: `![alt](url "title")`, with the URL optionally in angle brackets. */
+const IMAGE_PATTERN = /(!\[(?:[^\]\\]|\\.)*\]\()(<[^>\n]*>|[^\s)]+)((?:\s+"[^"\n]*")?\))/g;
+
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})/;
+
+const extensionsByType: Record<string, string> = {
+	'image/png': 'png',
+	'image/jpeg': 'jpg',
+	'image/gif': 'gif',
+	'image/webp': 'webp',
+	'image/avif': 'avif',
+	'image/svg+xml': 'svg',
+	'image/bmp': 'bmp',
+	'image/x-icon': 'ico',
+	'image/vnd.microsoft.icon': 'ico',
+};
+
+/**
+ * Applies a replacement to every line outside fenced code blocks, so that image syntax shown as
+ * code is left alone.
+ */
+export function mapOutsideCode(markdown: string, replace: (line: string) => string): string {
+	let fence: string | null = null;
+	return markdown
+		.split('\n')
+		.map((line) => {
+			const marker = line.match(FENCE_PATTERN)?.[1];
+			if (fence) {
+				if (marker && marker[0] === fence[0] && marker.length >= fence.length) {
+					fence = null;
+				}
+				return line;
+			}
+			if (marker) {
+				fence = marker;
+				return line;
+			}
+			return replace(line);
+		})
+		.join('\n');
+}
+
+function unwrapUrl(raw: string): string {
+	return raw.startsWith('<') && raw.endsWith('>') ? raw.slice(1, -1) : raw;
+}
+
+/**
+ * Lists the distinct remote image URLs referenced by Markdown image syntax, in document order.
+ * The URLs are the ones chosen during conversion by `resolveLazyImage`, which already picked the
+ * best `srcset` candidate, so the archive holds the same image the Markdown pointed at.
+ * @param markdown - Converted document.
+ */
+export function collectImageUrls(markdown: string): string[] {
+	const urls = new Set<string>();
+	mapOutsideCode(markdown, (line) => {
+		for (const match of line.matchAll(IMAGE_PATTERN)) {
+			const url = unwrapUrl(match[2]);
+			if (/^https?:\/\//i.test(url)) {
+				urls.add(url);
+			}
+		}
+		return line;
+	});
+	return Array.from(urls);
+}
+
+/**
+ * Points image references at their downloaded copies. URLs without a local path are unchanged.
+ * @param markdown - Converted document.
+ * @param paths - Archive path for each downloaded URL.
+ */
+export function rewriteImageUrls(markdown: string, paths: Map<string, string>): string {
+	return mapOutsideCode(markdown, (line) =>
+		line.replace(IMAGE_PATTERN, (whole, open: string, raw: string, close: string) => {
+			const path = paths.get(unwrapUrl(raw));
+			return path ? `${open}${path}${close}` : whole;
+		})
+	);
+}
+
+/**
+ * Chooses a unique, portable file name for an image inside the assets folder, based on the last
+ * URL path segment and an extension matching its content type.
+ * @param url - Image URL.
+ * @param contentType - Content type reported by the server.
+ * @param used - Paths already taken; the chosen path is added.
+ */
+export function assetPath(url: string, contentType: string, used: Set<string>): string {
+	let segment = '';
+	try {
+		segment = decodeURIComponent(new URL(url).pathname.split('/').pop() ?? '');
+	} catch (_err) {}
+
+	const urlExtension = segment.match(/\.([a-z0-9]{2,5})$/i)?.[1]?.toLowerCase();
+	const mimeType = contentType.split(';')[0].trim().toLowerCase();
+	const extension = extensionsByType[mimeType] ?? urlExtension ?? 'bin';
+	const stem =
+		segment
+			.replace(/\.[a-z0-9]{2,5}$/i, '')
+			.replace(/[^\w.-]+/g, '-')
+			.replace(/^[-.]+|[-.]+$/g, '')
+			.slice(0, 80) || 'image';
+
+	let path = `${ASSET_FOLDER}/${stem}.${extension}`;
+	for (let n = 2; used.has(path.toLowerCase()); n++) {
+		path = `${ASSET_FOLDER}/${stem}-${n}.${extension}`;
+	}
+	used.add(path.toLowerCase());
+	return path;
+}
+
+/**
+ * Downloads an image from the page context, sending the page's cookies for same-origin images so
+ * that images behind a login still load.
+ * @param url - Absolute image URL.
+ */
+export async function fetchAsset(url: string): Promise<FetchedAsset> {
+	let response: Response;
+	try {
+		response = await fetch(url, { credentials: 'same-origin' });
+	} catch (_err) {
+		throw new Error('Network error or blocked by CORS');
+	}
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status}`);
+	}
+	const contentType = response.headers.get('content-type') ?? '';
+	if (contentType && !contentType.toLowerCase().startsWith('image/')) {
+		throw new Error(`Not an image (${contentType.split(';')[0]})`);
+	}
+	return { data: new Uint8Array(await response.arrayBuffer()), contentType };
+}
+
+/**
+ * Builds a zip archive holding the Markdown as `index.md`, every referenced image under
+ * `assets/` with references rewritten to relative paths, and a `manifest.json`. Images that fail
+ * to download keep their remote URL and are listed in the manifest instead of aborting the export.
+ * @param markdown - Rendered Markdown document.
+ * @param metadata - Metadata of the converted page.
+ * @param fetcher - Image downloader; defaults to fetching from the page.
+ */
+export async function buildArchive(
+	markdown: string,
+	metadata: PageMetadata,
+	fetcher: AssetFetcher = fetchAsset
+): Promise<{ zip: Uint8Array; manifest: ArchiveManifest }> {
+	const urls = collectImageUrls(markdown);
+	const results: Array<PromiseSettledResult<FetchedAsset>> = new Array(urls.length);
+
+	let next = 0;
+	async function worker() {
+		while (next < urls.length) {
+			const index = next++;
+			results[index] = await fetcher(urls[index]).then(
+				(value): PromiseSettledResult<FetchedAsset> => ({ status: 'fulfilled', value }),
+				(reason: unknown): PromiseSettledResult<FetchedAsset> => ({ status: 'rejected', reason })
+			);
+		}
+	}
+	await Promise.all(Array.from({ length: Math.min(FETCH_CONCURRENCY, urls.length) }, worker));
+
+	const used = new Set<string>();
+	const paths = new Map<string, string>();
+	const files: Array<{ path: string; data: Uint8Array }> = [];
+	const manifest: ArchiveManifest = {
+		source: metadata.source,
+		title: metadata.title,
+		created: new Date().toISOString(),
+		document: ARCHIVE_DOCUMENT,
+		assets: [],
+		failures: [],
+	};
+
+	urls.forEach((url, index) => {
+		const result = results[index];
+		if (result.status === 'rejected') {
+			const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+			manifest.failures.push({ url, reason });
+			return;
+		}
+		const path = assetPath(url, result.value.contentType, used);
+		paths.set(url, path);
+		files.push({ path, data: result.value.data });
+		manifest.assets.push({
+			url,
+			path,
+			contentType: result.value.contentType,
+			bytes: result.value.data.length,
+		});
+	});
+
+	const zip = createZip([
+		{ path: ARCHIVE_DOCUMENT, data: rewriteImageUrls(markdown, paths) },
+		...files,
+		{ path: ARCHIVE_MANIFEST, data: `${JSON.stringify(manifest, null, 2)}\n` },
+	]);
+	return { zip, manifest };
+}
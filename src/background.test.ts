@@ -1,15 +1,20 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
-type MessagePayload = { type?: string };
-type MessageSenderPayload = Record<string, never>;
-type ResponsePayload = { ok: boolean; message?: string };
+type MessagePayload = {
+	type?: string;
+	format?: string;
+	preview?: boolean;
+	request?: Record<string, unknown>;
+};
+type MessageSenderPayload = { tab?: { id?: number } };
+type ResponsePayload = { ok: boolean; message?: string; result?: unknown; frames?: unknown };
 type RuntimeMessageListener = (
 	message: MessagePayload,
 	sender: MessageSenderPayload,
 	sendResponse: (response: ResponsePayload) => void
 ) => boolean | undefined;
 type ContextMenuListener = (
-	info: { menuItemId: string },
+	info: { menuItemId: string; selectionText?: string },
 	tab?: { id?: number; windowId?: number }
 ) => Promise<void> | void;
 type ActionListener = (tab: { id?: number; windowId?: number }) => Promise<void> | void;
@@ -35,6 +40,8 @@ interface ChromeHarness {
 		tabsUpdate: ReturnType<typeof vi.fn>;
 		tabsQuery: ReturnType<typeof vi.fn>;
 		executeScript: ReturnType<typeof vi.fn>;
+		tabsSendMessage: ReturnType<typeof vi.fn>;
+		download: ReturnType<typeof vi.fn>;
 	};
 }
 
@@ -68,6 +75,8 @@ function setupChromeMock(executeScriptShouldFail: boolean): ChromeHarness {
 					throw new Error('injection failed');
 				})
 			: vi.fn(async () => []),
+		tabsSendMessage: vi.fn(async () => undefined),
+		download: vi.fn(async () => 1),
 	};
 
 	Object.defineProperty(globalThis, 'chrome', {
@@ -88,6 +97,7 @@ function setupChromeMock(executeScriptShouldFail: boolean): ChromeHarness {
 			tabs: {
 				query: mocks.tabsQuery,
 				update: mocks.tabsUpdate,
+				sendMessage: mocks.tabsSendMessage,
 			},
 			windows: {
 				update: mocks.windowsUpdate,
@@ -98,6 +108,9 @@ function setupChromeMock(executeScriptShouldFail: boolean): ChromeHarness {
 			commands: {
 				onCommand: events.onCommand,
 			},
+			downloads: {
+				download: mocks.download,
+			},
 		},
 	});
 
@@ -156,4 +169,301 @@ describe('background runtime conversion message', () => {
 		});
 		expect(consoleErrorSpy).toHaveBeenCalled();
 	});
+
+	it('returns the conversion for preview requests without focusing the tab', async () => {
+		const harness = setupChromeMock(false);
+		const preview = {
+			result: { markdown: '# Hi' },
+			extractedBy: 'readability',
+			source: '<h1>Hi</h1>',
+		};
+		harness.mocks.executeScript.mockResolvedValue([{ result: { preview } }]);
+		await loadBackground();
+
+		const sendResponse = vi.fn<(response: ResponsePayload) => void>();
+		harness.events.onRuntimeMessage.getListener()?.(
+			{ type: 'convert-current-tab', preview: true },
+			{},
+			sendResponse
+		);
+
+		await vi.waitFor(() => {
+			expect(sendResponse).toHaveBeenCalledWith({ ok: true, result: preview });
+		});
+		expect(harness.mocks.executeScript).toHaveBeenCalledWith(
+			expect.objectContaining({ args: [{ preview: true }] })
+		);
+		expect(harness.mocks.windowsUpdate).not.toHaveBeenCalled();
+		expect(harness.mocks.tabsUpdate).not.toHaveBeenCalled();
+	});
+
+	it('reports errors raised by the content script', async () => {
+		const harness = setupChromeMock(false);
+		harness.mocks.executeScript.mockResolvedValue([
+			{ result: { error: 'Select some text on the page first.' } },
+		]);
+		vi.spyOn(console, 'error').mockImplementation(() => undefined);
+		await loadBackground();
+
+		const sendResponse = vi.fn<(response: ResponsePayload) => void>();
+		harness.events.onRuntimeMessage.getListener()?.(
+			{ type: 'convert-current-tab', preview: true },
+			{},
+			sendResponse
+		);
+
+		await vi.waitFor(() => {
+			expect(sendResponse).toHaveBeenCalledWith({
+				ok: false,
+				message: 'Select some text on the page first.',
+			});
+		});
+	});
+
+	it('saves output files for content scripts through chrome.downloads', async () => {
+		const harness = setupChromeMock(false);
+		await loadBackground();
+
+		const sendResponse = vi.fn<(response: ResponsePayload) => void>();
+		const result = harness.events.onRuntimeMessage.getListener()?.(
+			{
+				type: 'download-output',
+				request: {
+					text: '# Hi',
+					filename: 'notes/hi.md',
+					mimeType: 'text/markdown',
+					saveAs: true,
+					conflict: 'overwrite',
+				},
+			},
+			{},
+			sendResponse
+		);
+		expect(result).toBe(true);
+
+		await vi.waitFor(() => {
+			expect(sendResponse).toHaveBeenCalledWith({ ok: true });
+		});
+		expect(harness.mocks.download).toHaveBeenCalledWith({
+			url: 'data:text/markdown;charset=utf-8,%23%20Hi',
+			filename: 'notes/hi.md',
+			saveAs: true,
+			conflictAction: 'overwrite',
+		});
+		expect(harness.mocks.executeScript).not.toHaveBeenCalled();
+	});
+
+	it('reports download failures to the content script', async () => {
+		const harness = setupChromeMock(false);
+		harness.mocks.download.mockRejectedValue(new Error('Invalid filename'));
+		vi.spyOn(console, 'error').mockImplementation(() => undefined);
+		await loadBackground();
+
+		const sendResponse = vi.fn<(response: ResponsePayload) => void>();
+		harness.events.onRuntimeMessage.getListener()?.(
+			{ type: 'download-output', request: { text: '', filename: 'a.md' } },
+			{},
+			sendResponse
+		);
+
+		await vi.waitFor(() => {
+			expect(sendResponse).toHaveBeenCalledWith({ ok: false, message: 'Invalid filename' });
+		});
+	});
+
+	it('collects snapshots from the frames of the sending tab', async () => {
+		const harness = setupChromeMock(false);
+		const snapshot = { url: 'https://other.example/', title: 'Other', html: '<p>Hi</p>' };
+		harness.mocks.executeScript.mockResolvedValue([{ result: null }, { result: snapshot }]);
+		await loadBackground();
+
+		const sendResponse = vi.fn<(response: ResponsePayload) => void>();
+		const result = harness.events.onRuntimeMessage.getListener()?.(
+			{ type: 'collect-frames' },
+			{ tab: { id: 4 } },
+			sendResponse
+		);
+		expect(result).toBe(true);
+
+		await vi.waitFor(() => {
+			expect(sendResponse).toHaveBeenCalledWith({ ok: true, frames: [snapshot] });
+		});
+		expect(harness.mocks.executeScript).toHaveBeenCalledWith(
+			expect.objectContaining({ target: { tabId: 4, allFrames: true } })
+		);
+	});
+});
+
+describe('background keyboard shortcuts', () => {
+	beforeEach(() => {
+		vi.resetModules();
+		vi.restoreAllMocks();
+	});
+
+	it('saves the page as a Markdown file from the save shortcut', async () => {
+		const harness = setupChromeMock(false);
+		await loadBackground();
+
+		await harness.events.onCommand.getListener()?.('save-as-markdown');
+		expect(harness.mocks.executeScript).toHaveBeenCalledWith(
+			expect.objectContaining({ args: [{ format: 'markdown', download: true }] })
+		);
+	});
+});
+
+describe('background context menu conversion', () => {
+	beforeEach(() => {
+		vi.resetModules();
+		vi.restoreAllMocks();
+	});
+
+	async function clickMenu(info: { menuItemId: string; selectionText?: string }) {
+		const harness = setupChromeMock(false);
+		await loadBackground();
+
+		const listener = harness.events.onContextClicked.getListener();
+		if (!listener) {
+			throw new Error('Context menu listener was not registered');
+		}
+
+		await listener(info, { id: 1, windowId: 1 });
+		return harness;
+	}
+
+	it('converts the page when nothing is selected', async () => {
+		const harness = await clickMenu({ menuItemId: 'convert-to-markdown' });
+		expect(harness.mocks.executeScript).toHaveBeenCalledWith(
+			expect.objectContaining({ args: [{ mode: 'page' }] })
+		);
+	});
+
+	it('converts the selection when text is highlighted', async () => {
+		const harness = await clickMenu({ menuItemId: 'convert-to-markdown', selectionText: 'hello' });
+		expect(harness.mocks.executeScript).toHaveBeenCalledWith(
+			expect.objectContaining({ args: [{ mode: 'selection' }] })
+		);
+	});
+
+	it('passes the output format from the Copy as submenu', async () => {
+		const harness = await clickMenu({ menuItemId: 'copy-as-xml' });
+		expect(harness.mocks.executeScript).toHaveBeenCalledWith(
+			expect.objectContaining({ args: [{ mode: 'page', format: 'xml' }] })
+		);
+	});
+
+	it('ignores unknown Copy as entries', async () => {
+		const harness = await clickMenu({ menuItemId: 'copy-as-pdf' });
+		expect(harness.mocks.executeScript).not.toHaveBeenCalled();
+	});
+
+	it('downloads JSONL chunks from the download entry', async () => {
+		const harness = await clickMenu({ menuItemId: 'download-chunks' });
+		expect(harness.mocks.executeScript).toHaveBeenCalledWith(
+			expect.objectContaining({ args: [{ mode: 'page', format: 'jsonl', download: true }] })
+		);
+	});
+
+	it('saves the page as a Markdown file from the save entry', async () => {
+		const harness = await clickMenu({ menuItemId: 'save-as-markdown' });
+		expect(harness.mocks.executeScript).toHaveBeenCalledWith(
+			expect.objectContaining({ args: [{ mode: 'page', format: 'markdown', download: true }] })
+		);
+	});
+
+	it('saves a zip archive from the archive entry', async () => {
+		const harness = await clickMenu({ menuItemId: 'save-as-archive' });
+		expect(harness.mocks.executeScript).toHaveBeenCalledWith(
+			expect.objectContaining({ args: [{ mode: 'page', format: 'markdown', archive: true }] })
+		);
+	});
+
+	it('opens the element picker without converting', async () => {
+		const harness = await clickMenu({ menuItemId: 'pick-elements' });
+		expect(harness.mocks.executeScript).toHaveBeenCalledTimes(1);
+		const [[options]] = harness.mocks.executeScript.mock.calls;
+		expect(options.target).toEqual({ tabId: 1 });
+		expect(options.args).toBeUndefined();
+		expect(harness.mocks.windowsUpdate).not.toHaveBeenCalled();
+	});
+
+	it('converts the selection from the dedicated menu entry', async () => {
+		const harness = await clickMenu({ menuItemId: 'convert-selection-to-markdown' });
+		expect(harness.mocks.executeScript).toHaveBeenCalledWith(
+			expect.objectContaining({ args: [{ mode: 'selection' }] })
+		);
+	});
+});
+
+describe('background tab bundle', () => {
+	beforeEach(() => {
+		vi.resetModules();
+		vi.restoreAllMocks();
+	});
+
+	it('converts each tab without activating it and copies through the source tab', async () => {
+		const harness = setupChromeMock(false);
+		harness.mocks.tabsQuery.mockResolvedValue([
+			{ id: 1, windowId: 1, url: 'https://a.example/', title: 'A' },
+			{ id: 2, windowId: 1, url: 'chrome://settings', title: 'Settings' },
+			{ id: 3, windowId: 1, url: 'https://b.example/', title: 'B' },
+			{ id: 4, windowId: 1 },
+		]);
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		harness.mocks.tabsSendMessage.mockImplementation(async (tabId: number) => {
+			if (tabId === 3) return { ok: false, message: 'Nothing to convert' };
+			if (tabId === 4) throw new Error('Receiving end does not exist.');
+			return {
+				ok: true,
+				page: {
+					title: 'A',
+					url: 'https://a.example/',
+					frontMatter: '',
+					frontMatterFormat: 'none',
+					markdown: 'Body A',
+				},
+			};
+		});
+		await loadBackground();
+
+		await harness.events.onContextClicked.getListener()?.(
+			{ menuItemId: 'bundle-window' },
+			{
+				id: 1,
+				windowId: 1,
+			}
+		);
+
+		expect(harness.mocks.tabsQuery).toHaveBeenCalledWith({ windowId: 1 });
+		expect(harness.mocks.windowsUpdate).not.toHaveBeenCalled();
+		expect(harness.mocks.tabsUpdate).not.toHaveBeenCalled();
+		expect(harness.mocks.tabsSendMessage).toHaveBeenCalledTimes(3);
+		expect(harness.mocks.tabsSendMessage).toHaveBeenCalledWith(3, { type: 'convert-for-bundle' });
+
+		const copyCall = harness.mocks.executeScript.mock.calls.find(([options]) => options.args);
+		const [options] = copyCall ?? [];
+		expect(options.target).toEqual({ tabId: 1 });
+		const [bundle, description] = options.args as [string, string];
+		expect(bundle).toContain('1. [A](#page-1) — https://a.example/');
+		expect(bundle).toContain('[Settings](chrome://settings) — Browser pages cannot be converted');
+		expect(bundle).toContain('[B](https://b.example/) — Nothing to convert');
+		expect(bundle).toContain('- Untitled tab — Content script not loaded; reload the tab');
+		expect(description).toBe('1 tab converted, 3 skipped (see the bundle for reasons).');
+		warn.mockRestore();
+	});
+
+	it('queries only highlighted tabs for the selected tabs entry', async () => {
+		const harness = setupChromeMock(false);
+		harness.mocks.tabsQuery.mockResolvedValue([]);
+		await loadBackground();
+
+		await harness.events.onContextClicked.getListener()?.(
+			{ menuItemId: 'bundle-highlighted' },
+			{
+				id: 1,
+				windowId: 7,
+			}
+		);
+
+		expect(harness.mocks.tabsQuery).toHaveBeenCalledWith({ windowId: 7, highlighted: true });
+	});
 });
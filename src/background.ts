@@ -1,37 +1,157 @@
+import {
+	type BundlePage,
+	type BundleScope,
+	buildBundle,
+	describeBundle,
+	getTabSkipReason,
+	type SkippedTab,
+} from './bundle';
+import type { ConversionMode, ConversionRequest } from './convert';
+import { type DownloadRequest, downloadText } from './download';
+import { type FrameSnapshot, snapshotFrame } from './frames';
+import type { OutputFormat } from './output';
+import type { ConversionPreview } from './preview';
+import { migrateStoredRules } from './rules';
+
+/**
+ * Per-format entries of the "Copy as" context submenu, keyed by output format.
+ */
+const copyAsMenuItems: Record<OutputFormat, string> = {
+	markdown: 'Markdown',
+	xml: 'XML document (for LLM prompts)',
+	text: 'Plain text',
+	json: 'JSON',
+	chunks: 'Markdown chunks (for RAG)',
+	jsonl: 'JSONL chunks (for RAG)',
+};
+
+const COPY_AS_PREFIX = 'copy-as-';
+
+/**
+ * Context menu entries that combine several tabs into one bundle, keyed by scope.
+ */
+const bundleMenuItems: Record<BundleScope, string> = {
+	window: 'Copy all tabs in this window',
+	highlighted: 'Copy selected tabs',
+};
+
+const BUNDLE_PREFIX = 'bundle-';
+
 /**
- * Registers the context menu entry used to trigger Markdown conversion.
+ * Registers the context menu entries used to trigger Markdown conversion and upgrades rules
+ * saved by an older version.
  * @listens chrome.runtime#onInstalled
  */
 chrome.runtime.onInstalled.addListener(() => {
+	migrateStoredRules().catch((error: unknown) => {
+		console.error('Failed to migrate stored rules:', error);
+	});
 	chrome.contextMenus.create({
 		id: 'convert-to-markdown',
 		title: 'Copy page as Markdown',
 		contexts: ['page', 'selection'],
 	});
+	chrome.contextMenus.create({
+		id: 'convert-selection-to-markdown',
+		title: 'Copy selection as Markdown',
+		contexts: ['selection'],
+	});
+	chrome.contextMenus.create({
+		id: 'copy-as',
+		title: 'Copy as',
+		contexts: ['page', 'selection'],
+	});
+	for (const [format, title] of Object.entries(copyAsMenuItems)) {
+		chrome.contextMenus.create({
+			id: `${COPY_AS_PREFIX}${format}`,
+			parentId: 'copy-as',
+			title,
+			contexts: ['page', 'selection'],
+		});
+	}
+	chrome.contextMenus.create({
+		id: 'save-as-markdown',
+		title: 'Save page as Markdown file',
+		contexts: ['page', 'selection'],
+	});
+	chrome.contextMenus.create({
+		id: 'save-as-archive',
+		title: 'Save page as zip with images',
+		contexts: ['page', 'selection'],
+	});
+	chrome.contextMenus.create({
+		id: 'download-chunks',
+		title: 'Download chunks as JSONL',
+		contexts: ['page', 'selection'],
+	});
+	chrome.contextMenus.create({
+		id: 'pick-elements',
+		title: 'Pick elements for a site rule…',
+		contexts: ['page'],
+	});
+	for (const [scope, title] of Object.entries(bundleMenuItems)) {
+		chrome.contextMenus.create({
+			id: `${BUNDLE_PREFIX}${scope}`,
+			title,
+			contexts: ['page'],
+		});
+	}
 });
 
 /**
- * Handles context menu activations for the convert-to-markdown action.
+ * Handles context menu activations for the page, selection, "Copy as", download, tab bundle and
+ * element picker actions.
+ * A conversion triggered with highlighted text converts just the selection.
  * @listens chrome.contextMenus#onClicked
  */
 chrome.contextMenus.onClicked.addListener(async (info, tab) => {
-	if (info.menuItemId === 'convert-to-markdown' && tab?.id) {
+	if (!tab?.id) {
+		return;
+	}
+
+	const menuItemId = String(info.menuItemId);
+	if (menuItemId === 'pick-elements') {
 		try {
-			await executeConversion(tab);
+			await startElementPicker(tab.id);
 		} catch (error) {
-			console.error('Failed to execute conversion:', error);
+			console.error('Failed to start the element picker:', error);
 		}
+		return;
+	}
+	if (menuItemId.startsWith(BUNDLE_PREFIX)) {
+		const scope = menuItemId.slice(BUNDLE_PREFIX.length);
+		if (scope in bundleMenuItems) {
+			try {
+				await convertTabsToBundle(tab, scope as BundleScope);
+			} catch (error) {
+				console.error('Failed to convert tabs:', error);
+			}
+		}
+		return;
 	}
-});
 
-/**
- * Converts the active tab when the extension toolbar icon is clicked.
- * @listens chrome.action#onClicked
- */
-chrome.action.onClicked.addListener(async (tab) => {
-	if (tab?.id) {
+	const mode: ConversionMode =
+		menuItemId === 'convert-selection-to-markdown' || info.selectionText ? 'selection' : 'page';
+
+	let request: ConversionRequest | null = null;
+	if (menuItemId === 'convert-to-markdown' || menuItemId === 'convert-selection-to-markdown') {
+		request = { mode };
+	} else if (menuItemId.startsWith(COPY_AS_PREFIX)) {
+		const format = menuItemId.slice(COPY_AS_PREFIX.length);
+		if (format in copyAsMenuItems) {
+			request = { mode, format: format as OutputFormat };
+		}
+	} else if (menuItemId === 'save-as-markdown') {
+		request = { mode, format: 'markdown', download: true };
+	} else if (menuItemId === 'save-as-archive') {
+		request = { mode, format: 'markdown', archive: true };
+	} else if (menuItemId === 'download-chunks') {
+		request = { mode, format: 'jsonl', download: true };
+	}
+
+	if (request) {
 		try {
-			await executeConversion(tab);
+			await executeConversion(tab, request);
 		} catch (error) {
 			console.error('Failed to execute conversion:', error);
 		}
@@ -39,10 +159,57 @@ chrome.action.onClicked.addListener(async (tab) => {
 });
 
 /**
- * Responds to messages requesting conversion of the current active tab.
+ * Reads the content of every subframe of a tab the extension may access, for inlining
+ * cross-origin frames.
+ * @param tabId - Tab whose frames are read.
+ */
+async function collectFrameSnapshots(tabId: number): Promise<FrameSnapshot[]> {
+	const injections = await chrome.scripting.executeScript({
+		target: { tabId, allFrames: true },
+		func: snapshotFrame,
+	});
+	return injections
+		.map((injection) => injection.result as FrameSnapshot | null | undefined)
+		.filter((snapshot): snapshot is FrameSnapshot => !!snapshot);
+}
+
+/**
+ * Responds to messages requesting conversion of the current active tab, and saves files and reads
+ * cross-origin frames for content scripts, which cannot use `chrome.downloads` or
+ * `chrome.scripting` themselves.
  * @listens chrome.runtime#onMessage
  */
-chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+	if (message?.type === 'collect-frames') {
+		if (sender.tab?.id === undefined) {
+			sendResponse({ ok: false, message: 'No tab' });
+			return undefined;
+		}
+		collectFrameSnapshots(sender.tab.id).then(
+			(frames) => sendResponse({ ok: true, frames }),
+			(error: unknown) => {
+				console.error('Failed to collect frames:', error);
+				sendResponse({
+					ok: false,
+					message: error instanceof Error ? error.message : String(error),
+				});
+			}
+		);
+		return true;
+	}
+	if (message?.type === 'download-output') {
+		downloadText(message.request as DownloadRequest).then(
+			() => sendResponse({ ok: true }),
+			(error: unknown) => {
+				console.error('Failed to save file:', error);
+				sendResponse({
+					ok: false,
+					message: error instanceof Error ? error.message : String(error),
+				});
+			}
+		);
+		return true;
+	}
 	if (message?.type === 'convert-current-tab') {
 		(async () => {
 			try {
@@ -50,8 +217,11 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
 				if (!activeTab) {
 					throw new Error('No active tab');
 				}
-				await executeConversion(activeTab);
-				sendResponse({ ok: true });
+				const result = await executeConversion(activeTab, {
+					format: message.format,
+					preview: message.preview,
+				});
+				sendResponse({ ok: true, result });
 			} catch (error) {
 				console.error('Failed to convert current tab:', error);
 				sendResponse({
@@ -66,43 +236,160 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
 });
 
 /**
- * Focuses the provided tab and injects the conversion script.
+ * Focuses the provided tab and injects the conversion script. Preview requests come from the
+ * popup, which closes when its window loses focus, so the tab is left as it is.
  * @param tab - The tab that should run the Markdown conversion.
+ * @param request - Page or selection mode, an optional output format and whether to download or
+ * preview.
+ * @returns The conversion for preview requests, otherwise undefined.
  */
-async function executeConversion(tab: chrome.tabs.Tab) {
+async function executeConversion(
+	tab: chrome.tabs.Tab,
+	request: ConversionRequest = {}
+): Promise<ConversionPreview | undefined> {
 	if (tab.id === undefined || tab.windowId === undefined) {
 		throw new Error('No active tab');
 	}
 
-	await chrome.windows.update(tab.windowId, { focused: true });
-	await chrome.tabs.update(tab.id, { active: true });
+	if (!request.preview) {
+		await chrome.windows.update(tab.windowId, { focused: true });
+		await chrome.tabs.update(tab.id, { active: true });
+	}
 
-	await chrome.scripting.executeScript({
+	const [injection] = await chrome.scripting.executeScript({
 		target: { tabId: tab.id },
-		func: async () => {
+		func: async (conversionRequest: ConversionRequest) => {
 			if (!window.convertPageToMarkdown) {
+				return { error: 'Content script not loaded; reload the page' };
+			}
+			try {
+				return { preview: await window.convertPageToMarkdown(conversionRequest) };
+			} catch (error) {
+				return { error: error instanceof Error ? error.message : String(error) };
+			}
+		},
+		args: [request],
+	});
+	const outcome = injection?.result as { preview?: ConversionPreview; error?: string } | undefined;
+	if (outcome?.error) {
+		throw new Error(outcome.error);
+	}
+	return outcome?.preview;
+}
+
+/**
+ * Opens the element picker in a tab so the user can build a domain rule by pointing at elements.
+ * @param tabId - Tab the context menu was opened in.
+ */
+async function startElementPicker(tabId: number) {
+	await chrome.scripting.executeScript({
+		target: { tabId },
+		func: async () => {
+			if (!window.startElementPicker) {
+				throw new Error('Content script not loaded');
+			}
+			await window.startElementPicker();
+		},
+	});
+}
+
+/**
+ * Converts one tab for a bundle without focusing or activating it.
+ * @param tab - Tab to convert.
+ * @returns The converted page, or the reason the tab was skipped.
+ */
+async function convertTabForBundle(
+	tab: chrome.tabs.Tab
+): Promise<{ page: BundlePage } | { skipped: SkippedTab }> {
+	const title = tab.title ?? '';
+	const url = tab.url ?? '';
+	const reason = getTabSkipReason(tab);
+	if (reason || tab.id === undefined) {
+		return { skipped: { title, url, reason: reason ?? 'Tab has no id' } };
+	}
+
+	try {
+		// The content script converts the page: `activeTab` does not allow injecting scripts into
+		// tabs other than the one the user invoked the extension on.
+		const response = (await chrome.tabs.sendMessage(tab.id, { type: 'convert-for-bundle' })) as
+			| { ok: true; page: BundlePage }
+			| { ok: false; message: string }
+			| undefined;
+		if (response?.ok) {
+			return { page: response.page };
+		}
+		return {
+			skipped: { title, url, reason: response?.message ?? 'Conversion returned no result' },
+		};
+	} catch (error) {
+		// No content script answers on pages it does not run on, or in tabs opened before install.
+		console.warn(`Failed to convert tab ${tab.id} for the bundle:`, error);
+		return { skipped: { title, url, reason: 'Content script not loaded; reload the tab' } };
+	}
+}
+
+/**
+ * Converts every tab in the window (or only the highlighted tabs) without activating them, then
+ * copies the combined bundle through the tab the user invoked the action from.
+ * @param sourceTab - Tab that receives the bundle for copying; its window selects the tabs.
+ * @param scope - Convert all tabs in the window or only the highlighted ones.
+ */
+async function convertTabsToBundle(sourceTab: chrome.tabs.Tab, scope: BundleScope) {
+	if (sourceTab.id === undefined || sourceTab.windowId === undefined) {
+		throw new Error('No active tab');
+	}
+
+	const tabs = await chrome.tabs.query(
+		scope === 'highlighted'
+			? { windowId: sourceTab.windowId, highlighted: true }
+			: { windowId: sourceTab.windowId }
+	);
+	const outcomes = await Promise.all(tabs.map((tab) => convertTabForBundle(tab)));
+
+	const pages: BundlePage[] = [];
+	const skipped: SkippedTab[] = [];
+	for (const outcome of outcomes) {
+		if ('page' in outcome) {
+			pages.push(outcome.page);
+		} else {
+			skipped.push(outcome.skipped);
+		}
+	}
+
+	await chrome.scripting.executeScript({
+		target: { tabId: sourceTab.id },
+		func: async (text: string, description: string) => {
+			if (!window.copyBundle) {
 				throw new Error('Content script not loaded');
 			}
-			await window.convertPageToMarkdown();
+			await window.copyBundle(text, description);
 		},
+		args: [buildBundle(pages, skipped), describeBundle(pages.length, skipped)],
 	});
 }
 
+/**
+ * Conversion requests for each keyboard shortcut declared in the manifest.
+ */
+const commandRequests: Record<string, ConversionRequest> = {
+	'convert-to-markdown': {},
+	'save-as-markdown': { format: 'markdown', download: true },
+};
+
 /**
  * Invokes conversion when the user presses the registered keyboard shortcut.
  * @listens chrome.commands#onCommand
  */
 chrome.commands.onCommand.addListener(async (command) => {
-	if (command === 'convert-to-markdown') {
+	const request = commandRequests[command];
+	if (request) {
 		const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
 		if (activeTab) {
 			try {
-				await executeConversion(activeTab);
+				await executeConversion(activeTab, request);
 			} catch (error) {
 				console.error('Failed to execute conversion:', error);
 			}
 		}
 	}
 });
-
-export {};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+
+import { type BundlePage, buildBundle, describeBundle, getTabSkipReason } from './bundle';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const page = (title: string, url: string): BundlePage => ({
+	title,
+	url,
+	frontMatter: `---\ntitle: "${title}"\n---`,
+	frontMatterFormat: 'yaml',
+	markdown: `Body of ${title}.`,
+});
+
+// ---------------------------------------------------------------------------
+// Tab checks
+// ---------------------------------------------------------------------------
+
+describe('getTabSkipReason', () => {
+	it('accepts regular web pages', () => {
+		expect(getTabSkipReason({ id: 1, url: 'https://example.com/' })).toBeNull();
+	});
+
+	it('rejects browser pages, the web store and unloaded tabs', () => {
+		expect(getTabSkipReason({ id: 1, url: 'chrome://settings' })).toBe(
+			'Browser pages cannot be converted'
+		);
+		expect(getTabSkipReason({ id: 1, url: 'https://chromewebstore.google.com/detail/x' })).toBe(
+			'Browser pages cannot be converted'
+		);
+		expect(getTabSkipReason({ id: 1, url: 'https://example.com/', discarded: true })).toMatch(
+			/unloaded/
+		);
+	});
+
+	it('tries tabs whose URL is not visible to the extension', () => {
+		expect(getTabSkipReason({ id: 1 })).toBeNull();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Bundle layout
+// ---------------------------------------------------------------------------
+
+describe('buildBundle', () => {
+	it('links every page from the index and fences each front matter', () => {
+		const bundle = buildBundle(
+			[page('First', 'https://a.example/'), page('Second [draft]', 'https://b.example/')],
+			[],
+			'2025-01-01T00:00:00.000Z'
+		);
+
+		expect(bundle).toContain('Converted 2 of 2 tabs on 2025-01-01T00:00:00.000Z.');
+		expect(bundle).toContain('1. [First](#page-1) — https://a.example/');
+		expect(bundle).toContain('2. [Second \\[draft\\]](#page-2) — https://b.example/');
+		expect(bundle).toContain(
+			'## 1. First {#page-1}\n\n```yaml\ntitle: "First"\n```\n\nBody of First.'
+		);
+		expect(bundle).not.toContain('## Skipped tabs');
+	});
+
+	it('lists skipped tabs with their reasons', () => {
+		const bundle = buildBundle(
+			[page('First', 'https://a.example/')],
+			[
+				{
+					title: 'Settings',
+					url: 'chrome://settings',
+					reason: 'Browser pages cannot be converted',
+				},
+				{ title: '', url: '', reason: 'Content script not loaded; reload the tab' },
+			],
+			'2025-01-01T00:00:00.000Z'
+		);
+
+		expect(bundle).toContain('Converted 1 of 3 tabs');
+		expect(bundle).toContain(
+			'## Skipped tabs\n\n- [Settings](chrome://settings) — Browser pages cannot be converted\n' +
+				'- Untitled tab — Content script not loaded; reload the tab'
+		);
+	});
+
+	it('omits the front matter block when a page has none', () => {
+		const bundle = buildBundle([{ ...page('Plain', 'https://a.example/'), frontMatter: '' }], []);
+		expect(bundle).toContain('## 1. Plain {#page-1}\n\nBody of Plain.');
+	});
+});
+
+describe('describeBundle', () => {
+	it('mentions skipped tabs only when there are any', () => {
+		expect(describeBundle(3, [])).toBe('3 tabs converted.');
+		expect(describeBundle(1, [{ title: '', url: '', reason: '' }])).toBe(
+			'1 tab converted, 1 skipped (see the bundle for reasons).'
+		);
+	});
+});
@@ -0,0 +1,142 @@
+import type { FrontMatterFormat } from './frontmatter';
+
+/**
+ * Which tabs a batch conversion covers: every tab in the window or only the highlighted ones.
+ */
+export type BundleScope = 'window' | 'highlighted';
+
+/**
+ * One converted tab, rendered by its content script as a standalone Markdown document.
+ */
+export interface BundlePage {
+	title: string;
+	url: string;
+	/** Rendered front matter including its fences, or an empty string. */
+	frontMatter: string;
+	frontMatterFormat: FrontMatterFormat;
+	/** Table of contents and body, without front matter. */
+	markdown: string;
+}
+
+/**
+ * A tab that could not be converted and the reason it was skipped.
+ */
+export interface SkippedTab {
+	title: string;
+	url: string;
+	reason: string;
+}
+
+/**
+ * URL prefixes of pages that extensions are not allowed to script.
+ */
+const RESTRICTED_URL_PATTERN =
+	/^(chrome|chrome-extension|chrome-search|chrome-untrusted|devtools|edge|about|view-source):|^https:\/\/(chrome\.google\.com\/webstore|chromewebstore\.google\.com)\//;
+
+/**
+ * Explains why a tab cannot be converted without activating it, or returns null when it can.
+ * Without the `tabs` permission, tabs other than the active one have no `url`; those are tried,
+ * and pages the content script does not run on are skipped when it does not answer.
+ * @param tab - Tab to inspect; only `id`, `url` and `discarded` are read.
+ */
+export function getTabSkipReason(
+	tab: Partial<Pick<chrome.tabs.Tab, 'id' | 'url' | 'discarded'>>
+): string | null {
+	if (tab.id === undefined) {
+		return 'Tab has no id';
+	}
+	if (tab.url && RESTRICTED_URL_PATTERN.test(tab.url)) {
+		return 'Browser pages cannot be converted';
+	}
+	if (tab.discarded) {
+		return 'Tab is unloaded; open it once and try again';
+	}
+	return null;
+}
+
+/**
+ * Turns a page's front matter into a fenced code block so that several of them can sit in one
+ * document without their `---` fences being read as rules or setext headings.
+ */
+function frontMatterBlock(frontMatter: string, format: FrontMatterFormat): string {
+	const lines = frontMatter.trim().split('\n');
+	if (
+		lines.length >= 2 &&
+		/^(---|\+\+\+)$/.test(lines[0]) &&
+		lines[lines.length - 1] === lines[0]
+	) {
+		lines.splice(-1, 1);
+		lines.splice(0, 1);
+	}
+	const fence = '```';
+	return [`${fence}${format}`, ...lines, fence].join('\n');
+}
+
+function escapeLinkText(text: string): string {
+	return text.replace(/([[\]\\])/g, '\\$1');
+}
+
+/**
+ * Combines converted tabs into one Markdown document: a master index linking to every page, a
+ * list of skipped tabs with reasons, then one section per page that opens with its own front
+ * matter as a fenced block.
+ * @param pages - Converted tabs in tab order.
+ * @param skipped - Tabs that were left out.
+ * @param retrieved - Timestamp shown in the bundle header.
+ */
+export function buildBundle(
+	pages: BundlePage[],
+	skipped: SkippedTab[],
+	retrieved: string = new Date().toISOString()
+): string {
+	const total = pages.length + skipped.length;
+	const lines = [
+		'# Tab bundle',
+		'',
+		`Converted ${pages.length} of ${total} ${total === 1 ? 'tab' : 'tabs'} on ${retrieved}.`,
+		'',
+		'## Index',
+		'',
+		...pages.map(
+			(page, index) =>
+				`${index + 1}. [${escapeLinkText(page.title || page.url)}](#page-${index + 1}) — ${page.url}`
+		),
+	];
+
+	if (skipped.length > 0) {
+		lines.push(
+			'',
+			'## Skipped tabs',
+			'',
+			...skipped.map((tab) =>
+				tab.url
+					? `- [${escapeLinkText(tab.title || tab.url)}](${tab.url}) — ${tab.reason}`
+					: `- ${escapeLinkText(tab.title || 'Untitled tab')} — ${tab.reason}`
+			)
+		);
+	}
+
+	const sections = pages.map((page, index) => {
+		const parts = [`## ${index + 1}. ${page.title || page.url} {#page-${index + 1}}`];
+		if (page.frontMatter.trim()) {
+			parts.push(frontMatterBlock(page.frontMatter, page.frontMatterFormat));
+		}
+		parts.push(page.markdown);
+		return parts.join('\n\n');
+	});
+
+	return [lines.join('\n'), ...sections].join('\n\n');
+}
+
+/**
+ * Summarises a batch conversion for the notification shown after copying.
+ * @param pages - Number of converted tabs.
+ * @param skipped - Tabs that were left out.
+ */
+export function describeBundle(pages: number, skipped: SkippedTab[]): string {
+	const converted = `${pages} ${pages === 1 ? 'tab' : 'tabs'} converted`;
+	if (skipped.length === 0) {
+		return `${converted}.`;
+	}
+	return `${converted}, ${skipped.length} skipped (see the bundle for reasons).`;
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+
+import { chunkMarkdown, renderChunksJsonl, renderChunksMarkdown } from './chunks';
+import { convertToMarkdown } from './convert';
+import type { PageMetadata } from './frontmatter';
+import { defaultConversionOptions } from './pipeline';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const words = (count: number, word = 'word') => Array.from({ length: count }, () => word).join(' ');
+
+const metadata: PageMetadata = {
+	title: 'Guide',
+	source: 'https://example.com/guide',
+	authors: ['Ada'],
+	description: '',
+	retrieved: '2025-01-01T00:00:00.000Z',
+	stats: { characters: 10, words: 2, tokens: 3 },
+};
+
+// ---------------------------------------------------------------------------
+// Chunking
+// ---------------------------------------------------------------------------
+
+describe('chunkMarkdown', () => {
+	it('starts a chunk at every heading with a breadcrumb and anchor', () => {
+		const markdown = [
+			'Intro text.',
+			'## Install {#install}',
+			'Run the installer.',
+			'### Linux {#linux}',
+			'Use the package.',
+			'## Usage {#usage}',
+			'Call it.',
+		].join('\n\n');
+
+		const chunks = chunkMarkdown(markdown, '', 500);
+		expect(chunks.map((chunk) => [chunk.breadcrumb, chunk.anchor])).toEqual([
+			[[], null],
+			[['Install'], 'install'],
+			[['Install', 'Linux'], 'linux'],
+			[['Usage'], 'usage'],
+		]);
+		expect(chunks[2].markdown).toBe('### Linux {#linux}\n\nUse the package.');
+		expect(chunks.map((chunk) => chunk.index)).toEqual([0, 1, 2, 3]);
+	});
+
+	it('derives anchors matching the TOC when headings have no ids', () => {
+		const el = document.createElement('div');
+		el.innerHTML =
+			'<h2>Getting started</h2><p>One.</p><h2>Usage</h2><p>Two.</p><h3>Usage</h3><p>Three.</p>';
+		const { markdown, toc } = convertToMarkdown(el, [], {
+			...defaultConversionOptions,
+			headingIds: false,
+		});
+		expect(markdown).not.toContain('{#');
+
+		const anchors = chunkMarkdown(markdown, '', 500).map((chunk) => chunk.anchor);
+		expect(anchors).toEqual(['getting-started', 'usage', 'usage-1']);
+		expect(Array.from(toc.matchAll(/\(#([^)]+)\)/g), (m) => m[1])).toEqual(anchors);
+	});
+
+	it('skips headings without content but keeps them in the breadcrumb', () => {
+		const chunks = chunkMarkdown('# Guide {#guide}\n\n## Setup {#setup}\n\nSteps.', '', 500);
+		expect(chunks).toHaveLength(1);
+		expect(chunks[0].breadcrumb).toEqual(['Guide', 'Setup']);
+		expect(chunks[0].markdown).toBe('## Setup {#setup}\n\nSteps.');
+	});
+
+	it('continues long sections in further chunks with the same breadcrumb', () => {
+		const markdown = ['## Long {#long}', words(30), words(30), words(30)].join('\n\n');
+		const chunks = chunkMarkdown(markdown, '', 70);
+		expect(chunks).toHaveLength(2);
+		expect(chunks[1].breadcrumb).toEqual(['Long']);
+		expect(chunks[1].anchor).toBe('long');
+		expect(chunks[1].markdown).toBe(words(30));
+	});
+
+	it('never splits fenced code blocks or tables', () => {
+		const code = `\`\`\`js\n${words(40, 'a;')}\n\n${words(40, 'b;')}\n\`\`\``;
+		const table = '| A | B |\n| --- | --- |\n| 1 | 2 |';
+		const chunks = chunkMarkdown(['Before.', code, table].join('\n\n'), '', 10);
+		expect(chunks.map((chunk) => chunk.markdown)).toEqual(['Before.', code, table]);
+	});
+
+	it('keeps multi-paragraph footnote definitions in the body together', () => {
+		const definition = '[^1]: First paragraph.\n\n    Second paragraph.';
+		const chunks = chunkMarkdown(`Claim.[^1]\n\n${definition}`, '', 3);
+		expect(chunks.map((chunk) => chunk.markdown)).toEqual(['Claim.[^1]', definition]);
+	});
+
+	it('appends referenced footnote definitions to each chunk', () => {
+		const chunks = chunkMarkdown(
+			'## A {#a}\n\nOne.[^1]\n\n## B {#b}\n\nTwo.[^2] Again.[^1]',
+			'[^1]: Note one.\n[^2]: Note two.',
+			500
+		);
+		expect(chunks[0].markdown).toBe('## A {#a}\n\nOne.[^1]\n\n[^1]: Note one.');
+		expect(chunks[1].markdown).toBe(
+			'## B {#b}\n\nTwo.[^2] Again.[^1]\n\n[^2]: Note two.\n[^1]: Note one.'
+		);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+describe('renderChunksJsonl', () => {
+	it('writes one record per chunk with page metadata', () => {
+		const chunks = chunkMarkdown('Intro.\n\n## Setup {#setup}\n\nSteps.', '', 500);
+		const lines = renderChunksJsonl(chunks, metadata).split('\n');
+		expect(lines).toHaveLength(2);
+
+		const record = JSON.parse(lines[1]);
+		expect(record).toMatchObject({
+			id: 'https://example.com/guide#chunk-1',
+			index: 1,
+			total: 2,
+			url: 'https://example.com/guide#setup',
+			anchor: 'setup',
+			breadcrumb: ['Setup'],
+			content: '## Setup {#setup}\n\nSteps.',
+		});
+		expect(record.metadata.title).toBe('Guide');
+		expect(record.metadata).not.toHaveProperty('stats');
+		expect(JSON.parse(lines[0]).url).toBe('https://example.com/guide');
+	});
+});
+
+describe('renderChunksMarkdown', () => {
+	it('separates chunks with descriptive comments', () => {
+		const chunks = chunkMarkdown('Intro.\n\n## Setup {#setup}\n\nSteps.', '', 500);
+		expect(renderChunksMarkdown(chunks)).toBe(
+			'<!-- chunk 1/2 -->\n\nIntro.\n\n<!-- chunk 2/2 | Setup | #setup -->\n\n## Setup {#setup}\n\nSteps.'
+		);
+	});
+});
@@ -0,0 +1,221 @@
+import { createSlugger, slugify, splitFootnoteDefinitions } from './convert';
+import type { PageMetadata } from './frontmatter';
+import { estimateTokens } from './tokens';
+
+/**
+ * A retrieval-sized piece of a converted page.
+ */
+export interface Chunk {
+	/** Zero-based position of the chunk in the page. */
+	index: number;
+	/** Headings from the outermost section down to the one containing the chunk. */
+	breadcrumb: string[];
+	/** Slug of the nearest heading, matching the table of contents anchors. */
+	anchor: string | null;
+	/** Chunk body, followed by the definitions of any footnotes it references. */
+	markdown: string;
+	tokens: number;
+}
+
+interface Heading {
+	level: number;
+	title: string;
+	slug: string | null;
+}
+
+interface Block {
+	text: string;
+	heading?: Heading;
+}
+
+const HEADING_LINE_PATTERN = /^(#{1,6})\s+(.*?)(?:\s+\{#([^}]+)\})?\s*$/;
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+const FOOTNOTE_DEFINITION_PATTERN = /^\[\^[^\]]+\]:/;
+const FOOTNOTE_REFERENCE_PATTERN = /\[\^([^\]]+)\](?!:)/g;
+
+/**
+ * Splits Markdown into blocks separated by blank lines. Headings are blocks of their own, and
+ * fenced code blocks and footnote definitions (with their indented continuation paragraphs)
+ * are never broken up. Tables contain no blank lines, so they always form a single block.
+ */
+function splitBlocks(markdown: string): Block[] {
+	const blocks: Block[] = [];
+	let lines: string[] = [];
+	let fence: string | null = null;
+	const uniqueSlug = createSlugger();
+
+	const flush = () => {
+		const text = lines.join('\n').trim();
+		if (text) {
+			blocks.push({ text });
+		}
+		lines = [];
+	};
+
+	for (const line of markdown.split('\n')) {
+		const fenceMarker = line.match(FENCE_PATTERN)?.[1];
+		if (fence) {
+			lines.push(line);
+			if (fenceMarker?.[0] === fence[0] && fenceMarker.length >= fence.length) {
+				fence = null;
+			}
+			continue;
+		}
+		if (fenceMarker) {
+			fence = fenceMarker;
+			lines.push(line);
+			continue;
+		}
+
+		const heading = line.match(HEADING_LINE_PATTERN);
+		if (heading) {
+			flush();
+			// Without an `{#id}` suffix, the slug is derived from the title as `generateTOC` does.
+			const slug = heading[3] ?? uniqueSlug(slugify(heading[2]));
+			blocks.push({
+				text: line.trim(),
+				heading: { level: heading[1].length, title: heading[2], slug: slug || null },
+			});
+			continue;
+		}
+
+		if (!line.trim()) {
+			if (!FOOTNOTE_DEFINITION_PATTERN.test(lines[0] ?? '')) {
+				flush();
+			} else {
+				lines.push(line);
+			}
+			continue;
+		}
+		if (FOOTNOTE_DEFINITION_PATTERN.test(lines[0] ?? '') && !/^\s{4}/.test(line)) {
+			flush();
+		}
+		lines.push(line);
+	}
+	flush();
+
+	return blocks;
+}
+
+/**
+ * Splits a converted body into chunks that follow the heading hierarchy. Every heading starts a
+ * new chunk, and a section longer than `maxTokens` continues in further chunks with the same
+ * breadcrumb. Blocks are never split, so a single oversized code block or table yields an
+ * oversized chunk. Footnote definitions are copied into every chunk that references them.
+ * @param markdown - Converted body without footnote definitions.
+ * @param footnotes - Rendered footnote definitions, possibly empty.
+ * @param maxTokens - Target maximum of estimated tokens per chunk.
+ */
+export function chunkMarkdown(markdown: string, footnotes: string, maxTokens: number): Chunk[] {
+	const definitions = splitFootnoteDefinitions(footnotes);
+	const chunks: Chunk[] = [];
+	const headings: Heading[] = [];
+	let blocks: string[] = [];
+	let tokens = 0;
+	let hasContent = false;
+
+	const anchor = () =>
+		headings
+			.slice()
+			.reverse()
+			.find((heading) => heading.slug)?.slug ?? null;
+
+	const flush = () => {
+		if (hasContent) {
+			const body = blocks.join('\n\n');
+			const labels = new Set(Array.from(body.matchAll(FOOTNOTE_REFERENCE_PATTERN), (m) => m[1]));
+			const notes = Array.from(labels, (label) => definitions.get(label)).filter(
+				(note): note is string => !!note
+			);
+			const text = notes.length > 0 ? `${body}\n\n${notes.join('\n')}` : body;
+			chunks.push({
+				index: chunks.length,
+				breadcrumb: headings.map((heading) => heading.title),
+				anchor: anchor(),
+				markdown: text,
+				tokens: estimateTokens(text),
+			});
+		}
+		blocks = [];
+		tokens = 0;
+		hasContent = false;
+	};
+
+	for (const block of splitBlocks(markdown)) {
+		const cost = estimateTokens(block.text);
+
+		if (block.heading) {
+			flush();
+			const { level } = block.heading;
+			while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+				headings.pop();
+			}
+			headings.push(block.heading);
+		} else {
+			if (hasContent && tokens + cost > maxTokens) {
+				flush();
+			}
+			hasContent = true;
+		}
+
+		blocks.push(block.text);
+		tokens += cost;
+	}
+	flush();
+
+	return chunks;
+}
+
+/**
+ * Page metadata attached to every JSONL record; size counts refer to the whole page and are
+ * left out in favour of the per-chunk token count.
+ */
+function chunkMetadata(metadata: PageMetadata): Omit<PageMetadata, 'stats'> {
+	const { stats: _stats, ...rest } = metadata;
+	return rest;
+}
+
+/**
+ * Serialises chunks as JSON Lines, one record per chunk with the page metadata and a URL that
+ * points at the chunk's section.
+ * @param chunks - Output of {@link chunkMarkdown}.
+ * @param metadata - Metadata of the page the chunks came from.
+ */
+export function renderChunksJsonl(chunks: Chunk[], metadata: PageMetadata): string {
+	const page = chunkMetadata(metadata);
+	return chunks
+		.map((chunk) =>
+			JSON.stringify({
+				id: `${metadata.source}#chunk-${chunk.index}`,
+				index: chunk.index,
+				total: chunks.length,
+				url: chunk.anchor ? `${metadata.source.split('#')[0]}#${chunk.anchor}` : metadata.source,
+				anchor: chunk.anchor,
+				breadcrumb: chunk.breadcrumb,
+				tokens: chunk.tokens,
+				content: chunk.markdown,
+				metadata: page,
+			})
+		)
+		.join('\n');
+}
+
+/**
+ * Joins chunks into one Markdown document, preceding each with an HTML comment that records its
+ * position, breadcrumb and anchor.
+ * @param chunks - Output of {@link chunkMarkdown}.
+ */
+export function renderChunksMarkdown(chunks: Chunk[]): string {
+	return chunks
+		.map((chunk) => {
+			const details = [`chunk ${chunk.index + 1}/${chunks.length}`];
+			if (chunk.breadcrumb.length > 0) {
+				details.push(chunk.breadcrumb.join(' > '));
+			}
+			if (chunk.anchor) {
+				details.push(`#${chunk.anchor}`);
+			}
+			return `<!-- ${details.join(' | ').replace(/--/g, '- -')} -->\n\n${chunk.markdown}`;
+		})
+		.join('\n\n');
+}
@@ -1,16 +1,51 @@
+import { type ArchiveManifest, buildArchive } from './archive';
+import type { BundlePage } from './bundle';
 import {
-	buildFrontMatter,
 	buildOutput,
+	type ContentSource,
+	type ConversionMode,
+	type ConversionRequest,
+	convertExcerpts,
 	convertToMarkdown,
+	frameOptionsFor,
 	getMainElement,
+	getSelectionElements,
+	joinFootnotes,
+	type MarkdownResult,
+	pageTitles,
 	stripFrontMatter,
 } from './convert';
-import { domainConfigs, loadCustomConfigs } from './rules';
+import { type DownloadRequest, encodeBase64 } from './download';
+import { renderFilename } from './filename';
+import { crossOriginFrameUrls, type FrameSnapshot } from './frames';
+import { buildFrontMatter, type PageMetadata } from './frontmatter';
+import { addHistoryEntry } from './history';
+import { extractMetadata, type ReadabilityMetadata } from './metadata';
+import {
+	type ConversionResult,
+	type OutputFormat,
+	outputFormatFiles,
+	outputFormatLabels,
+	prepareOutput,
+} from './output';
+import { startElementPicker } from './picker';
+import { resolveConversionOptions } from './pipeline';
+import type { ConversionPreview } from './preview';
+import {
+	domainConfigs,
+	type ExtractionStrategy,
+	loadCustomConfigs,
+	resolveDomainConfig,
+} from './rules';
+import { loadSettings, renderOptionsFor, settings } from './settings';
 import { showErrorToast, showSuccessToast } from './toast';
+import { formatCount, measureText } from './tokens';
 
 declare global {
 	interface Window {
-		convertPageToMarkdown?: () => Promise<void>;
+		convertPageToMarkdown?: (request?: ConversionRequest) => Promise<ConversionPreview | undefined>;
+		copyBundle?: (text: string, description: string) => Promise<boolean>;
+		startElementPicker?: () => Promise<void>;
 	}
 }
 
@@ -70,27 +105,156 @@ async function copyToClipboard(text: string): Promise<boolean> {
 }
 
 /**
- * Orchestrates the end-to-end page conversion pipeline and copies Markdown to the clipboard.
+ * Asks the background worker to start a download, since content scripts cannot use
+ * `chrome.downloads` themselves.
+ * @throws When the download cannot be started.
+ */
+async function requestDownload(request: DownloadRequest): Promise<void> {
+	const response = await chrome.runtime.sendMessage({ type: 'download-output', request });
+	if (!response?.ok) {
+		throw new Error(response?.message ?? 'Download failed');
+	}
+}
+
+/**
+ * Asks the background worker for the content of cross-origin frames, which only
+ * `chrome.scripting` can read. Frames the extension may not access are left out.
+ * @returns The collected frames, or none when they cannot be collected.
+ */
+async function requestFrameSnapshots(): Promise<FrameSnapshot[]> {
+	try {
+		const response = await chrome.runtime.sendMessage({ type: 'collect-frames' });
+		return response?.ok ? (response.frames as FrameSnapshot[]) : [];
+	} catch (error) {
+		console.warn('Failed to collect frame content:', error);
+		return [];
+	}
+}
+
+/**
+ * Saves output as a file through the background worker, named with the user's filename template.
+ * @param text - Rendered output, identical to what would be copied.
+ * @param metadata - Metadata of the converted page, used by the filename template.
+ * @param format - Output format, which determines the extension.
+ * @throws When the download cannot be started.
+ */
+async function saveToFile(
+	text: string,
+	metadata: PageMetadata,
+	format: OutputFormat
+): Promise<void> {
+	const { extension, mimeType } = outputFormatFiles[format];
+	await requestDownload({
+		text,
+		filename: renderFilename(settings.filenameTemplate, metadata, extension),
+		mimeType,
+		saveAs: settings.saveAs,
+		conflict: settings.filenameConflict,
+	});
+}
+
+/**
+ * Downloads the images referenced by the Markdown from the page and saves everything as a zip
+ * archive named with the user's filename template.
+ * @param markdown - Rendered Markdown document.
+ * @param metadata - Metadata of the converted page.
+ * @returns The archive manifest, listing stored images and failures.
+ * @throws When the download cannot be started.
+ */
+async function saveArchive(markdown: string, metadata: PageMetadata): Promise<ArchiveManifest> {
+	const { zip, manifest } = await buildArchive(markdown, metadata);
+	await requestDownload({
+		text: encodeBase64(zip),
+		base64: true,
+		filename: renderFilename(settings.filenameTemplate, metadata, 'zip'),
+		mimeType: 'application/zip',
+		saveAs: settings.saveAs,
+		conflict: settings.filenameConflict,
+	});
+	return manifest;
+}
+
+/**
+ * Summarises the images stored in a zip archive for the success toast.
+ */
+function describeArchive(manifest: ArchiveManifest): string {
+	const saved = manifest.assets.length;
+	const summary = `${saved} ${saved === 1 ? 'image' : 'images'} saved`;
+	if (manifest.failures.length === 0) {
+		return `${summary}.`;
+	}
+	return `${summary}, ${manifest.failures.length} failed (see manifest.json).`;
+}
+
+/**
+ * Saves a completed conversion to the local history. Failures are logged but never block the copy.
  */
-window.convertPageToMarkdown = async () => {
+async function recordHistory(
+	result: ConversionResult,
+	extractedBy: ContentSource,
+	strategy: ExtractionStrategy,
+	format: OutputFormat,
+	output: string
+): Promise<void> {
 	try {
-		await loadCustomConfigs();
+		await addHistoryEntry(
+			{
+				url: result.metadata.source,
+				title: result.metadata.title,
+				extractedBy,
+				strategy,
+				format,
+				metadata: result.metadata,
+				markdown: joinFootnotes(result.markdown, result.footnotes),
+				output,
+			},
+			settings.historyLimit
+		);
+	} catch (err) {
+		console.warn('Failed to save conversion history:', err);
+	}
+}
+
+/**
+ * Human-readable explanation of where the copied content came from, shown in the success toast.
+ */
+const contentSourceLabels: Record<ContentSource, string> = {
+	readability: 'Extracted with Readability.',
+	selector: 'Extracted with the site rule selector.',
+	fallback: 'No article found; used the page main/body.',
+	selection: 'Converted the current selection.',
+	canonical: "Used the page's published Markdown.",
+};
+
+/**
+ * Extracts the page (or the current selection) and converts it to a format-independent result.
+ * @param mode - Convert the main article (`page`) or only the current selection (`selection`).
+ * @param withSource - Also return the HTML the conversion started from, for the preview popup.
+ * @returns The conversion result, where its content came from, the extraction strategy in effect
+ * and (when requested) its source, or null when the selection is empty.
+ */
+async function convertPage(
+	mode: ConversionMode,
+	withSource = false
+): Promise<ConversionPreview | null> {
+	await loadCustomConfigs();
+	await loadSettings();
 
-		const hostname = window.location.hostname;
-		const domainConfig = domainConfigs[hostname] || {};
-		const removeSelectors = domainConfig.remove || [];
+	const domainConfig = resolveDomainConfig(window.location.href, domainConfigs)?.config ?? null;
+	const removeSelectors = domainConfig?.remove || [];
+	const conversionOptions = resolveConversionOptions(settings.conversion, domainConfig?.conversion);
 
-		const mainEl = getMainElement(document, hostname, domainConfigs);
+	const excerptEls = mode === 'selection' ? getSelectionElements(window.getSelection()) : [];
+	if (mode === 'selection' && excerptEls.length === 0) {
+		return null;
+	}
+	const isExcerpt = excerptEls.length > 0;
 
-		const title = document.title || '';
-		const url = document.location.href || '';
-		const descriptionMeta = document.querySelector('meta[name="description"]');
-		const description = descriptionMeta?.getAttribute('content') || '';
-		const authorMeta = document.querySelector('meta[name="author"]');
-		const author = authorMeta?.getAttribute('content') || '';
-		const retrievalDate = new Date().toISOString();
+	const url = document.location.href || '';
+	const retrievalDate = new Date().toISOString();
 
-		let canonicalContent: string | null = null;
+	let canonicalContent: string | null = null;
+	if (!isExcerpt) {
 		try {
 			const canonicalMarkdown = await fetchCanonicalMarkdown();
 			if (canonicalMarkdown) {
@@ -100,33 +264,158 @@ window.convertPageToMarkdown = async () => {
 		} catch (canonicalError) {
 			console.warn('Failed to load canonical markdown:', canonicalError);
 		}
+	}
 
-		let bodyContent: string;
-		let toc: string;
-		if (canonicalContent) {
-			bodyContent = canonicalContent;
-			toc = '';
-		} else {
-			const result = convertToMarkdown(mainEl, removeSelectors);
-			bodyContent = result.markdown;
-			toc = result.toc;
+	let converted: MarkdownResult;
+	let extractedBy: ContentSource;
+	let readabilityMetadata: ReadabilityMetadata | undefined;
+	let source = '';
+	if (isExcerpt) {
+		extractedBy = 'selection';
+		if (withSource) {
+			source = excerptEls.map((el) => el.outerHTML).join('\n\n');
+		}
+		converted = convertExcerpts(excerptEls, removeSelectors, conversionOptions);
+	} else if (canonicalContent) {
+		extractedBy = 'canonical';
+		source = withSource ? canonicalContent : '';
+		converted = { markdown: canonicalContent, toc: '', footnotes: '' };
+	} else {
+		const frameSnapshots =
+			conversionOptions.inlineFrames && crossOriginFrameUrls(document).length > 0
+				? await requestFrameSnapshots()
+				: undefined;
+		const main = getMainElement(
+			document,
+			domainConfig,
+			settings.extractionStrategy,
+			frameOptionsFor(conversionOptions, frameSnapshots)
+		);
+		extractedBy = main.source;
+		readabilityMetadata = main.readability;
+		if (withSource) {
+			source = main.element.outerHTML;
+		}
+		converted = convertToMarkdown(
+			main.element,
+			removeSelectors,
+			conversionOptions,
+			pageTitles(document, main)
+		);
+	}
+
+	const metadata = extractMetadata(document, readabilityMetadata);
+	return {
+		result: {
+			metadata: {
+				title: metadata.title,
+				source: url,
+				authors: metadata.authors,
+				description: metadata.description,
+				retrieved: retrievalDate,
+				published: metadata.published,
+				modified: metadata.modified,
+				siteName: metadata.siteName,
+				canonical: metadata.canonical,
+				language: metadata.language,
+				tags: metadata.keywords,
+				excerpt: isExcerpt,
+			},
+			...converted,
+		},
+		extractedBy,
+		strategy: domainConfig?.strategy ?? settings.extractionStrategy,
+		source,
+	};
+}
+
+/**
+ * Orchestrates the end-to-end page conversion pipeline and copies the output to the clipboard, or
+ * saves it as a file when the request asks for a download. Preview requests skip both and return
+ * the conversion to the popup instead.
+ * @param request - Page or selection mode, an optional output format overriding the default and
+ * whether to download or preview.
+ * @returns The conversion for preview requests.
+ * @throws For preview requests that have nothing to convert.
+ */
+window.convertPageToMarkdown = async (request: ConversionRequest = {}) => {
+	if (request.preview) {
+		const conversion = await convertPage(request.mode ?? 'page', true);
+		if (!conversion) {
+			throw new Error('Select some text on the page first.');
 		}
+		return conversion;
+	}
 
-		const frontMatter = buildFrontMatter({
-			title,
-			source: url,
-			author,
-			description,
-			retrieved: retrievalDate,
-		});
+	try {
+		const conversion = await convertPage(request.mode ?? 'page');
+		if (!conversion) {
+			showErrorToast('Select some text on the page first.');
+			return;
+		}
+
+		const format = request.format ?? settings.outputFormat;
+		const {
+			output: finalOutput,
+			result,
+			omittedSections,
+		} = prepareOutput(conversion.result, format, settings.tokenBudget, renderOptionsFor(settings));
 
-		const finalOutput = buildOutput(frontMatter, toc, bodyContent);
+		let success: boolean;
+		let manifest: ArchiveManifest | null = null;
+		if (request.archive) {
+			manifest = await saveArchive(finalOutput, result.metadata).catch((err: unknown) => {
+				console.error('Failed to save zip archive:', err);
+				return null;
+			});
+			success = manifest !== null;
+		} else if (request.download) {
+			success = await saveToFile(finalOutput, result.metadata, format).then(
+				() => true,
+				(err: unknown) => {
+					console.error('Failed to save file:', err);
+					return false;
+				}
+			);
+		} else {
+			success = await copyToClipboard(finalOutput);
+		}
 
-		const success = await copyToClipboard(finalOutput);
 		if (success) {
-			showSuccessToast('Markdown copied to clipboard.');
+			await recordHistory(result, conversion.extractedBy, conversion.strategy, format, finalOutput);
+			const stats = measureText(finalOutput);
+			const size = `${formatCount(stats.words)} words · ~${formatCount(stats.tokens)} tokens`;
+			const trimmed =
+				omittedSections > 0
+					? ` Trimmed ${omittedSections} ${omittedSections === 1 ? 'section' : 'sections'} to fit the ${formatCount(settings.tokenBudget)}-token budget.`
+					: '';
+			const images = manifest ? ` ${describeArchive(manifest)}` : '';
+			showSuccessToast(
+				`${contentSourceLabels[conversion.extractedBy]} ${size}.${trimmed}${images}`,
+				manifest
+					? 'Zip archive saved'
+					: `${outputFormatLabels[format]} ${request.download ? 'saved' : 'copied'}`,
+				request.download || request.archive
+					? undefined
+					: {
+							label: 'Save as file',
+							onClick: () => {
+								saveToFile(finalOutput, result.metadata, format).then(
+									() => showSuccessToast('Saved to your downloads folder.', 'File saved'),
+									(err: unknown) => {
+										console.error('Failed to save file:', err);
+										showErrorToast('Failed to save the file. Check console for details.');
+									}
+								);
+							},
+						}
+			);
 		} else {
-			showErrorToast('Failed to copy. Check console for details.');
+			showErrorToast(
+				request.download || request.archive
+					? 'Failed to save the file. Check console for details.'
+					: 'Failed to copy. Check console for details.'
+			);
 			console.error('Markdown output:', finalOutput);
 		}
 	} catch (err) {
@@ -134,3 +423,67 @@ window.convertPageToMarkdown = async () => {
 		showErrorToast('Error converting page. Check console.');
 	}
 };
+
+/**
+ * Converts the page without copying it, for batch conversions run from the background worker on
+ * tabs that are not active. The body is rendered as Markdown with the user's front matter
+ * settings; token budgets are not applied.
+ */
+async function convertPageForBundle(): Promise<BundlePage> {
+	const conversion = await convertPage('page');
+	if (!conversion) {
+		throw new Error('Nothing to convert');
+	}
+
+	const { metadata, toc, markdown, footnotes } = conversion.result;
+	return {
+		title: metadata.title,
+		url: metadata.source,
+		frontMatter: buildFrontMatter(metadata, {
+			format: settings.frontMatterFormat,
+			template: settings.frontMatterTemplate,
+		}),
+		frontMatterFormat: settings.frontMatterFormat,
+		markdown: buildOutput('', toc, joinFootnotes(markdown, footnotes)),
+	};
+}
+
+/**
+ * Converts the page for a tab bundle. The background worker asks through a message because
+ * `activeTab` only lets it inject scripts into the tab the user invoked it on.
+ * @listens chrome.runtime#onMessage
+ */
+chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+	if (message?.type !== 'convert-for-bundle') return undefined;
+	convertPageForBundle().then(
+		(page) => sendResponse({ ok: true, page }),
+		(error: unknown) =>
+			sendResponse({
+				ok: false,
+				message: error instanceof Error ? error.message : String(error),
+			})
+	);
+	return true;
+});
+
+/**
+ * Copies a bundle assembled by the background worker and reports the outcome in a toast.
+ * @param text - Bundle document to copy.
+ * @param description - Summary of converted and skipped tabs.
+ * @returns True when the clipboard update succeeds.
+ */
+window.copyBundle = async (text: string, description: string) => {
+	const success = await copyToClipboard(text);
+	if (success) {
+		showSuccessToast(description, 'Tab bundle copied');
+	} else {
+		showErrorToast('Failed to copy the tab bundle. Check console for details.');
+		console.error('Bundle output:', text);
+	}
+	return success;
+};
+
+/**
+ * Opens the element picker for building a rule for this site, started from the context menu.
+ */
+window.startElementPicker = startElementPicker;
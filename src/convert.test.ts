@@ -1,10 +1,11 @@
 import { describe, expect, it } from 'vitest';
 
 import {
-	buildFrontMatter,
+	alignAnchorLinks,
 	buildOutput,
 	chooseBestSrcFromSrcset,
 	cleanContent,
+	convertExcerpts,
 	convertToMarkdown,
 	describeEmbeddedMedia,
 	describeSVGs,
@@ -12,14 +13,20 @@ import {
 	escapeYaml,
 	extractLanguage,
 	firstNonEmpty,
+	frameOptionsFor,
 	generateTOC,
+	getMainElement,
+	getSelectionElements,
+	normalizeHeadingLevels,
 	normalizeLinks,
 	postProcessMarkdown,
+	removeTitleHeading,
 	slugify,
 	stripFrontMatter,
 	trimFencePadding,
 	unwrapHeadingLinks,
 } from './convert';
+import { defaultConversionOptions, type LinkStyle } from './pipeline';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -129,6 +136,11 @@ describe('postProcessMarkdown', () => {
 	it('trims trailing whitespace from lines', () => {
 		expect(postProcessMarkdown('hello   \nworld   ')).toBe('hello\nworld');
 	});
+
+	it('keeps smart quotes when straightening is off', () => {
+		const options = { ...defaultConversionOptions, straightenQuotes: false };
+		expect(postProcessMarkdown('\u201CHello\u201D', options)).toBe('\u201CHello\u201D');
+	});
 });
 
 describe('stripFrontMatter', () => {
@@ -226,6 +238,24 @@ describe('normalizeLinks', () => {
 		expect(el.querySelector('a')?.getAttribute('href')).toBe('#section');
 	});
 
+	it('shortens links to a section of the same page', () => {
+		const el = html('<a href="http://localhost:3000/#setup">link</a>');
+		normalizeLinks(el);
+		expect(el.querySelector('a')?.getAttribute('href')).toBe('#setup');
+	});
+
+	it('unwraps redirect links and cleans image sources', () => {
+		const el = html(
+			'<a href="https://t.co/abc" data-expanded-url="https://example.com/story?utm_source=tw">story</a>' +
+				'<img src="https://cdn.example.com/photo.jpg?utm_medium=feed&w=640" alt="">'
+		);
+		normalizeLinks(el);
+		expect(el.querySelector('a')?.getAttribute('href')).toBe('https://example.com/story');
+		expect(el.querySelector('img')?.getAttribute('src')).toBe(
+			'https://cdn.example.com/photo.jpg?w=640'
+		);
+	});
+
 	it('ignores javascript: hrefs', () => {
 		const el = html('<a href="javascript:void(0)">link</a>');
 		normalizeLinks(el);
@@ -242,6 +272,12 @@ describe('unwrapHeadingLinks', () => {
 		expect(h2?.textContent).toBe('Heading Text');
 	});
 
+	it('keeps the id of an unwrapped anchor', () => {
+		const el = html('<h2><a name="setup" href="#setup">Setup</a></h2>');
+		unwrapHeadingLinks(el);
+		expect(el.querySelector('h2')?.id).toBe('setup');
+	});
+
 	it('leaves headings with multiple children alone', () => {
 		const el = html('<h2><a href="/page">Link</a> <span>extra</span></h2>');
 		unwrapHeadingLinks(el);
@@ -270,6 +306,12 @@ describe('describeSVGs', () => {
 		expect(el.textContent).toContain('[SVG: Flow chart]');
 	});
 
+	it('lists the labels of undescribed charts', () => {
+		const el = html('<svg width="500" height="300"><text>Sales</text><text>2024</text></svg>');
+		describeSVGs(el);
+		expect(el.textContent).toBe('[SVG diagram: Sales, 2024]');
+	});
+
 	it('falls back to [SVG diagram] for large undescribed SVGs', () => {
 		const el = html('<svg width="500" height="300"></svg>');
 		describeSVGs(el);
@@ -311,6 +353,78 @@ describe('generateTOC', () => {
 		const toc = generateTOC(el);
 		expect(toc).toContain('#custom-id)');
 	});
+
+	it('indents relative to the shallowest heading', () => {
+		const el = html('<h3>Setup</h3><h4>Install</h4><h3>Usage</h3>');
+		expect(generateTOC(el)).toBe('- [Setup](#setup)\n  - [Install](#install)\n- [Usage](#usage)');
+	});
+
+	it('limits the depth but still assigns every heading id', () => {
+		const el = html('<h2>A</h2><h3>B</h3><h4>C</h4>');
+		expect(generateTOC(el, 2)).toBe('- [A](#a)\n  - [B](#b)');
+		expect(el.querySelector('h4')?.id).toBe('c');
+	});
+
+	it('gives headings with duplicate IDs the suffixed IDs used in the TOC', () => {
+		const el = html('<h2 id="faq">FAQ</h2><h2 id="faq">More FAQ</h2>');
+		const toc = generateTOC(el);
+		expect(toc).toContain('[More FAQ](#faq-1)');
+		expect(Array.from(el.querySelectorAll('h2')).map((h) => h.id)).toEqual(['faq', 'faq-1']);
+	});
+});
+
+describe('removeTitleHeading', () => {
+	it('removes a leading heading that repeats the page title', () => {
+		const el = html('<img src="/hero.png" alt=""><h1>Hello, World!</h1><p>Body</p>');
+		expect(removeTitleHeading(el, ['Hello world – Example Blog'])).toBe(true);
+		expect(el.querySelector('h1')).toBeNull();
+	});
+
+	it('keeps headings that come after text or differ from the title', () => {
+		const intro = html('<p>Intro</p><h1>Hello</h1>');
+		expect(removeTitleHeading(intro, ['Hello'])).toBe(false);
+		const other = html('<h1>Chapter one</h1>');
+		expect(removeTitleHeading(other, ['Hello'])).toBe(false);
+		expect(other.querySelector('h1')).not.toBeNull();
+	});
+});
+
+describe('normalizeHeadingLevels', () => {
+	const levels = (el: HTMLElement) =>
+		Array.from(el.querySelectorAll('h1,h2,h3,h4,h5,h6')).map((h) => h.tagName);
+
+	it('shifts the shallowest heading to the top level', () => {
+		const el = html('<h3 id="a">A</h3><h4>B</h4><h3>C</h3>');
+		normalizeHeadingLevels(el, 2);
+		expect(levels(el)).toEqual(['H2', 'H3', 'H2']);
+		expect(el.querySelector('h2')?.id).toBe('a');
+	});
+
+	it('fills skipped levels', () => {
+		const el = html('<h1>A</h1><h4>B</h4><h6>C</h6><h2>D</h2>');
+		normalizeHeadingLevels(el, 2);
+		expect(levels(el)).toEqual(['H2', 'H3', 'H4', 'H3']);
+	});
+
+	it('caps levels at h6', () => {
+		const el = html('<h1>A</h1><h2>B</h2><h3>C</h3>');
+		normalizeHeadingLevels(el, 5);
+		expect(levels(el)).toEqual(['H5', 'H6', 'H6']);
+	});
+});
+
+describe('alignAnchorLinks', () => {
+	it('points links to elements inside a heading at the heading', () => {
+		const el = html('<h2 id="setup"><span id="install">Setup</span></h2><a href="#install">go</a>');
+		alignAnchorLinks(el);
+		expect(el.querySelector('a')?.getAttribute('href')).toBe('#setup');
+	});
+
+	it('leaves other same-page links alone', () => {
+		const el = html('<h2 id="setup">Setup</h2><p id="note">Note</p><a href="#note">go</a>');
+		alignAnchorLinks(el);
+		expect(el.querySelector('a')?.getAttribute('href')).toBe('#note');
+	});
 });
 
 describe('extractLanguage', () => {
@@ -333,26 +447,129 @@ describe('extractLanguage', () => {
 	});
 });
 
-// ---------------------------------------------------------------------------
-// High-level pipeline
-// ---------------------------------------------------------------------------
+describe('getMainElement', () => {
+	function makeDocument(body: string): Document {
+		const doc = document.implementation.createHTMLDocument('Test');
+		doc.body.innerHTML = body;
+		return doc;
+	}
+
+	const paragraph =
+		'<p>This paragraph has plenty of words, commas, and sentences to score well. ' +
+		'It keeps going, with more detail, so that Readability treats it as article text.</p>';
+	const page = [
+		'<div id="sidebar"><p>Sidebar links</p></div>',
+		`<article>${paragraph.repeat(6)}</article>`,
+		'<div id="custom"><p>Custom content</p></div>',
+	].join('');
+
+	it('uses Readability by default', () => {
+		const result = getMainElement(makeDocument(page), { selector: '#custom' });
+		expect(result.source).toBe('readability');
+		expect(result.element.textContent).toContain('plenty of words');
+	});
+
+	it('honours a selector strategy on the rule', () => {
+		const result = getMainElement(makeDocument(page), {
+			selector: '#custom',
+			strategy: 'selector',
+		});
+		expect(result.source).toBe('selector');
+		expect(result.element.id).toBe('custom');
+	});
+
+	it('honours the global default strategy', () => {
+		const result = getMainElement(makeDocument(page), { selector: '#custom' }, 'selector');
+		expect(result.source).toBe('selector');
+	});
+
+	it('falls back to Readability when the selector misses', () => {
+		const result = getMainElement(
+			makeDocument(page),
+			{ selector: '#missing', strategy: 'selector-then-readability' },
+			'selector'
+		);
+		expect(result.source).toBe('readability');
+	});
+
+	it('keeps MathJax sources that Readability would remove', () => {
+		const math =
+			'<p>The area is <span class="MathJax" id="MathJax-Element-1-Frame">πr2</span><script type="math/tex" id="MathJax-Element-1">\\pi r^2</script>, as shown.</p>';
+		const doc = makeDocument(`<article>${paragraph.repeat(6)}${math}</article>`);
+		const result = getMainElement(doc, null);
+		expect(result.source).toBe('readability');
+		expect(convertToMarkdown(result.element, []).markdown).toContain(
+			'The area is $\\pi r^2$, as shown.'
+		);
+		expect(doc.querySelector('script')).not.toBeNull();
+	});
 
-describe('buildFrontMatter', () => {
-	it('produces valid YAML front matter', () => {
-		const fm = buildFrontMatter({
-			title: 'Test "Title"',
-			source: 'https://example.com',
-			author: 'Jane',
-			description: 'A test page',
-			retrieved: '2025-01-01T00:00:00.000Z',
+	it('falls back to main or body when nothing else matches', () => {
+		const result = getMainElement(makeDocument('<main><p>Short</p></main>'), {
+			selector: '#missing',
+			strategy: 'selector',
 		});
-		expect(fm).toContain('---');
-		expect(fm).toContain('title: "Test \\"Title\\""');
-		expect(fm).toContain('source: "https://example.com"');
-		expect(fm).toContain('author: "Jane"');
+		expect(result.source).toBe('fallback');
+		expect(result.element.tagName).toBe('MAIN');
+	});
+
+	it('reads embedded pages only when switched on', () => {
+		expect(frameOptionsFor(defaultConversionOptions).frameDepth).toBe(0);
+		expect(frameOptionsFor({ ...defaultConversionOptions, inlineFrames: true }).frameDepth).toBe(2);
 	});
 });
 
+describe('getSelectionElements', () => {
+	function selectionOf(...ranges: Range[]): Pick<Selection, 'rangeCount' | 'getRangeAt'> {
+		return { rangeCount: ranges.length, getRangeAt: (index: number) => ranges[index] };
+	}
+
+	it('returns nothing for an empty selection', () => {
+		expect(getSelectionElements(null)).toEqual([]);
+		expect(getSelectionElements(selectionOf())).toEqual([]);
+	});
+
+	it('clones the selected range into a container', () => {
+		const root = html('<p id="a">First paragraph</p><p id="b">Second paragraph</p>');
+		document.body.appendChild(root);
+		const range = document.createRange();
+		range.selectNode(root.querySelector('#b')!);
+
+		const [excerpt] = getSelectionElements(selectionOf(range));
+		expect(excerpt.textContent).toBe('Second paragraph');
+		expect(root.querySelector('#b')).not.toBeNull();
+		root.remove();
+	});
+
+	it('keeps code block ancestors for partial selections', () => {
+		const root = html('<pre><code class="language-js">const x = 1;</code></pre>');
+		document.body.appendChild(root);
+		const range = document.createRange();
+		range.selectNodeContents(root.querySelector('code')!);
+
+		const [excerpt] = getSelectionElements(selectionOf(range));
+		expect(excerpt.querySelector('pre > code.language-js')).not.toBeNull();
+		root.remove();
+	});
+
+	it('orders multiple ranges by document position', () => {
+		const root = html('<p id="a">Alpha</p><p id="b">Beta</p>');
+		document.body.appendChild(root);
+		const first = document.createRange();
+		first.selectNode(root.querySelector('#a')!);
+		const second = document.createRange();
+		second.selectNode(root.querySelector('#b')!);
+
+		const excerpts = getSelectionElements(selectionOf(second, first));
+		expect(excerpts.map((el) => el.textContent)).toEqual(['Alpha', 'Beta']);
+		root.remove();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// High-level pipeline
+// ---------------------------------------------------------------------------
+
 describe('buildOutput', () => {
 	it('assembles front matter, TOC, and content', () => {
 		const output = buildOutput('---\ntitle: "T"\n---', '- [A](#a)', 'Body');
@@ -366,6 +583,13 @@ describe('buildOutput', () => {
 		expect(output).not.toContain('## Table of Contents');
 		expect(output).toContain('\n---\n\nBody');
 	});
+
+	it('omits the separator when there is no front matter or TOC', () => {
+		expect(buildOutput('', '', 'Body')).toBe('Body');
+		expect(buildOutput('', '- [A](#a)', 'Body')).toBe(
+			'## Table of Contents\n\n- [A](#a)\n\n---\n\nBody'
+		);
+	});
 });
 
 describe('convertToMarkdown', () => {
@@ -410,6 +634,16 @@ describe('convertToMarkdown', () => {
 		expect(result.markdown).toContain('| 1 | 2 |');
 	});
 
+	it('writes equations as TeX', () => {
+		const el = html(
+			'<p>Energy <span class="katex"><span class="katex-mathml"><math><semantics><mi>E</mi><annotation encoding="application/x-tex">E = mc^2</annotation></semantics></math></span><span class="katex-html" aria-hidden="true">E=mc2</span></span> is conserved.</p>' +
+				'<math display="block"><msup><mi>a</mi><mn>2</mn></msup><mo>+</mo><msup><mi>b</mi><mn>2</mn></msup></math>'
+		);
+		const { markdown } = convertToMarkdown(el, []);
+		expect(markdown).toContain('Energy $E = mc^2$ is conserved.');
+		expect(markdown).toContain('$$\na^2+b^2\n$$');
+	});
+
 	it('replaces embedded media with descriptions', () => {
 		const el = html(
 			'<p>Before</p><iframe src="https://youtube.com/embed/xyz" title="Video"></iframe><p>After</p>'
@@ -419,3 +653,157 @@ describe('convertToMarkdown', () => {
 		expect(result.markdown).not.toContain('<iframe');
 	});
 });
+
+describe('convertToMarkdown options', () => {
+	const page = `
+		<h2>Intro</h2>
+		<p>See <a href="https://example.com/a?utm_source=x&amp;id=1">this</a>\u2019s note<sup><a href="#fn1">1</a></sup>.</p>
+		<img src="https://example.com/photo.png" alt="Photo">
+		<svg width="200" height="100"><title>Chart</title></svg>
+		<ol><li id="fn1">The note.</li></ol>
+	`;
+
+	it('runs every step by default', () => {
+		const result = convertToMarkdown(html(page), []);
+		expect(result.markdown).toContain('## Intro {#intro}');
+		expect(result.markdown).toContain('(https://example.com/a?id=1)');
+		expect(result.markdown).toContain(")'s note");
+		expect(result.markdown).not.toContain('(#fn1)');
+		expect(result.markdown).toContain('![Photo]');
+		expect(result.markdown).toContain('SVG: Chart');
+		expect(result.footnotes).toBe('[^1]: The note.');
+		expect(result.toc).toContain('- [Intro](#intro)');
+	});
+
+	it('skips the steps that are switched off', () => {
+		const result = convertToMarkdown(html(page), [], {
+			toc: false,
+			tocDepth: 6,
+			normalizeHeadings: false,
+			topHeadingLevel: 2,
+			footnotes: false,
+			images: false,
+			describeMedia: false,
+			inlineFrames: false,
+			frameDepth: 2,
+			stripTrackingParams: false,
+			ampToCanonical: false,
+			headingIds: false,
+			straightenQuotes: false,
+			linkStyle: 'inline',
+			tableSpans: 'duplicate',
+			tableFallback: 'html',
+			tableAppendix: 'none',
+			urlRules: {},
+		});
+		expect(result.markdown).toContain('## Intro\n');
+		expect(result.markdown).not.toContain('{#intro}');
+		expect(result.markdown).toContain('utm_source=x');
+		expect(result.markdown).toContain(')\u2019s note');
+		expect(result.markdown).toContain('[1](#fn1)');
+		expect(result.markdown).toContain('The note.');
+		expect(result.markdown).not.toContain('Photo');
+		expect(result.markdown).not.toContain('Chart');
+		expect(result.footnotes).toBe('');
+		expect(result.toc).toBe('');
+	});
+});
+
+describe('convertToMarkdown headings', () => {
+	const page = '<h1>My Post</h1><p>Intro</p><h3>Part</h3><h5>Detail</h5>';
+
+	it('drops the title heading and normalizes levels when switched on', () => {
+		const result = convertToMarkdown(
+			html(page),
+			[],
+			{ ...defaultConversionOptions, normalizeHeadings: true, topHeadingLevel: 2 },
+			['My Post | Blog']
+		);
+		expect(result.markdown).not.toContain('My Post');
+		expect(result.markdown).toContain('## Part {#part}');
+		expect(result.markdown).toContain('### Detail {#detail}');
+		expect(result.toc).toBe('- [Part](#part)\n  - [Detail](#detail)');
+	});
+
+	it('leaves headings alone by default', () => {
+		const result = convertToMarkdown(html(page), [], defaultConversionOptions, ['My Post']);
+		expect(result.markdown).toContain('# My Post');
+		expect(result.markdown).toContain('### Part');
+		expect(result.markdown).toContain('##### Detail');
+	});
+});
+
+describe('convertToMarkdown link styles', () => {
+	const page = `
+		<h2><span id="start">Start</span></h2>
+		<p>Read <a href="https://example.com/a">the guide</a>, <a href="https://example.com/b">the FAQ</a>
+		and <a href="https://example.com/a">the guide again</a>, or jump <a href="#start">back</a>.</p>
+	`;
+	const convert = (linkStyle: LinkStyle) =>
+		convertToMarkdown(html(page), [], { ...defaultConversionOptions, linkStyle }).markdown;
+
+	it('writes inline links by default', () => {
+		const markdown = convert('inline');
+		expect(markdown).toContain('[the guide](https://example.com/a)');
+		expect(markdown).toContain('[back](#start)');
+	});
+
+	it('numbers reference links once per URL', () => {
+		const markdown = convert('reference');
+		expect(markdown).toContain('[the guide][1], [the FAQ][2]');
+		expect(markdown).toContain('[the guide again][1]');
+		expect(markdown).toMatch(/\[1\]: https:\/\/example\.com\/a\n\[2\]: https:\/\/example\.com\/b$/);
+	});
+
+	it('lists the links in an appendix for the text style', () => {
+		const markdown = convert('text');
+		expect(markdown).toContain('Read the guide, the FAQ');
+		expect(markdown).toContain(
+			'## Links\n\n1. [the guide](https://example.com/a)\n2. [the FAQ](https://example.com/b)'
+		);
+	});
+
+	it('drops links without an appendix', () => {
+		const markdown = convert('drop');
+		expect(markdown).toContain('Read the guide, the FAQ');
+		expect(markdown).not.toContain('https://example.com');
+		expect(markdown).not.toContain('## Links');
+	});
+
+	it('keeps same-page links inline and pointing at the heading in every style', () => {
+		for (const style of ['reference', 'text', 'drop'] as const) {
+			const markdown = convert(style);
+			expect(markdown).toContain('## Start {#start}');
+			expect(markdown).toContain('[back](#start)');
+		}
+	});
+
+	it('shares references across excerpts', () => {
+		const result = convertExcerpts(
+			[
+				html('<p><a href="https://example.com/a">A</a></p>'),
+				html('<p><a href="https://example.com/a">A again</a></p>'),
+			],
+			[],
+			{ ...defaultConversionOptions, linkStyle: 'reference' }
+		);
+		expect(result.markdown).toBe('[A][1]\n\n---\n\n[A again][1]\n\n[1]: https://example.com/a');
+	});
+});
+
+describe('convertExcerpts', () => {
+	it('joins excerpts with horizontal rules', () => {
+		const result = convertExcerpts([html('<p>One</p>'), html('<h2>Two</h2><p>text</p>')], []);
+		expect(result.markdown).toBe('One\n\n---\n\n## Two {#two}\n\ntext');
+		expect(result.toc).toContain('[Two](#two)');
+	});
+
+	it('numbers footnotes across excerpts', () => {
+		const excerpt = (id: string) =>
+			html(`<p>Claim<sup><a href="#${id}">1</a></sup></p><ol><li id="${id}">Note ${id}</li></ol>`);
+		const result = convertExcerpts([excerpt('a'), excerpt('b')], []);
+		expect(result.markdown).toContain('[^1]: Note a');
+		expect(result.markdown).toContain('[^2]: Note b');
+		expect(result.markdown.match(/^\[\^1\]:/gm)).toHaveLength(1);
+	});
+});
@@ -2,8 +2,15 @@ import { Readability } from '@mozilla/readability';
 import DOMPurify from 'dompurify';
 import TurndownService from 'turndown';
 import * as TurndownPluginGfm from 'turndown-plugin-gfm';
-
-import type { DomainConfig } from './rules';
+import { prepareDiagrams, svgLabels } from './diagrams';
+import { type FrameOptions, type FrameSnapshot, inlineFrames } from './frames';
+import { isMathPlaceholder, mathMarkdown, prepareMath } from './math';
+import type { ReadabilityMetadata } from './metadata';
+import type { OutputFormat } from './output';
+import { type ConversionOptions, defaultConversionOptions, type LinkStyle } from './pipeline';
+import type { DomainConfig, ExtractionStrategy } from './rules';
+import { htmlTableMarkup, isHtmlTable, prepareTables, renderTableAppendix } from './tables';
+import { cleanUrl, type UrlCleaningOptions } from './urlRules';
 
 /**
  * Selectors that are removed from every page prior to conversion to eliminate common chrome.
@@ -37,6 +44,23 @@ export function slugify(text: string): string {
 		.replace(/^-+|-+$/g, '');
 }
 
+/**
+ * Creates a function that keeps slugs unique within a document the way GitHub does, appending
+ * `-1`, `-2` and so on to repeats.
+ */
+export function createSlugger(): (slug: string) => string {
+	const usedSlugs = new Map<string, number>();
+	return (slug) => {
+		const count = usedSlugs.get(slug);
+		if (count === undefined) {
+			usedSlugs.set(slug, 0);
+			return slug;
+		}
+		usedSlugs.set(slug, count + 1);
+		return `${slug}-${count + 1}`;
+	};
+}
+
 /**
  * Picks the highest quality candidate from a srcset descriptor string.
  * @param srcset - Raw srcset attribute value.
@@ -114,15 +138,20 @@ export function escapeInfoString(value: string): string {
 /**
  * Performs final Markdown cleanup to ensure consistent spacing and formatting.
  * @param markdown - Markdown output produced by Turndown.
+ * @param options - Conversion steps; only `straightenQuotes` applies here.
  */
-export function postProcessMarkdown(markdown: string): string {
+export function postProcessMarkdown(
+	markdown: string,
+	options: ConversionOptions = defaultConversionOptions
+): string {
+	// Replace smart quotes.
+	const quoted = options.straightenQuotes
+		? markdown.replace(/[\u201C\u201D]/g, '"').replace(/[\u2018\u2019]/g, "'")
+		: markdown;
 	return (
-		markdown
+		quoted
 			/** Collapse multiple blank lines. */
 			.replace(/\n{3,}/g, '\n\n')
-			/** Replace smart quotes. */
-			.replace(/[\u201C\u201D]/g, '"')
-			.replace(/[\u2018\u2019]/g, "'")
 			/** Replace non-breaking spaces. */
 			.replace(/\u00A0/g, ' ')
 			/** Trim trailing whitespace from lines. */
@@ -190,6 +219,23 @@ export function trimFencePadding(code: string): string {
 // DOM manipulation helpers
 // ---------------------------------------------------------------------------
 
+/**
+ * Returns the URL that relative links inside a node resolve against: the base URL of its
+ * document, which is the page URL for live pages and the `<base>` of parsed snapshots.
+ */
+function baseUrlOf(node: Node): string {
+	return node.ownerDocument?.baseURI || location.href;
+}
+
+/**
+ * Removes every descendant matching a selector.
+ */
+function removeAll(el: HTMLElement, selector: string): void {
+	el.querySelectorAll(selector).forEach((node) => {
+		node.remove();
+	});
+}
+
 /**
  * Promotes lazily-loaded image sources to the `src` attribute when possible.
  * @param img - Image element to normalize.
@@ -259,7 +305,7 @@ export function resolveLazyImage(img: HTMLImageElement): void {
 
 	if (chosenSrc) {
 		try {
-			img.src = new URL(chosenSrc, location.href).href;
+			img.src = new URL(chosenSrc, baseUrlOf(img)).href;
 		} catch (_err) {
 			img.src = chosenSrc;
 		}
@@ -280,6 +326,8 @@ export function cleanContent(el: HTMLElement, removeSelectors: string[]): void {
 	});
 
 	const mediaTags = new Set(['IMG', 'VIDEO', 'AUDIO', 'PICTURE', 'SOURCE']);
+	// Empty cells and rows hold the positions of the cells after them.
+	const tableTags = new Set(['TR', 'TD', 'TH']);
 	el.querySelectorAll('*').forEach((node) => {
 		const element = node as HTMLElement;
 
@@ -299,6 +347,7 @@ export function cleanContent(el: HTMLElement, removeSelectors: string[]): void {
 
 		if (
 			!element.textContent?.trim() &&
+			!tableTags.has(element.tagName) &&
 			element.querySelectorAll('img, video, audio').length === 0
 		) {
 			element.remove();
@@ -316,20 +365,47 @@ export function cleanContent(el: HTMLElement, removeSelectors: string[]): void {
 			return;
 		}
 
-		if (img.src) {
+		const rawSrc = img.getAttribute('src');
+		if (rawSrc) {
 			try {
-				img.src = new URL(img.src, location.href).href;
+				img.src = new URL(rawSrc, baseUrlOf(img)).href;
 			} catch (_e) {}
 		}
 	});
 }
 
 /**
- * Rewrites anchor URLs to remove tracking parameters while preserving relativity.
- * @param el - Element whose descendant links should be normalized.
+ * Reads the destination a link displays, for redirect wrappers such as `t.co` whose URL does not
+ * contain it.
  */
-export function normalizeLinks(el: HTMLElement): void {
-	const trackingParams = new Set(['fbclid', 'gclid', 'mc_cid', 'mc_eid', 'ref']);
+function shownLinkTarget(anchor: Element): string | null {
+	const text = anchor.textContent?.trim() ?? '';
+	return (
+		anchor.getAttribute('data-expanded-url') ||
+		anchor.getAttribute('title') ||
+		(/^https?:\/\/\S+$/.test(text) && !text.endsWith('…') ? text : null)
+	);
+}
+
+/**
+ * Resolves link and image URLs against the page and cleans them with the URL rules. Links to a
+ * section of the same page become `#id` links.
+ * @param el - Element whose descendant links and images should be normalized.
+ * @param options - URL cleaning settings; see `cleanUrl`.
+ */
+export function normalizeLinks(
+	el: HTMLElement,
+	options: UrlCleaningOptions = defaultConversionOptions
+): void {
+	el.querySelectorAll('img[src]').forEach((img) => {
+		const rawSrc = img.getAttribute('src');
+		if (!rawSrc || rawSrc.startsWith('data:')) {
+			return;
+		}
+		try {
+			img.setAttribute('src', cleanUrl(new URL(rawSrc, baseUrlOf(img)).href, options));
+		} catch (_err) {}
+	});
 
 	el.querySelectorAll('a[href]').forEach((anchor) => {
 		const rawHref = anchor.getAttribute('href');
@@ -342,20 +418,13 @@ export function normalizeLinks(el: HTMLElement): void {
 		}
 
 		try {
-			const url = new URL(rawHref, location.href);
-			const paramsToDelete: string[] = [];
-
-			url.searchParams.forEach((_, key) => {
-				const lowerKey = key.toLowerCase();
-				if (lowerKey.startsWith('utm_') || trackingParams.has(lowerKey)) {
-					paramsToDelete.push(key);
-				}
-			});
-
-			paramsToDelete.forEach((key) => {
-				url.searchParams.delete(key);
-			});
-			anchor.setAttribute('href', url.toString());
+			const url = new URL(rawHref, baseUrlOf(anchor));
+			const page = new URL(baseUrlOf(anchor));
+			if (url.hash && url.href.slice(0, -url.hash.length) === page.href.replace(/#.*$/, '')) {
+				anchor.setAttribute('href', url.hash);
+				return;
+			}
+			anchor.setAttribute('href', cleanUrl(url.href, options, shownLinkTarget(anchor)));
 		} catch (_err) {}
 	});
 }
@@ -377,6 +446,10 @@ export function unwrapHeadingLinks(el: HTMLElement): void {
 		}
 
 		const anchor = onlyChild as HTMLElement;
+		const anchorId = anchor.id || anchor.getAttribute('name');
+		if (!element.id && anchorId) {
+			element.id = anchorId;
+		}
 		element.innerHTML = anchor.innerHTML;
 	});
 }
@@ -433,7 +506,8 @@ export function prepareCodeBlockContainers(el: HTMLElement): void {
 }
 
 /**
- * Replaces SVG elements with textual descriptions, removing decorative/icon SVGs.
+ * Replaces SVG elements with textual descriptions, removing decorative/icon SVGs. Charts without a
+ * title are described by their text labels; see `svgLabels`.
  * @param el - Element whose descendant SVGs are inspected.
  */
 export function describeSVGs(el: HTMLElement): void {
@@ -467,8 +541,10 @@ export function describeSVGs(el: HTMLElement): void {
 			continue;
 		}
 
+		const labels = svgLabels(svg);
 		const placeholder = svg.ownerDocument.createElement('p');
-		placeholder.textContent = '[SVG diagram]';
+		placeholder.textContent =
+			labels.length > 0 ? `[SVG diagram: ${labels.join(', ')}]` : '[SVG diagram]';
 		svg.replaceWith(placeholder);
 	}
 }
@@ -503,7 +579,7 @@ export function describeEmbeddedMedia(el: HTMLElement): void {
 		let resolvedUrl = '';
 		if (rawSrc) {
 			try {
-				resolvedUrl = new URL(rawSrc, location.href).href;
+				resolvedUrl = new URL(rawSrc, baseUrlOf(node)).href;
 			} catch (_err) {
 				resolvedUrl = rawSrc;
 			}
@@ -555,13 +631,16 @@ export interface FootnoteDefinition {
 /**
  * Converts footnote references and definitions into a Markdown-friendly structure.
  * @param el - Element containing potential footnote markup.
+ * @param usedLabels - Labels already taken by other excerpts of the same output; updated here.
  * @returns An ordered list of extracted footnote definitions.
  */
-export function convertFootnotes(el: HTMLElement): FootnoteDefinition[] {
+export function convertFootnotes(
+	el: HTMLElement,
+	usedLabels: Set<string> = new Set()
+): FootnoteDefinition[] {
 	const footnotes: FootnoteDefinition[] = [];
 	const idToLabel = new Map<string, string>();
 	const idToHtml = new Map<string, string>();
-	const usedLabels = new Set<string>();
 	const escapeId =
 		typeof CSS !== 'undefined' && typeof CSS.escape === 'function'
 			? (value: string) => CSS.escape(value)
@@ -706,37 +785,166 @@ export function renderFootnotes(service: TurndownService, footnotes: FootnoteDef
 // TOC & heading helpers
 // ---------------------------------------------------------------------------
 
+const HEADING_SELECTOR = 'h1,h2,h3,h4,h5,h6';
+
+function headingLevel(heading: Element): number {
+	return parseInt(heading.tagName[1], 10);
+}
+
+/**
+ * Compares text loosely: case, punctuation and spacing are ignored.
+ */
+function looseText(text: string): string {
+	return text
+		.toLowerCase()
+		.replace(/[\s\p{P}\p{S}]+/gu, ' ')
+		.trim();
+}
+
+/**
+ * Tests whether a heading repeats the page title. Titles such as "Article – Site name" also
+ * match on the part before or after the separator.
+ */
+function matchesTitle(text: string, titles: string[]): boolean {
+	const heading = looseText(text);
+	if (!heading) return false;
+	return titles.some((title) => {
+		const parts = [title, ...title.split(/\s+[|\-–—·:»]\s+/)];
+		return parts.some((part) => looseText(part) === heading);
+	});
+}
+
+/**
+ * Lists the titles a leading heading may repeat: Readability's article title and the document
+ * title.
+ * @param doc - Converted document.
+ * @param main - Extraction result, for Readability's title.
+ */
+export function pageTitles(doc: Document, main?: MainElementResult): string[] {
+	return [main?.readability?.title ?? '', doc.title].map((title) => title.trim()).filter(Boolean);
+}
+
+/**
+ * Removes the first heading when nothing but media precedes it and it repeats the page title,
+ * which the front matter already carries.
+ * @param el - Converted content.
+ * @param titles - Page titles from {@link pageTitles}.
+ * @returns True when a heading was removed.
+ */
+export function removeTitleHeading(el: HTMLElement, titles: string[]): boolean {
+	const heading = el.querySelector(HEADING_SELECTOR);
+	if (!heading || !matchesTitle(heading.textContent ?? '', titles)) {
+		return false;
+	}
+
+	const walker = (el.ownerDocument ?? document).createTreeWalker(el, NodeFilter.SHOW_TEXT);
+	for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+		if (node.textContent?.trim()) {
+			if (!heading.contains(node)) return false;
+			break;
+		}
+	}
+	heading.remove();
+	return true;
+}
+
+/**
+ * Replaces a heading with one of another level, keeping its attributes and content.
+ */
+function retagHeading(heading: Element, level: number): void {
+	const doc = heading.ownerDocument ?? document;
+	const replacement = doc.createElement(`h${level}`);
+	for (const attribute of Array.from(heading.attributes)) {
+		replacement.setAttribute(attribute.name, attribute.value);
+	}
+	while (heading.firstChild) {
+		replacement.appendChild(heading.firstChild);
+	}
+	heading.replaceWith(replacement);
+}
+
 /**
- * Derives an indented Markdown table of contents using heading hierarchy.
+ * Shifts heading levels so that the shallowest heading sits at `topLevel`, and closes gaps such
+ * as an `h2` followed directly by an `h4`. Levels beyond `h6` are capped.
+ * @param el - Converted content.
+ * @param topLevel - Level of the top headings, from 1 to 6.
+ */
+export function normalizeHeadingLevels(el: HTMLElement, topLevel: number): void {
+	// Original and new level of each open section, from the outermost one.
+	const open: { level: number; normalized: number }[] = [];
+	el.querySelectorAll(HEADING_SELECTOR).forEach((heading) => {
+		const level = headingLevel(heading);
+		while (open.length > 0 && open[open.length - 1].level >= level) {
+			open.pop();
+		}
+		const parent = open[open.length - 1];
+		const normalized = Math.min(parent ? parent.normalized + 1 : topLevel, 6);
+		open.push({ level, normalized });
+		if (normalized !== level) {
+			retagHeading(heading, normalized);
+		}
+	});
+}
+
+/**
+ * Derives an indented Markdown table of contents using heading hierarchy. Indentation starts at
+ * the shallowest heading; every heading gets an id, including those deeper than `maxDepth`.
  * @param el - Element inspected for headings.
+ * @param maxDepth - Number of heading levels listed, counted from the shallowest one.
  */
-export function generateTOC(el: HTMLElement): string {
-	const usedSlugs = new Map<string, number>();
+export function generateTOC(el: HTMLElement, maxDepth = 6): string {
+	const uniqueSlug = createSlugger();
+	const headings = Array.from(el.querySelectorAll(HEADING_SELECTOR));
+	const topLevel = Math.min(...headings.map(headingLevel));
 
-	return Array.from(el.querySelectorAll('h1,h2,h3,h4,h5,h6'))
+	return headings
 		.map((h) => {
 			const heading = h as HTMLElement;
-			const depth = parseInt(heading.tagName[1], 10) - 1;
-			let slug = heading.id || slugify(heading.textContent || '');
-
-			const count = usedSlugs.get(slug);
-			if (count !== undefined) {
-				const next = count + 1;
-				usedSlugs.set(slug, next);
-				slug = `${slug}-${next}`;
-			} else {
-				usedSlugs.set(slug, 0);
-			}
+			const depth = headingLevel(heading) - topLevel;
+			const slug = uniqueSlug(heading.id || slugify(heading.textContent || ''));
 
-			if (!heading.id) {
-				heading.id = slug;
-			}
+			heading.id = slug;
 
-			return `${'  '.repeat(depth)}- [${heading.textContent?.trim()}](#${slug})`;
+			return depth < maxDepth
+				? `${'  '.repeat(depth)}- [${heading.textContent?.trim()}](#${slug})`
+				: '';
 		})
+		.filter(Boolean)
 		.join('\n');
 }
 
+/**
+ * Points same-page links at the heading ids used by the table of contents. Links to an element
+ * inside a heading, such as a `<span id>` wrapped in an `<h2>`, are redirected to the heading,
+ * since only the heading's id survives conversion. Run after {@link generateTOC}, which assigns
+ * the heading ids.
+ * @param el - Element containing headings and same-page links.
+ */
+export function alignAnchorLinks(el: HTMLElement): void {
+	const targets = new Map<string, string>();
+	el.querySelectorAll(HEADING_SELECTOR).forEach((heading) => {
+		heading.querySelectorAll('[id], a[name]').forEach((inner) => {
+			const innerId = inner.id || inner.getAttribute('name');
+			if (innerId && heading.id && !targets.has(innerId)) {
+				targets.set(innerId, heading.id);
+			}
+		});
+	});
+	if (targets.size === 0) return;
+
+	el.querySelectorAll('a[href^="#"]').forEach((anchor) => {
+		const rawTarget = anchor.getAttribute('href')?.slice(1) ?? '';
+		let target = rawTarget;
+		try {
+			target = decodeURIComponent(rawTarget);
+		} catch (_err) {}
+		const headingId = targets.get(target);
+		if (headingId) {
+			anchor.setAttribute('href', `#${headingId}`);
+		}
+	});
+}
+
 /**
  * Derives the language identifier for a code block using data attributes, classes, and wrappers.
  * @param pre - The <pre> element housing the code.
@@ -819,47 +1027,252 @@ export function extractTitle(
 // ---------------------------------------------------------------------------
 
 /**
- * Attempts to locate the primary article element using Readability, falling back to heuristics.
- * @param doc - Document instance to evaluate.
- * @param hostname - Current page hostname for domain config lookup.
- * @param configs - Merged domain configurations keyed by hostname.
+ * Which step of {@link getMainElement} produced the content: Readability, the rule's selector, or
+ * the generic `main` / `article` / `<body>` fallback.
  */
-export function getMainElement(
-	doc: Document,
-	hostname: string,
-	configs: Record<string, DomainConfig>
-): HTMLElement {
+export type ExtractionSource = 'readability' | 'selector' | 'fallback';
+
+/**
+ * Where the converted body came from: a {@link getMainElement} step, the user's selection, or a
+ * Markdown alternate published by the page.
+ */
+export type ContentSource = ExtractionSource | 'selection' | 'canonical';
+
+export interface MainElementResult {
+	element: HTMLElement;
+	source: ExtractionSource;
+	/** Article metadata reported by Readability whenever it ran successfully. */
+	readability?: ReadabilityMetadata;
+}
+
+/**
+ * Runs Readability on a copy of the document and returns the sanitized article, if any.
+ */
+function extractWithReadability(
+	doc: Document
+): { element: HTMLElement; metadata: ReadabilityMetadata } | null {
 	const documentClone = doc.cloneNode(true) as Document;
+	// Readability drops scripts and hidden elements holding math and diagram sources, and
+	// DOMPurify TeX annotations.
+	prepareMath(documentClone);
+	prepareDiagrams(documentClone);
 	const article = new Readability(documentClone).parse();
+	if (!article?.content) {
+		return null;
+	}
+
+	const el = doc.createElement('div');
+	el.innerHTML = DOMPurify.sanitize(article.content);
+	return {
+		element: el,
+		metadata: {
+			title: article.title,
+			byline: article.byline,
+			excerpt: article.excerpt,
+			siteName: article.siteName,
+			lang: article.lang,
+			publishedTime: article.publishedTime,
+		},
+	};
+}
 
-	if (article?.content) {
-		const el = doc.createElement('div');
-		el.innerHTML = DOMPurify.sanitize(article.content);
-		return el;
+/**
+ * Returns a clone of the first element matching the selector, or null when nothing matches.
+ */
+function extractWithSelector(doc: Document, selector: string): HTMLElement | null {
+	let liveEl: HTMLElement | null = null;
+	try {
+		liveEl = doc.querySelector(selector) as HTMLElement | null;
+	} catch (err) {
+		console.warn(`Invalid content selector "${selector}":`, err);
+	}
+	return liveEl ? (liveEl.cloneNode(true) as HTMLElement) : null;
+}
+
+/**
+ * Chooses how {@link getMainElement} inlines frames for a conversion.
+ * @param options - Resolved conversion options.
+ * @param frameSnapshots - Content of cross-origin frames, when it was collected.
+ */
+export function frameOptionsFor(
+	options: ConversionOptions,
+	frameSnapshots?: FrameSnapshot[]
+): FrameOptions {
+	return { frameDepth: options.inlineFrames ? options.frameDepth : 0, frameSnapshots };
+}
+
+/**
+ * Locates the primary article element using the extraction strategy of the matching rule (or the
+ * global default), falling back to `main`, `article` and finally `<body>`. Content rendered in
+ * open shadow roots, and optionally in frames, is flattened into the light DOM first; see
+ * `inlineFrames`.
+ * @param doc - Document instance to evaluate.
+ * @param domainConfig - Rule resolved for the page URL via `resolveDomainConfig`, if any.
+ * @param defaultStrategy - Strategy used when the rule does not set one.
+ * @param frames - Frames to inline; see {@link frameOptionsFor}.
+ * @returns The cloned content root and the step that produced it.
+ */
+export function getMainElement(
+	doc: Document,
+	domainConfig: DomainConfig | null,
+	defaultStrategy: ExtractionStrategy = 'readability',
+	frames: FrameOptions = { frameDepth: 0 }
+): MainElementResult {
+	doc = inlineFrames(doc, frames);
+	const strategy = domainConfig?.strategy ?? defaultStrategy;
+	const selector = domainConfig?.selector;
+
+	if (strategy === 'readability') {
+		const article = extractWithReadability(doc);
+		if (article) {
+			return { element: article.element, source: 'readability', readability: article.metadata };
+		}
 	}
 
-	let selector = 'main';
+	const selected = selector ? extractWithSelector(doc, selector) : null;
+	if (selected) {
+		return { element: selected, source: 'selector' };
+	}
 
-	if (configs[hostname]) {
-		selector = configs[hostname].selector;
+	if (strategy === 'selector-then-readability') {
+		const article = extractWithReadability(doc);
+		if (article) {
+			return { element: article.element, source: 'readability', readability: article.metadata };
+		}
 	}
 
 	const liveEl =
-		(doc.querySelector(selector) as HTMLElement) ||
-		(doc.querySelector('article, main') as HTMLElement) ||
+		(doc.querySelector('main') as HTMLElement) ||
+		(doc.querySelector('article') as HTMLElement) ||
 		doc.body;
-	return liveEl.cloneNode(true) as HTMLElement;
+	return { element: liveEl.cloneNode(true) as HTMLElement, source: 'fallback' };
+}
+
+/**
+ * Ancestor tags whose formatting must be preserved when a selection starts inside them, so that
+ * partial selections of code blocks, lists, tables and quotes still convert to the right syntax.
+ */
+const SELECTION_CONTEXT_TAGS = new Set([
+	'PRE',
+	'CODE',
+	'UL',
+	'OL',
+	'LI',
+	'TABLE',
+	'THEAD',
+	'TBODY',
+	'TFOOT',
+	'TR',
+	'BLOCKQUOTE',
+	'H1',
+	'H2',
+	'H3',
+	'H4',
+	'H5',
+	'H6',
+]);
+
+/**
+ * Clones each non-empty range of a selection into its own container, ordered as they appear in
+ * the document. Formatting ancestors of the range (e.g. `<pre>`, `<table>`) are re-created around
+ * the cloned contents so partial selections keep their structure.
+ * @param selection - Live selection, usually from `window.getSelection()`.
+ * @returns One detached container per selected range, in document order.
+ */
+export function getSelectionElements(
+	selection: Pick<Selection, 'rangeCount' | 'getRangeAt'> | null
+): HTMLElement[] {
+	if (!selection || selection.rangeCount === 0) {
+		return [];
+	}
+
+	const ranges: Range[] = [];
+	for (let i = 0; i < selection.rangeCount; i += 1) {
+		const range = selection.getRangeAt(i);
+		if (!range.collapsed) {
+			ranges.push(range);
+		}
+	}
+
+	ranges.sort((a, b) => a.compareBoundaryPoints(Range.START_TO_START, b));
+
+	return ranges
+		.map((range) => {
+			const container = range.commonAncestorContainer;
+			const ownerDocument = container.ownerDocument ?? document;
+			let content: Node = range.cloneContents();
+
+			let ancestor: Node | null =
+				container.nodeType === Node.ELEMENT_NODE ? container : container.parentNode;
+			while (ancestor && ancestor.nodeType === Node.ELEMENT_NODE) {
+				const element = ancestor as HTMLElement;
+				if (element.tagName === 'BODY' || element.tagName === 'HTML') {
+					break;
+				}
+				if (SELECTION_CONTEXT_TAGS.has(element.tagName)) {
+					const wrapper = element.cloneNode(false) as HTMLElement;
+					wrapper.appendChild(content);
+					content = wrapper;
+				}
+				ancestor = element.parentNode;
+			}
+
+			const el = ownerDocument.createElement('div');
+			el.appendChild(content);
+			return el;
+		})
+		.filter((el) => !!el.textContent?.trim() || !!el.querySelector('img'));
 }
 
 // ---------------------------------------------------------------------------
 // Turndown service factory
 // ---------------------------------------------------------------------------
 
+/**
+ * A link to another page collected for the reference and text link styles.
+ */
+export interface LinkReference {
+	/** Number shown in the reference or appendix, in order of first use. */
+	id: number;
+	url: string;
+	/** Text of the first link to this URL. */
+	text: string;
+}
+
+/**
+ * Renders collected links: `[n]: url` definitions for the reference style, or a numbered "Links"
+ * appendix for the text style. Other styles produce nothing.
+ * @param links - Links keyed by URL, from {@link createTurndownService}.
+ * @param style - Link style of the conversion.
+ */
+export function renderLinkReferences(links: Map<string, LinkReference>, style: LinkStyle): string {
+	const list = Array.from(links.values());
+	if (list.length === 0) return '';
+
+	if (style === 'reference') {
+		return list.map((link) => `[${link.id}]: ${link.url}`).join('\n');
+	}
+	if (style === 'text') {
+		const items = list.map((link) => {
+			const text = !link.text || link.text.startsWith('![') ? link.url : link.text;
+			return `${link.id}. [${text}](${link.url})`;
+		});
+		return ['## Links', '', ...items].join('\n');
+	}
+	return '';
+}
+
 /**
  * Creates a configured Turndown service with GFM support and custom rules for
- * headings with IDs, rich code blocks, and figure captions.
+ * headings with IDs, math, tables, rich code blocks, figure captions and the link style.
+ * @param options - Conversion steps; `headingIds` controls the `{#id}` heading suffix.
+ * @param links - Receives links to other pages for the reference and text link styles; render
+ * them with {@link renderLinkReferences}.
  */
-export function createTurndownService(): TurndownService {
+export function createTurndownService(
+	options: ConversionOptions = defaultConversionOptions,
+	links: Map<string, LinkReference> = new Map()
+): TurndownService {
 	const service = new TurndownService({
 		headingStyle: 'atx',
 		codeBlockStyle: 'fenced',
@@ -878,13 +1291,56 @@ export function createTurndownService(): TurndownService {
 			const hContent = content.trim();
 			const element = node as HTMLElement;
 
-			if (element.id) {
+			if (element.id && options.headingIds) {
 				return `\n\n${hPrefix} ${hContent} {#${element.id}}\n\n`;
 			}
 			return `\n\n${hPrefix} ${hContent}\n\n`;
 		},
 	});
 
+	service.addRule('math', {
+		filter: (node) => isMathPlaceholder(node),
+		replacement: (_, node) => mathMarkdown(node as HTMLElement),
+	});
+
+	service.addRule('htmlTables', {
+		filter: (node) => isHtmlTable(node),
+		replacement: (_, node) => htmlTableMarkup(node as HTMLElement),
+	});
+
+	// Replaces the GFM cell rule: a cell must stay on one line, and `|` would end it.
+	service.addRule('tableCells', {
+		filter: ['th', 'td'],
+		replacement: (content, node) => {
+			const text = content
+				.trim()
+				.replace(/\|/g, '\\|')
+				.replace(/\s*\n\s*/g, '<br>');
+			const prefix = (node as HTMLElement).previousElementSibling ? ' ' : '| ';
+			return `${prefix}${text} |`;
+		},
+	});
+
+	service.addRule('styledLinks', {
+		filter: (node) => {
+			const href = node.nodeName === 'A' ? node.getAttribute('href') : null;
+			return options.linkStyle !== 'inline' && !!href && !href.startsWith('#');
+		},
+		replacement: (content, node) => {
+			const url = (node as HTMLElement).getAttribute('href') ?? '';
+			if (!content.trim() || options.linkStyle === 'drop') {
+				return content;
+			}
+
+			let link = links.get(url);
+			if (!link) {
+				link = { id: links.size + 1, url, text: content.replace(/\s+/g, ' ').trim() };
+				links.set(url, link);
+			}
+			return options.linkStyle === 'reference' ? `[${content}][${link.id}]` : content;
+		},
+	});
+
 	service.addRule('richCodeBlocks', {
 		filter: (node) => node.nodeName === 'PRE' && !!node.querySelector('code'),
 		replacement: (_, node) => {
@@ -948,74 +1404,215 @@ export function createTurndownService(): TurndownService {
 // High-level conversion pipeline
 // ---------------------------------------------------------------------------
 
-export interface PageMetadata {
-	title: string;
-	source: string;
-	author: string;
-	description: string;
-	retrieved: string;
-}
+/**
+ * Which part of the page a conversion covers: the extracted main content or the user's selection.
+ */
+export type ConversionMode = 'page' | 'selection';
 
 /**
- * Builds YAML front matter from page metadata.
+ * Options passed from the background worker to the content script for one conversion.
  */
-export function buildFrontMatter(meta: PageMetadata): string {
-	return `---
-title: "${escapeYaml(meta.title)}"
-source: "${meta.source}"
-retrieved: "${meta.retrieved}"
-author: "${escapeYaml(meta.author)}"
-description: "${escapeYaml(meta.description)}"
-tags: []
-toc: true
----`;
+export interface ConversionRequest {
+	mode?: ConversionMode;
+	/** Overrides the output format chosen on the options page. */
+	format?: OutputFormat;
+	/** Save the output as a file instead of copying it to the clipboard. */
+	download?: boolean;
+	/** Save a zip archive of the Markdown and its downloaded images instead of copying it. */
+	archive?: boolean;
+	/** Return the conversion to the caller for review instead of copying or saving it. */
+	preview?: boolean;
 }
 
 /**
- * Assembles the final Markdown document from its constituent parts.
+ * Assembles the final Markdown document from its constituent parts. Front matter and the table
+ * of contents are optional; the `---` separator is only added when something precedes the body.
  */
 export function buildOutput(frontMatter: string, toc: string, content: string): string {
+	const parts: string[] = [];
+	if (frontMatter.trim()) {
+		parts.push(frontMatter, '');
+	}
+
 	const trimmedToc = toc.trim();
-	if (!trimmedToc) {
-		return [frontMatter, '', '---', '', content].join('\n');
+	if (trimmedToc) {
+		parts.push('## Table of Contents', '', trimmedToc, '');
 	}
 
-	return [frontMatter, '', '## Table of Contents', '', trimmedToc, '', '---', '', content].join(
-		'\n'
-	);
+	if (parts.length === 0) {
+		return content;
+	}
+	return [...parts, '---', '', content].join('\n');
+}
+
+/**
+ * Output of {@link convertToMarkdown}. Footnote definitions are kept apart from the body so that
+ * output formats can place them; use {@link joinFootnotes} for the combined document body.
+ */
+export interface MarkdownResult {
+	/** Converted body, without footnote definitions. */
+	markdown: string;
+	toc: string;
+	/** Rendered `[^label]: …` definitions, or an empty string when the page has none. */
+	footnotes: string;
+}
+
+/**
+ * Appends the footnote definitions to a Markdown body.
+ * @param markdown - Converted body.
+ * @param footnotes - Rendered footnote definitions, possibly empty.
+ */
+export function joinFootnotes(markdown: string, footnotes: string): string {
+	return footnotes ? `${markdown}\n\n${footnotes}` : markdown;
+}
+
+/**
+ * Splits rendered footnote definitions into a map keyed by label. Continuation lines stay with
+ * the definition they belong to.
+ * @param footnotes - Output of {@link renderFootnotes}.
+ */
+export function splitFootnoteDefinitions(footnotes: string): Map<string, string> {
+	const definitions = new Map<string, string>();
+	for (const block of footnotes.split(/\n(?=\[\^[^\]]+\]:)/)) {
+		const label = block.match(/^\[\^([^\]]+)\]:/)?.[1];
+		if (label) {
+			definitions.set(label, block);
+		}
+	}
+	return definitions;
+}
+
+/**
+ * Appends the link references or appendix of the reference and text link styles to a body.
+ */
+function appendLinkReferences(
+	markdown: string,
+	links: Map<string, LinkReference>,
+	options: ConversionOptions
+): string {
+	const references = renderLinkReferences(links, options.linkStyle);
+	return references ? `${markdown}\n\n${postProcessMarkdown(references, options)}` : markdown;
 }
 
 /**
  * Runs the full DOM-to-Markdown conversion pipeline on an element.
  * @param el - Cloned root element to convert (will be mutated).
  * @param removeSelectors - Additional selectors to strip from the content.
- * @returns The processed Markdown body and a generated table of contents.
+ * @param options - Optional steps to run; see `resolveConversionOptions`.
+ * @param titles - Page titles that a leading heading may repeat; see {@link pageTitles}.
+ * @returns The processed Markdown body, its footnotes and a generated table of contents.
  */
 export function convertToMarkdown(
 	el: HTMLElement,
-	removeSelectors: string[]
-): { markdown: string; toc: string } {
-	describeEmbeddedMedia(el);
-	describeSVGs(el);
+	removeSelectors: string[],
+	options: ConversionOptions = defaultConversionOptions,
+	titles: string[] = []
+): MarkdownResult {
+	const references = createSharedReferences();
+	const result = convertBody(el, removeSelectors, options, references, titles);
+	return { ...result, markdown: appendLinkReferences(result.markdown, references.links, options) };
+}
+
+/**
+ * References shared by the excerpts of one output, so that their labels do not collide.
+ */
+interface SharedReferences {
+	/** Links collected for reference and appendix link styles, listed once at the end. */
+	links: Map<string, LinkReference>;
+	/** Footnote labels already used. */
+	footnoteLabels: Set<string>;
+}
+
+function createSharedReferences(): SharedReferences {
+	return { links: new Map(), footnoteLabels: new Set() };
+}
+
+/**
+ * Converts an element without rendering the collected links, so that several excerpts can share
+ * one set of references.
+ */
+function convertBody(
+	el: HTMLElement,
+	removeSelectors: string[],
+	options: ConversionOptions,
+	references: SharedReferences,
+	titles: string[] = []
+): MarkdownResult {
+	// Before media and cleaning, which would remove rendered SVGs, scripts and hidden sources.
+	prepareMath(el);
+	prepareDiagrams(el);
+	if (options.describeMedia) {
+		describeEmbeddedMedia(el);
+		describeSVGs(el);
+	} else {
+		removeAll(el, 'svg, iframe, video, audio, embed, object');
+	}
+	if (!options.images) {
+		removeAll(el, 'img, picture');
+	}
 	cleanContent(el, removeSelectors);
-	normalizeLinks(el);
+	normalizeLinks(el, options);
 	unwrapHeadingLinks(el);
+	if (options.normalizeHeadings) {
+		removeTitleHeading(el, titles);
+		normalizeHeadingLevels(el, options.topHeadingLevel);
+	}
 	prepareCodeBlockContainers(el);
+	const tables = prepareTables(el, options);
 
-	const toc = generateTOC(el);
-	const footnoteDefinitions = convertFootnotes(el);
+	// Always generated, since it also assigns the ids used by heading anchors.
+	const toc = generateTOC(el, options.tocDepth);
+	alignAnchorLinks(el);
+	const footnoteDefinitions = options.footnotes
+		? convertFootnotes(el, references.footnoteLabels)
+		: [];
 
-	const turndownService = createTurndownService();
+	const turndownService = createTurndownService(options, references.links);
 
 	const rawHtml = el.innerHTML;
 	const sanitizedHtml = DOMPurify.sanitize(rawHtml);
 	const markdownContent = turndownService.turndown(sanitizedHtml);
-	const processedMarkdown = postProcessMarkdown(markdownContent);
-	const footnoteMarkdown = renderFootnotes(turndownService, footnoteDefinitions);
+	// The appendix skips post-processing, which would change quotes in the data.
+	const markdown = [
+		postProcessMarkdown(markdownContent, options),
+		renderTableAppendix(tables, options.tableAppendix),
+	]
+		.filter(Boolean)
+		.join('\n\n');
+	const footnotes = renderFootnotes(turndownService, footnoteDefinitions);
 
-	const markdown = footnoteMarkdown
-		? `${processedMarkdown}\n\n${footnoteMarkdown}`
-		: processedMarkdown;
+	return { markdown, toc: options.toc ? toc : '', footnotes };
+}
+
+/**
+ * Converts each selected excerpt independently and joins them with horizontal rules. Footnotes
+ * stay with the excerpt that references them but are numbered across excerpts; link references
+ * are shared and listed once.
+ * @param elements - Excerpt containers from {@link getSelectionElements}, in document order.
+ * @param removeSelectors - Additional selectors to strip from each excerpt.
+ * @param options - Optional steps to run for every excerpt.
+ * @returns The combined Markdown body and a merged table of contents.
+ */
+export function convertExcerpts(
+	elements: HTMLElement[],
+	removeSelectors: string[],
+	options: ConversionOptions = defaultConversionOptions
+): MarkdownResult {
+	const references = createSharedReferences();
+	const results = elements
+		.map((el) => convertBody(el, removeSelectors, options, references))
+		.filter((result) => !!result.markdown);
 
-	return { markdown, toc };
+	return {
+		markdown: appendLinkReferences(
+			results.map((result) => joinFootnotes(result.markdown, result.footnotes)).join('\n\n---\n\n'),
+			references.links,
+			options
+		),
+		toc: results
+			.map((result) => result.toc)
+			.filter(Boolean)
+			.join('\n'),
+		footnotes: '',
+	};
 }
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+
+import { convertToMarkdown } from './convert';
+import { graphvizSource, prepareDiagrams, svgLabels } from './diagrams';
+
+function prepared(html: string): HTMLElement {
+	const el = document.createElement('div');
+	el.innerHTML = html;
+	prepareDiagrams(el);
+	return el;
+}
+
+function codeBlocks(el: Element): Array<[string, string | null]> {
+	return Array.from(el.querySelectorAll('pre > code')).map((code) => [
+		code.className,
+		code.textContent,
+	]);
+}
+
+const graphvizSvg =
+	'<svg width="200" height="300"><g id="graph0" class="graph"><title>G</title>' +
+	'<g class="node"><title>start</title><text>Start</text></g>' +
+	'<g class="node"><title>end</title><text>end</text></g>' +
+	'<g class="edge"><title>start&#45;&gt;end</title><text>done</text></g>' +
+	'</g></svg>';
+
+describe('prepareDiagrams', () => {
+	// Arrows are escaped because happy-dom's parser mistakes a bare `-->` for the end of a comment.
+	it('keeps the text of unrendered diagrams as their source', () => {
+		const el = prepared(
+			'<pre class="mermaid">graph TD\n  A --&gt; B</pre><pre><code class="language-plantuml">@startuml\nA -> B\n@enduml</code></pre>'
+		);
+		expect(codeBlocks(el)).toEqual([
+			['language-mermaid', 'graph TD\n  A --> B'],
+			['language-plantuml', '@startuml\nA -> B\n@enduml'],
+		]);
+	});
+
+	it('reads the source of rendered diagrams from attributes and hidden elements', () => {
+		const el = prepared(
+			'<section data-type="mermaid"><div data-plain="sequenceDiagram\nA->>B: Hi"><svg></svg></div></section>' +
+				'<div class="mermaid" data-processed="true"><svg><text>A</text></svg></div><pre hidden>graph LR\nA --&gt; B</pre>' +
+				'<div class="graphviz"><template>digraph { a -> b }</template><svg></svg></div>'
+		);
+		expect(codeBlocks(el)).toEqual([
+			['language-mermaid', 'sequenceDiagram\nA->>B: Hi'],
+			['language-mermaid', 'graph LR\nA --> B'],
+			['language-dot', 'digraph { a -> b }'],
+		]);
+		expect(el.querySelector('svg')).toBeNull();
+	});
+
+	it('reads source scripts and removes the SVG rendered next to them', () => {
+		const el = prepared(
+			'<svg><text>a</text></svg><script type="text/vnd.graphviz">graph { a -- b }</script>'
+		);
+		expect(codeBlocks(el)).toEqual([['language-dot', 'graph { a -- b }']]);
+		expect(el.querySelector('svg')).toBeNull();
+	});
+
+	it('reads sources only from classes that name the renderer', () => {
+		const el = prepared(
+			'<div class="mermaid"><svg></svg></div><div class="mermaid-source">graph TD\nA</div>' +
+				'<div class="plantuml"><svg></svg></div><p class="source">Source: team wiki</p>'
+		);
+		expect(codeBlocks(el)).toEqual([['language-mermaid', 'graph TD\nA']]);
+		expect(el.querySelector('p.source')?.textContent).toBe('Source: team wiki');
+	});
+
+	it('leaves rendered diagrams without a source alone', () => {
+		const el = prepared('<div class="mermaid"><svg><text>Start</text></svg></div>');
+		expect(el.querySelector('svg')).not.toBeNull();
+		expect(codeBlocks(el)).toEqual([]);
+	});
+
+	it('rebuilds DOT from Graphviz SVGs', () => {
+		const el = prepared(graphvizSvg);
+		expect(codeBlocks(el)).toEqual([
+			['language-dot', 'digraph G {\n  start [label=Start]\n  end\n  start -> end [label=done]\n}'],
+		]);
+	});
+});
+
+describe('graphvizSource', () => {
+	it('ignores SVGs that Graphviz did not produce', () => {
+		const el = document.createElement('div');
+		el.innerHTML = '<svg><g><text>Chart</text></g></svg>';
+		expect(graphvizSource(el.querySelector('svg') as Element)).toBeNull();
+	});
+});
+
+describe('svgLabels', () => {
+	it('lists visible labels once, in order', () => {
+		const el = document.createElement('div');
+		el.innerHTML =
+			'<svg><title>Hidden title</title><text>Revenue</text><g display="none"><text>Secret</text></g>' +
+			'<text>2023</text><text>Revenue</text><foreignObject><div>HTML label</div></foreignObject></svg>';
+		expect(svgLabels(el.querySelector('svg') as Element)).toEqual([
+			'Revenue',
+			'2023',
+			'HTML label',
+		]);
+	});
+});
+
+describe('convertToMarkdown with diagrams', () => {
+	it('writes recovered sources as fenced code blocks', () => {
+		const el = document.createElement('div');
+		el.innerHTML =
+			'<p>Flow:</p><div class="mermaid"><svg></svg><pre hidden>graph TD\nA --&gt; B</pre></div>';
+		const { markdown } = convertToMarkdown(el, []);
+		expect(markdown).toContain('``` mermaid\ngraph TD\nA --> B\n```');
+	});
+});
@@ -0,0 +1,253 @@
+/**
+ * Diagram recovery. Documentation sites render Mermaid, PlantUML and Graphviz diagrams in the
+ * browser, leaving an SVG that converts to nothing useful. Where the page still holds the diagram
+ * source, the diagram is replaced by a code block in its language, which Turndown writes as a
+ * fence such as ```` ```mermaid ````. SVGs without a source are described by their labels.
+ */
+
+interface DiagramRenderer {
+	/** Language of the code fence. */
+	language: string;
+	/** Class names of rendered or unrendered containers. */
+	classNames: string[];
+	/** Values of `lang`, `data-lang` and similar attributes naming the language. */
+	names: string[];
+	/** Types of `<script>` elements holding the source. */
+	scriptTypes: string[];
+}
+
+const RENDERERS: DiagramRenderer[] = [
+	{
+		language: 'mermaid',
+		classNames: ['mermaid'],
+		names: ['mermaid'],
+		scriptTypes: ['text/x-mermaid', 'text/mermaid'],
+	},
+	{
+		language: 'plantuml',
+		classNames: ['plantuml'],
+		names: ['plantuml', 'puml'],
+		scriptTypes: ['text/x-plantuml', 'text/plantuml'],
+	},
+	{
+		language: 'dot',
+		classNames: ['graphviz'],
+		names: ['graphviz', 'dot'],
+		scriptTypes: ['text/vnd.graphviz', 'text/x-graphviz'],
+	},
+];
+
+/** Attributes in which renderers and site generators keep the source of a rendered diagram. */
+const SOURCE_ATTRIBUTES = [
+	'data-source',
+	'data-diagram-source',
+	'data-plain',
+	'data-mermaid',
+	'data-code',
+	'data-original',
+];
+
+const LANGUAGE_ATTRIBUTES = [
+	'lang',
+	'data-lang',
+	'data-language',
+	'data-canonical-lang',
+	'data-type',
+];
+
+/** Most labels listed in the description of an SVG without a source. */
+const MAX_SVG_LABELS = 20;
+
+function containerSelector(renderer: DiagramRenderer): string {
+	return [
+		...renderer.classNames.map((name) => `.${name}`),
+		...renderer.names.flatMap((name) => [
+			`.language-${name}`,
+			...LANGUAGE_ATTRIBUTES.map((attribute) => `[${attribute}="${name}"]`),
+		]),
+	].join(', ');
+}
+
+/**
+ * Tests whether an element may hold the source of a rendered diagram next to it or inside it: a
+ * template or text area, a hidden code block, or an element with a class naming the renderer,
+ * such as `mermaid-source`. Other classes ending in `source`, such as a caption's, do not count.
+ */
+function isSourceHolder(el: Element, renderer: DiagramRenderer): boolean {
+	const style = (el.getAttribute('style') ?? '').replace(/\s/g, '');
+	const hidden = el.hasAttribute('hidden') || style.includes('display:none');
+	const sourceClasses = [renderer.language, ...renderer.classNames, ...renderer.names].map(
+		(name) => `${name}-source`
+	);
+	return (
+		el.tagName === 'TEMPLATE' ||
+		el.tagName === 'TEXTAREA' ||
+		(hidden && (el.tagName === 'PRE' || el.tagName === 'CODE')) ||
+		sourceClasses.some((name) => el.classList.contains(name))
+	);
+}
+
+function textOf(el: Element): string {
+	const text =
+		el.tagName === 'TEMPLATE' ? (el as HTMLTemplateElement).content.textContent : el.textContent;
+	return (text ?? '').trim();
+}
+
+/**
+ * Reads the source of a diagram container: from a source attribute on it or inside it, from a
+ * hidden element inside it or next to it, or from its text while it has not been rendered yet.
+ */
+function diagramSource(container: Element, renderer: DiagramRenderer): string | null {
+	for (const attribute of SOURCE_ATTRIBUTES) {
+		const holder = container.hasAttribute(attribute)
+			? container
+			: container.querySelector(`[${attribute}]`);
+		const value = holder?.getAttribute(attribute)?.trim();
+		if (value) return value;
+	}
+
+	const hidden = [
+		...Array.from(container.children),
+		container.previousElementSibling,
+		container.nextElementSibling,
+	].find((el): el is Element => !!el && isSourceHolder(el, renderer) && !!textOf(el));
+	if (hidden) {
+		const source = textOf(hidden);
+		// A holder next to the diagram would otherwise be converted as well.
+		hidden.remove();
+		return source;
+	}
+
+	return container.querySelector('svg, img, canvas') ? null : textOf(container) || null;
+}
+
+function codeBlock(doc: Document, language: string, source: string): HTMLElement {
+	const pre = doc.createElement('pre');
+	const code = doc.createElement('code');
+	code.className = `language-${language}`;
+	code.textContent = source;
+	pre.appendChild(code);
+	return pre;
+}
+
+/**
+ * Replaces a container, or the `<pre>` around a `<code>` container, with a code block.
+ */
+function replaceContainer(container: Element, language: string, source: string): void {
+	const parent = container.parentElement;
+	const target = container.tagName === 'CODE' && parent?.tagName === 'PRE' ? parent : container;
+	target.replaceWith(codeBlock(container.ownerDocument, language, source));
+}
+
+// ---------------------------------------------------------------------------
+// Graphviz
+// ---------------------------------------------------------------------------
+
+function dotId(id: string): string {
+	return /^[A-Za-z_][\w]*$/.test(id) ? id : `"${id.replace(/"/g, '\\"')}"`;
+}
+
+function svgLabel(group: Element): string {
+	return Array.from(group.querySelectorAll('text'))
+		.map((text) => text.textContent?.trim())
+		.filter(Boolean)
+		.join(' ');
+}
+
+/**
+ * Rebuilds DOT source from an SVG rendered by Graphviz, which names every node and edge in a
+ * `<title>`.
+ * @param svg - SVG element to inspect.
+ * @returns The DOT source, or null when the SVG was not produced by Graphviz.
+ */
+export function graphvizSource(svg: Element): string | null {
+	const graph = svg.querySelector('g.graph');
+	const nodes = Array.from(svg.querySelectorAll('g.node'));
+	if (!graph || nodes.length === 0) return null;
+
+	const edges = Array.from(svg.querySelectorAll('g.edge'));
+	const titleOf = (group: Element) =>
+		Array.from(group.children)
+			.find((child) => child.tagName.toLowerCase() === 'title')
+			?.textContent?.trim() ?? '';
+	const directed = edges.some((edge) => titleOf(edge).includes('->'));
+
+	const lines = nodes.map((node) => {
+		const id = titleOf(node);
+		const label = svgLabel(node);
+		return label && label !== id ? `  ${dotId(id)} [label=${dotId(label)}]` : `  ${dotId(id)}`;
+	});
+	for (const edge of edges) {
+		const [from, to] = titleOf(edge).split(/->|--/);
+		if (!from || !to) continue;
+		const label = svgLabel(edge);
+		const arrow = directed ? '->' : '--';
+		lines.push(`  ${dotId(from)} ${arrow} ${dotId(to)}${label ? ` [label=${dotId(label)}]` : ''}`);
+	}
+
+	const name = titleOf(graph);
+	const header = `${directed ? 'digraph' : 'graph'}${name ? ` ${dotId(name)}` : ''}`;
+	return `${header} {\n${lines.join('\n')}\n}`;
+}
+
+// ---------------------------------------------------------------------------
+// Recovery
+// ---------------------------------------------------------------------------
+
+/**
+ * Replaces Mermaid, PlantUML and Graphviz diagrams whose source is still in the page with code
+ * blocks in their language, and Graphviz SVGs with DOT rebuilt from their titles. Runs before
+ * cleaning and SVG descriptions, which would remove hidden sources and the rendered SVGs.
+ * Diagrams without a recoverable source are left alone.
+ * @param root - Document or element to rewrite in place.
+ */
+export function prepareDiagrams(root: ParentNode): void {
+	for (const renderer of RENDERERS) {
+		const scripts = renderer.scriptTypes.map((type) => `script[type="${type}"]`).join(', ');
+		for (const script of Array.from(root.querySelectorAll(scripts))) {
+			const source = script.textContent?.trim();
+			if (!source) continue;
+			// The rendered diagram usually sits right next to its script.
+			for (const sibling of [script.previousElementSibling, script.nextElementSibling]) {
+				if (sibling?.tagName.toLowerCase() === 'svg') sibling.remove();
+			}
+			replaceContainer(script, renderer.language, source);
+		}
+
+		for (const container of Array.from(root.querySelectorAll(containerSelector(renderer)))) {
+			// Skip parts of a diagram that an outer container already replaced.
+			if (!root.contains(container) || container.tagName === 'SCRIPT') continue;
+			const source = diagramSource(container, renderer);
+			if (source) {
+				replaceContainer(container, renderer.language, source);
+			}
+		}
+	}
+
+	for (const svg of Array.from(root.querySelectorAll('svg'))) {
+		const source = root.contains(svg) ? graphvizSource(svg) : null;
+		if (source) {
+			svg.replaceWith(codeBlock(svg.ownerDocument, 'dot', source));
+		}
+	}
+}
+
+/**
+ * Lists the visible text labels of an SVG chart, such as axis titles and node names, in document
+ * order and without repeats.
+ * @param svg - SVG element to inspect.
+ * @returns At most a few dozen labels, with `…` appended when some were left out.
+ */
+export function svgLabels(svg: Element): string[] {
+	const labels: string[] = [];
+	for (const el of Array.from(svg.querySelectorAll('text, foreignObject'))) {
+		// Text inside foreignObject is picked up with its container.
+		if (el.tagName.toLowerCase() === 'text' && el.closest('foreignObject')) continue;
+		if (el.closest('[display="none"], [visibility="hidden"], defs, title, desc')) continue;
+		const label = el.textContent?.replace(/\s+/g, ' ').trim();
+		if (label && !labels.includes(label)) {
+			labels.push(label);
+		}
+	}
+	return labels.length > MAX_SVG_LABELS ? [...labels.slice(0, MAX_SVG_LABELS), '…'] : labels;
+}
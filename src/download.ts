@@ -0,0 +1,57 @@
+import type { FilenameConflict } from './filename';
+
+/**
+ * A file to save through `chrome.downloads`.
+ */
+export interface DownloadRequest {
+	text: string;
+	/** Path relative to the downloads folder, from `renderFilename`. */
+	filename: string;
+	mimeType: string;
+	/** Ask the user where to save the file. */
+	saveAs: boolean;
+	conflict: FilenameConflict;
+	/** Set when `text` holds base64-encoded binary data, such as a zip archive. */
+	base64?: boolean;
+}
+
+/**
+ * Encodes text as a data URL. Service workers cannot create object URLs, so downloads started
+ * from the background worker use data URLs instead.
+ * @param text - File contents.
+ * @param mimeType - Content type of the file.
+ * @param base64 - Whether `text` is already base64-encoded binary data.
+ */
+export function toDataUrl(text: string, mimeType: string, base64 = false): string {
+	if (base64) {
+		return `data:${mimeType};base64,${text}`;
+	}
+	return `data:${mimeType};charset=utf-8,${encodeURIComponent(text)}`;
+}
+
+/**
+ * Encodes binary data as base64 so it can pass through extension messages, which only carry JSON.
+ * @param bytes - Data to encode.
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+	let binary = '';
+	const chunkSize = 0x8000;
+	for (let i = 0; i < bytes.length; i += chunkSize) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+	}
+	return btoa(binary);
+}
+
+/**
+ * Saves text as a file in the downloads folder.
+ * @param request - Contents, target path and save options.
+ * @returns The id of the started download.
+ */
+export async function downloadText(request: DownloadRequest): Promise<number> {
+	return chrome.downloads.download({
+		url: toDataUrl(request.text, request.mimeType, request.base64),
+		filename: request.filename,
+		saveAs: request.saveAs,
+		conflictAction: request.conflict,
+	});
+}
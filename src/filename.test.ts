@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+	DEFAULT_FILENAME_TEMPLATE,
+	renderFilename,
+	sanitizeFilenameSegment,
+	validateFilenameTemplate,
+} from './filename';
+import type { PageMetadata } from './frontmatter';
+
+const meta: PageMetadata = {
+	title: 'Hello: World / Part 2?',
+	source: 'https://www.example.com/posts/hello',
+	authors: [],
+	description: '',
+	retrieved: '2025-03-04T05:06:07.000Z',
+};
+
+describe('renderFilename', () => {
+	it('renders the default template with the format extension', () => {
+		expect(renderFilename(DEFAULT_FILENAME_TEMPLATE, meta, 'md')).toBe(
+			'2025-03-04-hello-world-part-2.md'
+		);
+		expect(renderFilename(DEFAULT_FILENAME_TEMPLATE, meta, 'jsonl')).toBe(
+			'2025-03-04-hello-world-part-2.jsonl'
+		);
+	});
+
+	it('creates folders from template slashes but not from values', () => {
+		expect(renderFilename('{hostname}/{year}/{title}', meta, 'md')).toBe(
+			'www.example.com/2025/Hello- World - Part 2-.md'
+		);
+	});
+
+	it('applies functions to variables', () => {
+		expect(renderFilename('{upper(hostname)}-{slug(title)}-{time}', meta, 'txt')).toBe(
+			'WWW.EXAMPLE.COM-hello-world-part-2-05-06-07.txt'
+		);
+	});
+
+	it('replaces an output extension written in the template', () => {
+		expect(renderFilename('{slug}.md', meta, 'json')).toBe('hello-world-part-2.json');
+	});
+
+	it('drops parent directory segments and empty folders', () => {
+		expect(renderFilename('../{missing}//notes/{slug}', meta, 'md')).toBe(
+			'notes/hello-world-part-2.md'
+		);
+	});
+
+	it('falls back to the slug when the name renders empty', () => {
+		expect(renderFilename('notes/{month}/', meta, 'md')).toBe('notes/03/hello-world-part-2.md');
+	});
+});
+
+describe('sanitizeFilenameSegment', () => {
+	it('replaces characters that are illegal on Windows', () => {
+		expect(sanitizeFilenameSegment('a<b>c:d"e|f?g*h\\i')).toBe('a-b-c-d-e-f-g-h-i');
+	});
+
+	it('removes control characters and surrounding dots and spaces', () => {
+		expect(sanitizeFilenameSegment(' .hidden\tname. ')).toBe('hidden-name');
+	});
+
+	it('prefixes reserved device names', () => {
+		expect(sanitizeFilenameSegment('CON')).toBe('_CON');
+		expect(sanitizeFilenameSegment('lpt1.md')).toBe('_lpt1.md');
+	});
+
+	it('limits segment length', () => {
+		expect(sanitizeFilenameSegment('x'.repeat(300))).toHaveLength(120);
+	});
+});
+
+describe('validateFilenameTemplate', () => {
+	it('accepts known variables and functions', () => {
+		expect(validateFilenameTemplate('{hostname}/{date}-{slug(title)}')).toEqual([]);
+	});
+
+	it('reports unknown variables, unknown functions and empty templates', () => {
+		expect(validateFilenameTemplate('{author}-{reverse(title)}')).toEqual([
+			'Unknown variable {author}.',
+			'Unknown function reverse() in {reverse(title)}.',
+		]);
+		expect(validateFilenameTemplate('  ')).toEqual(['Template is empty.']);
+	});
+});
@@ -0,0 +1,145 @@
+import { slugify } from './convert';
+import type { PageMetadata } from './frontmatter';
+
+/**
+ * How `chrome.downloads` resolves a file name that already exists in the target folder.
+ */
+export type FilenameConflict = 'uniquify' | 'overwrite' | 'prompt';
+
+export const filenameConflicts: FilenameConflict[] = ['uniquify', 'overwrite', 'prompt'];
+
+/**
+ * Template producing `2025-01-31-article-title.md` for a Markdown download.
+ */
+export const DEFAULT_FILENAME_TEMPLATE = '{date}-{slug}';
+
+/**
+ * Variables available to filename templates.
+ */
+export const filenameVariables = [
+	'title',
+	'slug',
+	'hostname',
+	'date',
+	'time',
+	'year',
+	'month',
+	'day',
+] as const;
+
+export type FilenameVariable = (typeof filenameVariables)[number];
+
+/**
+ * Functions that can wrap a variable, as in `{slug(hostname)}`.
+ */
+const filenameFunctions: Record<string, (value: string) => string> = {
+	slug: slugify,
+	lower: (value) => value.toLowerCase(),
+	upper: (value) => value.toUpperCase(),
+};
+
+const PLACEHOLDER_PATTERN = /\{\s*(?:(\w+)\(\s*(\w+)\s*\)|(\w+))\s*\}/g;
+
+/** Extensions of the output formats; a template ending in one of them has it replaced. */
+const OUTPUT_EXTENSION_PATTERN = /\.(md|markdown|xml|txt|json|jsonl|zip)$/i;
+
+/** Characters that are invalid in file names on at least one major platform. */
+const ILLEGAL_CHARACTERS = /[<>:"|?*\\]/g;
+
+/** Device names that Windows reserves regardless of extension. */
+const RESERVED_NAME_PATTERN = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i;
+
+const MAX_SEGMENT_LENGTH = 120;
+
+/**
+ * Lists the problems in a filename template, such as unknown variables or functions.
+ * @param template - Template text, e.g. `{hostname}/{date}-{slug}`.
+ * @returns One message per problem; empty when the template is valid.
+ */
+export function validateFilenameTemplate(template: string): string[] {
+	const errors: string[] = [];
+	if (!template.trim()) {
+		errors.push('Template is empty.');
+	}
+	for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+		const [, fn, argument, plain] = match;
+		const name = plain ?? argument;
+		if (fn && !(fn in filenameFunctions)) {
+			errors.push(`Unknown function ${fn}() in ${match[0]}.`);
+		}
+		if (!(filenameVariables as readonly string[]).includes(name)) {
+			errors.push(`Unknown variable ${match[0]}.`);
+		}
+	}
+	return errors;
+}
+
+/**
+ * Computes the value of every filename variable for a page. Dates come from the retrieval time.
+ */
+function resolveVariables(meta: PageMetadata): Record<FilenameVariable, string> {
+	let hostname = '';
+	try {
+		hostname = new URL(meta.source).hostname;
+	} catch (_err) {}
+
+	const date = meta.retrieved.slice(0, 10);
+	return {
+		title: meta.title,
+		slug: slugify(meta.title),
+		hostname,
+		date,
+		time: meta.retrieved.slice(11, 19).replace(/:/g, '-'),
+		year: date.slice(0, 4),
+		month: date.slice(5, 7),
+		day: date.slice(8, 10),
+	};
+}
+
+/**
+ * Makes one path segment safe on Windows, macOS and Linux: illegal and control characters become
+ * dashes, leading and trailing dots and spaces are removed, reserved device names are prefixed
+ * and overly long names are shortened.
+ * @param segment - A single file or folder name.
+ */
+export function sanitizeFilenameSegment(segment: string): string {
+	let cleaned = Array.from(segment.replace(ILLEGAL_CHARACTERS, '-'))
+		.map((char) => (char.charCodeAt(0) < 0x20 || char.charCodeAt(0) === 0x7f ? '-' : char))
+		.join('')
+		.replace(/\s+/g, ' ')
+		.replace(/^[\s.]+|[\s.]+$/g, '');
+
+	if (RESERVED_NAME_PATTERN.test(cleaned)) {
+		cleaned = `_${cleaned}`;
+	}
+	return Array.from(cleaned).slice(0, MAX_SEGMENT_LENGTH).join('').trim();
+}
+
+/**
+ * Renders a filename template for a page into a relative path inside the downloads folder.
+ * Slashes in the template create folders; slashes inside variable values do not. The extension
+ * always matches the output format.
+ * @param template - Template text, e.g. `{hostname}/{date}-{slug}`.
+ * @param meta - Metadata of the converted page.
+ * @param extension - Extension of the output format, without the dot.
+ */
+export function renderFilename(template: string, meta: PageMetadata, extension: string): string {
+	const variables = resolveVariables(meta);
+	const rendered = template.replace(
+		PLACEHOLDER_PATTERN,
+		(_, fn: string | undefined, argument: string | undefined, plain: string | undefined) => {
+			const value = variables[(plain ?? argument) as FilenameVariable] ?? '';
+			const transform = fn ? filenameFunctions[fn] : undefined;
+			return (transform ? transform(value) : value).replace(/[/\\]/g, '-');
+		}
+	);
+
+	const parts = rendered.split('/');
+	const name = (parts.pop() ?? '').replace(OUTPUT_EXTENSION_PATTERN, '');
+	const segments = parts
+		.map(sanitizeFilenameSegment)
+		.filter((segment) => segment && segment !== '..');
+	const base = sanitizeFilenameSegment(name) || variables.slug || variables.hostname || 'page';
+
+	return [...segments, `${base}.${extension}`].join('/');
+}
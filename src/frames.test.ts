@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+
+import { crossOriginFrameUrls, inlineFrames } from './frames';
+
+describe('inlineFrames', () => {
+	const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+	const longText = 'Embedded article text that is long enough to be worth keeping. '.repeat(4);
+
+	it('replaces srcdoc frames with a labelled section', () => {
+		const flat = inlineFrames(
+			parse('<p>Before</p><iframe title="Widget" srcdoc="<p>Inside the frame</p>"></iframe>'),
+			{ frameDepth: 1 }
+		);
+		const section = flat.querySelector('section');
+		expect(flat.querySelector('iframe')).toBeNull();
+		expect(section?.querySelector('em')?.textContent).toBe('Embedded page: Widget');
+		expect(section?.querySelector('p:last-child')?.textContent).toBe('Inside the frame');
+	});
+
+	it('flattens shadow DOM around the inlined frames', () => {
+		const flat = inlineFrames(
+			parse(
+				'<x-post><template shadowrootmode="open"><h2>Title</h2><slot></slot></template><iframe srcdoc="<p>Framed</p>"></iframe></x-post>'
+			),
+			{ frameDepth: 1 }
+		);
+		expect(flat.querySelector('x-post h2')?.textContent).toBe('Title');
+		expect(flat.querySelector('x-post section p:last-child')?.textContent).toBe('Framed');
+	});
+
+	it('leaves frames in place when frame depth is 0', () => {
+		const doc = parse('<iframe srcdoc="<p>Inside</p>"></iframe>');
+		expect(inlineFrames(doc, { frameDepth: 0 })).toBe(doc);
+	});
+
+	it('stops inlining nested frames at the depth limit', () => {
+		const inner = '<p>Inner</p>';
+		const outer = `<p>Outer</p><iframe srcdoc='${inner}'></iframe>`;
+		const doc = parse(`<iframe srcdoc="${outer}"></iframe>`);
+		const flat = inlineFrames(doc, { frameDepth: 1 });
+		expect(flat.body.textContent).toContain('Outer');
+		expect(flat.querySelector('section iframe')).not.toBeNull();
+		expect(inlineFrames(doc, { frameDepth: 2 }).querySelector('iframe')).toBeNull();
+	});
+
+	it('uses snapshots of cross-origin frames that hold enough text', () => {
+		// Frames stand in for cross-origin iframes: happy-dom fetches the `src` of iframes, but not of
+		// frames, whose content the test cannot read either.
+		const doc = parse(
+			'<frame src="https://other.example/post#top"></frame><frame src="https://ads.example/"></frame>'
+		);
+		expect(crossOriginFrameUrls(doc)).toEqual([
+			'https://other.example/post#top',
+			'https://ads.example/',
+		]);
+		const flat = inlineFrames(doc, {
+			frameDepth: 1,
+			frameSnapshots: [
+				{
+					url: 'https://other.example/post',
+					title: 'Other post',
+					html: `<title>Other post</title><p>${longText}</p><a href="/more">More</a>`,
+				},
+				{ url: 'https://ads.example/', title: 'Ad', html: '<p>Buy now</p>' },
+			],
+		});
+		const section = flat.querySelector('section[data-frame-src="https://other.example/post#top"]');
+		expect(section?.querySelector('em')?.textContent).toBe('Embedded page: Other post');
+		expect(section?.querySelector('a')?.getAttribute('href')).toBe('https://other.example/more');
+		expect(flat.querySelector('frame[src="https://ads.example/"]')).not.toBeNull();
+	});
+
+	it('turns framesets into a body holding each frame', () => {
+		// Built by hand: happy-dom's parser does not treat <frame> as a void element.
+		const doc = document.implementation.createHTMLDocument('');
+		const frameset = doc.createElement('frameset');
+		for (const text of ['Left', 'Right']) {
+			const frame = doc.createElement('frame');
+			frame.setAttribute('srcdoc', `<p>${text}</p>`);
+			frameset.appendChild(frame);
+		}
+		doc.body.remove();
+		doc.documentElement.appendChild(frameset);
+		const flat = inlineFrames(doc, { frameDepth: 1 });
+		expect(flat.querySelector('frameset')).toBeNull();
+		expect(flat.body.querySelectorAll('section')).toHaveLength(2);
+		expect(flat.body.textContent).toContain('Left');
+		expect(flat.body.textContent).toContain('Right');
+	});
+});
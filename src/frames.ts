@@ -0,0 +1,212 @@
+/**
+ * Frame inlining. Readability, selectors and Turndown only see one document, so pages embedded in
+ * frames are copied into the page while its shadow DOM is flattened (see `flattenShadowDom`), each
+ * readable frame becoming a section that holds its content.
+ */
+
+import { flattenShadowDom } from './shadow';
+
+/**
+ * Content of a cross-origin frame, collected by injecting {@link snapshotFrame} into every frame.
+ */
+export interface FrameSnapshot {
+	url: string;
+	title: string;
+	html: string;
+}
+
+export interface FrameOptions {
+	/** Levels of nested frames to inline; 0 leaves every frame in place. */
+	frameDepth: number;
+	/** Content of frames the page cannot read itself, matched to frames by URL. */
+	frameSnapshots?: FrameSnapshot[];
+}
+
+/**
+ * Text a cross-origin frame needs before it is inlined. Ads, video players and widgets carry
+ * little text and are better described than copied.
+ */
+const MIN_SNAPSHOT_TEXT = 200;
+
+function isFrame(el: Element): boolean {
+	return el.tagName === 'IFRAME' || el.tagName === 'FRAME';
+}
+
+function withoutHash(url: string): string {
+	return url.replace(/#.*$/, '');
+}
+
+/**
+ * Parses HTML into a document whose relative URLs resolve against `baseUrl`.
+ */
+function parseFrameHtml(html: string, baseUrl: string): Document {
+	const doc = new DOMParser().parseFromString(html, 'text/html');
+	if (!doc.querySelector('base[href]')) {
+		const base = doc.createElement('base');
+		base.setAttribute('href', baseUrl);
+		doc.head.prepend(base);
+	}
+	return doc;
+}
+
+/**
+ * Absolute URL of a frame's `src`, or null when it has none.
+ */
+function frameUrl(frame: Element): string | null {
+	const src = frame.getAttribute('src');
+	if (!src) return null;
+	try {
+		return new URL(src, frame.baseURI).href;
+	} catch (_err) {
+		return null;
+	}
+}
+
+/**
+ * Reads the document a frame shows: the loaded document of a same-origin frame, the `srcdoc`
+ * markup, or the snapshot collected for a cross-origin frame. Returns null when none is available.
+ */
+function frameDocument(frame: Element, snapshots: FrameSnapshot[] = []): Document | null {
+	let loaded: Document | null = null;
+	try {
+		loaded = (frame as HTMLIFrameElement).contentDocument;
+	} catch (_err) {}
+	if (loaded?.body?.hasChildNodes()) {
+		return loaded;
+	}
+
+	const srcdoc = frame.getAttribute('srcdoc');
+	if (srcdoc !== null) {
+		return parseFrameHtml(srcdoc, frame.baseURI);
+	}
+
+	const url = frameUrl(frame);
+	const snapshot = url
+		? snapshots.find((item) => withoutHash(item.url) === withoutHash(url))
+		: undefined;
+	if (!snapshot) return null;
+	const doc = parseFrameHtml(snapshot.html, snapshot.url);
+	return (doc.body?.textContent?.trim().length ?? 0) >= MIN_SNAPSHOT_TEXT ? doc : null;
+}
+
+/**
+ * Lists frames whose content the page cannot read, so that their snapshots can be collected.
+ * @param doc - Page document.
+ * @returns Absolute URLs of cross-origin frames.
+ */
+export function crossOriginFrameUrls(doc: Document): string[] {
+	return Array.from(doc.querySelectorAll('iframe, frame'))
+		.filter((frame) => !frameDocument(frame))
+		.map(frameUrl)
+		.filter((url): url is string => !!url && /^https?:/.test(url));
+}
+
+/**
+ * Captures the frame it runs in. Injected into every frame of a tab with
+ * `chrome.scripting.executeScript`, so it must not reference anything outside its body.
+ * @returns The frame's URL, title and markup, or null in the top frame.
+ */
+export function snapshotFrame(): FrameSnapshot | null {
+	if (window === window.top) return null;
+	return {
+		url: location.href,
+		title: document.title,
+		html: document.documentElement.outerHTML,
+	};
+}
+
+// ---------------------------------------------------------------------------
+// Inlining
+// ---------------------------------------------------------------------------
+
+/**
+ * Makes the `href` and `src` of an element and its descendants absolute, since the page resolves
+ * relative URLs against its own base rather than the frame's.
+ */
+function rebaseUrls(root: Element, baseUrl: string): void {
+	for (const el of [root, ...Array.from(root.querySelectorAll('[href], [src]'))]) {
+		for (const name of ['href', 'src']) {
+			const value = el.getAttribute(name);
+			if (!value || value.startsWith('#')) continue;
+			try {
+				el.setAttribute(name, new URL(value, baseUrl).href);
+			} catch (_err) {}
+		}
+	}
+}
+
+/**
+ * Builds the section that replaces an inlined frame: a label naming the embedded page, then its
+ * content with its own frames inlined one level less deep.
+ */
+function frameSection(
+	frame: Element,
+	frameDoc: Document,
+	target: Document,
+	pageBase: string,
+	options: FrameOptions
+): Element {
+	const section = target.createElement('section');
+	const url = frameUrl(frame);
+	if (url) {
+		section.setAttribute('data-frame-src', url);
+	}
+
+	const title = frame.getAttribute('title') || frameDoc.title.trim() || url;
+	if (title) {
+		const label = target.createElement('p');
+		const emphasis = target.createElement('em');
+		emphasis.textContent = `Embedded page: ${title}`;
+		label.appendChild(emphasis);
+		section.appendChild(label);
+	}
+
+	const body = inlineFrames(frameDoc, { ...options, frameDepth: options.frameDepth - 1 }).body;
+	const rebase = withoutHash(frameDoc.baseURI) !== withoutHash(pageBase);
+	for (const child of Array.from(body?.childNodes ?? [])) {
+		const copy = target.importNode(child, true);
+		if (rebase && copy.nodeType === Node.ELEMENT_NODE) {
+			rebaseUrls(copy as Element, frameDoc.baseURI);
+		}
+		section.appendChild(copy);
+	}
+	return section;
+}
+
+/**
+ * A frameset stands in for the body; once its frames are inlined it is an ordinary container.
+ */
+function replaceFramesets(doc: Document): void {
+	for (const frameset of Array.from(doc.querySelectorAll('frameset'))) {
+		const container = doc.createElement(
+			frameset.parentElement?.tagName === 'HTML' ? 'body' : 'div'
+		);
+		container.append(...Array.from(frameset.childNodes));
+		frameset.replaceWith(container);
+	}
+}
+
+/**
+ * Copies a document into a new one where frames the page can read are replaced by sections
+ * holding their content, and where shadow DOM is flattened as by `flattenShadowDom`. Frames that
+ * cannot be read stay in place.
+ * @param doc - Document to copy; it is not modified.
+ * @param options - How many levels of frames to inline, and snapshots of cross-origin frames.
+ * @returns The copy, or the result of `flattenShadowDom` when no frame is inlined.
+ */
+export function inlineFrames(doc: Document, options: FrameOptions = { frameDepth: 0 }): Document {
+	if (options.frameDepth <= 0 || !doc.querySelector('iframe, frame')) {
+		return flattenShadowDom(doc);
+	}
+
+	const pageBase = doc.baseURI;
+	const flat = flattenShadowDom(doc, (el, target) => {
+		if (el.tagName === 'NOFRAMES') {
+			return target.createDocumentFragment();
+		}
+		const frameDoc = isFrame(el) ? frameDocument(el, options.frameSnapshots) : null;
+		return frameDoc ? frameSection(el, frameDoc, target, pageBase, options) : null;
+	});
+	replaceFramesets(flat);
+	return flat;
+}
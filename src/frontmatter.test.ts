@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	buildFrontMatter,
+	escapeToml,
+	type PageMetadata,
+	parseFrontMatterTemplate,
+} from './frontmatter';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const sampleMeta: PageMetadata = {
+	title: 'A "Quoted" Title',
+	source: 'https://example.com/post',
+	authors: ['Ada', 'Grace'],
+	description: 'Line one\nLine two',
+	retrieved: '2025-01-02T03:04:05.000Z',
+	tags: ['math', 'history'],
+};
+
+// ---------------------------------------------------------------------------
+// Default layout
+// ---------------------------------------------------------------------------
+
+describe('buildFrontMatter', () => {
+	it('produces valid YAML front matter', () => {
+		const fm = buildFrontMatter({
+			title: 'Test "Title"',
+			source: 'https://example.com',
+			authors: ['Jane'],
+			description: 'A test page',
+			retrieved: '2025-01-01T00:00:00.000Z',
+		});
+		expect(fm).toContain('---');
+		expect(fm).toContain('title: "Test \\"Title\\""');
+		expect(fm).toContain('source: "https://example.com"');
+		expect(fm).toContain('author: "Jane"');
+		expect(fm).not.toContain('excerpt:');
+	});
+
+	it('marks excerpts', () => {
+		const fm = buildFrontMatter({
+			title: 'T',
+			source: 'https://example.com',
+			authors: [],
+			description: '',
+			retrieved: '2025-01-01T00:00:00.000Z',
+			excerpt: true,
+		});
+		expect(fm).toContain('excerpt: true');
+	});
+
+	it('lists multiple authors and tags', () => {
+		const fm = buildFrontMatter({
+			title: 'T',
+			source: 'https://example.com/a',
+			authors: ['Ada', 'Grace'],
+			description: '',
+			retrieved: '2025-01-01T00:00:00.000Z',
+			tags: ['math', 'computing'],
+		});
+		expect(fm).toContain('author:\n  - "Ada"\n  - "Grace"');
+		expect(fm).toContain('tags:\n  - "math"\n  - "computing"');
+	});
+
+	it('includes optional fields only when present', () => {
+		const fm = buildFrontMatter({
+			title: 'T',
+			source: 'https://example.com/a?utm_source=x',
+			authors: [],
+			description: '',
+			retrieved: '2025-01-01T00:00:00.000Z',
+			published: '2024-05-01',
+			siteName: 'Example',
+			canonical: 'https://example.com/a',
+		});
+		expect(fm).toContain('published: "2024-05-01"');
+		expect(fm).toContain('site: "Example"');
+		expect(fm).toContain('canonical: "https://example.com/a"');
+		expect(fm).toContain('tags: []');
+		expect(fm).not.toContain('modified:');
+		expect(fm).not.toContain('language:');
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Templates and formats
+// ---------------------------------------------------------------------------
+
+describe('parseFrontMatterTemplate', () => {
+	it('parses entries and skips comments', () => {
+		const { entries, errors } = parseFrontMatterTemplate('# comment\nurl: {{source}}\n\nok: true');
+		expect(errors).toEqual([]);
+		expect(entries).toEqual([
+			{ key: 'url', value: '{{source}}' },
+			{ key: 'ok', value: 'true' },
+		]);
+	});
+
+	it('reports invalid lines, keys and variables', () => {
+		const { entries, errors } = parseFrontMatterTemplate(
+			'no colon\nbad key: x\nurl: {{nope}}\nurl: {{source}}\nurl: {{title}}'
+		);
+		expect(entries).toEqual([{ key: 'url', value: '{{source}}' }]);
+		expect(errors).toEqual([
+			'Line 1: expected "key: value".',
+			'Line 2: "bad key" is not a valid key.',
+			'Line 3: unknown variable {{nope}}.',
+			'Line 5: duplicate key "url".',
+		]);
+	});
+});
+
+describe('buildFrontMatter with templates', () => {
+	const template =
+		'url: {{source}}\ncreated: {{date}}\nlabel: "{{title}} by {{authors}}"\ntags: {{tags}}\nmissing: {{published}}\ndraft: false';
+
+	it('renames keys and interpolates strings', () => {
+		const fm = buildFrontMatter(sampleMeta, { format: 'yaml', template });
+		expect(fm).toBe(
+			[
+				'---',
+				'url: "https://example.com/post"',
+				'created: "2025-01-02"',
+				'label: "A \\"Quoted\\" Title by Ada, Grace"',
+				'tags:',
+				'  - "math"',
+				'  - "history"',
+				'draft: false',
+				'---',
+			].join('\n')
+		);
+	});
+
+	it('escapes multi-line values in YAML', () => {
+		const fm = buildFrontMatter(sampleMeta, { format: 'yaml', template: 'text: {{description}}' });
+		expect(fm).toContain('text: "Line one\\nLine two"');
+	});
+
+	it('renders TOML', () => {
+		const fm = buildFrontMatter(sampleMeta, { format: 'toml', template });
+		expect(fm.startsWith('+++\n')).toBe(true);
+		expect(fm.endsWith('\n+++')).toBe(true);
+		expect(fm).toContain('url = "https://example.com/post"');
+		expect(fm).toContain('tags = ["math", "history"]');
+		expect(fm).toContain('draft = false');
+	});
+
+	it('renders JSON', () => {
+		const fm = buildFrontMatter(sampleMeta, { format: 'json', template });
+		expect(JSON.parse(fm)).toEqual({
+			url: 'https://example.com/post',
+			created: '2025-01-02',
+			label: 'A "Quoted" Title by Ada, Grace',
+			tags: ['math', 'history'],
+			draft: false,
+		});
+	});
+
+	it('exposes size counts as numbers', () => {
+		const fm = buildFrontMatter(
+			{ ...sampleMeta, stats: { characters: 1200, words: 210, tokens: 300 } },
+			{
+				format: 'yaml',
+				template: 'tokens: {{tokens}}\nwords: {{words}}\nsize: "{{characters}} chars"',
+			}
+		);
+		expect(fm).toBe('---\ntokens: 300\nwords: 210\nsize: "1200 chars"\n---');
+	});
+
+	it('omits size counts when they are unknown', () => {
+		expect(buildFrontMatter(sampleMeta, { format: 'yaml', template: 'tokens: {{tokens}}' })).toBe(
+			'---\n---'
+		);
+	});
+
+	it('renders nothing for format none', () => {
+		expect(buildFrontMatter(sampleMeta, { format: 'none', template })).toBe('');
+	});
+});
+
+describe('escapeToml', () => {
+	it('escapes quotes, backslashes and control characters', () => {
+		expect(escapeToml('a"b\\c\nd\u0001')).toBe('a\\"b\\\\c\\nd\\u0001');
+	});
+});
@@ -0,0 +1,287 @@
+import { escapeYaml } from './convert';
+import type { TextStats } from './tokens';
+
+export interface PageMetadata {
+	title: string;
+	source: string;
+	authors: string[];
+	description: string;
+	retrieved: string;
+	published?: string;
+	modified?: string;
+	siteName?: string;
+	/** Canonical URL declared by the page; only exposed when it differs from `source`. */
+	canonical?: string;
+	language?: string;
+	tags?: string[];
+	/** True when the body holds selected excerpts rather than the full article. */
+	excerpt?: boolean;
+	/** Size of the body and footnotes, excluding the front matter itself. */
+	stats?: TextStats;
+}
+
+export type FrontMatterFormat = 'yaml' | 'toml' | 'json' | 'none';
+
+export const frontMatterFormats: FrontMatterFormat[] = ['yaml', 'toml', 'json', 'none'];
+
+export interface FrontMatterOptions {
+	format: FrontMatterFormat;
+	/** One `key: value` entry per line; see {@link parseFrontMatterTemplate}. */
+	template: string;
+}
+
+type FrontMatterValue = string | number | boolean | string[];
+
+/**
+ * Variables available to front matter templates. `author` is a single string when the page has
+ * one author and a list when it has several; `authors` is always a list. `characters`, `words`
+ * and `tokens` measure the copied body.
+ */
+export const frontMatterVariables = [
+	'title',
+	'source',
+	'canonical',
+	'hostname',
+	'retrieved',
+	'date',
+	'published',
+	'modified',
+	'author',
+	'authors',
+	'description',
+	'siteName',
+	'language',
+	'tags',
+	'excerpt',
+	'characters',
+	'words',
+	'tokens',
+] as const;
+
+export type FrontMatterVariable = (typeof frontMatterVariables)[number];
+
+/**
+ * Template that reproduces the extension's built-in front matter layout.
+ */
+export const DEFAULT_FRONT_MATTER_TEMPLATE = `title: {{title}}
+source: {{source}}
+canonical: {{canonical}}
+retrieved: {{retrieved}}
+published: {{published}}
+modified: {{modified}}
+author: {{author}}
+description: {{description}}
+site: {{siteName}}
+language: {{language}}
+excerpt: {{excerpt}}
+tags: {{tags}}
+toc: true`;
+
+export const defaultFrontMatterOptions: FrontMatterOptions = {
+	format: 'yaml',
+	template: DEFAULT_FRONT_MATTER_TEMPLATE,
+};
+
+export interface FrontMatterTemplateEntry {
+	key: string;
+	/** Raw value text, e.g. `{{title}}`, `"{{title}} – {{siteName}}"` or `true`. */
+	value: string;
+}
+
+const KEY_PATTERN = /^[A-Za-z_][\w-]*$/;
+const VARIABLE_PATTERN = /\{\{\s*([\w]+)\s*\}\}/g;
+const SINGLE_VARIABLE_PATTERN = /^\{\{\s*([\w]+)\s*\}\}$/;
+
+/**
+ * Parses a template into entries, collecting a message for every line that cannot be used.
+ * Blank lines and lines starting with `#` are ignored.
+ * @param template - Template text with one `key: value` entry per line.
+ */
+export function parseFrontMatterTemplate(template: string): {
+	entries: FrontMatterTemplateEntry[];
+	errors: string[];
+} {
+	const entries: FrontMatterTemplateEntry[] = [];
+	const errors: string[] = [];
+	const seenKeys = new Set<string>();
+
+	template.split(/\r?\n/).forEach((rawLine, index) => {
+		const line = rawLine.trim();
+		if (!line || line.startsWith('#')) {
+			return;
+		}
+
+		const lineLabel = `Line ${index + 1}`;
+		const colonIndex = line.indexOf(':');
+		if (colonIndex === -1) {
+			errors.push(`${lineLabel}: expected "key: value".`);
+			return;
+		}
+
+		const key = line.slice(0, colonIndex).trim();
+		const value = line.slice(colonIndex + 1).trim();
+		if (!KEY_PATTERN.test(key)) {
+			errors.push(`${lineLabel}: "${key}" is not a valid key.`);
+			return;
+		}
+		if (seenKeys.has(key)) {
+			errors.push(`${lineLabel}: duplicate key "${key}".`);
+			return;
+		}
+
+		for (const match of value.matchAll(VARIABLE_PATTERN)) {
+			if (!(frontMatterVariables as readonly string[]).includes(match[1])) {
+				errors.push(`${lineLabel}: unknown variable {{${match[1]}}}.`);
+				return;
+			}
+		}
+
+		seenKeys.add(key);
+		entries.push({ key, value });
+	});
+
+	return { entries, errors };
+}
+
+/**
+ * Computes the value of every template variable for a page.
+ */
+function resolveVariables(
+	meta: PageMetadata
+): Record<FrontMatterVariable, FrontMatterValue | undefined> {
+	let hostname = '';
+	try {
+		hostname = new URL(meta.source).hostname;
+	} catch (_err) {}
+
+	return {
+		title: meta.title,
+		source: meta.source,
+		canonical: meta.canonical && meta.canonical !== meta.source ? meta.canonical : undefined,
+		hostname,
+		retrieved: meta.retrieved,
+		date: meta.retrieved.slice(0, 10),
+		published: meta.published,
+		modified: meta.modified,
+		author: meta.authors.length > 1 ? meta.authors : meta.authors[0],
+		authors: meta.authors,
+		description: meta.description,
+		siteName: meta.siteName,
+		language: meta.language,
+		tags: meta.tags ?? [],
+		excerpt: meta.excerpt,
+		characters: meta.stats?.characters,
+		words: meta.stats?.words,
+		tokens: meta.stats?.tokens,
+	};
+}
+
+/**
+ * Resolves a template value. A value that is exactly one variable keeps the variable's type, so
+ * lists stay lists; anything else is interpolated into a string, and bare `true`, `false` and
+ * numbers become typed literals. Missing values (undefined, empty strings, `false`) resolve to
+ * undefined so the entry is left out.
+ */
+function resolveValue(
+	raw: string,
+	variables: Record<FrontMatterVariable, FrontMatterValue | undefined>
+): FrontMatterValue | undefined {
+	const unquoted = raw.replace(/^"(.*)"$/, '$1');
+	const single = unquoted.match(SINGLE_VARIABLE_PATTERN);
+	if (single) {
+		const value = variables[single[1] as FrontMatterVariable];
+		return value === '' || value === false ? undefined : value;
+	}
+
+	if (raw === unquoted) {
+		if (raw === 'true' || raw === 'false') {
+			return raw === 'true';
+		}
+		if (/^-?\d+(\.\d+)?$/.test(raw)) {
+			return Number(raw);
+		}
+	}
+
+	return unquoted.replace(VARIABLE_PATTERN, (_, name: string) => {
+		const value = variables[name as FrontMatterVariable];
+		if (Array.isArray(value)) {
+			return value.join(', ');
+		}
+		return value === undefined || value === false ? '' : String(value);
+	});
+}
+
+/**
+ * Escapes a string for a TOML basic (double-quoted) string.
+ * @param value - Raw string to escape.
+ */
+export function escapeToml(value: string): string {
+	const escaped = value
+		.replace(/\\/g, '\\\\')
+		.replace(/"/g, '\\"')
+		.replace(/\n/g, '\\n')
+		.replace(/\r/g, '\\r')
+		.replace(/\t/g, '\\t');
+
+	return Array.from(escaped)
+		.map((char) => {
+			const code = char.charCodeAt(0);
+			return code < 0x20 || code === 0x7f ? `\\u${code.toString(16).padStart(4, '0')}` : char;
+		})
+		.join('');
+}
+
+function formatYamlValue(key: string, value: FrontMatterValue): string {
+	if (Array.isArray(value)) {
+		if (value.length === 0) {
+			return `${key}: []`;
+		}
+		return [`${key}:`, ...value.map((item) => `  - "${escapeYaml(item)}"`)].join('\n');
+	}
+	if (typeof value === 'string') {
+		return `${key}: "${escapeYaml(value)}"`;
+	}
+	return `${key}: ${value}`;
+}
+
+function formatTomlValue(key: string, value: FrontMatterValue): string {
+	if (Array.isArray(value)) {
+		return `${key} = [${value.map((item) => `"${escapeToml(item)}"`).join(', ')}]`;
+	}
+	if (typeof value === 'string') {
+		return `${key} = "${escapeToml(value)}"`;
+	}
+	return `${key} = ${value}`;
+}
+
+/**
+ * Renders front matter for a page using the configured template and format: YAML between `---`
+ * fences, TOML between `+++` fences, a bare JSON object, or nothing at all.
+ * @param meta - Page metadata supplying the template variables.
+ * @param options - Format and template; defaults to the built-in YAML layout.
+ */
+export function buildFrontMatter(
+	meta: PageMetadata,
+	options: FrontMatterOptions = defaultFrontMatterOptions
+): string {
+	if (options.format === 'none') {
+		return '';
+	}
+
+	const variables = resolveVariables(meta);
+	const fields: Array<[string, FrontMatterValue]> = [];
+	for (const entry of parseFrontMatterTemplate(options.template).entries) {
+		const value = resolveValue(entry.value, variables);
+		if (value !== undefined) {
+			fields.push([entry.key, value]);
+		}
+	}
+
+	if (options.format === 'json') {
+		return JSON.stringify(Object.fromEntries(fields), null, 2);
+	}
+	if (options.format === 'toml') {
+		return ['+++', ...fields.map(([key, value]) => formatTomlValue(key, value)), '+++'].join('\n');
+	}
+	return ['---', ...fields.map(([key, value]) => formatYamlValue(key, value)), '---'].join('\n');
+}
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+	addHistoryEntry,
+	clearHistory,
+	deleteHistoryEntries,
+	diffLines,
+	type HistoryEntry,
+	loadHistory,
+	pruneHistory,
+	searchHistory,
+} from './history';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function installStorage() {
+	const data: Record<string, unknown> = {};
+	const local = {
+		get: vi.fn(async (keys: string | string[]) => {
+			const list = Array.isArray(keys) ? keys : [keys];
+			return Object.fromEntries(list.filter((key) => key in data).map((key) => [key, data[key]]));
+		}),
+		getKeys: vi.fn(async () => Object.keys(data)),
+		set: vi.fn(async (items: Record<string, unknown>) => {
+			Object.assign(data, structuredClone(items));
+		}),
+		remove: vi.fn(async (keys: string | string[]) => {
+			for (const key of Array.isArray(keys) ? keys : [keys]) {
+				delete data[key];
+			}
+		}),
+	};
+	vi.stubGlobal('chrome', { storage: { local } });
+	return data;
+}
+
+function draft(title: string, markdown = 'Body'): Omit<HistoryEntry, 'id' | 'createdAt'> {
+	const url = `https://example.com/${title.toLowerCase()}`;
+	return {
+		url,
+		title,
+		extractedBy: 'readability',
+		strategy: 'readability',
+		format: 'markdown',
+		metadata: { title, source: url, authors: [], description: '', retrieved: '' },
+		markdown,
+		output: `# ${title}\n\n${markdown}`,
+	};
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+describe('history storage', () => {
+	let data: Record<string, unknown>;
+
+	beforeEach(() => {
+		data = installStorage();
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('stores entries newest first under their own keys', async () => {
+		const first = await addHistoryEntry(draft('First'), 10);
+		const second = await addHistoryEntry(draft('Second'), 10);
+
+		const entries = await loadHistory();
+		expect(entries.map((entry) => entry.title)).toEqual(['Second', 'First']);
+		expect(data[`history:${first?.id}`]).toMatchObject({ title: 'First' });
+		expect(second?.createdAt).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+	});
+
+	it('keeps every entry when conversions are saved at the same time', async () => {
+		const saved = await Promise.all(
+			['One', 'Two', 'Three', 'Four'].map((title) => addHistoryEntry(draft(title), 3))
+		);
+
+		const entries = await loadHistory();
+		expect(entries).toHaveLength(3);
+		expect(Object.keys(data).filter((key) => key.startsWith('history:'))).toHaveLength(3);
+		expect(data).not.toHaveProperty(`history:${saved[0]?.id}`);
+	});
+
+	it('keeps every entry when other pages save conversions at the same time', async () => {
+		vi.resetModules();
+		const otherPage = await import('./history');
+		await Promise.all([
+			addHistoryEntry(draft('Tab'), 10),
+			otherPage.addHistoryEntry(draft('Popup'), 10),
+			addHistoryEntry(draft('Other tab'), 10),
+		]);
+
+		const titles = (await loadHistory()).map((entry) => entry.title);
+		expect(titles.sort()).toEqual(['Other tab', 'Popup', 'Tab']);
+	});
+
+	it('drops the oldest entries beyond the retention limit', async () => {
+		const first = await addHistoryEntry(draft('First'), 2);
+		await addHistoryEntry(draft('Second'), 2);
+		await addHistoryEntry(draft('Third'), 2);
+
+		expect((await loadHistory()).map((entry) => entry.title)).toEqual(['Third', 'Second']);
+		expect(data).not.toHaveProperty(`history:${first?.id}`);
+	});
+
+	it('does nothing when history is disabled', async () => {
+		expect(await addHistoryEntry(draft('First'), 0)).toBeNull();
+		expect(await loadHistory()).toEqual([]);
+	});
+
+	it('deletes, prunes and clears entries', async () => {
+		const first = await addHistoryEntry(draft('First'), 10);
+		await addHistoryEntry(draft('Second'), 10);
+		await addHistoryEntry(draft('Third'), 10);
+
+		await deleteHistoryEntries([first?.id ?? '']);
+		expect((await loadHistory()).map((entry) => entry.title)).toEqual(['Third', 'Second']);
+
+		await pruneHistory(1);
+		expect((await loadHistory()).map((entry) => entry.title)).toEqual(['Third']);
+
+		await clearHistory();
+		expect(await loadHistory()).toEqual([]);
+		expect(Object.keys(data)).toEqual([]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Search and diff
+// ---------------------------------------------------------------------------
+
+describe('searchHistory', () => {
+	const entries = [
+		{ ...draft('Rust', 'Ownership and borrowing'), id: '1', createdAt: '' },
+		{ ...draft('Go', 'Goroutines and channels'), id: '2', createdAt: '' },
+	];
+
+	it('matches every term against title, URL and content', () => {
+		expect(searchHistory(entries, 'BORROWING rust').map((entry) => entry.id)).toEqual(['1']);
+		expect(searchHistory(entries, 'example.com/go').map((entry) => entry.id)).toEqual(['2']);
+		expect(searchHistory(entries, 'rust channels')).toEqual([]);
+	});
+
+	it('returns everything for an empty query', () => {
+		expect(searchHistory(entries, '  ')).toBe(entries);
+	});
+});
+
+describe('diffLines', () => {
+	it('marks added and removed lines', () => {
+		expect(diffLines('a\nb\nc\nd', 'a\nc\nx\nd')).toEqual([
+			{ type: 'same', text: 'a' },
+			{ type: 'removed', text: 'b' },
+			{ type: 'same', text: 'c' },
+			{ type: 'added', text: 'x' },
+			{ type: 'same', text: 'd' },
+		]);
+	});
+
+	it('reports identical documents as unchanged', () => {
+		expect(diffLines('a\nb', 'a\nb').every((line) => line.type === 'same')).toBe(true);
+	});
+});
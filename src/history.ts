@@ -0,0 +1,234 @@
+import type { ContentSource } from './convert';
+import type { PageMetadata } from './frontmatter';
+import type { OutputFormat } from './output';
+import type { ExtractionStrategy } from './rules';
+
+/**
+ * A past conversion kept in local storage.
+ */
+export interface HistoryEntry {
+	id: string;
+	/** ISO timestamp of the conversion. */
+	createdAt: string;
+	url: string;
+	title: string;
+	/** Step that produced the content, e.g. Readability or the rule selector. */
+	extractedBy: ContentSource;
+	/** Extraction strategy in effect for the page, from its rule or the global default. */
+	strategy: ExtractionStrategy;
+	format: OutputFormat;
+	metadata: PageMetadata;
+	/** Converted body with footnotes, used for search and diffs. */
+	markdown: string;
+	/** Exactly what was copied or downloaded. */
+	output: string;
+}
+
+/**
+ * History lives in `chrome.storage.local`, which content scripts can reach on every origin and
+ * which is not subject to the sync quotas. Each entry has its own key, and the list of entries is
+ * read from the keys rather than from a shared index: content scripts in every tab, the popup and
+ * the history page each run their own copy of this module, so an index that each of them reads,
+ * edits and writes back would lose entries saved at the same time.
+ */
+const HISTORY_ENTRY_PREFIX = 'history:';
+
+/** Index kept by earlier versions; removed the next time history is pruned. */
+const LEGACY_INDEX_KEY = 'historyIndex';
+
+/** Timestamp of the last id created here, so that ids from one page keep their order. */
+let lastIdTime = 0;
+
+function hasChromeStorage(): boolean {
+	return typeof chrome !== 'undefined' && !!chrome.storage?.local;
+}
+
+function entryKey(id: string): string {
+	return `${HISTORY_ENTRY_PREFIX}${id}`;
+}
+
+/**
+ * Creates a sortable identifier; `crypto.randomUUID` is unavailable on insecure pages.
+ */
+function createHistoryId(): string {
+	lastIdTime = Math.max(Date.now(), lastIdTime + 1);
+	return `${lastIdTime.toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** Creation time encoded at the start of an id. */
+function idTime(id: string): number {
+	return Number.parseInt(id.split('-')[0], 36) || 0;
+}
+
+/**
+ * Lists the ids of stored entries, newest first.
+ */
+async function readHistoryIds(): Promise<string[]> {
+	const keys =
+		typeof chrome.storage.local.getKeys === 'function'
+			? await chrome.storage.local.getKeys()
+			: Object.keys(await chrome.storage.local.get(null));
+	return keys
+		.filter((key) => key.startsWith(HISTORY_ENTRY_PREFIX))
+		.map((key) => key.slice(HISTORY_ENTRY_PREFIX.length))
+		.sort((a, b) => idTime(b) - idTime(a) || b.localeCompare(a));
+}
+
+/**
+ * Loads all stored conversions, newest first.
+ */
+export async function loadHistory(): Promise<HistoryEntry[]> {
+	if (!hasChromeStorage()) return [];
+
+	const ids = await readHistoryIds();
+	if (ids.length === 0) return [];
+
+	const stored = await chrome.storage.local.get(ids.map(entryKey));
+	return ids
+		.map((id) => stored[entryKey(id)] as HistoryEntry | undefined)
+		.filter((entry): entry is HistoryEntry => !!entry);
+}
+
+/**
+ * Stores a conversion and drops the oldest entries beyond the retention limit.
+ * @param entry - Conversion details; the id and timestamp are assigned here.
+ * @param limit - Maximum number of entries to keep; zero or less disables history.
+ * @returns The stored entry, or null when history is disabled.
+ */
+export async function addHistoryEntry(
+	entry: Omit<HistoryEntry, 'id' | 'createdAt'>,
+	limit: number
+): Promise<HistoryEntry | null> {
+	if (!hasChromeStorage() || limit <= 0) return null;
+
+	const stored: HistoryEntry = {
+		...entry,
+		id: createHistoryId(),
+		createdAt: new Date().toISOString(),
+	};
+	await chrome.storage.local.set({ [entryKey(stored.id)]: stored });
+	await pruneHistory(limit);
+	return stored;
+}
+
+/**
+ * Deletes stored conversions.
+ * @param ids - Identifiers of the entries to delete.
+ */
+export async function deleteHistoryEntries(ids: string[]): Promise<void> {
+	if (!hasChromeStorage() || ids.length === 0) return;
+
+	await chrome.storage.local.remove(ids.map(entryKey));
+}
+
+/**
+ * Trims stored history to a new retention limit.
+ * @param limit - Maximum number of entries to keep; zero or less deletes everything.
+ */
+export async function pruneHistory(limit: number): Promise<void> {
+	if (!hasChromeStorage()) return;
+
+	const dropped = (await readHistoryIds()).slice(Math.max(0, limit));
+	await chrome.storage.local.remove([LEGACY_INDEX_KEY, ...dropped.map(entryKey)]);
+}
+
+/**
+ * Deletes every stored conversion.
+ */
+export async function clearHistory(): Promise<void> {
+	await pruneHistory(0);
+}
+
+/**
+ * Filters entries whose title, URL or Markdown contain every word of the query, ignoring case.
+ * @param entries - Entries to search.
+ * @param query - Space-separated search terms; an empty query matches everything.
+ */
+export function searchHistory(entries: HistoryEntry[], query: string): HistoryEntry[] {
+	const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+	if (terms.length === 0) return entries;
+
+	return entries.filter((entry) => {
+		const haystack = `${entry.title}\n${entry.url}\n${entry.markdown}`.toLowerCase();
+		return terms.every((term) => haystack.includes(term));
+	});
+}
+
+// ---------------------------------------------------------------------------
+// Diffs
+// ---------------------------------------------------------------------------
+
+export interface DiffLine {
+	type: 'same' | 'added' | 'removed';
+	text: string;
+}
+
+/** Largest LCS table computed before falling back to replacing the changed block wholesale. */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Computes a line diff between two documents using the longest common subsequence. Lines common
+ * to both ends are matched first so typical edits stay cheap on long pages.
+ * @param before - Older text.
+ * @param after - Newer text.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+	const a = before.split('\n');
+	const b = after.split('\n');
+
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		start++;
+	}
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+
+	const midA = a.slice(start, endA);
+	const midB = b.slice(start, endB);
+	if (midA.length * midB.length > MAX_DIFF_CELLS) {
+		return [
+			...a.slice(0, start).map((text): DiffLine => ({ type: 'same', text })),
+			...midA.map((text): DiffLine => ({ type: 'removed', text })),
+			...midB.map((text): DiffLine => ({ type: 'added', text })),
+			...a.slice(endA).map((text): DiffLine => ({ type: 'same', text })),
+		];
+	}
+	const lengths = Array.from({ length: midA.length + 1 }, () =>
+		new Array<number>(midB.length + 1).fill(0)
+	);
+	for (let i = midA.length - 1; i >= 0; i--) {
+		for (let j = midB.length - 1; j >= 0; j--) {
+			lengths[i][j] =
+				midA[i] === midB[j]
+					? lengths[i + 1][j + 1] + 1
+					: Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+		}
+	}
+
+	const middle: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < midA.length && j < midB.length) {
+		if (midA[i] === midB[j]) {
+			middle.push({ type: 'same', text: midA[i] });
+			i++;
+			j++;
+		} else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+			middle.push({ type: 'removed', text: midA[i++] });
+		} else {
+			middle.push({ type: 'added', text: midB[j++] });
+		}
+	}
+	while (i < midA.length) middle.push({ type: 'removed', text: midA[i++] });
+	while (j < midB.length) middle.push({ type: 'added', text: midB[j++] });
+
+	return [
+		...a.slice(0, start).map((text): DiffLine => ({ type: 'same', text })),
+		...middle,
+		...a.slice(endA).map((text): DiffLine => ({ type: 'same', text })),
+	];
+}
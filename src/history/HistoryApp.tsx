@@ -0,0 +1,312 @@
+import { Toast } from '@base-ui/react';
+import { useEffect, useMemo, useState } from 'react';
+import { downloadText } from '../download';
+import { renderFilename } from '../filename';
+import {
+	clearHistory,
+	deleteHistoryEntries,
+	diffLines,
+	type HistoryEntry,
+	loadHistory,
+	searchHistory,
+} from '../history';
+import { outputFormatFiles, outputFormatLabels } from '../output';
+import { loadSettings } from '../settings';
+import { Button } from '../ui/Button';
+import { Card } from '../ui/Card';
+import { cn } from '../ui/cn';
+import { sourceLabels, strategyLabels } from '../ui/labels';
+import { useToast } from '../ui/useToast';
+
+const dateFormat = new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const inputClassName =
+	'h-11 w-full rounded-lg border border-slate-300 bg-white px-3 text-sm shadow-sm outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/30';
+
+/**
+ * Wraps the history page with a toast provider and viewport.
+ */
+export function HistoryApp() {
+	return (
+		<Toast.Provider>
+			<HistoryContent />
+			<Toast.Viewport className="fixed bottom-4 right-4 flex w-80 flex-col gap-3" />
+		</Toast.Provider>
+	);
+}
+
+/**
+ * Lists past conversions with search, re-copy, download, delete and diff actions.
+ */
+function HistoryContent() {
+	const [entries, setEntries] = useState<HistoryEntry[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [loadFailed, setLoadFailed] = useState(false);
+	const [query, setQuery] = useState('');
+	const [selectedId, setSelectedId] = useState<string | null>(null);
+	const [compareId, setCompareId] = useState<string | null>(null);
+	const toast = useToast();
+
+	useEffect(() => {
+		let active = true;
+		(async () => {
+			try {
+				const loaded = await loadHistory();
+				if (active) {
+					setEntries(loaded);
+					setSelectedId(loaded[0]?.id ?? null);
+				}
+			} catch (error) {
+				console.error('Failed to load history', error);
+				if (active) setLoadFailed(true);
+			} finally {
+				if (active) setLoading(false);
+			}
+		})();
+		return () => {
+			active = false;
+		};
+	}, []);
+
+	const results = useMemo(() => searchHistory(entries, query), [entries, query]);
+	const selected = entries.find((entry) => entry.id === selectedId) ?? null;
+	const sameUrl = useMemo(
+		() => (selected ? entries.filter((e) => e.url === selected.url && e.id !== selected.id) : []),
+		[entries, selected]
+	);
+	const compared = sameUrl.find((entry) => entry.id === compareId) ?? null;
+	const diff = useMemo(() => {
+		if (!selected || !compared) return null;
+		const [older, newer] =
+			compared.createdAt < selected.createdAt ? [compared, selected] : [selected, compared];
+		// Each line is keyed by the entry it comes from and its line number there.
+		let before = 0;
+		let after = 0;
+		return diffLines(older.markdown, newer.markdown).map((line) => {
+			const key = line.type === 'added' ? `${newer.id}:${after}` : `${older.id}:${before}`;
+			if (line.type !== 'added') before++;
+			if (line.type !== 'removed') after++;
+			return { ...line, key };
+		});
+	}, [selected, compared]);
+
+	function handleSelect(id: string) {
+		setSelectedId(id);
+		setCompareId(null);
+	}
+
+	async function handleCopy(entry: HistoryEntry) {
+		try {
+			await navigator.clipboard.writeText(entry.output);
+			toast('Copied', `${outputFormatLabels[entry.format]} is back on your clipboard.`);
+		} catch (error) {
+			console.error('Failed to copy history entry', error);
+			toast('Failed to copy', 'Please try again.', 'error');
+		}
+	}
+
+	async function handleDownload(entry: HistoryEntry) {
+		const { extension, mimeType } = outputFormatFiles[entry.format];
+		try {
+			const current = await loadSettings();
+			await downloadText({
+				text: entry.output,
+				filename: renderFilename(current.filenameTemplate, entry.metadata, extension),
+				mimeType,
+				saveAs: current.saveAs,
+				conflict: current.filenameConflict,
+			});
+		} catch (error) {
+			console.error('Failed to download history entry', error);
+			toast('Failed to download', 'Please try again.', 'error');
+		}
+	}
+
+	async function handleDelete(entry: HistoryEntry) {
+		try {
+			await deleteHistoryEntries([entry.id]);
+			setEntries((prev) => prev.filter((item) => item.id !== entry.id));
+			if (selectedId === entry.id) setSelectedId(null);
+			if (compareId === entry.id) setCompareId(null);
+			toast('Conversion deleted', entry.title || entry.url);
+		} catch (error) {
+			console.error('Failed to delete history entry', error);
+			toast('Failed to delete', 'Please try again.', 'error');
+		}
+	}
+
+	async function handleClear() {
+		try {
+			await clearHistory();
+			setEntries([]);
+			setSelectedId(null);
+			setCompareId(null);
+			toast('History cleared', 'All saved conversions were deleted.');
+		} catch (error) {
+			console.error('Failed to clear history', error);
+			toast('Failed to clear', 'Please try again.', 'error');
+		}
+	}
+
+	if (loading) {
+		return (
+			<div className="flex min-h-screen items-center justify-center bg-slate-50">
+				<div className="flex flex-col items-center gap-3 text-slate-600">
+					<span className="h-8 w-8 animate-spin rounded-full border-2 border-brand/30 border-t-brand" />
+					<span>Loading history…</span>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="min-h-screen bg-slate-50">
+			<div className="mx-auto flex max-w-6xl flex-col gap-8 px-6 py-10">
+				<header className="flex flex-col gap-3">
+					<div className="inline-flex items-center gap-2">
+						<span className="rounded-full bg-brand/10 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-brand">
+							Page to Markdown
+						</span>
+						<a className="text-sm text-brand hover:underline" href="options.html">
+							Back to options
+						</a>
+					</div>
+					<h1 className="text-3xl font-semibold text-slate-900">Conversion History</h1>
+					<p className="max-w-2xl text-base text-slate-600">
+						Past conversions are stored on this device only. Search them, copy or download them
+						again, or compare two conversions of the same page.
+					</p>
+				</header>
+
+				<div className="grid gap-6 lg:grid-cols-[1fr_2fr]">
+					<Card className="flex flex-col gap-4">
+						<input
+							className={inputClassName}
+							type="search"
+							placeholder="Search titles, URLs and content"
+							aria-label="Search history"
+							value={query}
+							onChange={(event) => setQuery(event.target.value)}
+						/>
+						{results.length === 0 ? (
+							<p className="text-sm text-slate-500">
+								{loadFailed
+									? 'Failed to load history. Please reload the page.'
+									: entries.length === 0
+										? 'No conversions yet.'
+										: 'No conversions match.'}
+							</p>
+						) : (
+							<ul className="flex max-h-[70vh] flex-col gap-2 overflow-auto">
+								{results.map((entry) => (
+									<li key={entry.id}>
+										<button
+											type="button"
+											className={cn(
+												'w-full rounded-lg border p-3 text-left transition',
+												entry.id === selectedId
+													? 'border-brand bg-brand/5'
+													: 'border-slate-200 bg-white hover:bg-slate-50'
+											)}
+											onClick={() => handleSelect(entry.id)}
+										>
+											<p className="truncate text-sm font-semibold text-slate-900">
+												{entry.title || entry.url}
+											</p>
+											<p className="truncate text-xs text-slate-500">{entry.url}</p>
+											<p className="text-xs text-slate-500">
+												{dateFormat.format(new Date(entry.createdAt))} ·{' '}
+												{outputFormatLabels[entry.format]}
+											</p>
+										</button>
+									</li>
+								))}
+							</ul>
+						)}
+						{entries.length > 0 && (
+							<Button type="button" variant="destructive" onClick={handleClear}>
+								Clear history
+							</Button>
+						)}
+					</Card>
+
+					{selected ? (
+						<Card className="flex min-w-0 flex-col gap-4">
+							<div>
+								<h2 className="text-xl font-semibold text-slate-900">
+									{selected.title || selected.url}
+								</h2>
+								<a
+									className="break-all text-sm text-brand hover:underline"
+									href={selected.url}
+									target="_blank"
+									rel="noreferrer"
+								>
+									{selected.url}
+								</a>
+								<p className="text-xs text-slate-500">
+									{dateFormat.format(new Date(selected.createdAt))} · Extracted by{' '}
+									{sourceLabels[selected.extractedBy]} · Strategy:{' '}
+									{strategyLabels[selected.strategy]}
+								</p>
+							</div>
+
+							<div className="flex flex-wrap items-center gap-3">
+								<Button type="button" onClick={() => handleCopy(selected)}>
+									Copy again
+								</Button>
+								<Button type="button" variant="secondary" onClick={() => handleDownload(selected)}>
+									Download
+								</Button>
+								<Button type="button" variant="ghost" onClick={() => handleDelete(selected)}>
+									Delete
+								</Button>
+								{sameUrl.length > 0 && (
+									<select
+										className={cn(inputClassName, 'w-auto')}
+										aria-label="Compare with"
+										value={compareId ?? ''}
+										onChange={(event) => setCompareId(event.target.value || null)}
+									>
+										<option value="">Compare with…</option>
+										{sameUrl.map((entry) => (
+											<option key={entry.id} value={entry.id}>
+												{dateFormat.format(new Date(entry.createdAt))}
+											</option>
+										))}
+									</select>
+								)}
+							</div>
+
+							{diff ? (
+								<pre className="max-h-[60vh] overflow-auto rounded-lg border border-slate-200 bg-slate-50 p-3 text-xs">
+									{diff.map((line) => (
+										<div
+											key={line.key}
+											className={cn(
+												'whitespace-pre-wrap',
+												line.type === 'added' && 'bg-emerald-100 text-emerald-900',
+												line.type === 'removed' && 'bg-rose-100 text-rose-900'
+											)}
+										>
+											{line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+											{line.text}
+										</div>
+									))}
+								</pre>
+							) : (
+								<pre className="max-h-[60vh] overflow-auto whitespace-pre-wrap rounded-lg border border-slate-200 bg-slate-50 p-3 text-xs text-slate-800">
+									{selected.output}
+								</pre>
+							)}
+						</Card>
+					) : (
+						<Card>
+							<p className="text-sm text-slate-500">Select a conversion to see its contents.</p>
+						</Card>
+					)}
+				</div>
+			</div>
+		</div>
+	);
+}
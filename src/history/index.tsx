@@ -0,0 +1,16 @@
+import { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+import '../styles/tailwind.css';
+import { HistoryApp } from './HistoryApp';
+
+const container = document.getElementById('root');
+
+if (!container) {
+	throw new Error('History root container missing');
+}
+
+createRoot(container).render(
+	<StrictMode>
+		<HistoryApp />
+	</StrictMode>
+);
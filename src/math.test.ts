@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+
+import { mathMLToLatex, prepareMath } from './math';
+
+function mathElement(markup: string): Element {
+	const container = document.createElement('div');
+	container.innerHTML = markup;
+	const math = container.querySelector('math');
+	if (!math) {
+		throw new Error('No math element');
+	}
+	return math;
+}
+
+function prepared(html: string): HTMLElement {
+	const el = document.createElement('div');
+	el.innerHTML = html;
+	prepareMath(el);
+	return el;
+}
+
+function placeholders(el: Element): Array<[string | null, string | null]> {
+	return Array.from(el.querySelectorAll('[data-math]')).map((node) => [
+		node.getAttribute('data-math'),
+		node.getAttribute('data-math-tex'),
+	]);
+}
+
+describe('mathMLToLatex', () => {
+	it('translates scripts, fractions and roots', () => {
+		expect(
+			mathMLToLatex(
+				mathElement(
+					'<math><mfrac><mrow><mo>−</mo><mi>b</mi><mo>±</mo><msqrt><msup><mi>b</mi><mn>2</mn></msup><mo>−</mo><mn>4</mn><mi>a</mi><mi>c</mi></msqrt></mrow><mrow><mn>2</mn><mi>a</mi></mrow></mfrac></math>'
+				)
+			)
+		).toBe('\\frac{-b\\pm\\sqrt{b^2-4ac}}{2a}');
+		expect(
+			mathMLToLatex(
+				mathElement(
+					'<math><mroot><mi>x</mi><mn>3</mn></mroot><msub><mi>a</mi><mrow><mi>i</mi><mo>,</mo><mi>j</mi></mrow></msub></math>'
+				)
+			)
+		).toBe('\\sqrt[3]{x}a_{i,j}');
+	});
+
+	it('maps symbols, functions and text', () => {
+		expect(
+			mathMLToLatex(
+				mathElement(
+					'<math><mi>sin</mi><mo>⁡</mo><mi>θ</mi><mo>≤</mo><mi mathvariant="normal">Δ</mi><mtext>for all </mtext><mi>x</mi><mo>∈</mo><mi mathvariant="double-struck">R</mi></math>'
+				)
+			)
+		).toBe('\\sin\\theta\\leq\\Delta\\text{for all }x\\in\\mathbb{R}');
+	});
+
+	it('writes limits of large operators and accents', () => {
+		expect(
+			mathMLToLatex(
+				mathElement(
+					'<math><munderover><mo>∑</mo><mrow><mi>i</mi><mo>=</mo><mn>1</mn></mrow><mi>n</mi></munderover><msub><mover><mi>x</mi><mo>^</mo></mover><mi>i</mi></msub></math>'
+				)
+			)
+		).toBe('\\sum_{i=1}^n\\hat{x}_i');
+	});
+
+	it('writes tables as matrices', () => {
+		expect(
+			mathMLToLatex(
+				mathElement(
+					'<math><mo>(</mo><mtable><mtr><mtd><mn>1</mn></mtd><mtd><mn>0</mn></mtd></mtr><mtr><mtd><mn>0</mn></mtd><mtd><mn>1</mn></mtd></mtr></mtable><mo>)</mo></math>'
+				)
+			)
+		).toBe('(\\begin{matrix} 1 & 0 \\\\ 0 & 1 \\end{matrix})');
+	});
+});
+
+describe('prepareMath', () => {
+	it('reads KaTeX annotations and display mode', () => {
+		const el = prepared(
+			'<p>Inline <span class="katex"><span class="katex-mathml"><math><semantics><mrow><mi>E</mi></mrow><annotation encoding="application/x-tex">E = mc^2</annotation></semantics></math></span><span class="katex-html" aria-hidden="true">E=mc2</span></span></p>' +
+				'<span class="katex-display"><span class="katex"><span class="katex-mathml"><math display="block"><semantics><mi>x</mi><annotation encoding="application/x-tex">\\int_0^1 x\\,dx</annotation></semantics></math></span></span></span>'
+		);
+		expect(placeholders(el)).toEqual([
+			['inline', 'E = mc^2'],
+			['display', '\\int_0^1 x\\,dx'],
+		]);
+		expect(el.querySelector('.katex-html')).toBeNull();
+	});
+
+	it('reads MathJax 2 scripts and removes their rendered output', () => {
+		const el = prepared(
+			'<p>Area <span class="MathJax_Preview"></span><span class="MathJax" id="MathJax-Element-1-Frame"><span>πr2</span></span><script type="math/tex" id="MathJax-Element-1">\\pi r^2</script></p>' +
+				'<span class="MathJax_Preview"></span><div class="MathJax_Display"><span class="MathJax" id="MathJax-Element-2-Frame">glyphs</span></div><script type="math/tex; mode=display" id="MathJax-Element-2">% <![CDATA[\na+b\n%]]></script>'
+		);
+		expect(placeholders(el)).toEqual([
+			['inline', '\\pi r^2'],
+			['display', 'a+b'],
+		]);
+		expect(el.querySelector('.MathJax, .MathJax_Preview, script')).toBeNull();
+	});
+
+	it('falls back to MathJax MathML when the script is gone', () => {
+		const el = prepared(
+			'<div class="MathJax_Display"><span class="MathJax" data-mathml="&lt;math&gt;&lt;msup&gt;&lt;mi&gt;e&lt;/mi&gt;&lt;mi&gt;x&lt;/mi&gt;&lt;/msup&gt;&lt;/math&gt;">glyphs</span></div>' +
+				'<mjx-container display="true"><mjx-math aria-hidden="true"></mjx-math><mjx-assistive-mml><math><mi>y</mi></math></mjx-assistive-mml></mjx-container>'
+		);
+		expect(placeholders(el)).toEqual([
+			['display', 'e^x'],
+			['display', 'y'],
+		]);
+	});
+
+	it('reads Wikipedia alt text, data-tex attributes and plain MathML', () => {
+		const el = prepared(
+			'<span class="mwe-math-element"><span style="display: none"><math alttext="{\\displaystyle a^{2}}"><mi>a</mi></math></span><img alt="{\\displaystyle a^{2}}"></span>' +
+				'<span data-tex="\\alpha"></span>' +
+				'<math display="block" alttext="x_1"><msub><mi>x</mi><mn>1</mn></msub></math>'
+		);
+		expect(placeholders(el)).toEqual([
+			['inline', 'a^{2}'],
+			['inline', '\\alpha'],
+			['display', 'x_1'],
+		]);
+	});
+});
@@ -0,0 +1,617 @@
+/**
+ * Math recovery. Pages render equations as MathML, KaTeX or MathJax markup that Turndown turns into
+ * a jumble of glyphs, so each equation is replaced by a placeholder holding its TeX source, which
+ * the Turndown `math` rule writes as `$…$` or a `$$…$$` block.
+ */
+
+interface MathSource {
+	tex: string;
+	/** Whether the equation is a block of its own rather than part of a line of text. */
+	display: boolean;
+}
+
+/** Marks placeholders, with `inline` or `display` as the value. */
+const PLACEHOLDER_ATTRIBUTE = 'data-math';
+/** TeX source of a placeholder, kept in an attribute so that Turndown does not collapse it. */
+const TEX_ATTRIBUTE = 'data-math-tex';
+
+// ---------------------------------------------------------------------------
+// MathML translation
+// ---------------------------------------------------------------------------
+
+const SYMBOLS: Record<string, string> = {
+	α: '\\alpha',
+	β: '\\beta',
+	γ: '\\gamma',
+	δ: '\\delta',
+	ϵ: '\\epsilon',
+	ε: '\\varepsilon',
+	ζ: '\\zeta',
+	η: '\\eta',
+	θ: '\\theta',
+	ϑ: '\\vartheta',
+	ι: '\\iota',
+	κ: '\\kappa',
+	λ: '\\lambda',
+	μ: '\\mu',
+	ν: '\\nu',
+	ξ: '\\xi',
+	π: '\\pi',
+	ϖ: '\\varpi',
+	ρ: '\\rho',
+	ϱ: '\\varrho',
+	σ: '\\sigma',
+	ς: '\\varsigma',
+	τ: '\\tau',
+	υ: '\\upsilon',
+	ϕ: '\\phi',
+	φ: '\\varphi',
+	χ: '\\chi',
+	ψ: '\\psi',
+	ω: '\\omega',
+	Γ: '\\Gamma',
+	Δ: '\\Delta',
+	Θ: '\\Theta',
+	Λ: '\\Lambda',
+	Ξ: '\\Xi',
+	Π: '\\Pi',
+	Σ: '\\Sigma',
+	Υ: '\\Upsilon',
+	Φ: '\\Phi',
+	Ψ: '\\Psi',
+	Ω: '\\Omega',
+	'±': '\\pm',
+	'∓': '\\mp',
+	'×': '\\times',
+	'÷': '\\div',
+	'·': '\\cdot',
+	'⋅': '\\cdot',
+	'∗': '\\ast',
+	'∘': '\\circ',
+	'⊕': '\\oplus',
+	'⊗': '\\otimes',
+	'−': '-',
+	'≤': '\\leq',
+	'≥': '\\geq',
+	'≠': '\\neq',
+	'≈': '\\approx',
+	'≡': '\\equiv',
+	'∼': '\\sim',
+	'≃': '\\simeq',
+	'≅': '\\cong',
+	'∝': '\\propto',
+	'≪': '\\ll',
+	'≫': '\\gg',
+	'∞': '\\infty',
+	'∂': '\\partial',
+	'∇': '\\nabla',
+	'∑': '\\sum',
+	'∏': '\\prod',
+	'∐': '\\coprod',
+	'∫': '\\int',
+	'∬': '\\iint',
+	'∭': '\\iiint',
+	'∮': '\\oint',
+	'⋃': '\\bigcup',
+	'⋂': '\\bigcap',
+	'∈': '\\in',
+	'∉': '\\notin',
+	'∋': '\\ni',
+	'⊂': '\\subset',
+	'⊆': '\\subseteq',
+	'⊃': '\\supset',
+	'⊇': '\\supseteq',
+	'∪': '\\cup',
+	'∩': '\\cap',
+	'∅': '\\emptyset',
+	'∀': '\\forall',
+	'∃': '\\exists',
+	'¬': '\\neg',
+	'∧': '\\land',
+	'∨': '\\lor',
+	'⊥': '\\perp',
+	'∥': '\\parallel',
+	'→': '\\to',
+	'←': '\\leftarrow',
+	'↔': '\\leftrightarrow',
+	'⇒': '\\Rightarrow',
+	'⇐': '\\Leftarrow',
+	'⇔': '\\Leftrightarrow',
+	'↦': '\\mapsto',
+	'…': '\\ldots',
+	'⋯': '\\cdots',
+	'⋮': '\\vdots',
+	'⋱': '\\ddots',
+	'′': "'",
+	'″': "''",
+	'°': '^\\circ',
+	'⟨': '\\langle',
+	'⟩': '\\rangle',
+	'‖': '\\|',
+	ℝ: '\\mathbb{R}',
+	ℕ: '\\mathbb{N}',
+	ℤ: '\\mathbb{Z}',
+	ℚ: '\\mathbb{Q}',
+	ℂ: '\\mathbb{C}',
+	ℏ: '\\hbar',
+	ℓ: '\\ell',
+	'\\': '\\backslash',
+	'{': '\\{',
+	'}': '\\}',
+	'#': '\\#',
+	$: '\\$',
+	'%': '\\%',
+	'&': '\\&',
+	_: '\\_',
+	/** Function application, invisible times and invisible separator. */
+	'⁡': '',
+	'⁢': '',
+	'⁣': '',
+};
+
+/** Operator names with a TeX command of their own, e.g. `\sin`. */
+const FUNCTIONS = new Set([
+	'arccos',
+	'arcsin',
+	'arctan',
+	'arg',
+	'cos',
+	'cosh',
+	'cot',
+	'csc',
+	'deg',
+	'det',
+	'dim',
+	'exp',
+	'gcd',
+	'hom',
+	'inf',
+	'ker',
+	'lg',
+	'lim',
+	'liminf',
+	'limsup',
+	'ln',
+	'log',
+	'max',
+	'min',
+	'Pr',
+	'sec',
+	'sin',
+	'sinh',
+	'sup',
+	'tan',
+	'tanh',
+]);
+
+/** Characters that `mover` and `munder` turn into accents, e.g. `x` over `^` into `\hat{x}`. */
+const OVER_ACCENTS: Record<string, string> = {
+	'^': '\\hat',
+	ˆ: '\\hat',
+	'̂': '\\hat',
+	'¯': '\\overline',
+	'‾': '\\overline',
+	'̅': '\\overline',
+	'→': '\\vec',
+	'⃗': '\\vec',
+	'~': '\\tilde',
+	'˜': '\\tilde',
+	'̃': '\\tilde',
+	'˙': '\\dot',
+	'̇': '\\dot',
+	'¨': '\\ddot',
+	'̈': '\\ddot',
+	'⏞': '\\overbrace',
+};
+
+const UNDER_ACCENTS: Record<string, string> = {
+	_: '\\underline',
+	'̲': '\\underline',
+	'⏟': '\\underbrace',
+};
+
+/** Operators whose `munder` and `mover` scripts are limits written with `_` and `^`. */
+const LIMIT_OPERATORS =
+	/^\\(sum|prod|coprod|i*nt|oint|bigcup|bigcap|lim|liminf|limsup|max|min|sup|inf|det|gcd|Pr|operatorname)\b/;
+
+const VARIANTS: Record<string, string> = {
+	normal: '\\mathrm',
+	bold: '\\mathbf',
+	italic: '\\mathit',
+	'double-struck': '\\mathbb',
+	script: '\\mathcal',
+	fraktur: '\\mathfrak',
+	'sans-serif': '\\mathsf',
+	monospace: '\\mathtt',
+};
+
+/**
+ * Joins TeX fragments, separating a control word from a following letter (`\alpha x`).
+ */
+function joinTex(parts: string[]): string {
+	let result = '';
+	for (const part of parts) {
+		if (!part) continue;
+		result += /\\[a-zA-Z]+$/.test(result) && /^[a-zA-Z]/.test(part) ? ` ${part}` : part;
+	}
+	return result;
+}
+
+/**
+ * Tests whether the brace opening a fragment closes at its end, as in `\hat{x}` but not
+ * `\frac{a}{b}`.
+ */
+function closesAtEnd(tex: string, open: number): boolean {
+	let depth = 0;
+	for (let i = open; i < tex.length; i++) {
+		depth += tex[i] === '{' ? 1 : tex[i] === '}' ? -1 : 0;
+		if (depth === 0) return i === tex.length - 1;
+	}
+	return false;
+}
+
+/**
+ * Wraps a fragment in braces unless it is a single character, a control word, or a control word
+ * with one argument.
+ */
+function group(tex: string): string {
+	if (/^(.|\\[a-zA-Z]+)$/u.test(tex)) return tex;
+	const command = tex.match(/^\\[a-zA-Z]+\{/);
+	return command && closesAtEnd(tex, command[0].length - 1) ? tex : `{${tex}}`;
+}
+
+function tokenText(el: Element): string {
+	return (el.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function symbols(text: string): string {
+	return joinTex(Array.from(text).map((char) => SYMBOLS[char] ?? char));
+}
+
+function identifier(el: Element): string {
+	const text = tokenText(el);
+	if (Array.from(text).length > 1) {
+		return FUNCTIONS.has(text) ? `\\${text}` : `\\mathrm{${symbols(text)}}`;
+	}
+	const variant = VARIANTS[el.getAttribute('mathvariant') ?? ''];
+	return variant && /^[a-zA-Z0-9]$/.test(text) ? `${variant}{${text}}` : symbols(text);
+}
+
+function operator(el: Element): string {
+	const text = tokenText(el);
+	if (/^[a-zA-Z]{2,}$/.test(text)) {
+		return FUNCTIONS.has(text) ? `\\${text}` : `\\operatorname{${text}}`;
+	}
+	return symbols(text);
+}
+
+function textRun(el: Element): string {
+	const text = el.textContent ?? '';
+	if (!text.trim()) {
+		return text ? '\\ ' : '';
+	}
+	const escaped = text.replace(/[\\{}$&#%_^~]/g, (char) => {
+		if (char === '\\') return '\\textbackslash{}';
+		if (char === '^' || char === '~') return `\\${char}{}`;
+		return `\\${char}`;
+	});
+	return `\\text{${escaped}}`;
+}
+
+function space(el: Element): string {
+	if (el.getAttribute('linebreak') === 'newline') {
+		return '\\\\';
+	}
+	const width = parseFloat(el.getAttribute('width') ?? '');
+	if (!(el.getAttribute('width') ?? '').endsWith('em') || Number.isNaN(width)) {
+		return '';
+	}
+	if (width < 0) return '\\!';
+	if (width >= 2) return '\\qquad';
+	if (width >= 1) return '\\quad';
+	if (width >= 0.27) return '\\;';
+	if (width >= 0.22) return '\\:';
+	return width > 0 ? '\\,' : '';
+}
+
+function scripts(base: string, sub: string, sup: string): string {
+	const subPart = sub ? `_${group(sub)}` : '';
+	const supPart = /^'+$/.test(sup) ? sup : sup ? `^${group(sup)}` : '';
+	return `${base ? group(base) : '{}'}${subPart}${supPart}`;
+}
+
+/**
+ * Writes `munder`, `mover` and `munderover`: accents, limits of large operators, or stacked
+ * expressions.
+ */
+function underOver(base: Element | undefined, under?: Element, over?: Element): string {
+	let tex = base ? translate(base) : '';
+	const overAccent = over && OVER_ACCENTS[tokenText(over)];
+	const underAccent = under && UNDER_ACCENTS[tokenText(under)];
+	if (overAccent) {
+		tex = `${overAccent}{${tex}}`;
+		over = undefined;
+	}
+	if (underAccent) {
+		tex = `${underAccent}{${tex}}`;
+		under = undefined;
+	}
+
+	const underTex = under ? translate(under) : '';
+	const overTex = over ? translate(over) : '';
+	if (LIMIT_OPERATORS.test(tex)) {
+		return scripts(tex, underTex, overTex);
+	}
+	if (underTex) tex = `\\underset{${underTex}}{${tex}}`;
+	if (overTex) tex = `\\overset{${overTex}}{${tex}}`;
+	return tex;
+}
+
+function table(el: Element): string {
+	const rows = Array.from(el.children)
+		.filter((row) => row.localName === 'mtr' || row.localName === 'mlabeledtr')
+		.map((row) => {
+			const cells = Array.from(row.children).filter((cell) => cell.localName === 'mtd');
+			// The first cell of a labelled row holds the equation number.
+			const content = row.localName === 'mlabeledtr' ? cells.slice(1) : cells;
+			return content.map((cell) => translateChildren(cell)).join(' & ');
+		});
+	// Alternating right and left columns come from `aligned` and similar environments.
+	const env = /^right left/.test(el.getAttribute('columnalign') ?? '') ? 'aligned' : 'matrix';
+	return `\\begin{${env}} ${rows.join(' \\\\ ')} \\end{${env}}`;
+}
+
+function fenced(el: Element): string {
+	const open = el.getAttribute('open') ?? '(';
+	const close = el.getAttribute('close') ?? ')';
+	const separators = Array.from((el.getAttribute('separators') ?? ',').replace(/\s/g, ''));
+	const items = Array.from(el.children).map((child, index) => {
+		const separator =
+			index > 0 ? (separators[Math.min(index - 1, separators.length - 1)] ?? '') : '';
+		return `${symbols(separator)}${translate(child)}`;
+	});
+	return `${symbols(open)}${joinTex(items)}${symbols(close)}`;
+}
+
+function translateChildren(el: Element): string {
+	return joinTex(Array.from(el.children).map(translate));
+}
+
+function translate(el: Element): string {
+	const [first, second, third] = Array.from(el.children);
+	const part = (child: Element | undefined) => (child ? translate(child) : '');
+
+	switch (el.localName) {
+		case 'mi':
+			return identifier(el);
+		case 'mn':
+			return symbols(tokenText(el));
+		case 'mo':
+			return operator(el);
+		case 'mtext':
+		case 'ms':
+			return textRun(el);
+		case 'mspace':
+			return space(el);
+		case 'msub':
+			return scripts(part(first), part(second), '');
+		case 'msup':
+			return scripts(part(first), '', part(second));
+		case 'msubsup':
+			return scripts(part(first), part(second), part(third));
+		case 'mfrac':
+			return `\\frac{${part(first)}}{${part(second)}}`;
+		case 'msqrt':
+			return `\\sqrt{${translateChildren(el)}}`;
+		case 'mroot':
+			return `\\sqrt[${part(second)}]{${part(first)}}`;
+		case 'munder':
+			return underOver(first, second);
+		case 'mover':
+			return underOver(first, undefined, second);
+		case 'munderover':
+			return underOver(first, second, third);
+		case 'mtable':
+			return table(el);
+		case 'mfenced':
+			return fenced(el);
+		case 'mphantom':
+			return `\\phantom{${translateChildren(el)}}`;
+		case 'semantics':
+			return part(first);
+		case 'annotation':
+		case 'annotation-xml':
+			return '';
+		default:
+			return translateChildren(el);
+	}
+}
+
+/**
+ * Translates MathML to TeX. Covers the presentation elements that KaTeX, MathJax and common
+ * editors produce; unknown elements contribute their children.
+ * @param math - `<math>` element, or any MathML element inside one.
+ * @returns TeX source without `$` delimiters.
+ */
+export function mathMLToLatex(math: Element): string {
+	return translate(math).trim();
+}
+
+// ---------------------------------------------------------------------------
+// Source recovery
+// ---------------------------------------------------------------------------
+
+/**
+ * Removes the `{\displaystyle …}` wrapper that Wikipedia and others put around alt text.
+ */
+function unwrapStyle(tex: string): string {
+	const match = tex.match(/^\{\\(?:display|text)style\s*([\s\S]*)\}$/);
+	return match && closesAtEnd(tex, 0) ? match[1].trim() : tex;
+}
+
+function isDisplayMath(math: Element | null | undefined): boolean {
+	return math?.getAttribute('display') === 'block' || math?.getAttribute('mode') === 'display';
+}
+
+/**
+ * Reads the TeX of a `<math>` element: its TeX annotation, its alt text, or a translation.
+ */
+function mathElementTex(math: Element): string {
+	const annotation = Array.from(math.querySelectorAll('annotation')).find((el) =>
+		/^(application\/x-tex|tex)$/i.test(el.getAttribute('encoding') ?? '')
+	);
+	const tex =
+		annotation?.textContent?.trim() || math.getAttribute('alttext')?.trim() || mathMLToLatex(math);
+	return unwrapStyle(tex);
+}
+
+/**
+ * Parses serialized MathML, such as MathJax's `data-mathml` attribute.
+ */
+function parseMathML(doc: Document, markup: string): Element | null {
+	const template = doc.createElement('template');
+	template.innerHTML = markup;
+	return template.content.querySelector('math');
+}
+
+function fromMath(math: Element | null, display = false): MathSource | null {
+	return math ? { tex: mathElementTex(math), display: display || isDisplayMath(math) } : null;
+}
+
+/** MathJax 2 keeps the source in a script next to its rendered output. */
+function readMathJaxScript(script: Element): MathSource | null {
+	const type = script.getAttribute('type') ?? '';
+	const text = script.textContent ?? '';
+	const display = /mode\s*=\s*display/.test(type);
+	if (type.startsWith('math/mml')) {
+		return fromMath(parseMathML(script.ownerDocument, text), display);
+	}
+	const tex = text.replace(/^\s*%\s*<!\[CDATA\[/, '').replace(/%\s*\]\]>\s*$/, '');
+	return { tex: tex.trim(), display };
+}
+
+function readKatex(el: Element): MathSource | null {
+	const source = fromMath(el.querySelector('math'));
+	return source && { ...source, display: source.display || el.classList.contains('katex-display') };
+}
+
+/** MathJax 3 and 4 containers, with the source in an attribute or assistive MathML. */
+function readMathJaxContainer(el: Element): MathSource | null {
+	const display = el.getAttribute('display') === 'true';
+	const tex = el.getAttribute('data-latex') ?? el.getAttribute('data-tex');
+	if (tex?.trim()) {
+		return { tex: tex.trim(), display };
+	}
+	return fromMath(el.querySelector('math'), display);
+}
+
+/** MathJax 2 output without its script, which Readability removes, carries MathML instead. */
+function readMathJaxFrame(el: Element): MathSource | null {
+	const frame = el.matches('[data-mathml]') ? el : el.querySelector('[data-mathml]');
+	const markup = frame?.getAttribute('data-mathml');
+	const display = /display/i.test(el.getAttribute('class') ?? '');
+	return markup ? fromMath(parseMathML(el.ownerDocument, markup), display) : null;
+}
+
+/** Wikipedia hides its MathML and shows an image whose alt text is the source. */
+function readWikipediaMath(el: Element): MathSource | null {
+	const display =
+		el.classList.contains('mwe-math-element-block') ||
+		!!el.querySelector('.mwe-math-fallback-image-display');
+	const math = el.querySelector('math');
+	if (math) {
+		return fromMath(math, display);
+	}
+	const alt = el.querySelector('img[alt]')?.getAttribute('alt')?.trim();
+	return alt ? { tex: unwrapStyle(alt), display } : null;
+}
+
+function readTexAttribute(el: Element): MathSource | null {
+	const tex = (el.getAttribute('data-tex') ?? el.getAttribute('data-latex'))?.trim();
+	const display =
+		el.localName === 'div' || /^(true|block|display)$/.test(el.getAttribute('data-display') ?? '');
+	return tex ? { tex, display } : null;
+}
+
+/**
+ * Recognized equation containers, outermost first, so that the source of a whole equation is
+ * read before any of its parts.
+ */
+const MATH_READERS: Array<[selector: string, read: (el: Element) => MathSource | null]> = [
+	['.katex-display, .katex', readKatex],
+	['mjx-container', readMathJaxContainer],
+	['.MathJax_Display, .MathJax_SVG_Display, .MJXc-display, [data-mathml]', readMathJaxFrame],
+	['.mwe-math-element', readWikipediaMath],
+	['[data-tex], [data-latex]', readTexAttribute],
+	['math', (el) => fromMath(el)],
+];
+
+function replaceWithPlaceholder(el: Element, source: MathSource): void {
+	const placeholder = el.ownerDocument.createElement(source.display ? 'p' : 'span');
+	placeholder.setAttribute(PLACEHOLDER_ATTRIBUTE, source.display ? 'display' : 'inline');
+	placeholder.setAttribute(TEX_ATTRIBUTE, source.tex);
+	placeholder.textContent = source.tex;
+	el.replaceWith(placeholder);
+}
+
+/**
+ * Removes what MathJax 2 rendered for a script: the output frame, its display wrapper and the
+ * preview before it.
+ */
+function removeMathJaxOutput(root: ParentNode, script: Element): void {
+	const frame = script.id ? root.querySelector(`[id="${script.id}-Frame"]`) : null;
+	const output = frame?.closest('.MathJax_Display, .MathJax_SVG_Display, .MJXc-display') ?? frame;
+	const preview = output?.previousElementSibling;
+	if (preview?.classList.contains('MathJax_Preview')) {
+		preview.remove();
+	}
+	output?.remove();
+}
+
+/**
+ * Replaces KaTeX, MathJax, Wikipedia and plain MathML equations with placeholders holding their
+ * TeX source, read from TeX annotations, `data-tex` attributes or MathJax scripts, or translated
+ * from MathML. Runs before cleaning, which would remove MathJax scripts and `aria-hidden` output.
+ * Equations without a recoverable source are left alone.
+ * @param root - Document or element to rewrite in place.
+ */
+export function prepareMath(root: ParentNode): void {
+	for (const script of Array.from(root.querySelectorAll('script[type^="math/"]'))) {
+		const source = readMathJaxScript(script);
+		if (source?.tex) {
+			removeMathJaxOutput(root, script);
+			replaceWithPlaceholder(script, source);
+		}
+	}
+
+	for (const [selector, read] of MATH_READERS) {
+		for (const el of Array.from(root.querySelectorAll(selector))) {
+			// Skip parts of an equation that an outer container already replaced.
+			if (!root.contains(el)) continue;
+			const source = read(el);
+			if (source?.tex) {
+				replaceWithPlaceholder(el, source);
+			}
+		}
+	}
+}
+
+/**
+ * Tests whether a node is a placeholder left by {@link prepareMath}.
+ */
+export function isMathPlaceholder(node: Node): boolean {
+	return (
+		node.nodeType === Node.ELEMENT_NODE && (node as Element).hasAttribute(PLACEHOLDER_ATTRIBUTE)
+	);
+}
+
+/**
+ * Writes a placeholder left by {@link prepareMath} as `$tex$`, or as a `$$` block for display
+ * equations.
+ */
+export function mathMarkdown(placeholder: Element): string {
+	const tex = placeholder.getAttribute(TEX_ATTRIBUTE) ?? '';
+	return placeholder.getAttribute(PLACEHOLDER_ATTRIBUTE) === 'display'
+		? `\n\n$$\n${tex}\n$$\n\n`
+		: `$${tex}$`;
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+
+import { extractMetadata, normalizeDate, splitKeywords } from './metadata';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeDocument(head: string, lang = ''): Document {
+	const doc = document.implementation.createHTMLDocument();
+	doc.title = 'Document Title | Site';
+	if (lang) {
+		doc.documentElement.setAttribute('lang', lang);
+	}
+	doc.head.insertAdjacentHTML('beforeend', head);
+	return doc;
+}
+
+function jsonLd(value: unknown): string {
+	return `<script type="application/ld+json">${JSON.stringify(value)}</script>`;
+}
+
+// ---------------------------------------------------------------------------
+// String helpers
+// ---------------------------------------------------------------------------
+
+describe('normalizeDate', () => {
+	it('keeps date-only values date-only', () => {
+		expect(normalizeDate('2024/1/5')).toBe('2024-01-05');
+		expect(normalizeDate('2024')).toBe('2024');
+	});
+
+	it('converts timestamps to ISO 8601', () => {
+		expect(normalizeDate('2024-01-05T10:00:00+02:00')).toBe('2024-01-05T08:00:00.000Z');
+	});
+
+	it('returns unparseable values unchanged', () => {
+		expect(normalizeDate('sometime')).toBe('sometime');
+	});
+});
+
+describe('splitKeywords', () => {
+	it('splits on commas and semicolons and removes duplicates', () => {
+		expect(splitKeywords('AI, ml; ai ,  ')).toEqual(['AI', 'ml']);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Source precedence
+// ---------------------------------------------------------------------------
+
+describe('extractMetadata', () => {
+	it('falls back to document title and plain meta tags', () => {
+		const doc = makeDocument(
+			'<meta name="description" content="Plain description">' +
+				'<meta name="author" content="Plain Author">' +
+				'<meta name="keywords" content="one, two">',
+			'en'
+		);
+		const meta = extractMetadata(doc);
+		expect(meta.title).toBe('Document Title | Site');
+		expect(meta.description).toBe('Plain description');
+		expect(meta.authors).toEqual(['Plain Author']);
+		expect(meta.keywords).toEqual(['one', 'two']);
+		expect(meta.language).toBe('en');
+	});
+
+	it('reads OpenGraph and article properties', () => {
+		const doc = makeDocument(
+			'<meta property="og:title" content="OG Title">' +
+				'<meta property="og:site_name" content="OG Site">' +
+				'<meta property="og:locale" content="en_GB">' +
+				'<meta property="article:published_time" content="2024-03-01T12:00:00Z">' +
+				'<meta property="article:author" content="https://example.com/authors/jane">' +
+				'<meta property="article:tag" content="news">' +
+				'<meta property="article:tag" content="tech">' +
+				'<meta name="author" content="Jane Doe">'
+		);
+		const meta = extractMetadata(doc);
+		expect(meta.title).toBe('OG Title');
+		expect(meta.siteName).toBe('OG Site');
+		expect(meta.language).toBe('en-GB');
+		expect(meta.published).toBe('2024-03-01T12:00:00.000Z');
+		expect(meta.authors).toEqual(['Jane Doe']);
+		expect(meta.keywords).toEqual(['news', 'tech']);
+	});
+
+	it('prefers citation tags over OpenGraph', () => {
+		const doc = makeDocument(
+			'<meta property="og:title" content="OG Title">' +
+				'<meta name="citation_title" content="Paper Title">' +
+				'<meta name="citation_author" content="Lovelace, Ada">' +
+				'<meta name="citation_author" content="Hopper, Grace">' +
+				'<meta name="citation_publication_date" content="2023/07/14">' +
+				'<meta name="citation_journal_title" content="Journal of Examples">'
+		);
+		const meta = extractMetadata(doc);
+		expect(meta.title).toBe('Paper Title');
+		expect(meta.authors).toEqual(['Lovelace, Ada', 'Hopper, Grace']);
+		expect(meta.published).toBe('2023-07-14');
+		expect(meta.siteName).toBe('Journal of Examples');
+	});
+
+	it('prefers JSON-LD articles, including inside @graph', () => {
+		const doc = makeDocument(
+			'<meta name="citation_title" content="Paper Title">' +
+				'<meta property="og:url" content="https://example.com/og">' +
+				jsonLd({
+					'@context': 'https://schema.org',
+					'@graph': [
+						{ '@type': 'WebSite', name: 'Not the article' },
+						{
+							'@type': ['NewsArticle'],
+							headline: 'LD Headline',
+							author: [{ '@type': 'Person', name: 'Ada' }, 'Grace'],
+							datePublished: '2024-02-02',
+							dateModified: '2024-02-03T00:00:00Z',
+							publisher: { '@type': 'Organization', name: 'LD Publisher' },
+							keywords: ['space', 'rockets'],
+							inLanguage: 'fr',
+						},
+					],
+				})
+		);
+		const meta = extractMetadata(doc);
+		expect(meta.title).toBe('LD Headline');
+		expect(meta.authors).toEqual(['Ada', 'Grace']);
+		expect(meta.published).toBe('2024-02-02');
+		expect(meta.modified).toBe('2024-02-03T00:00:00.000Z');
+		expect(meta.siteName).toBe('LD Publisher');
+		expect(meta.keywords).toEqual(['space', 'rockets']);
+		expect(meta.language).toBe('fr');
+		expect(meta.canonical).toBe('https://example.com/og');
+	});
+
+	it('prefers link rel=canonical for the canonical URL', () => {
+		const doc = makeDocument(
+			'<link rel="canonical" href="https://example.com/canonical">' +
+				'<meta property="og:url" content="https://example.com/og">'
+		);
+		expect(extractMetadata(doc).canonical).toBe('https://example.com/canonical');
+	});
+
+	it('ignores malformed JSON-LD', () => {
+		const doc = makeDocument('<script type="application/ld+json">{ not json</script>');
+		expect(extractMetadata(doc).title).toBe('Document Title | Site');
+	});
+
+	it('falls back to Readability metadata', () => {
+		const doc = makeDocument('');
+		const meta = extractMetadata(doc, {
+			byline: 'By Readability',
+			excerpt: 'Readability excerpt',
+			siteName: 'Readability Site',
+			publishedTime: '2022-01-01',
+		});
+		expect(meta.authors).toEqual(['By Readability']);
+		expect(meta.description).toBe('Readability excerpt');
+		expect(meta.siteName).toBe('Readability Site');
+		expect(meta.published).toBe('2022-01-01');
+	});
+});
@@ -0,0 +1,335 @@
+/**
+ * Page metadata extraction.
+ *
+ * Each field is taken from the first source that provides it, in this order:
+ *
+ * 1. JSON-LD `Article`-like nodes (`headline`, `author`, `datePublished`, `keywords`, …)
+ * 2. Highwire Press `citation_*` meta tags used by journals and preprint servers
+ * 3. OpenGraph (`og:*`) and `article:*` meta properties
+ * 4. Plain HTML (`<meta name="description|author|keywords">`, `<link rel="canonical">`,
+ *    `<html lang>`)
+ * 5. Readability's byline, excerpt, site name and published time
+ * 6. `document.title` for the title
+ *
+ * The canonical URL is the exception: `<link rel="canonical">` is the most deliberate signal a
+ * page gives, so it wins over `og:url` and JSON-LD `url`.
+ */
+
+import { firstNonEmpty } from './convert';
+
+/**
+ * Subset of the Readability article result that is useful as a metadata fallback.
+ */
+export interface ReadabilityMetadata {
+	title?: string | null;
+	byline?: string | null;
+	excerpt?: string | null;
+	siteName?: string | null;
+	lang?: string | null;
+	publishedTime?: string | null;
+}
+
+export interface ExtractedMetadata {
+	title: string;
+	authors: string[];
+	description: string;
+	published: string;
+	modified: string;
+	siteName: string;
+	canonical: string;
+	language: string;
+	keywords: string[];
+}
+
+/**
+ * JSON-LD `@type` values treated as the page's main article.
+ */
+const ARTICLE_TYPES = new Set([
+	'Article',
+	'NewsArticle',
+	'BlogPosting',
+	'TechArticle',
+	'ScholarlyArticle',
+	'Report',
+	'SocialMediaPosting',
+	'LiveBlogPosting',
+	'AnalysisNewsArticle',
+	'OpinionNewsArticle',
+	'ReportageNewsArticle',
+	'ReviewNewsArticle',
+	'MedicalScholarlyArticle',
+	'APIReference',
+	'HowTo',
+	'Recipe',
+]);
+
+type JsonLdNode = Record<string, unknown>;
+
+function asString(value: unknown): string {
+	if (typeof value === 'string') {
+		return value.trim();
+	}
+	if (typeof value === 'number') {
+		return String(value);
+	}
+	return '';
+}
+
+function firstList(lists: string[][]): string[] {
+	return lists.find((list) => list.length > 0) ?? [];
+}
+
+/**
+ * Removes blanks and case-insensitive duplicates while keeping the first spelling.
+ */
+function uniqueValues(values: string[]): string[] {
+	const seen = new Set<string>();
+	const result: string[] = [];
+	for (const raw of values) {
+		const value = raw.replace(/\s+/g, ' ').trim();
+		const key = value.toLowerCase();
+		if (value && !seen.has(key)) {
+			seen.add(key);
+			result.push(value);
+		}
+	}
+	return result;
+}
+
+/**
+ * Splits a keyword string on commas and semicolons.
+ */
+export function splitKeywords(value: string): string[] {
+	return uniqueValues(value.split(/[,;]/));
+}
+
+/**
+ * Normalises a date string to ISO 8601, keeping date-only values date-only.
+ * @param value - Raw date such as `2024/01/05`, `2024-01-05` or an RFC 2822 timestamp.
+ * @returns The normalised date, the raw value if unparseable, or an empty string.
+ */
+export function normalizeDate(value: string): string {
+	const trimmed = value.trim();
+	if (!trimmed) {
+		return '';
+	}
+
+	const dateOnly = trimmed.replace(/\//g, '-');
+	if (/^\d{4}(-\d{1,2}){0,2}$/.test(dateOnly)) {
+		return dateOnly
+			.split('-')
+			.map((part, index) => (index === 0 ? part : part.padStart(2, '0')))
+			.join('-');
+	}
+
+	const timestamp = Date.parse(trimmed);
+	return Number.isNaN(timestamp) ? trimmed : new Date(timestamp).toISOString();
+}
+
+/**
+ * Parses every JSON-LD block and flattens arrays and `@graph` containers into a node list.
+ */
+function readJsonLdNodes(doc: Document): JsonLdNode[] {
+	const nodes: JsonLdNode[] = [];
+	const visit = (value: unknown) => {
+		if (Array.isArray(value)) {
+			value.forEach(visit);
+			return;
+		}
+		if (typeof value !== 'object' || value === null) {
+			return;
+		}
+		const node = value as JsonLdNode;
+		nodes.push(node);
+		if (node['@graph']) {
+			visit(node['@graph']);
+		}
+	};
+
+	doc.querySelectorAll('script[type="application/ld+json"]').forEach((script) => {
+		try {
+			visit(JSON.parse(script.textContent || ''));
+		} catch (_err) {}
+	});
+
+	return nodes;
+}
+
+function hasArticleType(node: JsonLdNode): boolean {
+	const type = node['@type'];
+	const types = Array.isArray(type) ? type : [type];
+	return types.some((entry) => typeof entry === 'string' && ARTICLE_TYPES.has(entry));
+}
+
+/**
+ * Reads names from a JSON-LD `author`/`publisher` value: a string, a Person/Organization node,
+ * or an array of either.
+ */
+function readNames(value: unknown): string[] {
+	if (Array.isArray(value)) {
+		return value.flatMap(readNames);
+	}
+	if (typeof value === 'string') {
+		return [value];
+	}
+	if (typeof value === 'object' && value !== null) {
+		return [asString((value as JsonLdNode).name)].filter(Boolean);
+	}
+	return [];
+}
+
+function readKeywords(value: unknown): string[] {
+	if (Array.isArray(value)) {
+		return uniqueValues(value.map(asString));
+	}
+	return splitKeywords(asString(value));
+}
+
+function readUrl(value: unknown): string {
+	if (typeof value === 'object' && value !== null) {
+		return asString((value as JsonLdNode)['@id']) || asString((value as JsonLdNode).url);
+	}
+	return asString(value);
+}
+
+/**
+ * Returns the `content` of every meta tag whose `name` or `property` matches one of the keys.
+ */
+function metaValues(doc: Document, ...keys: string[]): string[] {
+	const wanted = new Set(keys.map((key) => key.toLowerCase()));
+	const values: string[] = [];
+	doc.querySelectorAll('meta[content]').forEach((meta) => {
+		const key = (meta.getAttribute('name') || meta.getAttribute('property') || '').toLowerCase();
+		if (wanted.has(key)) {
+			const content = meta.getAttribute('content')?.trim();
+			if (content) {
+				values.push(content);
+			}
+		}
+	});
+	return values;
+}
+
+function metaValue(doc: Document, ...keys: string[]): string {
+	return metaValues(doc, ...keys)[0] ?? '';
+}
+
+function isUrl(value: string): boolean {
+	return /^https?:\/\//i.test(value);
+}
+
+/**
+ * Resolves a possibly relative URL against the document, returning an empty string on failure.
+ */
+function absoluteUrl(doc: Document, value: string): string {
+	if (!value) {
+		return '';
+	}
+	try {
+		return new URL(value, doc.baseURI || location.href).href;
+	} catch (_err) {
+		return '';
+	}
+}
+
+/**
+ * Collects page metadata from structured data and meta tags using the precedence documented at
+ * the top of this module.
+ * @param doc - Document to inspect.
+ * @param readability - Readability's article metadata, used when meta tags are absent.
+ */
+export function extractMetadata(
+	doc: Document,
+	readability?: ReadabilityMetadata | null
+): ExtractedMetadata {
+	const article = readJsonLdNodes(doc).find(hasArticleType);
+
+	const title =
+		firstNonEmpty([
+			asString(article?.headline),
+			asString(article?.name),
+			metaValue(doc, 'citation_title'),
+			metaValue(doc, 'og:title'),
+			readability?.title,
+			doc.title,
+		]) ?? '';
+
+	const authors = uniqueValues(
+		firstList([
+			readNames(article?.author),
+			metaValues(doc, 'citation_author'),
+			metaValues(doc, 'article:author').filter((value) => !isUrl(value)),
+			metaValues(doc, 'author'),
+			readability?.byline ? [readability.byline] : [],
+		])
+	);
+
+	const description =
+		firstNonEmpty([
+			asString(article?.description),
+			metaValue(doc, 'citation_abstract'),
+			metaValue(doc, 'og:description'),
+			metaValue(doc, 'description'),
+			readability?.excerpt,
+		]) ?? '';
+
+	const published = normalizeDate(
+		firstNonEmpty([
+			asString(article?.datePublished),
+			metaValue(doc, 'citation_publication_date', 'citation_date', 'citation_online_date'),
+			metaValue(doc, 'article:published_time'),
+			readability?.publishedTime,
+		]) ?? ''
+	);
+
+	const modified = normalizeDate(
+		firstNonEmpty([asString(article?.dateModified), metaValue(doc, 'article:modified_time')]) ?? ''
+	);
+
+	const siteName =
+		firstNonEmpty([
+			readNames(article?.publisher)[0],
+			metaValue(doc, 'citation_journal_title', 'citation_conference_title'),
+			metaValue(doc, 'og:site_name'),
+			metaValue(doc, 'application-name'),
+			readability?.siteName,
+		]) ?? '';
+
+	const canonical = absoluteUrl(
+		doc,
+		firstNonEmpty([
+			doc.querySelector('link[rel="canonical"]')?.getAttribute('href'),
+			metaValue(doc, 'og:url'),
+			readUrl(article?.mainEntityOfPage),
+			readUrl(article?.url),
+		]) ?? ''
+	);
+
+	const language =
+		firstNonEmpty([
+			asString(article?.inLanguage),
+			metaValue(doc, 'citation_language'),
+			doc.documentElement.getAttribute('lang'),
+			metaValue(doc, 'og:locale').replace('_', '-'),
+			readability?.lang,
+		]) ?? '';
+
+	const keywords = firstList([
+		readKeywords(article?.keywords),
+		metaValues(doc, 'citation_keywords').flatMap(splitKeywords),
+		uniqueValues(metaValues(doc, 'article:tag')),
+		metaValues(doc, 'keywords').flatMap(splitKeywords),
+	]);
+
+	return {
+		title,
+		authors,
+		description,
+		published,
+		modified,
+		siteName,
+		canonical,
+		language,
+		keywords: uniqueValues(keywords),
+	};
+}
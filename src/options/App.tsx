@@ -1,61 +1,73 @@
 import { Field, Input, Toast } from '@base-ui/react';
 import { type FormEvent, useEffect, useMemo, useState } from 'react';
+import {
+	type ConversionOverrides,
+	type ConversionStep,
+	conversionStepLabels,
+	conversionSteps,
+	type LinkStyle,
+	linkStyleLabels,
+	linkStyles,
+} from '../pipeline';
 import {
 	type DomainConfig,
 	defaultDomainConfigs,
+	type ExtractionStrategy,
+	extractionStrategies,
+	getRuleStorageInfo,
+	normalizeDomainPattern,
+	type RuleStorageInfo,
+	readCustomConfigs,
 	removeCustomConfig,
 	resetCustomConfigs,
+	resolveDomainConfig,
 	saveCustomConfig,
+	validateDomainPattern,
 } from '../rules';
 import { Button } from '../ui/Button';
 import { Card } from '../ui/Card';
 import { cn } from '../ui/cn';
+import { strategyLabels } from '../ui/labels';
+import { selectClassName } from '../ui/styles';
+import { useToast } from '../ui/useToast';
+import { ConversionCard } from './ConversionCard';
+import { DownloadsCard } from './DownloadsCard';
+import { FrontMatterCard } from './FrontMatterCard';
+import { RuleTestCard } from './RuleTestCard';
+import { RuleTransferCard } from './RuleTransferCard';
+import { SettingsCard } from './SettingsCard';
 
 interface FormState {
 	domain: string;
 	selector: string;
 	remove: string;
+	mergeRemove: boolean;
+	strategy: ExtractionStrategy | '';
+	/** Steps this rule switches on or off; missing steps follow the global settings. */
+	conversion: ConversionOverrides;
 }
 
 const emptyForm: FormState = {
 	domain: '',
 	selector: '',
 	remove: '',
+	mergeRemove: false,
+	strategy: '',
+	conversion: {},
 };
 
-type ToastVariant = 'success' | 'error';
-
 /**
- * Provides a concise toast enqueue helper backed by the shared toast manager.
- * @returns Function that triggers toast notifications.
+ * Describes a rule storage problem for a toast, falling back to a generic hint.
  */
-function useToast() {
-	const manager = Toast.useToastManager();
-
-	function notify(title: string, description: string, variant: ToastVariant = 'success') {
-		manager.add({
-			title,
-			description,
-			type: variant,
-			timeout: 4000,
-		});
-	}
-
-	return notify;
+function errorDescription(error: unknown): string {
+	return error instanceof Error ? error.message : 'Please try again.';
 }
 
 /**
- * Reads the user's saved domain overrides from Chrome sync storage.
- * @returns A mapping of domain hostnames to their configuration overrides.
+ * Formats a byte count as kilobytes with one decimal.
  */
-async function readCustomConfigs(): Promise<Record<string, DomainConfig>> {
-	try {
-		const result = await chrome.storage.sync.get('domainConfigs');
-		return (result.domainConfigs ?? {}) as Record<string, DomainConfig>;
-	} catch (error) {
-		console.error('Failed to read custom configurations', error);
-		return {};
-	}
+function formatKilobytes(bytes: number): string {
+	return `${(bytes / 1024).toFixed(1)} KB`;
 }
 
 /**
@@ -67,6 +79,20 @@ function formatRemoveList(remove?: string[]) {
 	return remove.join(', ');
 }
 
+/**
+ * Summarises the conversion steps a rule overrides, e.g. "Images off, Table of contents on".
+ * @param conversion - Optional overrides of the rule.
+ */
+function formatConversionOverrides(conversion?: ConversionOverrides) {
+	const steps = conversionSteps
+		.filter((step) => conversion?.[step] !== undefined)
+		.map((step) => `${conversionStepLabels[step]} ${conversion?.[step] ? 'on' : 'off'}`);
+	if (conversion?.linkStyle) {
+		steps.push(`Links: ${linkStyleLabels[conversion.linkStyle]}`);
+	}
+	return steps.join(', ');
+}
+
 /**
  * Wraps the options page UI with a toast provider and viewport.
  */
@@ -88,15 +114,27 @@ function OptionsContent() {
 	const [loading, setLoading] = useState(true);
 	const [saving, setSaving] = useState(false);
 	const [editingDomain, setEditingDomain] = useState<string | null>(null);
+	const [testUrl, setTestUrl] = useState('');
+	const [loadError, setLoadError] = useState<string | null>(null);
+	const [storageInfo, setStorageInfo] = useState<RuleStorageInfo | null>(null);
 	const toast = useToast();
 
 	useEffect(() => {
 		let active = true;
 		(async () => {
-			const configs = await readCustomConfigs();
-			if (active) {
-				setCustomConfigs(configs);
-				setLoading(false);
+			try {
+				const configs = await readCustomConfigs();
+				if (active) setCustomConfigs(configs);
+			} catch (error) {
+				console.error('Failed to read custom configurations', error);
+				if (active) setLoadError(errorDescription(error));
+			}
+			if (active) setLoading(false);
+			try {
+				const info = await getRuleStorageInfo();
+				if (active) setStorageInfo(info);
+			} catch (error) {
+				console.warn('Failed to read rule storage usage', error);
 			}
 		})();
 		return () => {
@@ -109,12 +147,33 @@ function OptionsContent() {
 		() => Object.entries(defaultDomainConfigs).sort(([a], [b]) => a.localeCompare(b)),
 		[]
 	);
+	const domainError = form.domain.trim() ? validateDomainPattern(form.domain) : null;
+	const testMatch = useMemo(() => {
+		const trimmed = testUrl.trim();
+		if (!trimmed) return undefined;
+		const url = /^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+		return resolveDomainConfig(url, { ...defaultDomainConfigs, ...customConfigs });
+	}, [testUrl, customConfigs]);
+
+	const draftConfig = useMemo<DomainConfig>(
+		() => ({
+			selector: form.selector.trim(),
+			remove: form.remove
+				.split('\n')
+				.map((line) => line.trim())
+				.filter(Boolean),
+			...(form.mergeRemove ? { mergeRemove: true } : {}),
+			...(form.strategy ? { strategy: form.strategy } : {}),
+			...(Object.keys(form.conversion).length > 0 ? { conversion: form.conversion } : {}),
+		}),
+		[form]
+	);
 
 	async function handleSubmit(event: FormEvent<HTMLFormElement>) {
 		event.preventDefault();
 		if (saving) return;
 
-		const domain = form.domain.trim().toLowerCase();
+		const domain = normalizeDomainPattern(form.domain);
 		const selector = form.selector.trim();
 		const remove = form.remove
 			.split('\n')
@@ -126,33 +185,65 @@ function OptionsContent() {
 			return;
 		}
 
+		const patternError = validateDomainPattern(domain);
+		if (patternError) {
+			toast('Invalid domain pattern', patternError, 'error');
+			return;
+		}
+
 		setSaving(true);
 		try {
 			const config: DomainConfig = {
 				selector,
 				...(remove.length > 0 ? { remove } : {}),
+				...(form.mergeRemove ? { mergeRemove: true } : {}),
+				...(form.strategy ? { strategy: form.strategy } : {}),
+				...(Object.keys(form.conversion).length > 0 ? { conversion: form.conversion } : {}),
 			};
-			await saveCustomConfig(domain, config);
+			const area = await saveCustomConfig(domain, config);
 			setCustomConfigs((prev) => ({
 				...prev,
 				[domain]: config,
 			}));
+			refreshStorageInfo();
 			setForm(emptyForm);
 			setEditingDomain(null);
-			toast('Configuration saved', `${domain} now uses your custom selector.`);
+			toast(
+				'Configuration saved',
+				area === 'local'
+					? `${domain} now uses your custom selector. Your rules are too large for Chrome sync and are saved on this device only.`
+					: `${domain} now uses your custom selector.`
+			);
 		} catch (error) {
 			console.error('Failed to save configuration', error);
-			toast('Failed to save', 'Please try again.', 'error');
+			toast('Failed to save', errorDescription(error), 'error');
 		} finally {
 			setSaving(false);
 		}
 	}
 
+	/**
+	 * Reloads where the saved rules are stored and their size, after they change.
+	 */
+	function refreshStorageInfo() {
+		getRuleStorageInfo()
+			.then(setStorageInfo)
+			.catch((error: unknown) => console.warn('Failed to read rule storage usage', error));
+	}
+
+	function handleImported(configs: Record<string, DomainConfig>) {
+		setCustomConfigs(configs);
+		refreshStorageInfo();
+	}
+
 	function handleEdit(domain: string, config: DomainConfig) {
 		setForm({
 			domain,
 			selector: config.selector,
 			remove: (config.remove ?? []).join('\n'),
+			mergeRemove: !!config.mergeRemove,
+			strategy: config.strategy ?? '',
+			conversion: { ...config.conversion },
 		});
 		setEditingDomain(domain);
 	}
@@ -164,6 +255,7 @@ function OptionsContent() {
 				const { [domain]: _, ...rest } = prev;
 				return rest;
 			});
+			refreshStorageInfo();
 			toast('Configuration removed', `${domain} uses defaults again.`);
 			if (editingDomain === domain) {
 				setForm(emptyForm);
@@ -171,7 +263,7 @@ function OptionsContent() {
 			}
 		} catch (error) {
 			console.error('Failed to delete configuration', error);
-			toast('Failed to delete', 'Please try again.', 'error');
+			toast('Failed to delete', errorDescription(error), 'error');
 		}
 	}
 
@@ -179,22 +271,37 @@ function OptionsContent() {
 		try {
 			await resetCustomConfigs();
 			setCustomConfigs({});
+			refreshStorageInfo();
 			setForm(emptyForm);
 			setEditingDomain(null);
 			toast('Custom configurations cleared', 'Default rules restored.');
 		} catch (error) {
 			console.error('Failed to reset configurations', error);
-			toast('Failed to reset', 'Please try again.', 'error');
+			toast('Failed to reset', errorDescription(error), 'error');
 		}
 	}
 
-	function handleChange<K extends keyof FormState>(key: K, value: string) {
+	function handleChange<K extends keyof FormState>(key: K, value: FormState[K]) {
 		setForm((prev) => ({
 			...prev,
 			[key]: value,
 		}));
 	}
 
+	function handleStepChange(step: ConversionStep, value: string) {
+		setForm((prev) => {
+			const { [step]: _, ...rest } = prev.conversion;
+			return { ...prev, conversion: value ? { ...rest, [step]: value === 'on' } : rest };
+		});
+	}
+
+	function handleLinkStyleChange(value: string) {
+		setForm((prev) => {
+			const { linkStyle: _, ...rest } = prev.conversion;
+			return { ...prev, conversion: value ? { ...rest, linkStyle: value as LinkStyle } : rest };
+		});
+	}
+
 	if (loading) {
 		return (
 			<div className="flex min-h-screen items-center justify-center bg-slate-50">
@@ -214,6 +321,9 @@ function OptionsContent() {
 						<span className="rounded-full bg-brand/10 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-brand">
 							Page to Markdown
 						</span>
+						<a className="text-sm text-brand hover:underline" href="history.html">
+							Conversion history
+						</a>
 					</div>
 					<h1 className="text-3xl font-semibold text-slate-900">Extraction Rules</h1>
 					<p className="max-w-2xl text-base text-slate-600">
@@ -247,12 +357,18 @@ function OptionsContent() {
 											placeholder="example.com"
 											value={form.domain}
 											onChange={(event) => handleChange('domain', event.target.value)}
+											aria-invalid={domainError ? true : undefined}
 											required
 										/>
 									</Field.Control>
-									<Field.Description className="text-xs text-slate-500">
-										Use the domain host only; subdomains are optional.
-									</Field.Description>
+									{domainError ? (
+										<p className="text-xs text-rose-600">{domainError}</p>
+									) : (
+										<Field.Description className="text-xs text-slate-500">
+											example.com also covers its subdomains, *.example.com only subdomains. Add a
+											path glob like example.com/docs/* to target part of a site.
+										</Field.Description>
+									)}
 								</Field.Root>
 
 								<Field.Root className="flex flex-col gap-2">
@@ -294,6 +410,84 @@ function OptionsContent() {
 								</Field.Description>
 							</Field.Root>
 
+							<label className="flex flex-col gap-2">
+								<span className="text-sm font-medium text-slate-700">Extraction strategy</span>
+								<select
+									className={selectClassName}
+									value={form.strategy}
+									onChange={(event) =>
+										handleChange('strategy', event.target.value as ExtractionStrategy | '')
+									}
+								>
+									<option value="">Use global default</option>
+									{extractionStrategies.map((strategy) => (
+										<option key={strategy} value={strategy}>
+											{strategyLabels[strategy]}
+										</option>
+									))}
+								</select>
+								<span className="text-xs text-slate-500">
+									Choose a selector strategy to skip Readability for this rule.
+								</span>
+							</label>
+
+							<label className="flex items-center gap-2 text-sm text-slate-700">
+								<input
+									type="checkbox"
+									className="h-4 w-4 rounded border-slate-300 accent-brand"
+									checked={form.mergeRemove}
+									onChange={(event) => handleChange('mergeRemove', event.target.checked)}
+								/>
+								Also apply remove selectors from broader matching rules
+							</label>
+
+							<fieldset className="flex flex-col gap-3">
+								<legend className="text-sm font-medium text-slate-700">Conversion steps</legend>
+								<div className="grid gap-3 md:grid-cols-2">
+									{conversionSteps.map((step) => (
+										<label
+											key={step}
+											className="flex flex-col gap-1"
+											htmlFor={`rule-conversion-${step}`}
+										>
+											<span className="text-xs text-slate-600">{conversionStepLabels[step]}</span>
+											<select
+												id={`rule-conversion-${step}`}
+												className={selectClassName}
+												value={
+													form.conversion[step] === undefined
+														? ''
+														: form.conversion[step]
+															? 'on'
+															: 'off'
+												}
+												onChange={(event) => handleStepChange(step, event.target.value)}
+											>
+												<option value="">Use global setting</option>
+												<option value="on">On</option>
+												<option value="off">Off</option>
+											</select>
+										</label>
+									))}
+									<label className="flex flex-col gap-1" htmlFor="rule-conversion-linkStyle">
+										<span className="text-xs text-slate-600">Links</span>
+										<select
+											id="rule-conversion-linkStyle"
+											className={selectClassName}
+											value={form.conversion.linkStyle ?? ''}
+											onChange={(event) => handleLinkStyleChange(event.target.value)}
+										>
+											<option value="">Use global setting</option>
+											{linkStyles.map((style) => (
+												<option key={style} value={style}>
+													{linkStyleLabels[style]}
+												</option>
+											))}
+										</select>
+									</label>
+								</div>
+							</fieldset>
+
 							<div className="flex flex-wrap items-center gap-3">
 								<Button type="submit" loading={saving}>
 									{editingDomain ? 'Update configuration' : 'Save configuration'}
@@ -320,7 +514,24 @@ function OptionsContent() {
 								<p className="text-sm text-slate-600">
 									These domains use your custom selectors. Remove one to fall back to defaults.
 								</p>
+								{storageInfo && storageInfo.count > 0 && (
+									<p
+										className={cn(
+											'text-xs',
+											storageInfo.area === 'local' ? 'text-amber-700' : 'text-slate-500'
+										)}
+									>
+										{storageInfo.area === 'local'
+											? `Saved on this device only: ${formatKilobytes(storageInfo.bytes)} of rules is more than Chrome sync allows, so they no longer sync between browsers.`
+											: `Synced with your Chrome profile (${formatKilobytes(storageInfo.bytes)}).`}
+									</p>
+								)}
 							</div>
+							{loadError && (
+								<p className="rounded-lg border border-rose-200 bg-rose-50 p-3 text-sm text-rose-700">
+									Saved rules could not be loaded: {loadError}
+								</p>
+							)}
 							{hasCustomConfigs ? (
 								<ul className="flex flex-col gap-3">
 									{Object.entries(customConfigs)
@@ -359,6 +570,16 @@ function OptionsContent() {
 												<p className="text-xs text-slate-600">
 													Remove: {formatRemoveList(config.remove)}
 												</p>
+												{config.strategy && (
+													<p className="text-xs text-slate-600">
+														Strategy: {strategyLabels[config.strategy]}
+													</p>
+												)}
+												{config.conversion && Object.keys(config.conversion).length > 0 && (
+													<p className="text-xs text-slate-600">
+														Steps: {formatConversionOverrides(config.conversion)}
+													</p>
+												)}
 											</li>
 										))}
 								</ul>
@@ -371,6 +592,45 @@ function OptionsContent() {
 					</Card>
 
 					<div className="flex flex-col gap-6">
+						<SettingsCard />
+
+						<Card className="flex flex-col gap-4">
+							<div>
+								<h2 className="text-xl font-semibold text-slate-900">Test a URL</h2>
+								<p className="text-sm text-slate-600">
+									See which rule applies to a page. The most specific match wins.
+								</p>
+							</div>
+							<Input
+								className={cn(
+									'h-11 w-full rounded-lg border border-slate-300 bg-white px-3 text-sm shadow-sm outline-none transition',
+									'focus:border-brand focus:ring-2 focus:ring-brand/30'
+								)}
+								placeholder="https://gist.github.com/user/123"
+								value={testUrl}
+								onChange={(event) => setTestUrl(event.target.value)}
+							/>
+							{testMatch === undefined ? null : testMatch ? (
+								<div className="rounded-lg border border-slate-200 bg-slate-50/60 p-4">
+									<p className="text-sm font-semibold text-slate-900">{testMatch.pattern}</p>
+									<p className="text-xs text-slate-500">Selector: {testMatch.config.selector}</p>
+									<p className="text-xs text-slate-500">
+										Remove: {formatRemoveList(testMatch.config.remove)}
+									</p>
+									<p className="text-xs text-slate-500">
+										Strategy:{' '}
+										{testMatch.config.strategy
+											? strategyLabels[testMatch.config.strategy]
+											: 'Global default'}
+									</p>
+								</div>
+							) : (
+								<p className="text-sm text-slate-500">No rule matches this URL.</p>
+							)}
+						</Card>
+
+						<RuleTransferCard customConfigs={customConfigs} onImported={handleImported} />
+
 						<Card className="flex flex-col gap-4">
 							<div>
 								<h2 className="text-xl font-semibold text-slate-900">Built-in presets</h2>
@@ -394,6 +654,14 @@ function OptionsContent() {
 						</Card>
 					</div>
 				</div>
+
+				<RuleTestCard customConfigs={customConfigs} draft={draftConfig} />
+
+				<ConversionCard />
+
+				<FrontMatterCard />
+
+				<DownloadsCard />
 			</div>
 		</div>
 	);
@@ -0,0 +1,260 @@
+import {
+	type ConversionStep,
+	conversionStepLabels,
+	conversionSteps,
+	type LinkStyle,
+	linkStyleLabels,
+	linkStyles,
+	type TableAppendix,
+	type TableFallback,
+	type TableSpanStyle,
+	tableAppendixes,
+	tableAppendixLabels,
+	tableFallbackLabels,
+	tableFallbacks,
+	tableSpanStyleLabels,
+	tableSpanStyles,
+} from '../pipeline';
+import { Card } from '../ui/Card';
+import { selectClassName } from '../ui/styles';
+import { UrlRulesSection } from './UrlRulesSection';
+import { useSettings } from './useSettings';
+
+/**
+ * Explanations shown under each conversion step.
+ */
+const conversionStepHints: Record<ConversionStep, string> = {
+	toc: 'List the headings above the content.',
+	normalizeHeadings:
+		'Drop a first heading that repeats the title, start headings at the level below and fill skipped levels.',
+	footnotes: 'Off keeps footnote links and notes where the page has them.',
+	images: 'Off drops every image.',
+	describeMedia: 'Replace diagrams, videos and embeds with a short description. Off removes them.',
+	inlineFrames:
+		'Convert frames showing documentation or previews in place; other frames are described instead.',
+	stripTrackingParams:
+		'Remove utm_*, fbclid and similar parameters and unwrap redirect links, following the URL rules.',
+	ampToCanonical: 'Link to the regular page instead of its AMP version or an AMP cache copy.',
+	headingIds: 'Off writes plain headings, for tools that reject {#id} attributes.',
+	straightenQuotes: 'Replace “curly” quotes with "straight" ones.',
+};
+
+const headingLevels = [1, 2, 3, 4, 5, 6];
+
+const frameDepths = [1, 2, 3, 4];
+
+/**
+ * Switches for the optional conversion steps. Domain rules can override each one.
+ */
+export function ConversionCard() {
+	const [current, update] = useSettings();
+
+	return (
+		<Card className="flex flex-col gap-6">
+			<div>
+				<h2 className="text-xl font-semibold text-slate-900">Conversion steps</h2>
+				<p className="text-sm text-slate-600">
+					Choose which optional steps run when converting a page. A domain rule can turn any of them
+					on or off for its pages.
+				</p>
+			</div>
+
+			<div className="grid gap-4 md:grid-cols-2">
+				{conversionSteps.map((step) => (
+					<label key={step} className="flex items-start gap-3" htmlFor={`conversion-${step}`}>
+						<input
+							id={`conversion-${step}`}
+							type="checkbox"
+							className="mt-0.5 h-4 w-4 rounded border-slate-300 accent-brand"
+							checked={current.conversion[step]}
+							onChange={(event) =>
+								update({ conversion: { ...current.conversion, [step]: event.target.checked } })
+							}
+						/>
+						<span className="flex flex-col gap-0.5">
+							<span className="text-sm font-medium text-slate-700">
+								{conversionStepLabels[step]}
+							</span>
+							<span className="text-xs text-slate-500">{conversionStepHints[step]}</span>
+						</span>
+					</label>
+				))}
+			</div>
+
+			<div className="grid gap-4 md:grid-cols-2">
+				<label className="flex flex-col gap-1" htmlFor="conversion-topHeadingLevel">
+					<span className="text-sm font-medium text-slate-700">Top heading level</span>
+					<select
+						id="conversion-topHeadingLevel"
+						className={selectClassName}
+						value={current.conversion.topHeadingLevel}
+						onChange={(event) =>
+							update({
+								conversion: { ...current.conversion, topHeadingLevel: Number(event.target.value) },
+							})
+						}
+					>
+						{headingLevels.map((level) => (
+							<option key={level} value={level}>
+								{`H${level} (${'#'.repeat(level)})`}
+							</option>
+						))}
+					</select>
+					<span className="text-xs text-slate-500">Used when headings are normalized.</span>
+				</label>
+
+				<label className="flex flex-col gap-1" htmlFor="conversion-frameDepth">
+					<span className="text-sm font-medium text-slate-700">Embedded page depth</span>
+					<select
+						id="conversion-frameDepth"
+						className={selectClassName}
+						value={current.conversion.frameDepth}
+						onChange={(event) =>
+							update({
+								conversion: { ...current.conversion, frameDepth: Number(event.target.value) },
+							})
+						}
+					>
+						{frameDepths.map((depth) => (
+							<option key={depth} value={depth}>
+								{depth === 1 ? 'Frames in the page only' : `${depth} levels of nested frames`}
+							</option>
+						))}
+					</select>
+					<span className="text-xs text-slate-500">
+						Used when the content of embedded pages is included.
+					</span>
+				</label>
+
+				<label className="flex flex-col gap-1" htmlFor="conversion-tocDepth">
+					<span className="text-sm font-medium text-slate-700">Table of contents depth</span>
+					<select
+						id="conversion-tocDepth"
+						className={selectClassName}
+						value={current.conversion.tocDepth}
+						onChange={(event) =>
+							update({
+								conversion: { ...current.conversion, tocDepth: Number(event.target.value) },
+							})
+						}
+					>
+						{headingLevels.map((depth) => (
+							<option key={depth} value={depth}>
+								{depth === 1 ? 'Top headings only' : `${depth} levels`}
+							</option>
+						))}
+					</select>
+					<span className="text-xs text-slate-500">Counted from the shallowest heading.</span>
+				</label>
+			</div>
+
+			<label className="flex flex-col gap-1" htmlFor="conversion-linkStyle">
+				<span className="text-sm font-medium text-slate-700">Links</span>
+				<select
+					id="conversion-linkStyle"
+					className={selectClassName}
+					value={current.conversion.linkStyle}
+					onChange={(event) =>
+						update({
+							conversion: { ...current.conversion, linkStyle: event.target.value as LinkStyle },
+						})
+					}
+				>
+					{linkStyles.map((style) => (
+						<option key={style} value={style}>
+							{linkStyleLabels[style]}
+						</option>
+					))}
+				</select>
+				<span className="text-xs text-slate-500">
+					Links within the page, such as table of contents entries, always stay inline.
+				</span>
+			</label>
+
+			<div className="grid gap-4 md:grid-cols-3">
+				<label className="flex flex-col gap-1" htmlFor="conversion-tableSpans">
+					<span className="text-sm font-medium text-slate-700">Table cells spanning rows</span>
+					<select
+						id="conversion-tableSpans"
+						className={selectClassName}
+						value={current.conversion.tableSpans}
+						onChange={(event) =>
+							update({
+								conversion: {
+									...current.conversion,
+									tableSpans: event.target.value as TableSpanStyle,
+								},
+							})
+						}
+					>
+						{tableSpanStyles.map((style) => (
+							<option key={style} value={style}>
+								{tableSpanStyleLabels[style]}
+							</option>
+						))}
+					</select>
+					<span className="text-xs text-slate-500">
+						Markdown tables cannot merge cells across rows or columns.
+					</span>
+				</label>
+
+				<label className="flex flex-col gap-1" htmlFor="conversion-tableFallback">
+					<span className="text-sm font-medium text-slate-700">Other tables</span>
+					<select
+						id="conversion-tableFallback"
+						className={selectClassName}
+						value={current.conversion.tableFallback}
+						onChange={(event) =>
+							update({
+								conversion: {
+									...current.conversion,
+									tableFallback: event.target.value as TableFallback,
+								},
+							})
+						}
+					>
+						{tableFallbacks.map((fallback) => (
+							<option key={fallback} value={fallback}>
+								{tableFallbackLabels[fallback]}
+							</option>
+						))}
+					</select>
+					<span className="text-xs text-slate-500">
+						For tables without a header row, or holding tables or code blocks.
+					</span>
+				</label>
+
+				<label className="flex flex-col gap-1" htmlFor="conversion-tableAppendix">
+					<span className="text-sm font-medium text-slate-700">Table data appendix</span>
+					<select
+						id="conversion-tableAppendix"
+						className={selectClassName}
+						value={current.conversion.tableAppendix}
+						onChange={(event) =>
+							update({
+								conversion: {
+									...current.conversion,
+									tableAppendix: event.target.value as TableAppendix,
+								},
+							})
+						}
+					>
+						{tableAppendixes.map((format) => (
+							<option key={format} value={format}>
+								{tableAppendixLabels[format]}
+							</option>
+						))}
+					</select>
+					<span className="text-xs text-slate-500">
+						Lists the data of every table at the end, one block per table.
+					</span>
+				</label>
+			</div>
+
+			<UrlRulesSection
+				options={current.conversion}
+				onChange={(urlRules) => update({ conversion: { ...current.conversion, urlRules } })}
+			/>
+		</Card>
+	);
+}
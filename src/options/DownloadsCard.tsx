@@ -0,0 +1,150 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+	DEFAULT_FILENAME_TEMPLATE,
+	type FilenameConflict,
+	filenameConflicts,
+	filenameVariables,
+	renderFilename,
+	validateFilenameTemplate,
+} from '../filename';
+import { outputFormatFiles } from '../output';
+import { Button } from '../ui/Button';
+import { Card } from '../ui/Card';
+import { selectClassName } from '../ui/styles';
+import { useToast } from '../ui/useToast';
+import { previewMetadata } from './FrontMatterCard';
+import { useSettings } from './useSettings';
+
+const conflictLabels: Record<FilenameConflict, string> = {
+	uniquify: 'Add a number (page (1).md)',
+	overwrite: 'Replace the existing file',
+	prompt: 'Ask where to save',
+};
+
+/**
+ * Editor for how downloaded conversions are named and saved, with a live filename preview.
+ */
+export function DownloadsCard() {
+	const [current, update] = useSettings();
+	const [draft, setDraft] = useState(current.filenameTemplate);
+	const [saving, setSaving] = useState(false);
+	const toast = useToast();
+
+	useEffect(() => {
+		setDraft(current.filenameTemplate);
+	}, [current.filenameTemplate]);
+
+	const errors = useMemo(() => validateFilenameTemplate(draft), [draft]);
+	const preview = useMemo(
+		() => renderFilename(draft, previewMetadata, outputFormatFiles[current.outputFormat].extension),
+		[draft, current.outputFormat]
+	);
+
+	async function handleSave() {
+		if (errors.length > 0) {
+			toast('Template has errors', errors[0], 'error');
+			return;
+		}
+		setSaving(true);
+		if (await update({ filenameTemplate: draft })) {
+			toast('Template saved', 'New downloads use your filename template.');
+		}
+		setSaving(false);
+	}
+
+	return (
+		<Card className="flex flex-col gap-6">
+			<div>
+				<h2 className="text-xl font-semibold text-slate-900">Downloads</h2>
+				<p className="text-sm text-slate-600">
+					Name files saved with “Save page as Markdown file” or the toast’s Save as file button. Use{' '}
+					<code>/</code> to create folders inside your downloads folder and{' '}
+					<code>{'{slug(variable)}'}</code>, <code>{'{lower(variable)}'}</code> or{' '}
+					<code>{'{upper(variable)}'}</code> to transform a value. The extension follows the output
+					format.
+				</p>
+			</div>
+
+			<div className="grid gap-6 md:grid-cols-2">
+				<div className="flex flex-col gap-4">
+					<label className="flex flex-col gap-2" htmlFor="filename-template">
+						<span className="text-sm font-medium text-slate-700">Filename template</span>
+						<input
+							id="filename-template"
+							className={`${selectClassName} font-mono`}
+							value={draft}
+							spellCheck={false}
+							onChange={(event) => setDraft(event.target.value)}
+						/>
+						<span className="text-xs text-slate-500">
+							Variables: {filenameVariables.map((name) => `{${name}}`).join(', ')}
+						</span>
+					</label>
+
+					{errors.length > 0 && (
+						<ul className="flex flex-col gap-1 text-xs text-rose-600">
+							{errors.map((error) => (
+								<li key={error}>{error}</li>
+							))}
+						</ul>
+					)}
+
+					<div className="flex flex-wrap items-center gap-3">
+						<Button
+							type="button"
+							loading={saving}
+							disabled={draft === current.filenameTemplate}
+							onClick={handleSave}
+						>
+							Save template
+						</Button>
+						<Button
+							type="button"
+							variant="ghost"
+							onClick={() => setDraft(DEFAULT_FILENAME_TEMPLATE)}
+						>
+							Restore default
+						</Button>
+					</div>
+				</div>
+
+				<div className="flex flex-col gap-4">
+					<div className="flex flex-col gap-2">
+						<span className="text-sm font-medium text-slate-700">Preview</span>
+						<pre className="overflow-auto rounded-lg border border-slate-200 bg-slate-50 p-3 text-xs text-slate-800">
+							{preview}
+						</pre>
+					</div>
+
+					<label className="flex flex-col gap-2" htmlFor="filename-conflict">
+						<span className="text-sm font-medium text-slate-700">When the file already exists</span>
+						<select
+							id="filename-conflict"
+							className={selectClassName}
+							value={current.filenameConflict}
+							onChange={(event) =>
+								update({ filenameConflict: event.target.value as FilenameConflict })
+							}
+						>
+							{filenameConflicts.map((conflict) => (
+								<option key={conflict} value={conflict}>
+									{conflictLabels[conflict]}
+								</option>
+							))}
+						</select>
+					</label>
+
+					<label className="flex items-center gap-2 text-sm text-slate-700">
+						<input
+							type="checkbox"
+							className="h-4 w-4 rounded border-slate-300 accent-brand"
+							checked={current.saveAs}
+							onChange={(event) => update({ saveAs: event.target.checked })}
+						/>
+						Always ask where to save each file
+					</label>
+				</div>
+			</div>
+		</Card>
+	);
+}
@@ -0,0 +1,150 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+	buildFrontMatter,
+	DEFAULT_FRONT_MATTER_TEMPLATE,
+	type FrontMatterFormat,
+	frontMatterFormats,
+	frontMatterVariables,
+	type PageMetadata,
+	parseFrontMatterTemplate,
+} from '../frontmatter';
+import { Button } from '../ui/Button';
+import { Card } from '../ui/Card';
+import { selectClassName } from '../ui/styles';
+import { useToast } from '../ui/useToast';
+import { useSettings } from './useSettings';
+
+const formatLabels: Record<FrontMatterFormat, string> = {
+	yaml: 'YAML (---)',
+	toml: 'TOML (+++)',
+	json: 'JSON object',
+	none: 'No front matter',
+};
+
+/**
+ * Metadata used to render the live preview.
+ */
+export const previewMetadata: PageMetadata = {
+	title: 'How Readability Finds the Article',
+	source: 'https://example.com/blog/readability',
+	authors: ['Ada Lovelace', 'Grace Hopper'],
+	description: 'A look at content scoring.\nWith a second line.',
+	retrieved: '2025-01-01T12:00:00.000Z',
+	published: '2024-12-30',
+	siteName: 'Example Blog',
+	language: 'en',
+	tags: ['parsing', 'html'],
+	stats: { characters: 18240, words: 2960, tokens: 4105 },
+};
+
+/**
+ * Editor for the front matter format and template with a live preview.
+ */
+export function FrontMatterCard() {
+	const [current, update] = useSettings();
+	const [draft, setDraft] = useState(current.frontMatterTemplate);
+	const [saving, setSaving] = useState(false);
+	const toast = useToast();
+
+	useEffect(() => {
+		setDraft(current.frontMatterTemplate);
+	}, [current.frontMatterTemplate]);
+
+	const { errors } = useMemo(() => parseFrontMatterTemplate(draft), [draft]);
+	const preview = useMemo(
+		() => buildFrontMatter(previewMetadata, { format: current.frontMatterFormat, template: draft }),
+		[current.frontMatterFormat, draft]
+	);
+
+	async function handleSave() {
+		if (errors.length > 0) {
+			toast('Template has errors', errors[0], 'error');
+			return;
+		}
+		setSaving(true);
+		if (await update({ frontMatterTemplate: draft })) {
+			toast('Template saved', 'New conversions use your front matter template.');
+		}
+		setSaving(false);
+	}
+
+	return (
+		<Card className="flex flex-col gap-6">
+			<div>
+				<h2 className="text-xl font-semibold text-slate-900">Front matter</h2>
+				<p className="text-sm text-slate-600">
+					Choose the header format and which keys it contains. Write one <code>key: value</code>{' '}
+					entry per line; values can use <code>{'{{variables}}'}</code>. Empty variables are left
+					out.
+				</p>
+			</div>
+
+			<div className="grid gap-6 md:grid-cols-2">
+				<div className="flex flex-col gap-4">
+					<label className="flex flex-col gap-2">
+						<span className="text-sm font-medium text-slate-700">Format</span>
+						<select
+							className={selectClassName}
+							value={current.frontMatterFormat}
+							onChange={(event) =>
+								update({ frontMatterFormat: event.target.value as FrontMatterFormat })
+							}
+						>
+							{frontMatterFormats.map((format) => (
+								<option key={format} value={format}>
+									{formatLabels[format]}
+								</option>
+							))}
+						</select>
+					</label>
+
+					<label className="flex flex-col gap-2">
+						<span className="text-sm font-medium text-slate-700">Template</span>
+						<textarea
+							className="h-72 w-full resize-y rounded-lg border border-slate-300 bg-white px-3 py-2 font-mono text-xs shadow-sm outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/30"
+							value={draft}
+							spellCheck={false}
+							onChange={(event) => setDraft(event.target.value)}
+						/>
+						<span className="text-xs text-slate-500">
+							Variables: {frontMatterVariables.map((name) => `{{${name}}}`).join(', ')}
+						</span>
+					</label>
+
+					{errors.length > 0 && (
+						<ul className="flex flex-col gap-1 text-xs text-rose-600">
+							{errors.map((error) => (
+								<li key={error}>{error}</li>
+							))}
+						</ul>
+					)}
+
+					<div className="flex flex-wrap items-center gap-3">
+						<Button
+							type="button"
+							loading={saving}
+							disabled={draft === current.frontMatterTemplate}
+							onClick={handleSave}
+						>
+							Save template
+						</Button>
+						<Button
+							type="button"
+							variant="ghost"
+							onClick={() => setDraft(DEFAULT_FRONT_MATTER_TEMPLATE)}
+						>
+							Restore default
+						</Button>
+					</div>
+				</div>
+
+				<div className="flex flex-col gap-2">
+					<span className="text-sm font-medium text-slate-700">Preview</span>
+					<pre className="min-h-72 overflow-auto rounded-lg border border-slate-200 bg-slate-50 p-3 text-xs text-slate-800">
+						{preview || '(no front matter)'}
+					</pre>
+				</div>
+			</div>
+		</Card>
+	);
+}
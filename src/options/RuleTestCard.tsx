@@ -0,0 +1,325 @@
+import { type ChangeEvent, useDeferredValue, useMemo, useState } from 'react';
+import {
+	type DomainConfig,
+	defaultDomainConfigs,
+	type ExtractionStrategy,
+	extractionStrategies,
+	resolveDomainConfig,
+} from '../rules';
+import { type RuleTestResult, type SelectorReport, testRule } from '../sandbox';
+import { Card } from '../ui/Card';
+import { cn } from '../ui/cn';
+import { strategyLabels } from '../ui/labels';
+import { selectClassName } from '../ui/styles';
+import { useToast } from '../ui/useToast';
+import { useSettings } from './useSettings';
+
+/** Characters of Markdown shown in the output pane. */
+const OUTPUT_LENGTH = 20000;
+
+const DRAFT_RULE = '__draft__';
+
+const textareaClassName =
+	'w-full resize-y rounded-lg border border-slate-300 bg-white px-3 py-2 font-mono text-xs shadow-sm outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/30';
+
+interface RuleTestCardProps {
+	/** Saved overrides, merged over the built-in presets for lookup. */
+	customConfigs: Record<string, DomainConfig>;
+	/** Rule currently entered in the configuration form. */
+	draft: DomainConfig;
+}
+
+/**
+ * Pairs each match description with a key made of the selector and the description, numbering
+ * repeats, since similar elements share a description.
+ */
+function matchItems(report: SelectorReport): Array<{ key: string; match: string }> {
+	const seen = new Map<string, number>();
+	return report.matches.map((match) => {
+		const repeat = seen.get(match) ?? 0;
+		seen.set(match, repeat + 1);
+		return { key: `${report.selector} ${match} ${repeat}`, match };
+	});
+}
+
+/**
+ * Match list for one selector, or its error when the selector cannot be parsed.
+ */
+function SelectorMatches({ label, report }: { label: string; report: SelectorReport }) {
+	return (
+		<li className="flex flex-col gap-1 rounded-lg border border-slate-200 bg-slate-50/60 p-3">
+			<p className="text-xs font-medium uppercase tracking-wide text-slate-500">{label}</p>
+			<p className="break-all font-mono text-xs font-semibold text-slate-900">{report.selector}</p>
+			{report.error !== undefined ? (
+				<p className="text-xs text-rose-600">Invalid selector: {report.error}</p>
+			) : (
+				<>
+					<p className="text-xs text-slate-500">
+						{report.count === 1 ? '1 element' : `${report.count} elements`}
+					</p>
+					{report.matches.length > 0 && (
+						<ul className="flex flex-col gap-0.5">
+							{matchItems(report).map(({ key, match }) => (
+								<li key={key} className="break-all font-mono text-xs text-slate-600">
+									{match}
+								</li>
+							))}
+							{report.count > report.matches.length && (
+								<li className="text-xs text-slate-500">
+									and {report.count - report.matches.length} more
+								</li>
+							)}
+						</ul>
+					)}
+				</>
+			)}
+		</li>
+	);
+}
+
+/**
+ * Sandbox for trying a rule on pasted or loaded HTML before saving it. Conversion runs on a
+ * parsed copy of the page, so nothing is fetched or executed.
+ */
+export function RuleTestCard({ customConfigs, draft }: RuleTestCardProps) {
+	const [current] = useSettings();
+	const [html, setHtml] = useState('');
+	const [url, setUrl] = useState('');
+	const [ruleKey, setRuleKey] = useState('');
+	const [selector, setSelector] = useState('');
+	const [remove, setRemove] = useState('');
+	const [strategy, setStrategy] = useState<ExtractionStrategy | ''>('');
+	const [conversion, setConversion] = useState<DomainConfig['conversion']>();
+	const toast = useToast();
+
+	const allConfigs = useMemo(
+		() => ({ ...defaultDomainConfigs, ...customConfigs }),
+		[customConfigs]
+	);
+	const matching = useMemo(() => {
+		const trimmed = url.trim();
+		return trimmed ? resolveDomainConfig(trimmed, allConfigs) : null;
+	}, [url, allConfigs]);
+
+	const config = useMemo<DomainConfig>(
+		() => ({
+			selector,
+			remove: remove
+				.split('\n')
+				.map((line) => line.trim())
+				.filter(Boolean),
+			...(strategy ? { strategy } : {}),
+			...(conversion ? { conversion } : {}),
+		}),
+		[selector, remove, strategy, conversion]
+	);
+
+	const deferredHtml = useDeferredValue(html);
+	const deferredConfig = useDeferredValue(config);
+	const result = useMemo<RuleTestResult | string | null>(() => {
+		if (!deferredHtml.trim()) return null;
+		try {
+			return testRule(
+				deferredHtml,
+				url.trim(),
+				deferredConfig,
+				current.extractionStrategy,
+				current.conversion
+			);
+		} catch (err) {
+			console.error('Failed to test rule', err);
+			return err instanceof Error ? err.message : String(err);
+		}
+	}, [deferredHtml, url, deferredConfig, current.extractionStrategy, current.conversion]);
+
+	function loadRule(key: string) {
+		setRuleKey(key);
+		const rule: DomainConfig = (key === DRAFT_RULE
+			? draft
+			: key === matching?.pattern
+				? matching.config
+				: allConfigs[key]) ?? { selector: '' };
+		setSelector(rule.selector);
+		setRemove((rule.remove ?? []).join('\n'));
+		setStrategy(rule.strategy ?? '');
+		setConversion(rule.conversion);
+	}
+
+	async function handleFile(event: ChangeEvent<HTMLInputElement>) {
+		const file = event.target.files?.[0];
+		event.target.value = '';
+		if (!file) return;
+		try {
+			setHtml(await file.text());
+		} catch (err) {
+			console.error('Failed to read snapshot', err);
+			toast('Failed to load snapshot', 'The file could not be read.', 'error');
+		}
+	}
+
+	return (
+		<Card className="flex flex-col gap-6">
+			<div>
+				<h2 className="text-xl font-semibold text-slate-900">Test a rule</h2>
+				<p className="text-sm text-slate-600">
+					Paste a page’s HTML or load a saved snapshot, then try a rule on it. The output updates as
+					you edit, exactly as a conversion of that page would look.
+				</p>
+			</div>
+
+			<div className="grid gap-6 md:grid-cols-2">
+				<div className="flex flex-col gap-4">
+					<label className="flex flex-col gap-2" htmlFor="rule-test-url">
+						<span className="text-sm font-medium text-slate-700">Page URL</span>
+						<input
+							id="rule-test-url"
+							className={selectClassName}
+							placeholder="https://example.com/blog/post"
+							value={url}
+							onChange={(event) => setUrl(event.target.value)}
+						/>
+						<span className="text-xs text-slate-500">
+							Optional. Resolves relative links and images and finds the rule that would apply.
+						</span>
+					</label>
+
+					<label className="flex flex-col gap-2" htmlFor="rule-test-html">
+						<span className="text-sm font-medium text-slate-700">Page HTML</span>
+						<textarea
+							id="rule-test-html"
+							className={cn(textareaClassName, 'h-40')}
+							placeholder="<html>…</html>"
+							value={html}
+							spellCheck={false}
+							onChange={(event) => setHtml(event.target.value)}
+						/>
+					</label>
+					<label className="flex flex-col gap-2 text-sm text-slate-700" htmlFor="rule-test-file">
+						<span className="text-sm font-medium text-slate-700">Or load a snapshot</span>
+						<input
+							id="rule-test-file"
+							type="file"
+							accept=".html,.htm,text/html"
+							className="text-xs text-slate-600"
+							onChange={handleFile}
+						/>
+					</label>
+				</div>
+
+				<div className="flex flex-col gap-4">
+					<label className="flex flex-col gap-2" htmlFor="rule-test-rule">
+						<span className="text-sm font-medium text-slate-700">Start from</span>
+						<select
+							id="rule-test-rule"
+							className={selectClassName}
+							value={ruleKey}
+							onChange={(event) => loadRule(event.target.value)}
+						>
+							<option value="">Empty rule</option>
+							<option value={DRAFT_RULE}>Configuration form</option>
+							{Object.keys(allConfigs)
+								.sort((a, b) => a.localeCompare(b))
+								.map((pattern) => (
+									<option key={pattern} value={pattern}>
+										{pattern === matching?.pattern ? `${pattern} (matches the URL)` : pattern}
+									</option>
+								))}
+						</select>
+						<span className="text-xs text-slate-500">
+							Copies a rule into the fields below, along with its conversion steps; edits here are
+							not saved.
+						</span>
+					</label>
+
+					<label className="flex flex-col gap-2" htmlFor="rule-test-selector">
+						<span className="text-sm font-medium text-slate-700">Content selector</span>
+						<input
+							id="rule-test-selector"
+							className={cn(selectClassName, 'font-mono')}
+							placeholder="article, main, #content"
+							value={selector}
+							spellCheck={false}
+							onChange={(event) => setSelector(event.target.value)}
+						/>
+					</label>
+
+					<label className="flex flex-col gap-2" htmlFor="rule-test-remove">
+						<span className="text-sm font-medium text-slate-700">Remove selectors</span>
+						<textarea
+							id="rule-test-remove"
+							className={cn(textareaClassName, 'h-24')}
+							placeholder=".ads\n.sidebar"
+							value={remove}
+							spellCheck={false}
+							onChange={(event) => setRemove(event.target.value)}
+						/>
+					</label>
+
+					<label className="flex flex-col gap-2" htmlFor="rule-test-strategy">
+						<span className="text-sm font-medium text-slate-700">Extraction strategy</span>
+						<select
+							id="rule-test-strategy"
+							className={selectClassName}
+							value={strategy}
+							onChange={(event) => setStrategy(event.target.value as ExtractionStrategy | '')}
+						>
+							<option value="">
+								Use global default ({strategyLabels[current.extractionStrategy]})
+							</option>
+							{extractionStrategies.map((option) => (
+								<option key={option} value={option}>
+									{strategyLabels[option]}
+								</option>
+							))}
+						</select>
+					</label>
+				</div>
+			</div>
+
+			{result === null ? (
+				<div className="rounded-xl border border-dashed border-slate-300 bg-white p-6 text-center text-sm text-slate-500">
+					Paste HTML or load a snapshot to see the output.
+				</div>
+			) : typeof result === 'string' ? (
+				<p className="text-sm text-rose-600">Conversion failed: {result}</p>
+			) : (
+				<div className="flex flex-col gap-4">
+					{result.warnings.length > 0 && (
+						<ul className="flex flex-col gap-1 rounded-lg border border-amber-200 bg-amber-50 p-3">
+							{result.warnings.map((warning) => (
+								<li key={warning} className="text-xs text-amber-800">
+									{warning}
+								</li>
+							))}
+						</ul>
+					)}
+
+					<div className="grid gap-6 md:grid-cols-[2fr_1fr]">
+						<div className="flex min-w-0 flex-col gap-2">
+							<span className="text-sm font-medium text-slate-700">
+								Output (extracted by {result.source})
+							</span>
+							<pre className="max-h-[32rem] overflow-auto whitespace-pre-wrap break-words rounded-lg border border-slate-200 bg-slate-50 p-3 font-mono text-xs text-slate-800">
+								{result.markdown.slice(0, OUTPUT_LENGTH) || '(empty)'}
+							</pre>
+						</div>
+
+						<div className="flex flex-col gap-2">
+							<span className="text-sm font-medium text-slate-700">Selector matches</span>
+							{result.content || result.remove.length > 0 ? (
+								<ul className="flex flex-col gap-2">
+									{result.content && <SelectorMatches label="Content" report={result.content} />}
+									{result.remove.map((report) => (
+										<SelectorMatches key={report.selector} label="Remove" report={report} />
+									))}
+								</ul>
+							) : (
+								<p className="text-xs text-slate-500">No selectors in this rule.</p>
+							)}
+						</div>
+					</div>
+				</div>
+			)}
+		</Card>
+	);
+}
@@ -0,0 +1,221 @@
+import { type ChangeEvent, useMemo, useState } from 'react';
+import { downloadText } from '../download';
+import { type DomainConfig, writeCustomConfigs } from '../rules';
+import {
+	type ParsedRulesFile,
+	parseRulesFile,
+	planRuleImport,
+	type RuleImportMode,
+	serializeRules,
+} from '../rulesFile';
+import { Button } from '../ui/Button';
+import { Card } from '../ui/Card';
+import { useToast } from '../ui/useToast';
+
+interface RuleTransferCardProps {
+	customConfigs: Record<string, DomainConfig>;
+	/** Called with the saved rules after an import is applied. */
+	onImported: (rules: Record<string, DomainConfig>) => void;
+}
+
+const modeLabels: Record<RuleImportMode, string> = {
+	merge: 'Merge with saved rules',
+	replace: 'Replace all saved rules',
+};
+
+/**
+ * Titled list of patterns in the import preview; renders nothing when the list is empty.
+ */
+function PatternList({
+	title,
+	patterns,
+	describe,
+	className,
+}: {
+	title: string;
+	patterns: string[];
+	describe?: (pattern: string) => string;
+	className: string;
+}) {
+	if (patterns.length === 0) return null;
+	return (
+		<div className="flex flex-col gap-1">
+			<p className={`text-xs font-semibold ${className}`}>
+				{title} ({patterns.length})
+			</p>
+			<ul className="flex flex-col gap-0.5">
+				{patterns.map((pattern) => (
+					<li key={pattern} className="break-all text-xs text-slate-600">
+						<span className="font-medium text-slate-800">{pattern}</span>
+						{describe && ` — ${describe(pattern)}`}
+					</li>
+				))}
+			</ul>
+		</div>
+	);
+}
+
+/**
+ * Exports the saved rules as JSON and imports rule files after previewing what would change.
+ */
+export function RuleTransferCard({ customConfigs, onImported }: RuleTransferCardProps) {
+	const [parsed, setParsed] = useState<(ParsedRulesFile & { name: string }) | null>(null);
+	const [mode, setMode] = useState<RuleImportMode>('merge');
+	const [applying, setApplying] = useState(false);
+	const toast = useToast();
+
+	const plan = useMemo(
+		() => (parsed ? planRuleImport(customConfigs, parsed.rules, mode) : null),
+		[parsed, customConfigs, mode]
+	);
+
+	async function handleExport() {
+		try {
+			await downloadText({
+				text: serializeRules(customConfigs),
+				filename: 'page-to-markdown-rules.json',
+				mimeType: 'application/json',
+				saveAs: true,
+				conflict: 'uniquify',
+			});
+		} catch (error) {
+			console.error('Failed to export rules', error);
+			toast('Failed to export', 'Please try again.', 'error');
+		}
+	}
+
+	async function handleFile(event: ChangeEvent<HTMLInputElement>) {
+		const file = event.target.files?.[0];
+		event.target.value = '';
+		if (!file) return;
+		try {
+			setParsed({ ...parseRulesFile(await file.text()), name: file.name });
+		} catch (error) {
+			console.error('Failed to read rules file', error);
+			toast(
+				'Cannot import this file',
+				error instanceof Error ? error.message : 'The file could not be read.',
+				'error'
+			);
+		}
+	}
+
+	async function handleApply() {
+		if (!plan) return;
+		setApplying(true);
+		try {
+			const area = await writeCustomConfigs(plan.result);
+			onImported(plan.result);
+			setParsed(null);
+			toast(
+				'Rules imported',
+				area === 'local'
+					? 'The rules are too large for Chrome sync and were saved on this device only.'
+					: `${plan.added.length + plan.conflicts.length} rules added or updated.`
+			);
+		} catch (error) {
+			console.error('Failed to import rules', error);
+			toast(
+				'Failed to import',
+				error instanceof Error ? error.message : 'Please try again.',
+				'error'
+			);
+		} finally {
+			setApplying(false);
+		}
+	}
+
+	return (
+		<Card className="flex flex-col gap-4">
+			<div>
+				<h2 className="text-xl font-semibold text-slate-900">Import and export</h2>
+				<p className="text-sm text-slate-600">
+					Back up your custom rules as JSON or bring rules over from another browser.
+				</p>
+			</div>
+
+			<div className="flex flex-wrap items-center gap-3">
+				<Button
+					type="button"
+					variant="secondary"
+					disabled={Object.keys(customConfigs).length === 0}
+					onClick={handleExport}
+				>
+					Export rules
+				</Button>
+				<label className="text-sm text-slate-700" htmlFor="rules-import-file">
+					<span className="sr-only">Import rules</span>
+					<input
+						id="rules-import-file"
+						type="file"
+						accept=".json,application/json"
+						className="text-xs text-slate-600"
+						onChange={handleFile}
+					/>
+				</label>
+			</div>
+
+			{parsed && plan && (
+				<div className="flex flex-col gap-3 rounded-lg border border-slate-200 bg-slate-50/60 p-4">
+					<p className="break-all text-sm font-semibold text-slate-900">{parsed.name}</p>
+
+					<div className="flex flex-col gap-1">
+						{(Object.keys(modeLabels) as RuleImportMode[]).map((option) => (
+							<label key={option} className="flex items-center gap-2 text-sm text-slate-700">
+								<input
+									type="radio"
+									name="rules-import-mode"
+									className="h-4 w-4 accent-brand"
+									checked={mode === option}
+									onChange={() => setMode(option)}
+								/>
+								{modeLabels[option]}
+							</label>
+						))}
+					</div>
+
+					<PatternList
+						title="New"
+						patterns={plan.added}
+						describe={(pattern) => parsed.rules[pattern].selector || '(no selector)'}
+						className="text-emerald-700"
+					/>
+					<PatternList
+						title="Replaces a saved rule"
+						patterns={plan.conflicts}
+						describe={(pattern) =>
+							`${customConfigs[pattern].selector || '(no selector)'} → ${
+								parsed.rules[pattern].selector || '(no selector)'
+							}`
+						}
+						className="text-amber-700"
+					/>
+					<PatternList title="Deleted" patterns={plan.removed} className="text-rose-700" />
+					<PatternList title="Already saved" patterns={plan.unchanged} className="text-slate-500" />
+					<PatternList
+						title="Skipped"
+						patterns={parsed.errors.map((error) => error.pattern)}
+						describe={(pattern) =>
+							parsed.errors.find((error) => error.pattern === pattern)?.message ?? ''
+						}
+						className="text-rose-700"
+					/>
+
+					<div className="flex flex-wrap items-center gap-3">
+						<Button
+							type="button"
+							loading={applying}
+							disabled={plan.added.length + plan.conflicts.length + plan.removed.length === 0}
+							onClick={handleApply}
+						>
+							Apply import
+						</Button>
+						<Button type="button" variant="ghost" onClick={() => setParsed(null)}>
+							Cancel
+						</Button>
+					</div>
+				</div>
+			)}
+		</Card>
+	);
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { pruneHistory } from '../history';
+import { type OutputFormat, outputFormatLabels, outputFormats } from '../output';
+import { type ExtractionStrategy, extractionStrategies } from '../rules';
+import { defaultSettings } from '../settings';
+import { Card } from '../ui/Card';
+import { strategyLabels } from '../ui/labels';
+import { selectClassName } from '../ui/styles';
+import { useSettings } from './useSettings';
+
+/**
+ * Numeric input that keeps a local draft and saves it on blur or Enter. Empty or invalid values
+ * save as `emptyValue`.
+ */
+function NumberSetting({
+	id,
+	value,
+	emptyValue,
+	step,
+	placeholder,
+	onCommit,
+}: {
+	id: string;
+	value: number;
+	emptyValue: number;
+	step: number;
+	placeholder?: string;
+	onCommit: (value: number) => void;
+}) {
+	const display = (next: number) => (next === emptyValue && placeholder ? '' : String(next));
+	const [draft, setDraft] = useState(display(value));
+
+	useEffect(() => {
+		setDraft(value === emptyValue && placeholder ? '' : String(value));
+	}, [value, emptyValue, placeholder]);
+
+	function commit() {
+		const parsed = Number.parseInt(draft, 10);
+		const next = Number.isFinite(parsed) && parsed > 0 ? parsed : emptyValue;
+		setDraft(display(next));
+		if (next !== value) {
+			onCommit(next);
+		}
+	}
+
+	return (
+		<input
+			id={id}
+			className={selectClassName}
+			type="number"
+			min={0}
+			step={step}
+			inputMode="numeric"
+			placeholder={placeholder}
+			value={draft}
+			onChange={(event) => setDraft(event.target.value)}
+			onBlur={commit}
+			onKeyDown={(event) => {
+				if (event.key === 'Enter') {
+					commit();
+				}
+			}}
+		/>
+	);
+}
+
+/**
+ * Global conversion preferences that apply whenever a domain rule does not override them.
+ */
+export function SettingsCard() {
+	const [current, update] = useSettings();
+
+	return (
+		<Card className="flex flex-col gap-4">
+			<div>
+				<h2 className="text-xl font-semibold text-slate-900">Defaults</h2>
+				<p className="text-sm text-slate-600">
+					Applied to every page unless a domain rule overrides them.
+				</p>
+			</div>
+
+			<label className="flex flex-col gap-2">
+				<span className="text-sm font-medium text-slate-700">Extraction strategy</span>
+				<select
+					className={selectClassName}
+					value={current.extractionStrategy}
+					onChange={(event) =>
+						update({ extractionStrategy: event.target.value as ExtractionStrategy })
+					}
+				>
+					{extractionStrategies.map((strategy) => (
+						<option key={strategy} value={strategy}>
+							{strategyLabels[strategy]}
+						</option>
+					))}
+				</select>
+				<span className="text-xs text-slate-500">
+					Readability works on most articles; selector strategies use the matching rule&apos;s
+					content selector.
+				</span>
+			</label>
+
+			<label className="flex flex-col gap-2">
+				<span className="text-sm font-medium text-slate-700">Output format</span>
+				<select
+					className={selectClassName}
+					value={current.outputFormat}
+					onChange={(event) => update({ outputFormat: event.target.value as OutputFormat })}
+				>
+					{outputFormats.map((format) => (
+						<option key={format} value={format}>
+							{outputFormatLabels[format]}
+						</option>
+					))}
+				</select>
+				<span className="text-xs text-slate-500">
+					Used by the toolbar button and shortcut. The &quot;Copy as&quot; context menu picks a
+					format per page.
+				</span>
+			</label>
+
+			<label htmlFor="token-budget" className="flex flex-col gap-2">
+				<span className="text-sm font-medium text-slate-700">Token budget</span>
+				<NumberSetting
+					id="token-budget"
+					value={current.tokenBudget}
+					emptyValue={0}
+					step={500}
+					placeholder="No limit"
+					onCommit={(tokenBudget) => update({ tokenBudget })}
+				/>
+				<span className="text-xs text-slate-500">
+					Long pages are trimmed section by section to stay under this estimate. The table of
+					contents marks what was left out. Leave empty for no limit.
+				</span>
+			</label>
+
+			<label htmlFor="max-chunk-tokens" className="flex flex-col gap-2">
+				<span className="text-sm font-medium text-slate-700">Chunk size (tokens)</span>
+				<NumberSetting
+					id="max-chunk-tokens"
+					value={current.maxChunkTokens}
+					emptyValue={defaultSettings.maxChunkTokens}
+					step={100}
+					onCommit={(maxChunkTokens) => update({ maxChunkTokens })}
+				/>
+				<span className="text-xs text-slate-500">
+					Target size for the Markdown and JSONL chunk formats. Chunks follow headings and never
+					split code blocks, tables or footnotes.
+				</span>
+			</label>
+
+			<label htmlFor="history-limit" className="flex flex-col gap-2">
+				<span className="text-sm font-medium text-slate-700">History size</span>
+				<NumberSetting
+					id="history-limit"
+					value={current.historyLimit}
+					emptyValue={0}
+					step={10}
+					placeholder="Off"
+					onCommit={async (historyLimit) => {
+						if (await update({ historyLimit })) {
+							await pruneHistory(historyLimit).catch((error: unknown) =>
+								console.error('Failed to prune history', error)
+							);
+						}
+					}}
+				/>
+				<span className="text-xs text-slate-500">
+					Number of past conversions kept on this device for the{' '}
+					<a className="text-brand hover:underline" href="history.html">
+						history page
+					</a>
+					. Leave empty to stop saving conversions.
+				</span>
+			</label>
+		</Card>
+	);
+}
@@ -0,0 +1,267 @@
+import { type FormEvent, useMemo, useState } from 'react';
+import { Button } from '../ui/Button';
+import { selectClassName } from '../ui/styles';
+import {
+	cleanUrl,
+	defaultUrlRules,
+	normalizeUrlRulePattern,
+	sanitizeUrlRule,
+	type UrlCleaningOptions,
+	type UrlRule,
+	validateUrlRulePattern,
+} from '../urlRules';
+
+interface UrlRulesSectionProps {
+	options: UrlCleaningOptions;
+	onChange: (rules: Record<string, UrlRule>) => void;
+}
+
+interface UrlRuleForm {
+	pattern: string;
+	removeParams: string;
+	keepParams: string;
+	redirectParams: string;
+	redirectFromLink: boolean;
+}
+
+const emptyForm: UrlRuleForm = {
+	pattern: '',
+	removeParams: '',
+	keepParams: '',
+	redirectParams: '',
+	redirectFromLink: false,
+};
+
+function splitList(value: string): string[] {
+	return value
+		.split(/[\s,]+/)
+		.map((item) => item.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Summarises a URL rule, e.g. "Remove: utm_*, fbclid · Redirect: q".
+ */
+function describeUrlRule(rule: UrlRule): string {
+	const parts = [
+		rule.removeParams && `Remove: ${rule.removeParams.join(', ')}`,
+		rule.keepParams && `Keep: ${rule.keepParams.join(', ')}`,
+		rule.redirectParams && `Redirect: ${rule.redirectParams.join(', ')}`,
+		rule.redirectFromLink && 'Redirect: destination shown by the link',
+	].filter(Boolean);
+	return parts.length > 0 ? parts.join(' · ') : 'Does nothing';
+}
+
+/**
+ * Editor for the custom URL rules, with the built-in rules they override and a URL tester.
+ */
+export function UrlRulesSection({ options, onChange }: UrlRulesSectionProps) {
+	const [form, setForm] = useState<UrlRuleForm>(emptyForm);
+	const [error, setError] = useState<string | null>(null);
+	const [testUrl, setTestUrl] = useState('');
+	const customRules = options.urlRules;
+
+	const cleanedTestUrl = useMemo(() => {
+		const trimmed = testUrl.trim();
+		return trimmed ? cleanUrl(trimmed, options) : '';
+	}, [testUrl, options]);
+
+	function handleChange<K extends keyof UrlRuleForm>(key: K, value: UrlRuleForm[K]) {
+		setForm((prev) => ({ ...prev, [key]: value }));
+	}
+
+	function handleSubmit(event: FormEvent<HTMLFormElement>) {
+		event.preventDefault();
+		const patternError = validateUrlRulePattern(form.pattern);
+		if (patternError) {
+			setError(patternError);
+			return;
+		}
+		const rule = sanitizeUrlRule({
+			removeParams: splitList(form.removeParams),
+			keepParams: splitList(form.keepParams),
+			redirectParams: splitList(form.redirectParams),
+			...(form.redirectFromLink ? { redirectFromLink: true } : {}),
+		});
+		if (typeof rule === 'string') {
+			setError(rule);
+			return;
+		}
+		onChange({ ...customRules, [normalizeUrlRulePattern(form.pattern)]: rule });
+		setForm(emptyForm);
+		setError(null);
+	}
+
+	function handleEdit(pattern: string, rule: UrlRule) {
+		setForm({
+			pattern,
+			removeParams: (rule.removeParams ?? []).join(', '),
+			keepParams: (rule.keepParams ?? []).join(', '),
+			redirectParams: (rule.redirectParams ?? []).join(', '),
+			redirectFromLink: !!rule.redirectFromLink,
+		});
+		setError(null);
+	}
+
+	function handleRemove(pattern: string) {
+		const { [pattern]: _, ...rest } = customRules;
+		onChange(rest);
+	}
+
+	const customEntries = Object.entries(customRules).sort(([a], [b]) => a.localeCompare(b));
+
+	return (
+		<div className="flex flex-col gap-4">
+			<div>
+				<h3 className="text-lg font-semibold text-slate-900">URL rules</h3>
+				<p className="text-sm text-slate-600">
+					Used by “Clean link URLs” for links and images. Patterns work like domain rules, and{' '}
+					<code>*</code> applies to every site. A custom rule replaces the built-in rule with the
+					same pattern.
+				</p>
+			</div>
+
+			<form className="grid gap-4 md:grid-cols-2" onSubmit={handleSubmit}>
+				<label className="flex flex-col gap-1" htmlFor="url-rule-pattern">
+					<span className="text-sm font-medium text-slate-700">Pattern</span>
+					<input
+						id="url-rule-pattern"
+						className={selectClassName}
+						placeholder="example.com or *"
+						value={form.pattern}
+						onChange={(event) => handleChange('pattern', event.target.value)}
+					/>
+				</label>
+				<label className="flex flex-col gap-1" htmlFor="url-rule-remove">
+					<span className="text-sm font-medium text-slate-700">Remove parameters</span>
+					<input
+						id="url-rule-remove"
+						className={`${selectClassName} font-mono`}
+						placeholder="ref, utm_*"
+						spellCheck={false}
+						value={form.removeParams}
+						onChange={(event) => handleChange('removeParams', event.target.value)}
+					/>
+					<span className="text-xs text-slate-500">
+						A trailing * matches a prefix; * alone removes every parameter not kept.
+					</span>
+				</label>
+				<label className="flex flex-col gap-1" htmlFor="url-rule-keep">
+					<span className="text-sm font-medium text-slate-700">Keep parameters</span>
+					<input
+						id="url-rule-keep"
+						className={`${selectClassName} font-mono`}
+						placeholder="v, t"
+						spellCheck={false}
+						value={form.keepParams}
+						onChange={(event) => handleChange('keepParams', event.target.value)}
+					/>
+					<span className="text-xs text-slate-500">Never removed, even by broader rules.</span>
+				</label>
+				<label className="flex flex-col gap-1" htmlFor="url-rule-redirect">
+					<span className="text-sm font-medium text-slate-700">Redirect parameters</span>
+					<input
+						id="url-rule-redirect"
+						className={`${selectClassName} font-mono`}
+						placeholder="url, q"
+						spellCheck={false}
+						value={form.redirectParams}
+						onChange={(event) => handleChange('redirectParams', event.target.value)}
+					/>
+					<span className="text-xs text-slate-500">
+						For redirect links: parameters holding the destination URL.
+					</span>
+				</label>
+				<label className="flex items-center gap-2 text-sm text-slate-700 md:col-span-2">
+					<input
+						type="checkbox"
+						className="h-4 w-4 rounded border-slate-300 accent-brand"
+						checked={form.redirectFromLink}
+						onChange={(event) => handleChange('redirectFromLink', event.target.checked)}
+					/>
+					Redirect link without the destination in its URL: use the URL the link shows
+				</label>
+				{error && <p className="text-xs text-rose-600 md:col-span-2">{error}</p>}
+				<div className="flex flex-wrap items-center gap-3 md:col-span-2">
+					<Button type="submit">Save URL rule</Button>
+					<Button
+						type="button"
+						variant="secondary"
+						onClick={() => {
+							setForm(emptyForm);
+							setError(null);
+						}}
+					>
+						Clear form
+					</Button>
+				</div>
+			</form>
+
+			{customEntries.length > 0 && (
+				<ul className="flex flex-col gap-2">
+					{customEntries.map(([pattern, rule]) => (
+						<li
+							key={pattern}
+							className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-slate-200 bg-slate-50/60 p-3"
+						>
+							<div>
+								<p className="text-sm font-semibold text-slate-900">{pattern}</p>
+								<p className="text-xs text-slate-600">{describeUrlRule(rule)}</p>
+							</div>
+							<div className="flex items-center gap-2">
+								<Button
+									type="button"
+									variant="ghost"
+									className="px-3 py-1 text-xs"
+									onClick={() => handleEdit(pattern, rule)}
+								>
+									Edit
+								</Button>
+								<Button
+									type="button"
+									variant="destructive"
+									className="px-3 py-1 text-xs"
+									onClick={() => handleRemove(pattern)}
+								>
+									Remove
+								</Button>
+							</div>
+						</li>
+					))}
+				</ul>
+			)}
+
+			<details className="text-sm text-slate-600">
+				<summary className="cursor-pointer font-medium text-slate-700">Built-in URL rules</summary>
+				<ul className="mt-2 flex flex-col gap-1">
+					{Object.entries(defaultUrlRules).map(([pattern, rule]) => (
+						<li key={pattern} className="text-xs">
+							<button
+								type="button"
+								className="font-semibold text-brand hover:underline"
+								onClick={() => handleEdit(pattern, customRules[pattern] ?? rule)}
+							>
+								{pattern}
+							</button>{' '}
+							{customRules[pattern] ? '(replaced by a custom rule)' : describeUrlRule(rule)}
+						</li>
+					))}
+				</ul>
+			</details>
+
+			<label className="flex flex-col gap-1" htmlFor="url-rule-test">
+				<span className="text-sm font-medium text-slate-700">Test a link</span>
+				<input
+					id="url-rule-test"
+					className={selectClassName}
+					placeholder="https://www.google.com/url?q=https://example.com/?utm_source=x"
+					value={testUrl}
+					onChange={(event) => setTestUrl(event.target.value)}
+				/>
+				{cleanedTestUrl && (
+					<span className="break-all font-mono text-xs text-slate-600">{cleanedTestUrl}</span>
+				)}
+			</label>
+		</div>
+	);
+}
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { defaultSettings, type ExtensionSettings, loadSettings, saveSettings } from '../settings';
+import { useToast } from '../ui/useToast';
+
+/**
+ * Loads the extension settings and returns them with an updater that persists partial changes,
+ * rolling back and notifying the user when the save fails.
+ * @returns Current settings and the update function.
+ */
+export function useSettings() {
+	const [current, setCurrent] = useState<ExtensionSettings>(defaultSettings);
+	const toast = useToast();
+
+	useEffect(() => {
+		let active = true;
+		(async () => {
+			const loaded = await loadSettings();
+			if (active) {
+				setCurrent({ ...loaded });
+			}
+		})();
+		return () => {
+			active = false;
+		};
+	}, []);
+
+	async function update(patch: Partial<ExtensionSettings>): Promise<boolean> {
+		const previous = current;
+		setCurrent((prev) => ({ ...prev, ...patch }));
+		try {
+			await saveSettings(patch);
+			return true;
+		} catch (error) {
+			console.error('Failed to save settings', error);
+			setCurrent(previous);
+			toast('Failed to save', 'Please try again.', 'error');
+			return false;
+		}
+	}
+
+	return [current, update] as const;
+}
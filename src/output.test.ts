@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	type ConversionResult,
+	escapeXml,
+	fitToTokenBudget,
+	prepareOutput,
+	renderOutput,
+	renderPlainText,
+	renderXmlDocument,
+	stripMarkdown,
+} from './output';
+import { estimateTokens } from './tokens';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const result: ConversionResult = {
+	metadata: {
+		title: 'Tips & Tricks',
+		source: 'https://example.com/tips',
+		authors: ['Ada'],
+		description: '',
+		retrieved: '2025-01-01T00:00:00.000Z',
+	},
+	toc: '- [Intro](#intro)',
+	markdown: '## Intro {#intro}\n\nSee [docs](https://example.com/docs) for **more**.[^1]',
+	footnotes: '[^1]: A footnote.',
+};
+
+// ---------------------------------------------------------------------------
+// Formats
+// ---------------------------------------------------------------------------
+
+describe('escapeXml', () => {
+	it('escapes markup characters', () => {
+		expect(escapeXml('<a> & b')).toBe('&lt;a&gt; &amp; b');
+	});
+});
+
+describe('stripMarkdown', () => {
+	it('removes heading, emphasis, link and code syntax', () => {
+		const text = stripMarkdown(
+			'# Title {#title}\n\n> Quote with _emphasis_ and `code`\n\n![alt](img.png) [link](https://x.y) ~~old~~'
+		);
+		expect(text).toBe('Title\n\nQuote with emphasis and code\n\nalt link old');
+	});
+
+	it('keeps fenced code contents and drops the fences', () => {
+		expect(stripMarkdown('```js\nconst a = 1;\n```')).toBe('const a = 1;');
+	});
+
+	it('flattens tables and drops separator rows', () => {
+		expect(stripMarkdown('| A | B |\n| --- | --- |\n| 1 | 2 |')).toBe('A | B\n1 | 2');
+	});
+
+	it('leaves snake_case identifiers alone', () => {
+		expect(stripMarkdown('use some_var_name here')).toBe('use some_var_name here');
+	});
+
+	it('keeps footnote labels readable', () => {
+		expect(stripMarkdown('Claim.[^1]\n\n[^1]: Source.')).toBe('Claim.[1]\n\n[1] Source.');
+	});
+});
+
+describe('renderXmlDocument', () => {
+	it('wraps content in document tags with escaped metadata', () => {
+		const xml = renderXmlDocument(result);
+		expect(xml.startsWith('<document>\n<source>https://example.com/tips</source>')).toBe(true);
+		expect(xml).toContain('<title>Tips &amp; Tricks</title>');
+		expect(xml).toContain('<author>Ada</author>');
+		expect(xml).not.toContain('<description>');
+		expect(xml).toContain('<document_content>\n## Intro {#intro}');
+		expect(xml).toContain('[^1]: A footnote.\n</document_content>\n</document>');
+	});
+});
+
+describe('renderPlainText', () => {
+	it('prefixes the title and source', () => {
+		const text = renderPlainText(result);
+		expect(text).toBe(
+			'Tips & Tricks\nSource: https://example.com/tips\n\nIntro\n\nSee docs for more.[1]\n\n[1] A footnote.'
+		);
+	});
+});
+
+describe('renderOutput', () => {
+	it('renders Markdown with front matter, TOC and footnotes', () => {
+		const markdown = renderOutput(result, 'markdown');
+		expect(markdown.startsWith('---\ntitle: "Tips & Tricks"')).toBe(true);
+		expect(markdown).toContain('## Table of Contents');
+		expect(markdown).toContain('[^1]: A footnote.');
+	});
+
+	it('renders JSON with separate footnotes', () => {
+		const parsed = JSON.parse(renderOutput(result, 'json'));
+		expect(Object.keys(parsed)).toEqual(['metadata', 'toc', 'markdown', 'footnotes']);
+		expect(parsed.markdown).not.toContain('[^1]:');
+		expect(parsed.footnotes).toBe('[^1]: A footnote.');
+		expect(parsed.metadata.title).toBe('Tips & Tricks');
+	});
+});
+
+describe('fitToTokenBudget', () => {
+	const long: ConversionResult = {
+		...result,
+		toc: '- [One](#one)\n- [Two](#two)',
+		markdown: `## One {#one}\n\n${'alpha '.repeat(60).trim()}\n\n## Two {#two}\n\n${'beta '.repeat(60).trim()}`,
+		footnotes: '',
+	};
+
+	it('leaves the result alone without a budget', () => {
+		expect(fitToTokenBudget(long, 'markdown', 0)).toEqual({ result: long, omittedSections: 0 });
+	});
+
+	it('counts the front matter and TOC against the budget', () => {
+		const overhead = estimateTokens(renderOutput({ ...long, markdown: '' }, 'markdown'));
+		const fitted = fitToTokenBudget(long, 'markdown', overhead + 100);
+		expect(fitted.omittedSections).toBe(1);
+		expect(fitted.result.markdown).toContain('## One');
+		expect(fitted.result.toc).toContain('[Two](#two) *(omitted)*');
+		expect(estimateTokens(renderOutput(fitted.result, 'markdown'))).toBeLessThanOrEqual(
+			overhead + 100
+		);
+	});
+});
+
+describe('prepareOutput', () => {
+	it('records body statistics for the front matter without touching the input', () => {
+		const options = {
+			frontMatter: { format: 'yaml' as const, template: 'tokens: {{tokens}}' },
+			maxChunkTokens: 500,
+		};
+		const prepared = prepareOutput(result, 'markdown', 0, options);
+		expect(prepared.result.metadata.stats?.words).toBeGreaterThan(0);
+		expect(prepared.output).toContain(`tokens: ${prepared.result.metadata.stats?.tokens}`);
+		expect(prepared.omittedSections).toBe(0);
+		expect(result.metadata.stats).toBeUndefined();
+	});
+});
+
+describe('renderOutput chunk formats', () => {
+	const options = {
+		frontMatter: { format: 'yaml' as const, template: 'title: {{title}}' },
+		maxChunkTokens: 500,
+	};
+
+	it('renders Markdown chunks after the front matter', () => {
+		const output = renderOutput(result, 'chunks', options);
+		expect(output).toBe(
+			'---\ntitle: "Tips & Tricks"\n---\n\n---\n\n<!-- chunk 1/1 | Intro | #intro -->\n\n## Intro {#intro}\n\nSee [docs](https://example.com/docs) for **more**.[^1]\n\n[^1]: A footnote.'
+		);
+	});
+
+	it('renders JSONL chunks', () => {
+		const [line] = renderOutput(result, 'jsonl', options).split('\n');
+		expect(JSON.parse(line).breadcrumb).toEqual(['Intro']);
+	});
+
+	it('never trims chunked formats to the token budget', () => {
+		expect(fitToTokenBudget(result, 'jsonl', 1).omittedSections).toBe(0);
+	});
+});
@@ -0,0 +1,290 @@
+import { chunkMarkdown, renderChunksJsonl, renderChunksMarkdown } from './chunks';
+import { buildOutput, joinFootnotes } from './convert';
+import {
+	buildFrontMatter,
+	defaultFrontMatterOptions,
+	type FrontMatterOptions,
+	type PageMetadata,
+} from './frontmatter';
+import { estimateTokens, measureText, truncateToBudget } from './tokens';
+
+/**
+ * Layout of the copied document: Markdown with front matter, an XML-tagged document for
+ * prompting, plain text with Markdown syntax removed, a JSON object for ingestion scripts, or the
+ * body split into retrieval chunks as Markdown or JSON Lines.
+ */
+export type OutputFormat = 'markdown' | 'xml' | 'text' | 'json' | 'chunks' | 'jsonl';
+
+export const outputFormats: OutputFormat[] = ['markdown', 'xml', 'text', 'json', 'chunks', 'jsonl'];
+
+/**
+ * Formats that split the page into chunks for retrieval indexes; token budgets do not apply.
+ */
+export const chunkedOutputFormats: OutputFormat[] = ['chunks', 'jsonl'];
+
+/**
+ * Display names for each output format, used by menus, toasts and the options page.
+ */
+export const outputFormatLabels: Record<OutputFormat, string> = {
+	markdown: 'Markdown',
+	xml: 'XML document',
+	text: 'Plain text',
+	json: 'JSON',
+	chunks: 'Markdown chunks',
+	jsonl: 'JSONL chunks',
+};
+
+/**
+ * File extension and MIME type used when an output is saved instead of copied.
+ */
+export const outputFormatFiles: Record<OutputFormat, { extension: string; mimeType: string }> = {
+	markdown: { extension: 'md', mimeType: 'text/markdown' },
+	xml: { extension: 'xml', mimeType: 'application/xml' },
+	text: { extension: 'txt', mimeType: 'text/plain' },
+	json: { extension: 'json', mimeType: 'application/json' },
+	chunks: { extension: 'md', mimeType: 'text/markdown' },
+	jsonl: { extension: 'jsonl', mimeType: 'application/jsonl' },
+};
+
+/**
+ * Settings that affect how a conversion is rendered.
+ */
+export interface RenderOptions {
+	frontMatter: FrontMatterOptions;
+	/** Target maximum of estimated tokens per chunk for the chunked formats. */
+	maxChunkTokens: number;
+}
+
+export const defaultRenderOptions: RenderOptions = {
+	frontMatter: defaultFrontMatterOptions,
+	maxChunkTokens: 500,
+};
+
+/**
+ * Everything produced by a conversion, independent of how it will be rendered.
+ */
+export interface ConversionResult {
+	metadata: PageMetadata;
+	toc: string;
+	/** Converted body without footnote definitions. */
+	markdown: string;
+	footnotes: string;
+}
+
+/**
+ * Escapes text for use inside XML element content.
+ * @param value - Raw string to escape.
+ */
+export function escapeXml(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Removes Markdown syntax while keeping the readable text, list markers and code block contents.
+ * @param markdown - Markdown produced by the conversion pipeline.
+ */
+export function stripMarkdown(markdown: string): string {
+	let inFence = false;
+	const lines: string[] = [];
+
+	for (const line of markdown.split('\n')) {
+		if (/^\s*(```|~~~)/.test(line)) {
+			inFence = !inFence;
+			continue;
+		}
+		if (inFence) {
+			lines.push(line);
+			continue;
+		}
+		if (/^\s*(-{3,}|\*{3,}|(\* ){2,}\*)\s*$/.test(line)) {
+			lines.push('');
+			continue;
+		}
+		if (/^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/.test(line) && line.includes('|')) {
+			continue;
+		}
+
+		const text = line
+			.replace(/^(#{1,6})\s+(.*?)(\s+\{#[^}]+\})?$/, '$2')
+			.replace(/^(\s*>\s?)+/, '')
+			.replace(/^\s*\|(.*)\|\s*$/, (_, cells: string) =>
+				cells
+					.split('|')
+					.map((cell) => cell.trim())
+					.join(' | ')
+			)
+			.replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+			.replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+			.replace(/^\[\^([^\]]+)\]:\s*/, '[$1] ')
+			.replace(/\[\^([^\]]+)\]/g, '[$1]')
+			.replace(/`([^`]+)`/g, '$1')
+			.replace(/(\*\*|__)(\S(?:.*?\S)?)\1/g, '$2')
+			.replace(/(^|[^\w*])\*(\S(?:.*?\S)?)\*(?=[^\w*]|$)/g, '$1$2')
+			.replace(/(^|\W)_(\S(?:.*?\S)?)_(?=\W|$)/g, '$1$2')
+			.replace(/~~(\S(?:.*?\S)?)~~/g, '$1')
+			.replace(/\\([\\`*_{}[\]()#+\-.!|>~])/g, '$1');
+		lines.push(text);
+	}
+
+	return lines
+		.join('\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
+
+/**
+ * Renders the Markdown document with front matter and table of contents.
+ */
+export function renderMarkdown(
+	result: ConversionResult,
+	frontMatter: FrontMatterOptions = defaultFrontMatterOptions
+): string {
+	return buildOutput(
+		buildFrontMatter(result.metadata, frontMatter),
+		result.toc,
+		joinFootnotes(result.markdown, result.footnotes)
+	);
+}
+
+/**
+ * Wraps the Markdown body in the `<document>` layout commonly used for LLM prompts, with page
+ * metadata as sibling elements of `<document_content>`.
+ */
+export function renderXmlDocument(result: ConversionResult): string {
+	const { metadata } = result;
+	const fields: Array<[string, string | undefined]> = [
+		['source', metadata.source],
+		['title', metadata.title],
+		['author', metadata.authors.join(', ')],
+		['published', metadata.published],
+		['description', metadata.description],
+	];
+	const content = joinFootnotes(result.markdown, result.footnotes).replace(
+		/<\/document_content>/g,
+		'&lt;/document_content>'
+	);
+
+	return [
+		'<document>',
+		...fields
+			.filter(([, value]) => !!value)
+			.map(([tag, value]) => `<${tag}>${escapeXml(value ?? '')}</${tag}>`),
+		'<document_content>',
+		content,
+		'</document_content>',
+		'</document>',
+	].join('\n');
+}
+
+/**
+ * Renders a plain-text document headed by the title and source URL.
+ */
+export function renderPlainText(result: ConversionResult): string {
+	const header = [result.metadata.title, `Source: ${result.metadata.source}`].filter(Boolean);
+	const body = stripMarkdown(joinFootnotes(result.markdown, result.footnotes));
+	return [...header, '', body].join('\n');
+}
+
+/**
+ * Serialises the conversion as `{ metadata, toc, markdown, footnotes }`.
+ */
+export function renderJson(result: ConversionResult): string {
+	return JSON.stringify(
+		{
+			metadata: result.metadata,
+			toc: result.toc,
+			markdown: result.markdown,
+			footnotes: result.footnotes,
+		},
+		null,
+		2
+	);
+}
+
+/**
+ * Renders a conversion result in the requested output format.
+ * @param result - Metadata and Markdown produced by the conversion.
+ * @param format - Desired layout.
+ * @param options - Front matter settings (Markdown formats) and chunk size (chunked formats).
+ */
+export function renderOutput(
+	result: ConversionResult,
+	format: OutputFormat,
+	options: RenderOptions = defaultRenderOptions
+): string {
+	switch (format) {
+		case 'xml':
+			return renderXmlDocument(result);
+		case 'text':
+			return renderPlainText(result);
+		case 'json':
+			return renderJson(result);
+		case 'chunks':
+			return buildOutput(
+				buildFrontMatter(result.metadata, options.frontMatter),
+				'',
+				renderChunksMarkdown(
+					chunkMarkdown(result.markdown, result.footnotes, options.maxChunkTokens)
+				)
+			);
+		case 'jsonl':
+			return renderChunksJsonl(
+				chunkMarkdown(result.markdown, result.footnotes, options.maxChunkTokens),
+				result.metadata
+			);
+		default:
+			return renderMarkdown(result, options.frontMatter);
+	}
+}
+
+/**
+ * Trims a conversion so its rendered output stays within a token budget. The front matter, header
+ * and table of contents of the chosen format are counted first; the body and footnotes are then
+ * shortened to fill what is left. Chunked formats are never trimmed.
+ * @param result - Conversion to trim.
+ * @param format - Layout the result will be rendered in.
+ * @param budget - Maximum estimated tokens for the whole output; zero or less disables trimming.
+ * @param options - Render settings passed on to {@link renderOutput}.
+ * @returns The trimmed result and the number of sections that were left out or cut short.
+ */
+export function fitToTokenBudget(
+	result: ConversionResult,
+	format: OutputFormat,
+	budget: number,
+	options: RenderOptions = defaultRenderOptions
+): { result: ConversionResult; omittedSections: number } {
+	if (budget <= 0 || chunkedOutputFormats.includes(format)) {
+		return { result, omittedSections: 0 };
+	}
+
+	const overhead = estimateTokens(
+		renderOutput({ ...result, markdown: '', footnotes: '' }, format, options)
+	);
+	const { omittedSections, ...content } = truncateToBudget(result, Math.max(1, budget - overhead));
+	return { result: { ...result, ...content }, omittedSections };
+}
+
+/**
+ * Produces the exact text that is copied or saved: the result is trimmed to the token budget, its
+ * size is recorded in the metadata for the front matter, and it is rendered.
+ * @param result - Conversion to render.
+ * @param format - Desired layout.
+ * @param budget - Maximum estimated tokens; zero or less disables trimming.
+ * @param options - Render settings passed on to {@link renderOutput}.
+ * @returns The rendered output, the trimmed result and the number of omitted sections.
+ */
+export function prepareOutput(
+	result: ConversionResult,
+	format: OutputFormat,
+	budget: number,
+	options: RenderOptions = defaultRenderOptions
+): { output: string; result: ConversionResult; omittedSections: number } {
+	const fitted = fitToTokenBudget(result, format, budget, options);
+	const stats = measureText(joinFootnotes(fitted.result.markdown, fitted.result.footnotes));
+	const trimmed = { ...fitted.result, metadata: { ...fitted.result.metadata, stats } };
+	return {
+		output: renderOutput(trimmed, format, options),
+		result: trimmed,
+		omittedSections: fitted.omittedSections,
+	};
+}
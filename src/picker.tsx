@@ -0,0 +1,372 @@
+import { type CSSProperties, StrictMode, useEffect, useMemo, useState } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import {
+	convertToMarkdown,
+	frameOptionsFor,
+	getMainElement,
+	joinFootnotes,
+	pageTitles,
+} from './convert';
+import { resolveConversionOptions } from './pipeline';
+import {
+	type DomainConfig,
+	domainConfigs,
+	loadCustomConfigs,
+	normalizeDomainPattern,
+	saveCustomConfig,
+} from './rules';
+import { buildSelector } from './selectors';
+import { loadSettings, settings } from './settings';
+import { showErrorToast, showSuccessToast } from './toast';
+
+/**
+ * What a click marks: the element holding the article, or an element to strip from it.
+ */
+type PickMode = 'content' | 'remove';
+
+/** Characters of Markdown shown in the picker preview. */
+const PREVIEW_LENGTH = 3000;
+
+const HOST_ID = 'page-to-markdown-picker-root';
+
+let pickerRoot: Root | null = null;
+let hostEl: HTMLElement | null = null;
+
+/**
+ * Opens the element picker on the current page, or does nothing when it is already open.
+ * Hovering highlights elements; clicking marks the content root or an element to remove.
+ */
+export async function startElementPicker(): Promise<void> {
+	if (pickerRoot) return;
+	await Promise.all([loadCustomConfigs(), loadSettings()]);
+
+	hostEl = document.createElement('div');
+	hostEl.id = HOST_ID;
+	document.documentElement.appendChild(hostEl);
+	// Closed, so that `flattenShadowDom` leaves the extension's own UI out of conversions.
+	const shadow = hostEl.attachShadow({ mode: 'closed' });
+
+	const domain = normalizeDomainPattern(location.hostname);
+	pickerRoot = createRoot(shadow);
+	pickerRoot.render(
+		<StrictMode>
+			<Picker host={hostEl} domain={domain} initial={domainConfigs[domain]} />
+		</StrictMode>
+	);
+}
+
+/**
+ * Unmounts the picker and removes its host element.
+ */
+function stopElementPicker() {
+	pickerRoot?.unmount();
+	pickerRoot = null;
+	hostEl?.remove();
+	hostEl = null;
+}
+
+/**
+ * Converts the page with a draft rule, the same way a conversion would once the rule is saved.
+ * @returns The Markdown and which step produced the content.
+ */
+function previewRule(config: DomainConfig): { markdown: string; source: string } {
+	const options = resolveConversionOptions(settings.conversion, config.conversion);
+	const main = getMainElement(
+		document,
+		config,
+		settings.extractionStrategy,
+		frameOptionsFor(options)
+	);
+	const { markdown, footnotes } = convertToMarkdown(
+		main.element,
+		config.remove ?? [],
+		options,
+		pageTitles(document, main)
+	);
+	return { markdown: joinFootnotes(markdown, footnotes), source: main.source };
+}
+
+/**
+ * Reads the bounding boxes of every element a selector matches, for the page overlay.
+ */
+function rectsFor(selectors: string[]): Array<{ key: string; rect: DOMRect }> {
+	const rects: Array<{ key: string; rect: DOMRect }> = [];
+	for (const selector of selectors) {
+		try {
+			Array.from(document.querySelectorAll(selector)).forEach((el, match) => {
+				rects.push({ key: `${selector}:${match}`, rect: el.getBoundingClientRect() });
+			});
+		} catch (_err) {}
+	}
+	return rects;
+}
+
+function boxStyle(rect: DOMRect, color: string, fill: string): CSSProperties {
+	return {
+		position: 'fixed',
+		top: rect.top,
+		left: rect.left,
+		width: rect.width,
+		height: rect.height,
+		border: `0.125rem solid ${color}`,
+		background: fill,
+		borderRadius: '0.125rem',
+		pointerEvents: 'none',
+		boxSizing: 'border-box',
+	};
+}
+
+const buttonStyle: CSSProperties = {
+	border: '0.0625rem solid rgba(15, 23, 42, 0.16)',
+	borderRadius: '0.375rem',
+	background: '#ffffff',
+	color: '#0f172a',
+	fontSize: '0.75rem',
+	fontWeight: 600,
+	padding: '0.3rem 0.6rem',
+	cursor: 'pointer',
+};
+
+const activeButtonStyle: CSSProperties = {
+	...buttonStyle,
+	background: '#0f172a',
+	color: '#ffffff',
+};
+
+/**
+ * Page overlay and floating panel for building a domain rule by pointing at elements.
+ */
+function Picker({
+	host,
+	domain,
+	initial,
+}: {
+	host: HTMLElement;
+	domain: string;
+	initial?: DomainConfig;
+}) {
+	const [mode, setMode] = useState<PickMode>('content');
+	const [selector, setSelector] = useState(initial?.selector ?? '');
+	const [remove, setRemove] = useState<string[]>(initial?.remove ?? []);
+	const [hovered, setHovered] = useState<Element | null>(null);
+	const [, setLayoutTick] = useState(0);
+	const [saving, setSaving] = useState(false);
+
+	useEffect(() => {
+		function isOwn(event: Event) {
+			return event.composedPath().includes(host);
+		}
+		function handleMove(event: MouseEvent) {
+			if (isOwn(event)) return;
+			setHovered(event.target instanceof Element ? event.target : null);
+		}
+		function handleClick(event: MouseEvent) {
+			if (isOwn(event) || !(event.target instanceof Element)) return;
+			event.preventDefault();
+			event.stopPropagation();
+			const picked = buildSelector(event.target);
+			if (mode === 'content') {
+				setSelector(picked);
+			} else {
+				setRemove((prev) => (prev.includes(picked) ? prev : [...prev, picked]));
+			}
+		}
+		function handleKey(event: KeyboardEvent) {
+			if (event.key === 'Escape') {
+				stopElementPicker();
+			}
+		}
+		function handleLayout() {
+			setLayoutTick((tick) => tick + 1);
+		}
+
+		document.addEventListener('mousemove', handleMove, true);
+		document.addEventListener('click', handleClick, true);
+		document.addEventListener('keydown', handleKey, true);
+		window.addEventListener('scroll', handleLayout, true);
+		window.addEventListener('resize', handleLayout);
+		return () => {
+			document.removeEventListener('mousemove', handleMove, true);
+			document.removeEventListener('click', handleClick, true);
+			document.removeEventListener('keydown', handleKey, true);
+			window.removeEventListener('scroll', handleLayout, true);
+			window.removeEventListener('resize', handleLayout);
+		};
+	}, [host, mode]);
+
+	const config = useMemo<DomainConfig>(
+		() => ({
+			...initial,
+			selector,
+			remove,
+			strategy:
+				selector && initial?.strategy !== 'selector'
+					? 'selector-then-readability'
+					: initial?.strategy,
+		}),
+		[initial, selector, remove]
+	);
+
+	const preview = useMemo(() => {
+		try {
+			return previewRule(config);
+		} catch (err) {
+			console.error('Failed to preview rule:', err);
+			return null;
+		}
+	}, [config]);
+
+	async function handleSave() {
+		setSaving(true);
+		try {
+			await saveCustomConfig(domain, config);
+			showSuccessToast(`New conversions on ${domain} use this rule.`, 'Rule saved');
+			stopElementPicker();
+		} catch (err) {
+			console.error('Failed to save rule:', err);
+			showErrorToast(
+				`Failed to save the rule: ${err instanceof Error ? err.message : 'check console for details.'}`
+			);
+			setSaving(false);
+		}
+	}
+
+	const hoveredRect = hovered?.getBoundingClientRect();
+	const contentRects = selector ? rectsFor([selector]) : [];
+	const removeRects = rectsFor(remove);
+
+	return (
+		<div
+			style={{
+				fontFamily:
+					"system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Helvetica Neue', sans-serif",
+				color: '#0f172a',
+			}}
+		>
+			{contentRects.map(({ key, rect }) => (
+				<div key={`content-${key}`} style={boxStyle(rect, '#16a34a', 'rgba(22, 163, 74, 0.08)')} />
+			))}
+			{removeRects.map(({ key, rect }) => (
+				<div key={`remove-${key}`} style={boxStyle(rect, '#dc2626', 'rgba(220, 38, 38, 0.18)')} />
+			))}
+			{hoveredRect && (
+				<div
+					style={boxStyle(
+						hoveredRect,
+						mode === 'content' ? '#16a34a' : '#dc2626',
+						'rgba(59, 130, 246, 0.12)'
+					)}
+				/>
+			)}
+
+			<div
+				style={{
+					position: 'fixed',
+					right: '1rem',
+					bottom: '1rem',
+					width: 'min(92vw, 24rem)',
+					maxHeight: '80vh',
+					display: 'flex',
+					flexDirection: 'column',
+					gap: '0.6rem',
+					padding: '0.9rem',
+					background: '#ffffff',
+					borderRadius: '0.5rem',
+					border: '0.0625rem solid rgba(15, 23, 42, 0.08)',
+					boxShadow: '0 1.375rem 3.4375rem -1.375rem rgba(15, 23, 42, 0.28)',
+					fontSize: '0.8rem',
+					zIndex: 2147483647,
+				}}
+			>
+				<div style={{ fontWeight: 600, fontSize: '0.95rem' }}>Pick elements for {domain}</div>
+				<div style={{ display: 'flex', gap: '0.4rem' }}>
+					<button
+						type="button"
+						style={mode === 'content' ? activeButtonStyle : buttonStyle}
+						onClick={() => setMode('content')}
+					>
+						Mark content
+					</button>
+					<button
+						type="button"
+						style={mode === 'remove' ? activeButtonStyle : buttonStyle}
+						onClick={() => setMode('remove')}
+					>
+						Mark to remove
+					</button>
+				</div>
+
+				<div>
+					<div style={{ fontWeight: 600 }}>Content root</div>
+					<code style={{ wordBreak: 'break-all' }}>{selector || '(Readability decides)'}</code>
+					{selector && (
+						<button
+							type="button"
+							style={{ ...buttonStyle, marginLeft: '0.4rem' }}
+							onClick={() => setSelector('')}
+						>
+							Clear
+						</button>
+					)}
+				</div>
+
+				<div>
+					<div style={{ fontWeight: 600 }}>Remove</div>
+					{remove.length === 0 ? (
+						<span style={{ opacity: 0.6 }}>Nothing marked.</span>
+					) : (
+						<ul style={{ margin: 0, paddingLeft: '1rem' }}>
+							{remove.map((item) => (
+								<li key={item}>
+									<code style={{ wordBreak: 'break-all' }}>{item}</code>{' '}
+									<button
+										type="button"
+										style={{ ...buttonStyle, padding: '0 0.4rem' }}
+										aria-label={`Stop removing ${item}`}
+										onClick={() => setRemove((prev) => prev.filter((entry) => entry !== item))}
+									>
+										×
+									</button>
+								</li>
+							))}
+						</ul>
+					)}
+				</div>
+
+				<div style={{ fontWeight: 600 }}>
+					Preview{preview ? ` (extracted by ${preview.source})` : ''}
+				</div>
+				<pre
+					style={{
+						margin: 0,
+						minHeight: '6rem',
+						overflow: 'auto',
+						whiteSpace: 'pre-wrap',
+						wordBreak: 'break-word',
+						background: '#f8fafc',
+						border: '0.0625rem solid rgba(15, 23, 42, 0.08)',
+						borderRadius: '0.375rem',
+						padding: '0.5rem',
+						fontSize: '0.7rem',
+					}}
+				>
+					{preview ? preview.markdown.slice(0, PREVIEW_LENGTH) : 'Preview failed.'}
+				</pre>
+
+				<div style={{ display: 'flex', gap: '0.4rem', justifyContent: 'flex-end' }}>
+					<button type="button" style={buttonStyle} onClick={stopElementPicker}>
+						Cancel
+					</button>
+					<button
+						type="button"
+						style={activeButtonStyle}
+						disabled={saving || (!selector && remove.length === 0)}
+						onClick={handleSave}
+					>
+						Save rule
+					</button>
+				</div>
+			</div>
+		</div>
+	);
+}
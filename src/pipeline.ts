@@ -0,0 +1,179 @@
+import type { UrlRule } from './urlRules';
+
+/**
+ * How links to other pages are written: as inline links, as numbered reference links with their
+ * definitions at the end, as plain text listed in a "Links" appendix, or as plain text only.
+ * Links to sections of the same page stay inline in every style.
+ */
+export type LinkStyle = 'inline' | 'reference' | 'text' | 'drop';
+
+export const linkStyles: LinkStyle[] = ['inline', 'reference', 'text', 'drop'];
+
+export const linkStyleLabels: Record<LinkStyle, string> = {
+	inline: 'Inline links',
+	reference: 'Numbered references at the end',
+	text: 'Text only, with a Links appendix',
+	drop: 'Text only',
+};
+
+/**
+ * How a table cell spanning several rows or columns is written, since Markdown tables have no
+ * spans: repeated in every position it covers, or written once with a note such as "(spans 2
+ * rows)".
+ */
+export type TableSpanStyle = 'duplicate' | 'note';
+
+export const tableSpanStyles: TableSpanStyle[] = ['duplicate', 'note'];
+
+export const tableSpanStyleLabels: Record<TableSpanStyle, string> = {
+	duplicate: 'Repeat the cell',
+	note: 'Write the cell once, with a note',
+};
+
+/**
+ * How tables that cannot be written as a Markdown table are written: tables without a header row,
+ * and tables holding other tables or code blocks.
+ */
+export type TableFallback = 'html' | 'list';
+
+export const tableFallbacks: TableFallback[] = ['html', 'list'];
+
+export const tableFallbackLabels: Record<TableFallback, string> = {
+	html: 'HTML',
+	list: 'Nested list, one item per row',
+};
+
+/** Optional appendix listing the data of every table. */
+export type TableAppendix = 'none' | 'csv' | 'json';
+
+export const tableAppendixes: TableAppendix[] = ['none', 'csv', 'json'];
+
+export const tableAppendixLabels: Record<TableAppendix, string> = {
+	none: 'None',
+	csv: 'CSV',
+	json: 'JSON',
+};
+
+/**
+ * Optional steps of the DOM-to-Markdown conversion. Each can be switched off globally on the
+ * options page and overridden per domain rule.
+ */
+export interface ConversionOptions {
+	/** Build a table of contents from the headings. */
+	toc: boolean;
+	/** Number of heading levels listed in the table of contents. */
+	tocDepth: number;
+	/**
+	 * Drop a leading heading that repeats the page title, shift headings so the shallowest one is
+	 * at {@link ConversionOptions.topHeadingLevel} and close skipped levels.
+	 */
+	normalizeHeadings: boolean;
+	/** Level of the shallowest heading after normalization, from 1 to 6. */
+	topHeadingLevel: number;
+	/** Turn footnotes into `[^n]` references with definitions at the end; off leaves them inline. */
+	footnotes: boolean;
+	/** Keep images; off drops them. */
+	images: boolean;
+	/** Replace SVGs and embedded media with text descriptions; off removes them without a trace. */
+	describeMedia: boolean;
+	/** Convert the content of same-origin, `srcdoc` and reachable cross-origin frames in place. */
+	inlineFrames: boolean;
+	/** Levels of nested frames inlined by {@link ConversionOptions.inlineFrames}. */
+	frameDepth: number;
+	/**
+	 * Clean link and image URLs with the URL rules: remove tracking parameters such as `utm_*` and
+	 * unwrap redirect links.
+	 */
+	stripTrackingParams: boolean;
+	/** Rewrite links to AMP pages to the regular page. */
+	ampToCanonical: boolean;
+	/** Add `{#id}` anchors after headings. */
+	headingIds: boolean;
+	/** Replace curly quotes with straight ones. */
+	straightenQuotes: boolean;
+	linkStyle: LinkStyle;
+	tableSpans: TableSpanStyle;
+	tableFallback: TableFallback;
+	/** Add a "Tables" appendix with the data of each table as CSV or JSON. */
+	tableAppendix: TableAppendix;
+	/** Custom URL rules keyed by domain pattern; set globally only, never by a domain rule. */
+	urlRules: Record<string, UrlRule>;
+}
+
+/** Options set on the options page only, never by a domain rule. */
+type GlobalConversionOption =
+	| 'urlRules'
+	| 'tocDepth'
+	| 'topHeadingLevel'
+	| 'frameDepth'
+	| 'tableSpans'
+	| 'tableFallback'
+	| 'tableAppendix';
+
+/** The on/off steps, as opposed to {@link ConversionOptions.linkStyle} and the global options. */
+export type ConversionStep = Exclude<keyof ConversionOptions, 'linkStyle' | GlobalConversionOption>;
+
+/** Options a domain rule can override. */
+export type ConversionOverrides = Partial<Omit<ConversionOptions, GlobalConversionOption>>;
+
+export const defaultConversionOptions: ConversionOptions = {
+	toc: true,
+	tocDepth: 6,
+	normalizeHeadings: false,
+	topHeadingLevel: 1,
+	footnotes: true,
+	images: true,
+	describeMedia: true,
+	inlineFrames: false,
+	frameDepth: 2,
+	stripTrackingParams: true,
+	ampToCanonical: false,
+	headingIds: true,
+	straightenQuotes: true,
+	linkStyle: 'inline',
+	tableSpans: 'duplicate',
+	tableFallback: 'html',
+	tableAppendix: 'none',
+	urlRules: {},
+};
+
+export const conversionSteps: ConversionStep[] = [
+	'toc',
+	'normalizeHeadings',
+	'footnotes',
+	'images',
+	'describeMedia',
+	'inlineFrames',
+	'stripTrackingParams',
+	'ampToCanonical',
+	'headingIds',
+	'straightenQuotes',
+];
+
+/**
+ * Display names for each step, shared by the global settings and the rule form.
+ */
+export const conversionStepLabels: Record<ConversionStep, string> = {
+	toc: 'Table of contents',
+	normalizeHeadings: 'Normalize headings',
+	footnotes: 'Collect footnotes at the end',
+	images: 'Images',
+	describeMedia: 'Describe SVGs and embedded media',
+	inlineFrames: 'Include the content of embedded pages',
+	stripTrackingParams: 'Clean link URLs',
+	ampToCanonical: 'Replace AMP links with the regular page',
+	headingIds: 'Heading anchors ({#id})',
+	straightenQuotes: 'Straighten curly quotes',
+};
+
+/**
+ * Applies a domain rule's overrides on top of the global conversion options.
+ * @param global - Options saved on the options page.
+ * @param overrides - Steps the matching rule switches on or off, if any.
+ */
+export function resolveConversionOptions(
+	global: ConversionOptions,
+	overrides?: ConversionOverrides
+): ConversionOptions {
+	return { ...defaultConversionOptions, ...global, ...overrides };
+}
@@ -0,0 +1,316 @@
+import { Toast } from '@base-ui/react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { downloadText } from '../download';
+import { renderFilename } from '../filename';
+import { addHistoryEntry } from '../history';
+import {
+	type OutputFormat,
+	outputFormatFiles,
+	outputFormatLabels,
+	outputFormats,
+	prepareOutput,
+} from '../output';
+import {
+	applyPreviewToggles,
+	type ConversionPreview,
+	defaultPreviewToggles,
+	type PreviewToggles,
+	renderMarkdownPreview,
+} from '../preview';
+import { type ExtensionSettings, loadSettings, renderOptionsFor } from '../settings';
+import { formatCount, measureText } from '../tokens';
+import { Button } from '../ui/Button';
+import { cn } from '../ui/cn';
+import { sourceLabels } from '../ui/labels';
+import { selectClassName } from '../ui/styles';
+import { useToast } from '../ui/useToast';
+
+const toggleLabels: Record<keyof PreviewToggles, string> = {
+	toc: 'Table of contents',
+	frontMatter: 'Front matter',
+	footnotes: 'Footnotes',
+	images: 'Images',
+};
+
+/** What the right-hand pane shows: the rendered Markdown or the content it was converted from. */
+type SidePane = 'rendered' | 'source';
+
+const paneClassName =
+	'h-full w-full resize-none overflow-auto rounded-lg border border-slate-200 p-3 font-mono text-xs text-slate-800';
+
+/** Styles for rendered Markdown, which has no classes of its own. */
+const renderedClassName =
+	'h-full w-full overflow-auto break-words rounded-lg border border-slate-200 p-3 text-sm text-slate-800 [&_a]:text-brand [&_a]:underline [&_blockquote]:border-l-4 [&_blockquote]:border-slate-200 [&_blockquote]:pl-3 [&_code]:font-mono [&_code]:text-xs [&_h1]:text-lg [&_h1]:font-semibold [&_h2]:text-base [&_h2]:font-semibold [&_h3]:font-semibold [&_hr]:border-slate-200 [&_img]:max-w-full [&_li]:ml-5 [&_ol]:list-decimal [&_pre]:overflow-auto [&_pre]:rounded [&_pre]:bg-slate-50 [&_pre]:p-2 [&_table]:border-collapse [&_td]:border [&_td]:border-slate-200 [&_td]:px-2 [&_th]:border [&_th]:border-slate-200 [&_th]:px-2 [&_ul]:list-disc [&>*+*]:mt-3';
+
+/**
+ * Wraps the popup with a toast provider and viewport.
+ */
+export function PopupApp() {
+	return (
+		<Toast.Provider>
+			<PopupContent />
+			<Toast.Viewport className="fixed bottom-4 right-4 flex w-72 flex-col gap-3" />
+		</Toast.Provider>
+	);
+}
+
+/**
+ * Converts the active tab and shows the editable output next to the rendered Markdown or the HTML
+ * it came from, so that it can be checked, trimmed and edited before copying or downloading.
+ */
+function PopupContent() {
+	const [current, setCurrent] = useState<ExtensionSettings | null>(null);
+	const [preview, setPreview] = useState<ConversionPreview | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [format, setFormat] = useState<OutputFormat>('markdown');
+	const [toggles, setToggles] = useState<PreviewToggles>(defaultPreviewToggles);
+	const [text, setText] = useState('');
+	const [edited, setEdited] = useState(false);
+	const [pane, setPane] = useState<SidePane>('rendered');
+	const toast = useToast();
+
+	useEffect(() => {
+		let active = true;
+		(async () => {
+			try {
+				const loaded = { ...(await loadSettings()) };
+				const response = await chrome.runtime.sendMessage({
+					type: 'convert-current-tab',
+					preview: true,
+				});
+				if (!response?.ok || !response.result) {
+					throw new Error(response?.message ?? 'Conversion returned no result');
+				}
+				if (active) {
+					setCurrent(loaded);
+					setFormat(loaded.outputFormat);
+					setPreview(response.result as ConversionPreview);
+				}
+			} catch (err) {
+				console.error('Failed to preview conversion', err);
+				if (active) setError(err instanceof Error ? err.message : String(err));
+			}
+		})();
+		return () => {
+			active = false;
+		};
+	}, []);
+
+	const rendered = useMemo(() => {
+		if (!preview || !current) return null;
+		const options = renderOptionsFor(current);
+		if (!toggles.frontMatter) {
+			options.frontMatter = { ...options.frontMatter, format: 'none' };
+		}
+		return prepareOutput(
+			applyPreviewToggles(preview.result, toggles),
+			format,
+			current.tokenBudget,
+			options
+		);
+	}, [preview, current, toggles, format]);
+
+	useEffect(() => {
+		setText(rendered?.output ?? '');
+		setEdited(false);
+	}, [rendered]);
+
+	const stats = useMemo(() => measureText(text), [text]);
+
+	// Markdown output is rendered as edited; other formats show the Markdown they were built from.
+	// The HTML is sanitized by renderMarkdownPreview.
+	const renderedRef = useRef<HTMLDivElement>(null);
+	useEffect(() => {
+		if (pane !== 'rendered' || !rendered || !renderedRef.current) return;
+		renderedRef.current.innerHTML = renderMarkdownPreview(
+			format === 'markdown' ? text : rendered.result.markdown
+		);
+	}, [pane, rendered, format, text]);
+
+	async function handleCopy() {
+		if (!preview || !rendered || !current) return;
+		try {
+			await navigator.clipboard.writeText(text);
+		} catch (err) {
+			console.error('Failed to copy preview', err);
+			toast('Failed to copy', 'Please try again.', 'error');
+			return;
+		}
+		toast(`${outputFormatLabels[format]} copied`, 'Ready to paste.');
+		try {
+			await addHistoryEntry(
+				{
+					url: rendered.result.metadata.source,
+					title: rendered.result.metadata.title,
+					extractedBy: preview.extractedBy,
+					strategy: preview.strategy,
+					format,
+					metadata: rendered.result.metadata,
+					markdown: rendered.result.markdown,
+					output: text,
+				},
+				current.historyLimit
+			);
+		} catch (err) {
+			console.warn('Failed to save conversion history:', err);
+		}
+	}
+
+	async function handleDownload() {
+		if (!rendered || !current) return;
+		const { extension, mimeType } = outputFormatFiles[format];
+		try {
+			await downloadText({
+				text,
+				filename: renderFilename(current.filenameTemplate, rendered.result.metadata, extension),
+				mimeType,
+				saveAs: current.saveAs,
+				conflict: current.filenameConflict,
+			});
+		} catch (err) {
+			console.error('Failed to download preview', err);
+			toast('Failed to download', 'Please try again.', 'error');
+		}
+	}
+
+	if (error) {
+		return (
+			<div className="flex w-[26rem] flex-col gap-2 bg-white p-5">
+				<h1 className="text-base font-semibold text-slate-900">Conversion failed</h1>
+				<p className="text-sm text-slate-600">{error}</p>
+			</div>
+		);
+	}
+
+	if (!preview || !rendered) {
+		return (
+			<div className="flex h-40 w-[26rem] items-center justify-center gap-3 bg-white text-slate-600">
+				<span className="h-6 w-6 animate-spin rounded-full border-2 border-brand/30 border-t-brand" />
+				<span className="text-sm">Converting page…</span>
+			</div>
+		);
+	}
+
+	return (
+		<div className="flex h-[36rem] w-[50rem] flex-col gap-3 bg-white p-4">
+			<header className="flex items-start justify-between gap-4">
+				<div className="min-w-0">
+					<h1 className="truncate text-base font-semibold text-slate-900">
+						{rendered.result.metadata.title || rendered.result.metadata.source}
+					</h1>
+					<p className="text-xs text-slate-500">
+						Extracted by {sourceLabels[preview.extractedBy]} · {formatCount(stats.words)} words · ~
+						{formatCount(stats.tokens)} tokens
+						{rendered.omittedSections > 0 &&
+							` · ${rendered.omittedSections} sections trimmed to fit the token budget`}
+					</p>
+				</div>
+				<label className="flex shrink-0 items-center gap-2" htmlFor="popup-format">
+					<span className="text-xs font-medium text-slate-700">Format</span>
+					<select
+						id="popup-format"
+						className={cn(selectClassName, 'h-9 w-40')}
+						value={format}
+						onChange={(event) => setFormat(event.target.value as OutputFormat)}
+					>
+						{outputFormats.map((option) => (
+							<option key={option} value={option}>
+								{outputFormatLabels[option]}
+							</option>
+						))}
+					</select>
+				</label>
+			</header>
+
+			<div className="flex flex-wrap items-center gap-4">
+				{(Object.keys(toggleLabels) as Array<keyof PreviewToggles>).map((key) => (
+					<label key={key} className="flex items-center gap-2 text-sm text-slate-700">
+						<input
+							type="checkbox"
+							className="h-4 w-4 rounded border-slate-300 accent-brand"
+							checked={toggles[key]}
+							onChange={(event) => setToggles((prev) => ({ ...prev, [key]: event.target.checked }))}
+						/>
+						{toggleLabels[key]}
+					</label>
+				))}
+				{edited && (
+					<span className="text-xs text-amber-700">
+						Changing these options discards your edits.
+					</span>
+				)}
+			</div>
+
+			<div className="grid min-h-0 flex-1 grid-cols-2 gap-3">
+				<label className="flex min-h-0 flex-col gap-1" htmlFor="popup-output">
+					<span className="text-xs font-medium text-slate-700">Output (editable)</span>
+					<textarea
+						id="popup-output"
+						className={cn(paneClassName, 'bg-white outline-none focus:border-brand')}
+						value={text}
+						spellCheck={false}
+						onChange={(event) => {
+							setText(event.target.value);
+							setEdited(true);
+						}}
+					/>
+				</label>
+				<div className="flex min-h-0 flex-col gap-1">
+					<div className="flex gap-3">
+						{(
+							[
+								['rendered', 'Rendered'],
+								[
+									'source',
+									preview.extractedBy === 'canonical' ? 'Published Markdown' : 'Extracted HTML',
+								],
+							] as const
+						).map(([value, label]) => (
+							<button
+								key={value}
+								type="button"
+								aria-pressed={pane === value}
+								className={cn(
+									'text-xs font-medium',
+									pane === value
+										? 'text-slate-900 underline'
+										: 'text-slate-500 hover:text-slate-700'
+								)}
+								onClick={() => setPane(value)}
+							>
+								{label}
+							</button>
+						))}
+					</div>
+					{pane === 'rendered' ? (
+						<div ref={renderedRef} className={renderedClassName} />
+					) : (
+						<pre className={cn(paneClassName, 'whitespace-pre-wrap break-all bg-slate-50')}>
+							{preview.source}
+						</pre>
+					)}
+				</div>
+			</div>
+
+			<div className="flex flex-wrap items-center gap-3">
+				<Button type="button" onClick={handleCopy}>
+					Copy
+				</Button>
+				<Button type="button" variant="secondary" onClick={handleDownload}>
+					Download
+				</Button>
+				<Button
+					type="button"
+					variant="ghost"
+					disabled={!edited}
+					onClick={() => {
+						setText(rendered.output);
+						setEdited(false);
+					}}
+				>
+					Discard edits
+				</Button>
+			</div>
+		</div>
+	);
+}
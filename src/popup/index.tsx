@@ -0,0 +1,16 @@
+import { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+import '../styles/tailwind.css';
+import { PopupApp } from './PopupApp';
+
+const container = document.getElementById('root');
+
+if (!container) {
+	throw new Error('Popup root container missing');
+}
+
+createRoot(container).render(
+	<StrictMode>
+		<PopupApp />
+	</StrictMode>
+);
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { ConversionResult } from './output';
+import {
+	applyPreviewToggles,
+	defaultPreviewToggles,
+	renderMarkdownPreview,
+	stripFootnoteReferences,
+	stripImages,
+} from './preview';
+
+const result: ConversionResult = {
+	metadata: {
+		title: 'Doc',
+		source: 'https://example.com/doc',
+		authors: [],
+		description: '',
+		retrieved: '2025-01-01T00:00:00.000Z',
+	},
+	toc: '- [Intro](#intro)',
+	markdown: [
+		'## Intro {#intro}',
+		'',
+		'Text with a note.[^1]',
+		'',
+		'![Chart](https://example.com/chart.png "Chart")',
+		'',
+		'[![Logo](https://example.com/logo.png)](https://example.com) Inline ![x](a.png) image.',
+		'',
+		'```md',
+		'![kept](code.png) and [^2]',
+		'```',
+	].join('\n'),
+	footnotes: '[^1]: The note.',
+};
+
+describe('stripImages', () => {
+	it('removes images and linked images outside code blocks', () => {
+		expect(stripImages(result.markdown)).toBe(
+			[
+				'## Intro {#intro}',
+				'',
+				'Text with a note.[^1]',
+				'',
+				' Inline  image.',
+				'',
+				'```md',
+				'![kept](code.png) and [^2]',
+				'```',
+			].join('\n')
+		);
+	});
+});
+
+describe('stripFootnoteReferences', () => {
+	it('removes references but keeps definitions and code', () => {
+		expect(stripFootnoteReferences('A[^1] b[^note].\n\n[^1]: Def\n\n`x`')).toBe(
+			'A b.\n\n[^1]: Def\n\n`x`'
+		);
+	});
+});
+
+describe('applyPreviewToggles', () => {
+	it('keeps everything by default', () => {
+		expect(applyPreviewToggles(result, defaultPreviewToggles)).toEqual(result);
+	});
+
+	it('drops the table of contents, footnotes and images', () => {
+		const trimmed = applyPreviewToggles(result, {
+			toc: false,
+			frontMatter: true,
+			footnotes: false,
+			images: false,
+		});
+		expect(trimmed.toc).toBe('');
+		expect(trimmed.footnotes).toBe('');
+		expect(trimmed.markdown).toContain('Text with a note.\n');
+		expect(trimmed.markdown).not.toContain('chart.png');
+		expect(trimmed.metadata).toBe(result.metadata);
+	});
+});
+
+describe('renderMarkdownPreview', () => {
+	it('renders the body without front matter or heading anchors', () => {
+		const html = renderMarkdownPreview(
+			'---\ntitle: Doc\n---\n\n## Intro {#intro}\n\n| A |\n| - |\n| **1** |'
+		);
+		expect(html).not.toContain('title: Doc');
+		expect(html).toContain('<h2>Intro</h2>');
+		expect(html).toContain('<td><strong>1</strong></td>');
+	});
+
+	it('removes scripts and event handlers', () => {
+		expect(renderMarkdownPreview('Text\n\n<script>alert(1)</script>')).not.toContain('<script');
+		expect(renderMarkdownPreview('<img src="x" onerror="alert(1)">')).not.toContain('onerror');
+	});
+});
@@ -0,0 +1,105 @@
+import DOMPurify from 'dompurify';
+import { marked } from 'marked';
+import { mapOutsideCode } from './archive';
+import type { ContentSource } from './convert';
+import type { ConversionResult } from './output';
+import type { ExtractionStrategy } from './rules';
+
+/**
+ * A conversion returned to the popup instead of being copied, so it can be reviewed first.
+ */
+export interface ConversionPreview {
+	result: ConversionResult;
+	extractedBy: ContentSource;
+	strategy: ExtractionStrategy;
+	/** HTML the conversion started from, or the published Markdown when that was used. */
+	source: string;
+}
+
+/**
+ * Parts of the conversion the popup can leave out before copying.
+ */
+export interface PreviewToggles {
+	toc: boolean;
+	frontMatter: boolean;
+	footnotes: boolean;
+	images: boolean;
+}
+
+export const defaultPreviewToggles: PreviewToggles = {
+	toc: true,
+	frontMatter: true,
+	footnotes: true,
+	images: true,
+};
+
+/** An image, optionally wrapped in a link: `![alt](src)` or `[![alt](src)](href)`. */
+const IMAGE_PATTERN =
+	/\[!\[(?:[^\]\\]|\\.)*\]\([^)\n]*\)\]\([^)\n]*\)|!\[(?:[^\]\\]|\\.)*\]\((?:<[^>\n]*>|[^)\n]*)\)/g;
+
+/** Front matter at the start of the output, between YAML (`---`) or TOML (`+++`) fences. */
+const FRONT_MATTER_PATTERN = /^(---|\+\+\+)\n[\s\S]*?\n\1(?:\n|$)/;
+
+/** The `{#id}` anchor after a heading, which Markdown renderers would show as text. */
+const HEADING_ID_PATTERN = /^(#{1,6}\s.*?)\s+\{#[^}]+\}\s*$/;
+
+/** Footnote references; definitions (`[^1]: …`) are removed with the footnote block instead. */
+const FOOTNOTE_REFERENCE_PATTERN = /\[\^[^\]\s]+\](?!:)/g;
+
+/**
+ * Removes images from Markdown, including linked images, and the blank lines they leave behind.
+ * Code blocks are left untouched.
+ * @param markdown - Converted body.
+ */
+export function stripImages(markdown: string): string {
+	return mapOutsideCode(markdown, (line) => line.replace(IMAGE_PATTERN, ''))
+		.replace(/^[ \t]+$/gm, '')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
+
+/**
+ * Removes footnote references such as `[^1]` from Markdown outside code blocks.
+ * @param markdown - Converted body.
+ */
+export function stripFootnoteReferences(markdown: string): string {
+	return mapOutsideCode(markdown, (line) => line.replace(FOOTNOTE_REFERENCE_PATTERN, ''));
+}
+
+/**
+ * Leaves out the parts of a conversion that were switched off in the popup. Front matter is
+ * controlled through the render options instead, since it is not part of the result.
+ * @param result - Conversion returned by the content script.
+ * @param toggles - Parts to keep.
+ */
+export function applyPreviewToggles(
+	result: ConversionResult,
+	toggles: PreviewToggles
+): ConversionResult {
+	let markdown = result.markdown;
+	if (!toggles.images) {
+		markdown = stripImages(markdown);
+	}
+	if (!toggles.footnotes) {
+		markdown = stripFootnoteReferences(markdown);
+	}
+	return {
+		...result,
+		markdown,
+		toc: toggles.toc ? result.toc : '',
+		footnotes: toggles.footnotes ? result.footnotes : '',
+	};
+}
+
+/**
+ * Renders Markdown output as sanitized HTML for the popup's preview pane. Front matter and
+ * heading anchors are left out: a renderer would read the closing front matter fence as a heading
+ * underline and show the anchors as text.
+ * @param markdown - Output as copied, possibly starting with front matter.
+ */
+export function renderMarkdownPreview(markdown: string): string {
+	const body = mapOutsideCode(markdown.replace(FRONT_MATTER_PATTERN, ''), (line) =>
+		line.replace(HEADING_ID_PATTERN, '$1')
+	);
+	return DOMPurify.sanitize(marked.parse(body, { async: false, gfm: true }));
+}
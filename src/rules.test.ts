@@ -0,0 +1,397 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+	type DomainConfig,
+	domainConfigs,
+	getRuleStorageInfo,
+	matchDomainConfigs,
+	migrateRules,
+	migrateStoredRules,
+	normalizeDomainPattern,
+	parseDomainPattern,
+	RULES_SCHEMA_VERSION,
+	readCustomConfigs,
+	removeCustomConfig,
+	resetCustomConfigs,
+	resolveDomainConfig,
+	sanitizeDomainConfig,
+	saveCustomConfig,
+	shardRules,
+	validateDomainPattern,
+	writeCustomConfigs,
+} from './rules';
+
+// ---------------------------------------------------------------------------
+// Pattern parsing
+// ---------------------------------------------------------------------------
+
+describe('parseDomainPattern', () => {
+	it('parses a bare host', () => {
+		expect(parseDomainPattern('github.com')).toEqual({
+			host: 'github.com',
+			wildcard: false,
+			path: null,
+		});
+	});
+
+	it('parses a wildcard host with a path glob', () => {
+		expect(parseDomainPattern('*.example.com/docs/*')).toEqual({
+			host: 'example.com',
+			wildcard: true,
+			path: '/docs/*',
+		});
+	});
+
+	it('rejects invalid hosts', () => {
+		expect(parseDomainPattern('exa mple.com')).toBeNull();
+		expect(parseDomainPattern('foo.*.com')).toBeNull();
+		expect(parseDomainPattern('/docs/*')).toBeNull();
+	});
+});
+
+describe('validateDomainPattern', () => {
+	it('accepts valid patterns', () => {
+		expect(validateDomainPattern('example.com/blog/*')).toBeNull();
+	});
+
+	it('explains protocol mistakes', () => {
+		expect(validateDomainPattern('https://example.com')).toContain('protocol');
+	});
+
+	it('rejects malformed patterns', () => {
+		expect(validateDomainPattern('*')).not.toBeNull();
+	});
+});
+
+describe('normalizeDomainPattern', () => {
+	it('lowercases the host but not the path', () => {
+		expect(normalizeDomainPattern(' Example.COM/Docs/* ')).toBe('example.com/Docs/*');
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+describe('resolveDomainConfig', () => {
+	const configs: Record<string, DomainConfig> = {
+		'github.com': { selector: '.markdown-body', remove: ['.octicon'] },
+		'gist.github.com': { selector: '.file', remove: ['.file-actions'], mergeRemove: true },
+		'*.medium.com': { selector: 'article' },
+		'example.com': { selector: 'main', remove: ['nav'] },
+		'example.com/docs/*': { selector: '.docs', remove: ['.toc'], mergeRemove: true },
+		'example.com/blog/*': { selector: '.post' },
+	};
+
+	it('matches the exact host', () => {
+		expect(resolveDomainConfig('https://github.com/a/b', configs)?.pattern).toBe('github.com');
+	});
+
+	it('applies a bare host rule to subdomains', () => {
+		expect(resolveDomainConfig('https://api.github.com/', configs)?.pattern).toBe('github.com');
+	});
+
+	it('prefers the most specific host', () => {
+		expect(resolveDomainConfig('https://gist.github.com/u/1', configs)?.pattern).toBe(
+			'gist.github.com'
+		);
+	});
+
+	it('matches wildcard subdomains but not the apex', () => {
+		expect(resolveDomainConfig('https://foo.medium.com/post', configs)?.pattern).toBe(
+			'*.medium.com'
+		);
+		expect(resolveDomainConfig('https://medium.com/post', configs)).toBeNull();
+	});
+
+	it('distinguishes rules by path', () => {
+		expect(resolveDomainConfig('https://example.com/docs/intro', configs)?.pattern).toBe(
+			'example.com/docs/*'
+		);
+		expect(resolveDomainConfig('https://example.com/blog/post', configs)?.pattern).toBe(
+			'example.com/blog/*'
+		);
+		expect(resolveDomainConfig('https://example.com/about', configs)?.pattern).toBe('example.com');
+	});
+
+	it('merges remove lists from broader rules when requested', () => {
+		const resolved = resolveDomainConfig('https://example.com/docs/intro', configs);
+		expect(resolved?.config.selector).toBe('.docs');
+		expect(resolved?.config.remove).toEqual(['.toc', 'nav']);
+
+		const gist = resolveDomainConfig('https://gist.github.com/u/1', configs);
+		expect(gist?.config.remove).toEqual(['.file-actions', '.octicon']);
+	});
+
+	it('keeps remove lists separate by default', () => {
+		const resolved = resolveDomainConfig('https://example.com/blog/post', configs);
+		expect(resolved?.config.remove).toBeUndefined();
+	});
+
+	it('returns null for unparseable URLs', () => {
+		expect(resolveDomainConfig('not a url', configs)).toBeNull();
+	});
+});
+
+describe('matchDomainConfigs', () => {
+	it('orders matches from most to least specific', () => {
+		const matches = matchDomainConfigs('https://docs.example.com/guide', {
+			'example.com': { selector: 'main' },
+			'*.example.com': { selector: 'article' },
+			'docs.example.com': { selector: '.content' },
+		});
+		expect(matches.map((match) => match.pattern)).toEqual([
+			'docs.example.com',
+			'*.example.com',
+			'example.com',
+		]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Validation and migrations
+// ---------------------------------------------------------------------------
+
+describe('sanitizeDomainConfig', () => {
+	it('trims selectors and drops unknown keys', () => {
+		expect(
+			sanitizeDomainConfig({
+				selector: ' main ',
+				remove: [' nav ', ''],
+				extra: true,
+				mergeRemove: false,
+			})
+		).toEqual({ selector: 'main', remove: ['nav'] });
+	});
+
+	it('describes invalid rules', () => {
+		expect(sanitizeDomainConfig('main')).toBe('Rule must be an object.');
+		expect(sanitizeDomainConfig({ remove: [] })).toBe('Selector must be a string.');
+		expect(sanitizeDomainConfig({ selector: 'main', remove: 'nav' })).toBe(
+			'Remove must be a list of selectors.'
+		);
+		expect(sanitizeDomainConfig({ selector: 'main', strategy: 'magic' })).toBe(
+			'Unknown extraction strategy "magic".'
+		);
+	});
+
+	it('keeps known conversion steps and rejects others', () => {
+		expect(sanitizeDomainConfig({ selector: 'main', conversion: { images: false } })).toEqual({
+			selector: 'main',
+			conversion: { images: false },
+		});
+		expect(sanitizeDomainConfig({ selector: 'main', conversion: { emoji: true } })).toBe(
+			'Unknown conversion step "emoji".'
+		);
+		expect(sanitizeDomainConfig({ selector: 'main', conversion: { toc: 'no' } })).toBe(
+			'Conversion step "toc" must be true or false.'
+		);
+	});
+
+	it('accepts known link styles only', () => {
+		expect(
+			sanitizeDomainConfig({ selector: 'main', conversion: { linkStyle: 'reference' } })
+		).toEqual({ selector: 'main', conversion: { linkStyle: 'reference' } });
+		expect(sanitizeDomainConfig({ selector: 'main', conversion: { linkStyle: 'footnote' } })).toBe(
+			'Unknown link style "footnote".'
+		);
+	});
+});
+
+describe('migrateRules', () => {
+	it('normalizes patterns and drops invalid rules from version 1', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		expect(
+			migrateRules(
+				{
+					'Example.COM/Docs/*': { selector: 'main' },
+					'https://bad.example': { selector: 'main' },
+					'ok.example': { selector: 42 },
+				},
+				1
+			)
+		).toEqual({ 'example.com/Docs/*': { selector: 'main' } });
+		expect(warn).toHaveBeenCalledTimes(2);
+		warn.mockRestore();
+	});
+
+	it('refuses rules from a newer schema', () => {
+		expect(() => migrateRules({}, RULES_SCHEMA_VERSION + 1)).toThrow(/newer version/);
+	});
+});
+
+describe('shardRules', () => {
+	it('keeps every shard within the byte budget', () => {
+		const rules: Record<string, DomainConfig> = {};
+		for (let i = 0; i < 40; i++) {
+			rules[`site${i}.example.com`] = { selector: `#content-${'x'.repeat(100)}`, remove: ['nav'] };
+		}
+		const shards = shardRules(rules, 1000);
+		expect(shards.length).toBeGreaterThan(1);
+		for (const shard of shards) {
+			expect(JSON.stringify(shard).length).toBeLessThanOrEqual(1000);
+		}
+		expect(Object.assign({}, ...shards)).toEqual(rules);
+	});
+
+	it('returns no shards for no rules', () => {
+		expect(shardRules({})).toEqual([]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+/** Sync item quota enforced by the fake storage, like `chrome.storage.sync.QUOTA_BYTES_PER_ITEM`. */
+const SYNC_ITEM_QUOTA = 8192;
+
+function createArea(itemQuota: number | null) {
+	const data: Record<string, unknown> = {};
+	return {
+		data,
+		area: {
+			get: vi.fn(async (keys: string | string[]) => {
+				const list = Array.isArray(keys) ? keys : [keys];
+				return structuredClone(
+					Object.fromEntries(list.filter((key) => key in data).map((key) => [key, data[key]]))
+				);
+			}),
+			set: vi.fn(async (items: Record<string, unknown>) => {
+				for (const [key, value] of Object.entries(items)) {
+					if (itemQuota !== null && key.length + JSON.stringify(value).length > itemQuota) {
+						throw new Error('QUOTA_BYTES_PER_ITEM quota exceeded');
+					}
+				}
+				Object.assign(data, structuredClone(items));
+			}),
+			remove: vi.fn(async (keys: string | string[]) => {
+				for (const key of Array.isArray(keys) ? keys : [keys]) {
+					delete data[key];
+				}
+			}),
+		},
+	};
+}
+
+function installStorage() {
+	const sync = createArea(SYNC_ITEM_QUOTA);
+	const local = createArea(null);
+	vi.stubGlobal('chrome', { storage: { sync: sync.area, local: local.area } });
+	return { sync: sync.data, local: local.data, syncArea: sync.area };
+}
+
+describe('rule storage', () => {
+	let storage: ReturnType<typeof installStorage>;
+
+	beforeEach(() => {
+		storage = installStorage();
+	});
+
+	afterEach(async () => {
+		await resetCustomConfigs();
+		vi.unstubAllGlobals();
+	});
+
+	it('saves rules in shards with a versioned index', async () => {
+		await expect(saveCustomConfig('blog.example', { selector: 'article' })).resolves.toBe('sync');
+
+		expect(storage.sync.rulesMeta).toEqual({
+			version: RULES_SCHEMA_VERSION,
+			shards: 1,
+			area: 'sync',
+		});
+		expect(storage.sync['rules:0']).toEqual({ 'blog.example': { selector: 'article' } });
+		expect(await readCustomConfigs()).toEqual({ 'blog.example': { selector: 'article' } });
+		expect(domainConfigs['blog.example']).toEqual({ selector: 'article' });
+	});
+
+	it('spreads many rules across keys below the item quota', async () => {
+		const rules: Record<string, DomainConfig> = {};
+		for (let i = 0; i < 120; i++) {
+			rules[`site${i}.example.com`] = {
+				selector: 'main',
+				remove: ['.sidebar', '.comments', 'nav'],
+			};
+		}
+		await expect(writeCustomConfigs(rules)).resolves.toBe('sync');
+
+		const meta = storage.sync.rulesMeta as { shards: number };
+		expect(meta.shards).toBeGreaterThan(1);
+		expect(await readCustomConfigs()).toEqual(rules);
+
+		await writeCustomConfigs({ 'one.example': { selector: 'main' } });
+		expect(storage.sync['rules:1']).toBeUndefined();
+	});
+
+	it('falls back to local storage when a rule does not fit in sync', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		await saveCustomConfig('small.example', { selector: 'main' });
+		const huge = { selector: 'main', remove: [`.${'x'.repeat(SYNC_ITEM_QUOTA)}`] };
+
+		await expect(saveCustomConfig('huge.example', huge)).resolves.toBe('local');
+		expect(storage.local.rulesMeta).toMatchObject({ area: 'local' });
+		expect(storage.sync['rules:0']).toEqual({ 'small.example': { selector: 'main' } });
+		expect(await readCustomConfigs()).toEqual({
+			'huge.example': huge,
+			'small.example': { selector: 'main' },
+		});
+		expect(await getRuleStorageInfo()).toMatchObject({ area: 'local', count: 2 });
+
+		await removeCustomConfig('huge.example');
+		expect(storage.sync.rulesMeta).toMatchObject({ area: 'sync' });
+		expect(storage.local).toEqual({});
+		warn.mockRestore();
+	});
+
+	it('keeps rules saved on this device when another device saves synced rules', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		await saveCustomConfig('small.example', { selector: 'main' });
+		const huge = { selector: 'main', remove: [`.${'x'.repeat(SYNC_ITEM_QUOTA)}`] };
+		await saveCustomConfig('huge.example', huge);
+
+		// Another device only sees sync storage: it reads the rules last synced and adds one.
+		const thisDevice = structuredClone(storage.local);
+		for (const key of Object.keys(storage.local)) delete storage.local[key];
+		expect(await readCustomConfigs()).toEqual({ 'small.example': { selector: 'main' } });
+		await saveCustomConfig('other.example', { selector: 'article' });
+		expect(storage.sync.rulesMeta).toMatchObject({ area: 'sync', shards: 1 });
+
+		Object.assign(storage.local, thisDevice);
+		expect(await readCustomConfigs()).toEqual({
+			'huge.example': huge,
+			'small.example': { selector: 'main' },
+		});
+		warn.mockRestore();
+	});
+
+	it('reports save errors other than the quota', async () => {
+		storage.syncArea.set.mockRejectedValueOnce(new Error('Storage unavailable'));
+		await expect(saveCustomConfig('blog.example', { selector: 'article' })).rejects.toThrow(
+			'Failed to save rules: Storage unavailable'
+		);
+	});
+
+	it('reads and migrates rules saved under the legacy key', async () => {
+		storage.sync.domainConfigs = { 'Blog.Example': { selector: 'article', remove: [' nav '] } };
+
+		expect(await readCustomConfigs()).toEqual({
+			'blog.example': { selector: 'article', remove: ['nav'] },
+		});
+
+		await migrateStoredRules();
+		expect(storage.sync.domainConfigs).toBeUndefined();
+		expect(storage.sync.rulesMeta).toMatchObject({ version: RULES_SCHEMA_VERSION });
+		expect(storage.sync['rules:0']).toEqual({
+			'blog.example': { selector: 'article', remove: ['nav'] },
+		});
+	});
+
+	it('removes every shard on reset', async () => {
+		await saveCustomConfig('blog.example', { selector: 'article' });
+		await resetCustomConfigs();
+		expect(storage.sync).toEqual({});
+		expect(storage.local).toEqual({});
+		expect(await readCustomConfigs()).toEqual({});
+	});
+});
@@ -1,10 +1,31 @@
+import { type ConversionOverrides, conversionSteps, type LinkStyle, linkStyles } from './pipeline';
+
+/**
+ * How the main content is located: Readability first (falling back to the selector), the rule's
+ * selector only, or the selector first with Readability as the fallback.
+ */
+export type ExtractionStrategy = 'readability' | 'selector' | 'selector-then-readability';
+
+export const extractionStrategies: ExtractionStrategy[] = [
+	'readability',
+	'selector',
+	'selector-then-readability',
+];
+
 export interface DomainConfig {
 	selector: string;
 	remove?: string[];
+	/** Overrides the global extraction strategy for pages matching this rule. */
+	strategy?: ExtractionStrategy;
+	/** Also apply the `remove` selectors of broader rules that match the same URL. */
+	mergeRemove?: boolean;
+	/** Conversion steps switched on or off for this rule, overriding the global settings. */
+	conversion?: ConversionOverrides;
 }
 
 /**
- * Built-in domain overrides keyed by hostname, providing selectors and optional removal rules.
+ * Built-in domain overrides keyed by domain pattern, providing selectors and optional removal
+ * rules. See {@link parseDomainPattern} for the accepted pattern syntax.
  */
 export const defaultDomainConfigs: Record<string, DomainConfig> = {
 	/** News sites. */
@@ -45,65 +66,664 @@ export const defaultDomainConfigs: Record<string, DomainConfig> = {
  */
 export const domainConfigs: Record<string, DomainConfig> = { ...defaultDomainConfigs };
 
+/**
+ * Parsed form of a domain rule key such as `github.com`, `*.medium.com` or `example.com/docs/*`.
+ */
+export interface DomainPattern {
+	/** Hostname without the leading wildcard label. */
+	host: string;
+	/** True for `*.host` patterns, which only match subdomains of {@link host}. */
+	wildcard: boolean;
+	/** Optional pathname glob where `*` matches any run of characters and `?` a single one. */
+	path: string | null;
+}
+
+/**
+ * A rule chosen for a URL along with the pattern that selected it.
+ */
+export interface ResolvedDomainConfig {
+	pattern: string;
+	config: DomainConfig;
+}
+
+const HOST_LABEL_PATTERN = /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/;
+
+/**
+ * Splits a rule key into host and path parts. Returns null when the key is not a valid pattern.
+ * A bare host (`github.com`) matches itself and any subdomain, `*.github.com` only subdomains.
+ * @param pattern - Rule key as stored in the domain config map.
+ */
+export function parseDomainPattern(pattern: string): DomainPattern | null {
+	const trimmed = pattern.trim();
+	const slashIndex = trimmed.indexOf('/');
+	const hostPart = (slashIndex === -1 ? trimmed : trimmed.slice(0, slashIndex)).toLowerCase();
+	const path = slashIndex === -1 ? null : trimmed.slice(slashIndex);
+
+	const wildcard = hostPart.startsWith('*.');
+	const host = wildcard ? hostPart.slice(2) : hostPart;
+	if (!host || !host.split('.').every((label) => HOST_LABEL_PATTERN.test(label))) {
+		return null;
+	}
+
+	return { host, wildcard, path };
+}
+
+/**
+ * Describes why a rule key cannot be used, or returns null when it is valid.
+ * @param pattern - Rule key entered by the user.
+ */
+export function validateDomainPattern(pattern: string): string | null {
+	if (!pattern.trim()) {
+		return 'Domain is required.';
+	}
+	if (/^[a-z]+:\/\//i.test(pattern.trim())) {
+		return 'Leave out the protocol; use e.g. example.com/docs/*.';
+	}
+	if (!parseDomainPattern(pattern)) {
+		return 'Use a hostname such as example.com or *.example.com, optionally followed by a path like /docs/*.';
+	}
+	return null;
+}
+
+/**
+ * Canonicalises a rule key by trimming it and lowercasing the host while keeping the path as-is.
+ * @param pattern - Rule key entered by the user.
+ */
+export function normalizeDomainPattern(pattern: string): string {
+	const trimmed = pattern.trim();
+	const slashIndex = trimmed.indexOf('/');
+	if (slashIndex === -1) {
+		return trimmed.toLowerCase();
+	}
+	return trimmed.slice(0, slashIndex).toLowerCase() + trimmed.slice(slashIndex);
+}
+
+/**
+ * Tests a pathname against a glob where `*` matches any run of characters and `?` a single one.
+ */
+function matchPathGlob(glob: string, pathname: string): boolean {
+	const source = glob
+		.split('')
+		.map((char) => {
+			if (char === '*') return '.*';
+			if (char === '?') return '.';
+			return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		})
+		.join('');
+	return new RegExp(`^${source}$`).test(pathname);
+}
+
+/**
+ * Scores how specifically a pattern matches a URL, or returns null when it does not match.
+ * Exact hosts outrank subdomain matches, longer hosts outrank shorter ones, and within the same
+ * host a longer literal path outranks a shorter one or none.
+ */
+function scorePattern(pattern: DomainPattern, hostname: string, pathname: string): number | null {
+	const isExact = hostname === pattern.host;
+	const isSubdomain = hostname.endsWith(`.${pattern.host}`);
+	if (pattern.wildcard ? !isSubdomain : !isExact && !isSubdomain) {
+		return null;
+	}
+	if (pattern.path !== null && !matchPathGlob(pattern.path, pathname)) {
+		return null;
+	}
+
+	const hostScore = pattern.host.split('.').length * 2 + (isExact ? 1 : 0);
+	const pathScore = pattern.path === null ? 0 : pattern.path.replace(/[*?]/g, '').length + 1;
+	return hostScore * 10000 + pathScore;
+}
+
+/**
+ * Finds every rule matching a URL, ordered from most to least specific.
+ * @param url - Page URL to look up.
+ * @param configs - Domain configurations, or other rules, keyed by pattern.
+ */
+export function matchDomainConfigs<T = DomainConfig>(
+	url: string | URL,
+	configs: Record<string, T>
+): { pattern: string; config: T }[] {
+	let parsedUrl: URL;
+	try {
+		parsedUrl = new URL(url);
+	} catch (_err) {
+		return [];
+	}
+	const hostname = parsedUrl.hostname.toLowerCase().replace(/\.$/, '');
+
+	return Object.entries(configs)
+		.map(([key, config]) => {
+			const pattern = parseDomainPattern(key);
+			const score = pattern ? scorePattern(pattern, hostname, parsedUrl.pathname) : null;
+			return { pattern: key, config, score };
+		})
+		.filter((match): match is { pattern: string; config: T; score: number } => match.score !== null)
+		.sort((a, b) => b.score - a.score || b.pattern.length - a.pattern.length)
+		.map(({ pattern, config }) => ({ pattern, config }));
+}
+
+/**
+ * Picks the most specific rule for a URL, merging `remove` lists from broader rules when the
+ * winning rule opts in via `mergeRemove`.
+ * @param url - Page URL to look up.
+ * @param configs - Domain configurations keyed by pattern.
+ * @returns The applicable rule, or null when no pattern matches.
+ */
+export function resolveDomainConfig(
+	url: string | URL,
+	configs: Record<string, DomainConfig>
+): ResolvedDomainConfig | null {
+	const [best, ...broader] = matchDomainConfigs(url, configs);
+	if (!best) {
+		return null;
+	}
+	if (!best.config.mergeRemove) {
+		return best;
+	}
+
+	const remove = new Set(best.config.remove ?? []);
+	for (const match of broader) {
+		for (const selector of match.config.remove ?? []) {
+			remove.add(selector);
+		}
+	}
+	return { pattern: best.pattern, config: { ...best.config, remove: Array.from(remove) } };
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Checks a stored or imported rule and returns a clean copy, or an error message describing
+ * why it cannot be used. Unknown keys are dropped and remove selectors are trimmed.
+ * @param value - Rule as parsed from storage or a file.
+ */
+export function sanitizeDomainConfig(value: unknown): DomainConfig | string {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		return 'Rule must be an object.';
+	}
+	const raw = value as Record<string, unknown>;
+	if (typeof raw.selector !== 'string') {
+		return 'Selector must be a string.';
+	}
+	if (
+		raw.remove !== undefined &&
+		!(Array.isArray(raw.remove) && raw.remove.every((item) => typeof item === 'string'))
+	) {
+		return 'Remove must be a list of selectors.';
+	}
+	if (
+		raw.strategy !== undefined &&
+		!extractionStrategies.includes(raw.strategy as ExtractionStrategy)
+	) {
+		return `Unknown extraction strategy "${String(raw.strategy)}".`;
+	}
+	if (raw.mergeRemove !== undefined && typeof raw.mergeRemove !== 'boolean') {
+		return 'mergeRemove must be true or false.';
+	}
+	const conversion: ConversionOverrides = {};
+	if (raw.conversion !== undefined) {
+		if (typeof raw.conversion !== 'object' || raw.conversion === null) {
+			return 'Conversion must be an object of steps.';
+		}
+		for (const [step, enabled] of Object.entries(raw.conversion)) {
+			if (step === 'linkStyle') {
+				if (!linkStyles.includes(enabled as LinkStyle)) {
+					return `Unknown link style "${String(enabled)}".`;
+				}
+				conversion.linkStyle = enabled as LinkStyle;
+				continue;
+			}
+			const known = conversionSteps.find((name) => name === step);
+			if (!known) {
+				return `Unknown conversion step "${step}".`;
+			}
+			if (typeof enabled !== 'boolean') {
+				return `Conversion step "${step}" must be true or false.`;
+			}
+			conversion[known] = enabled;
+		}
+	}
+
+	const remove = ((raw.remove as string[] | undefined) ?? [])
+		.map((item) => item.trim())
+		.filter(Boolean);
+	return {
+		selector: raw.selector.trim(),
+		...(remove.length > 0 ? { remove } : {}),
+		...(raw.strategy ? { strategy: raw.strategy as ExtractionStrategy } : {}),
+		...(raw.mergeRemove ? { mergeRemove: true } : {}),
+		...(Object.keys(conversion).length > 0 ? { conversion } : {}),
+	};
+}
+
+// ---------------------------------------------------------------------------
+// Migrations
+// ---------------------------------------------------------------------------
+
+/**
+ * Version of the stored rule layout and of exported rule files.
+ *
+ * 1. All rules under a single `domainConfigs` key in sync storage, stored as entered.
+ * 2. Rules sharded across `rules:<n>` keys described by `rulesMeta`, with normalized patterns
+ *    and validated configs.
+ */
+export const RULES_SCHEMA_VERSION = 2;
+
+/**
+ * Upgrades a rule map by one version, keyed by the version it upgrades from.
+ */
+const ruleMigrations: Record<number, (rules: Record<string, unknown>) => Record<string, unknown>> =
+	{
+		1: (rules) => {
+			const migrated: Record<string, unknown> = {};
+			for (const [pattern, config] of Object.entries(rules)) {
+				const clean = sanitizeDomainConfig(config);
+				if (validateDomainPattern(pattern) === null && typeof clean !== 'string') {
+					migrated[normalizeDomainPattern(pattern)] = clean;
+				} else {
+					console.warn(`Dropping invalid stored rule "${pattern}"`);
+				}
+			}
+			return migrated;
+		},
+	};
+
+/**
+ * Rejects rules saved by a newer version of the extension, which this one cannot migrate.
+ * @param version - Schema version the rules were saved with.
+ * @throws When the version is newer than {@link RULES_SCHEMA_VERSION}.
+ */
+export function assertRulesVersion(version: number): void {
+	if (version > RULES_SCHEMA_VERSION) {
+		throw new Error(
+			`Rules were saved by a newer version of the extension (schema ${version}). Update the extension first.`
+		);
+	}
+}
+
+/**
+ * Brings a rule map saved by an older version of the extension up to
+ * {@link RULES_SCHEMA_VERSION}.
+ * @param rules - Rules keyed by domain pattern.
+ * @param version - Schema version the rules were saved with.
+ */
+export function migrateRules(
+	rules: Record<string, unknown>,
+	version: number
+): Record<string, DomainConfig> {
+	assertRulesVersion(version);
+	let migrated = rules;
+	for (let from = Math.max(1, version); from < RULES_SCHEMA_VERSION; from++) {
+		migrated = ruleMigrations[from](migrated);
+	}
+	return migrated as Record<string, DomainConfig>;
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+/**
+ * Rule maps are split into shards of at most {@link RULE_SHARD_BYTES} so that no single key
+ * reaches the 8 KB per-item quota of `chrome.storage.sync`. A meta item records the schema
+ * version, the number of shards and the storage area holding them, and is stored in the same
+ * area as the shards. When the rules outgrow the sync quota they move to `chrome.storage.local`
+ * and stop syncing: a local meta item takes precedence over the synced one, so other devices keep
+ * the rules last synced and their changes cannot hide the rules kept on this device. Domain rules
+ * and URL rules are stored this way under their own keys.
+ */
+export interface ShardedStorageKeys {
+	/** Storage key of the meta item. */
+	meta: string;
+	/** Prefix of the shard keys, followed by the shard index. */
+	shardPrefix: string;
+}
+
+const DOMAIN_RULE_KEYS: ShardedStorageKeys = { meta: 'rulesMeta', shardPrefix: 'rules:' };
+const LEGACY_RULES_KEY = 'domainConfigs';
+
+/** Byte budget per shard, below the 8192-byte sync item quota to leave room for the key. */
+const RULE_SHARD_BYTES = 7000;
+
+export type RuleStorageArea = 'sync' | 'local';
+
+export interface ShardedStorageMeta {
+	version: number;
+	shards: number;
+	area: RuleStorageArea;
+}
+
+/**
+ * Where the custom rules are saved and how much room they take.
+ */
+export interface RuleStorageInfo {
+	area: RuleStorageArea;
+	/** Serialized size of all rules in bytes. */
+	bytes: number;
+	count: number;
+}
+
 function hasChromeStorage(): boolean {
 	return typeof chrome !== 'undefined' && !!chrome.storage;
 }
 
+function shardKeys(keys: ShardedStorageKeys, count: number): string[] {
+	return Array.from({ length: count }, (_, index) => `${keys.shardPrefix}${index}`);
+}
+
+function byteLength(value: string): number {
+	return new TextEncoder().encode(value).length;
+}
+
 /**
- * Hydrates {@link domainConfigs} with user-defined overrides from Chrome sync storage.
+ * Splits rules into shards whose JSON stays within the byte budget, in pattern order so that
+ * saving the same rules twice produces the same shards.
+ * @param rules - Rules keyed by domain pattern.
+ * @param maxBytes - Byte budget per shard.
  */
-export async function loadCustomConfigs(): Promise<void> {
-	if (!hasChromeStorage()) return;
+export function shardRules<T>(
+	rules: Record<string, T>,
+	maxBytes: number = RULE_SHARD_BYTES
+): Array<Record<string, T>> {
+	const shards: Array<Record<string, T>> = [];
+	let shard: Record<string, T> = {};
+	let size = 2;
 
-	const result = await chrome.storage.sync.get('domainConfigs').catch((error: unknown) => {
-		console.error('Failed to load custom domain configs:', error);
-		return null;
+	for (const pattern of Object.keys(rules).sort()) {
+		const entrySize = byteLength(JSON.stringify({ [pattern]: rules[pattern] })) - 1;
+		if (size > 2 && size + entrySize > maxBytes) {
+			shards.push(shard);
+			shard = {};
+			size = 2;
+		}
+		shard[pattern] = rules[pattern];
+		size += entrySize;
+	}
+	if (size > 2) {
+		shards.push(shard);
+	}
+	return shards;
+}
+
+function isQuotaError(error: unknown): boolean {
+	return /QUOTA_BYTES|MAX_ITEMS/i.test(error instanceof Error ? error.message : String(error));
+}
+
+function describeError(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Reads a meta item; the shards are in the area the item was found in.
+ */
+function readMeta(value: unknown, area: RuleStorageArea): ShardedStorageMeta | null {
+	if (typeof value !== 'object' || value === null) return null;
+	const meta = value as Partial<ShardedStorageMeta>;
+	if (typeof meta.version !== 'number' || typeof meta.shards !== 'number') return null;
+	return { version: meta.version, shards: meta.shards, area };
+}
+
+/**
+ * Finds the meta item of a rule map, preferring the one for rules kept on this device.
+ */
+async function findMeta(keys: ShardedStorageKeys): Promise<ShardedStorageMeta | null> {
+	const local = await chrome.storage.local.get(keys.meta);
+	const localMeta = readMeta(local[keys.meta], 'local');
+	if (localMeta) return localMeta;
+	const sync = await chrome.storage.sync.get(keys.meta);
+	return readMeta(sync[keys.meta], 'sync');
+}
+
+/**
+ * Reads a sharded rule map as stored, without migrating it.
+ * @param keys - Storage keys of the map.
+ * @returns The meta item, or null when nothing was saved, and the merged shards.
+ */
+export async function readShardedRules(
+	keys: ShardedStorageKeys
+): Promise<{ meta: ShardedStorageMeta | null; rules: Record<string, unknown> }> {
+	const meta = await findMeta(keys);
+	if (!meta) {
+		return { meta: null, rules: {} };
+	}
+
+	const shardKeyList = shardKeys(keys, meta.shards);
+	const shards = shardKeyList.length > 0 ? await chrome.storage[meta.area].get(shardKeyList) : {};
+	const rules: Record<string, unknown> = {};
+	for (const key of shardKeyList) {
+		Object.assign(rules, shards[key]);
+	}
+	return { meta, rules };
+}
+
+/**
+ * Replaces a stored rule map, sharding it across sync storage keys. When sync storage is full
+ * the rules are saved to local storage instead, leaving the synced copy to other devices.
+ * @param keys - Storage keys of the map.
+ * @param rules - Complete rule map.
+ * @param version - Schema version recorded with the rules.
+ * @param previous - Meta item of the rules being replaced, whose unused shards are removed.
+ * @param staleKeys - Further sync keys to remove once the rules are saved.
+ * @returns The storage area the rules were saved to.
+ * @throws When the rules cannot be saved; the message explains why.
+ */
+export async function writeShardedRules<T>(
+	keys: ShardedStorageKeys,
+	rules: Record<string, T>,
+	version: number,
+	previous: ShardedStorageMeta | null,
+	staleKeys: string[] = []
+): Promise<RuleStorageArea> {
+	const shards = shardRules(rules);
+	const shardKeyList = shardKeys(keys, shards.length);
+	const items = Object.fromEntries(shards.map((shard, index) => [shardKeyList[index], shard]));
+	const meta = (area: RuleStorageArea): ShardedStorageMeta => ({
+		version,
+		shards: shards.length,
+		area,
 	});
 
+	let area: RuleStorageArea = 'sync';
+	try {
+		await chrome.storage.sync.set({ ...items, [keys.meta]: meta('sync') });
+	} catch (error) {
+		if (!isQuotaError(error)) {
+			throw new Error(`Failed to save rules: ${describeError(error)}`);
+		}
+		console.warn('Rules exceed the sync storage quota; saving them on this device only.', error);
+		area = 'local';
+		try {
+			await chrome.storage.local.set({ ...items, [keys.meta]: meta('local') });
+		} catch (localError) {
+			throw new Error(`Failed to save rules: ${describeError(localError)}`);
+		}
+	}
+
+	// Drop shards the new layout no longer uses. Rules moving back to sync leave nothing behind
+	// on this device; rules moving to local storage keep the synced copy for other devices.
+	const stale: Record<RuleStorageArea, string[]> = { sync: [], local: [] };
+	if (previous?.area === area) {
+		stale[area].push(...shardKeys(keys, previous.shards).slice(shards.length));
+	} else if (previous?.area === 'local') {
+		stale.local.push(keys.meta, ...shardKeys(keys, previous.shards));
+	}
+	stale.sync.push(...staleKeys);
+	try {
+		if (stale.sync.length > 0) {
+			await chrome.storage.sync.remove(stale.sync);
+		}
+		if (stale.local.length > 0) {
+			await chrome.storage.local.remove(stale.local);
+		}
+	} catch (error) {
+		console.warn('Failed to clean up old rule shards:', error);
+	}
+	return area;
+}
+
+/**
+ * Removes a stored rule map and its meta item.
+ * @param keys - Storage keys of the map.
+ * @param staleKeys - Further sync keys to remove with it.
+ */
+export async function removeShardedRules(
+	keys: ShardedStorageKeys,
+	staleKeys: string[] = []
+): Promise<void> {
+	const local = await chrome.storage.local.get(keys.meta);
+	const localMeta = readMeta(local[keys.meta], 'local');
+	const sync = await chrome.storage.sync.get(keys.meta);
+	const syncMeta = readMeta(sync[keys.meta], 'sync');
+	await chrome.storage.sync.remove([
+		keys.meta,
+		...staleKeys,
+		...shardKeys(keys, syncMeta?.shards ?? 0),
+	]);
+	if (localMeta) {
+		await chrome.storage.local.remove([keys.meta, ...shardKeys(keys, localMeta.shards)]);
+	}
+}
+
+/**
+ * Reads the stored layout and domain rules, migrating older layouts in memory.
+ */
+async function readStoredRules(): Promise<{
+	meta: ShardedStorageMeta | null;
+	rules: Record<string, DomainConfig>;
+}> {
+	const { meta, rules } = await readShardedRules(DOMAIN_RULE_KEYS);
+	if (!meta) {
+		const stored = await chrome.storage.sync.get(LEGACY_RULES_KEY);
+		const legacy = stored[LEGACY_RULES_KEY];
+		const rules = typeof legacy === 'object' && legacy !== null ? legacy : {};
+		return { meta: null, rules: migrateRules(rules as Record<string, unknown>, 1) };
+	}
+	return { meta, rules: migrateRules(rules, meta.version) };
+}
+
+/**
+ * Replaces every stored custom domain rule; see {@link writeShardedRules}.
+ */
+function writeStoredRules(
+	rules: Record<string, DomainConfig>,
+	previous: ShardedStorageMeta | null
+): Promise<RuleStorageArea> {
+	return writeShardedRules(DOMAIN_RULE_KEYS, rules, RULES_SCHEMA_VERSION, previous, [
+		LEGACY_RULES_KEY,
+	]);
+}
+
+/**
+ * Loads the user's saved overrides, without the built-in presets.
+ * @returns Rules keyed by domain pattern.
+ * @throws When storage cannot be read or the rules were saved by a newer version.
+ */
+export async function readCustomConfigs(): Promise<Record<string, DomainConfig>> {
+	if (!hasChromeStorage()) return {};
+	return (await readStoredRules()).rules;
+}
+
+/**
+ * Replaces all saved overrides and refreshes the in-memory cache.
+ * @param rules - Complete set of custom rules keyed by domain pattern.
+ * @returns The storage area the rules were saved to.
+ * @throws When the rules cannot be saved; the message explains why.
+ */
+export async function writeCustomConfigs(
+	rules: Record<string, DomainConfig>
+): Promise<RuleStorageArea> {
+	if (!hasChromeStorage()) return 'sync';
+
+	const { meta } = await readStoredRules();
+	const area = await writeStoredRules(rules, meta);
 	for (const key of Object.keys(domainConfigs)) {
 		delete domainConfigs[key];
 	}
-	Object.assign(domainConfigs, defaultDomainConfigs, result?.domainConfigs);
+	Object.assign(domainConfigs, defaultDomainConfigs, rules);
+	return area;
 }
 
 /**
- * Persists a custom domain configuration and updates the in-memory cache.
- * @param domain - Hostname associated with the configuration.
- * @param config - Selector and optional removal rules applied during conversion.
+ * Rewrites rules saved in an older layout in the current one. Does nothing when they are current.
  */
-export async function saveCustomConfig(domain: string, config: DomainConfig): Promise<void> {
+export async function migrateStoredRules(): Promise<void> {
 	if (!hasChromeStorage()) return;
 
-	const result = await chrome.storage.sync.get('domainConfigs').catch((error: unknown) => {
-		console.error('Failed to load existing domain configs:', error);
-		return null;
-	});
+	const meta = await findMeta(DOMAIN_RULE_KEYS);
+	const stored = await chrome.storage.sync.get(LEGACY_RULES_KEY);
+	if (meta ? meta.version >= RULES_SCHEMA_VERSION : stored[LEGACY_RULES_KEY] === undefined) {
+		return;
+	}
+	const { rules } = await readStoredRules();
+	await writeStoredRules(rules, meta);
+}
+
+/**
+ * Reports where the custom rules are saved and their serialized size.
+ */
+export async function getRuleStorageInfo(): Promise<RuleStorageInfo> {
+	if (!hasChromeStorage()) return { area: 'sync', bytes: 0, count: 0 };
 
-	const existing = result?.domainConfigs;
-	const customConfigs: Record<string, DomainConfig> = {
-		...(typeof existing === 'object' && existing !== null ? existing : {}),
-		[domain]: config,
+	const { meta, rules } = await readStoredRules();
+	return {
+		area: meta?.area ?? 'sync',
+		bytes: byteLength(JSON.stringify(rules)),
+		count: Object.keys(rules).length,
 	};
+}
+
+/**
+ * Hydrates {@link domainConfigs} with user-defined overrides from Chrome storage.
+ */
+export async function loadCustomConfigs(): Promise<void> {
+	if (!hasChromeStorage()) return;
 
-	await chrome.storage.sync.set({ domainConfigs: customConfigs }).catch((error: unknown) => {
-		console.error('Failed to save custom domain config:', error);
+	const rules = await readCustomConfigs().catch((error: unknown) => {
+		console.error('Failed to load custom domain configs:', error);
+		return {};
 	});
 
+	for (const key of Object.keys(domainConfigs)) {
+		delete domainConfigs[key];
+	}
+	Object.assign(domainConfigs, defaultDomainConfigs, rules);
+}
+
+/**
+ * Persists a custom domain configuration and updates the in-memory cache.
+ * @param domain - Domain pattern associated with the configuration.
+ * @param config - Selector and optional removal rules applied during conversion.
+ * @returns The storage area the rules were saved to.
+ * @throws When the rule cannot be saved; the message explains why.
+ */
+export async function saveCustomConfig(
+	domain: string,
+	config: DomainConfig
+): Promise<RuleStorageArea> {
+	if (!hasChromeStorage()) return 'sync';
+
+	const { meta, rules } = await readStoredRules();
+	const area = await writeStoredRules({ ...rules, [domain]: config }, meta);
 	domainConfigs[domain] = config;
+	return area;
 }
 
 /**
  * Deletes the saved override for the supplied domain and updates the in-memory cache.
- * @param domain - Hostname whose configuration should be removed.
+ * @param domain - Domain pattern whose configuration should be removed.
+ * @throws When the change cannot be saved.
  */
 export async function removeCustomConfig(domain: string): Promise<void> {
 	if (!hasChromeStorage()) return;
 
-	const result = await chrome.storage.sync.get('domainConfigs');
-	const configs = (result.domainConfigs ?? {}) as Record<string, DomainConfig>;
-	delete configs[domain];
-	await chrome.storage.sync.set({ domainConfigs: configs });
+	const { meta, rules } = await readStoredRules();
+	delete rules[domain];
+	await writeStoredRules(rules, meta);
 	delete domainConfigs[domain];
+	if (defaultDomainConfigs[domain]) {
+		domainConfigs[domain] = defaultDomainConfigs[domain];
+	}
 }
 
 /**
@@ -112,7 +732,7 @@ export async function removeCustomConfig(domain: string): Promise<void> {
 export async function resetCustomConfigs(): Promise<void> {
 	if (!hasChromeStorage()) return;
 
-	await chrome.storage.sync.remove('domainConfigs');
+	await removeShardedRules(DOMAIN_RULE_KEYS, [LEGACY_RULES_KEY]);
 	for (const key of Object.keys(domainConfigs)) {
 		delete domainConfigs[key];
 	}
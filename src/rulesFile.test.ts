@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { RULES_SCHEMA_VERSION } from './rules';
+import { parseRulesFile, planRuleImport, RULES_FILE_FORMAT, serializeRules } from './rulesFile';
+
+describe('serializeRules', () => {
+	it('writes a versioned file with rules sorted by pattern', () => {
+		const text = serializeRules(
+			{ 'b.example': { selector: 'main' }, 'a.example': { selector: 'article' } },
+			new Date('2026-01-02T03:04:05Z')
+		);
+		const file = JSON.parse(text);
+		expect(file).toEqual({
+			format: RULES_FILE_FORMAT,
+			version: RULES_SCHEMA_VERSION,
+			exportedAt: '2026-01-02T03:04:05.000Z',
+			rules: { 'a.example': { selector: 'article' }, 'b.example': { selector: 'main' } },
+		});
+		expect(Object.keys(file.rules)).toEqual(['a.example', 'b.example']);
+	});
+});
+
+describe('parseRulesFile', () => {
+	it('reads its own exports', () => {
+		const rules = { 'docs.example/guide/*': { selector: 'main', remove: ['nav'] } };
+		expect(parseRulesFile(serializeRules(rules))).toEqual({ rules, errors: [] });
+	});
+
+	it('accepts a bare map of rules from the first version', () => {
+		expect(parseRulesFile('{"Blog.Example": {"selector": "article"}}').rules).toEqual({
+			'blog.example': { selector: 'article' },
+		});
+	});
+
+	it('migrates rules from older files before checking them', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const parsed = parseRulesFile(
+			JSON.stringify({
+				format: RULES_FILE_FORMAT,
+				version: 1,
+				rules: {
+					'Docs.Example': { selector: 'main', remove: [' nav ', ''] },
+					'https://bad.example': { selector: 'main' },
+				},
+			})
+		);
+		expect(parsed.rules).toEqual({ 'docs.example': { selector: 'main', remove: ['nav'] } });
+		expect(parsed.errors.map((error) => error.pattern)).toEqual(['https://bad.example']);
+		warn.mockRestore();
+	});
+
+	it('lists invalid entries and keeps the valid ones', () => {
+		const parsed = parseRulesFile(
+			JSON.stringify({
+				format: RULES_FILE_FORMAT,
+				version: RULES_SCHEMA_VERSION,
+				rules: {
+					'ok.example': { selector: 'main' },
+					'https://bad.example': { selector: 'main' },
+					'strategy.example': { selector: 'main', strategy: 'guess' },
+				},
+			})
+		);
+		expect(parsed.rules).toEqual({ 'ok.example': { selector: 'main' } });
+		expect(parsed.errors.map((error) => error.pattern)).toEqual([
+			'https://bad.example',
+			'strategy.example',
+		]);
+	});
+
+	it('rejects files that are not rules', () => {
+		expect(() => parseRulesFile('not json')).toThrow('The file is not valid JSON.');
+		expect(() => parseRulesFile('[1, 2]')).toThrow('The file does not contain rules.');
+		expect(() => parseRulesFile(`{"format": "${RULES_FILE_FORMAT}", "rules": 3}`)).toThrow(
+			'The file does not contain rules.'
+		);
+	});
+
+	it('refuses files from a newer version', () => {
+		const text = JSON.stringify({ format: RULES_FILE_FORMAT, version: 99, rules: {} });
+		expect(() => parseRulesFile(text)).toThrow(/newer version/);
+	});
+});
+
+describe('planRuleImport', () => {
+	const existing = {
+		'a.example': { selector: 'main' },
+		'b.example': { selector: 'article' },
+		'c.example': { selector: '#content' },
+	};
+	const incoming = {
+		'a.example': { selector: 'main' },
+		'b.example': { selector: '.post' },
+		'd.example': { selector: 'main' },
+	};
+
+	it('adds new rules and lets imported rules win conflicts when merging', () => {
+		const plan = planRuleImport(existing, incoming, 'merge');
+		expect(plan.added).toEqual(['d.example']);
+		expect(plan.conflicts).toEqual(['b.example']);
+		expect(plan.unchanged).toEqual(['a.example']);
+		expect(plan.removed).toEqual([]);
+		expect(plan.result).toEqual({ ...existing, ...incoming });
+	});
+
+	it('drops saved rules missing from the file when replacing', () => {
+		const plan = planRuleImport(existing, incoming, 'replace');
+		expect(plan.removed).toEqual(['c.example']);
+		expect(plan.result).toEqual(incoming);
+	});
+});
@@ -0,0 +1,180 @@
+import { conversionSteps } from './pipeline';
+import {
+	assertRulesVersion,
+	type DomainConfig,
+	migrateRules,
+	normalizeDomainPattern,
+	RULES_SCHEMA_VERSION,
+	sanitizeDomainConfig,
+	validateDomainPattern,
+} from './rules';
+
+/** Marks exported files so unrelated JSON is not mistaken for a rule export. */
+export const RULES_FILE_FORMAT = 'page-to-markdown-rules';
+
+/**
+ * Contents of an exported rules file.
+ */
+export interface RulesFile {
+	format: typeof RULES_FILE_FORMAT;
+	version: number;
+	/** ISO timestamp of the export. */
+	exportedAt: string;
+	rules: Record<string, DomainConfig>;
+}
+
+/**
+ * A rule in an imported file that could not be used.
+ */
+export interface RuleImportError {
+	pattern: string;
+	message: string;
+}
+
+/**
+ * Rules read from a file, with the entries that failed validation.
+ */
+export interface ParsedRulesFile {
+	rules: Record<string, DomainConfig>;
+	errors: RuleImportError[];
+}
+
+/**
+ * How imported rules combine with the saved ones: added on top, with imported rules winning
+ * conflicts, or replacing the saved rules entirely.
+ */
+export type RuleImportMode = 'merge' | 'replace';
+
+/**
+ * Effect of an import on the saved rules, shown before it is applied.
+ */
+export interface RuleImportPlan {
+	/** Patterns that are new. */
+	added: string[];
+	/** Patterns that already exist with a different rule; the imported rule wins. */
+	conflicts: string[];
+	/** Patterns that already exist with the same rule. */
+	unchanged: string[];
+	/** Saved patterns dropped because the import replaces everything. */
+	removed: string[];
+	/** Rules saved once the import is applied. */
+	result: Record<string, DomainConfig>;
+}
+
+/**
+ * Serializes custom rules into an export file.
+ * @param rules - Custom rules keyed by domain pattern.
+ * @param exportedAt - Export time.
+ */
+export function serializeRules(
+	rules: Record<string, DomainConfig>,
+	exportedAt: Date = new Date()
+): string {
+	const sorted = Object.fromEntries(
+		Object.keys(rules)
+			.sort((a, b) => a.localeCompare(b))
+			.map((pattern) => [pattern, rules[pattern]])
+	);
+	const file: RulesFile = {
+		format: RULES_FILE_FORMAT,
+		version: RULES_SCHEMA_VERSION,
+		exportedAt: exportedAt.toISOString(),
+		rules: sorted,
+	};
+	return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+/**
+ * Reads an exported rules file, migrating rules from older versions and validating each one.
+ * A bare map of patterns to rules, as stored by the first version, is accepted too.
+ * @param text - File contents.
+ * @throws When the text is not JSON or does not contain rules.
+ */
+export function parseRulesFile(text: string): ParsedRulesFile {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch (_err) {
+		throw new Error('The file is not valid JSON.');
+	}
+	if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+		throw new Error('The file does not contain rules.');
+	}
+
+	const record = data as Record<string, unknown>;
+	const isExport = record.format === RULES_FILE_FORMAT;
+	const version = isExport && typeof record.version === 'number' ? record.version : 1;
+	const rawRules = isExport ? record.rules : record;
+	if (typeof rawRules !== 'object' || rawRules === null || Array.isArray(rawRules)) {
+		throw new Error('The file does not contain rules.');
+	}
+
+	assertRulesVersion(version);
+	const rules: Record<string, DomainConfig> = {};
+	const errors: RuleImportError[] = [];
+	for (const [pattern, value] of Object.entries(rawRules as Record<string, unknown>)) {
+		// Each rule is migrated before it is checked against the current schema. A rule the
+		// migration drops is checked as written, which reports why it is invalid.
+		const [migratedPattern, migrated] = Object.entries(
+			migrateRules({ [pattern]: value }, version)
+		)[0] ?? [pattern, value];
+		const patternError = validateDomainPattern(migratedPattern);
+		const config = sanitizeDomainConfig(migrated);
+		if (patternError) {
+			errors.push({ pattern, message: patternError });
+		} else if (typeof config === 'string') {
+			errors.push({ pattern, message: config });
+		} else {
+			rules[normalizeDomainPattern(migratedPattern)] = config;
+		}
+	}
+	return { rules, errors };
+}
+
+function sameConfig(a: DomainConfig, b: DomainConfig): boolean {
+	return (
+		a.selector === b.selector &&
+		(a.strategy ?? '') === (b.strategy ?? '') &&
+		!!a.mergeRemove === !!b.mergeRemove &&
+		(a.remove ?? []).join('\n') === (b.remove ?? []).join('\n') &&
+		a.conversion?.linkStyle === b.conversion?.linkStyle &&
+		conversionSteps.every((step) => a.conversion?.[step] === b.conversion?.[step])
+	);
+}
+
+/**
+ * Works out what an import would change without applying it.
+ * @param existing - Saved custom rules.
+ * @param incoming - Valid rules from the imported file.
+ * @param mode - Whether to merge into or replace the saved rules.
+ */
+export function planRuleImport(
+	existing: Record<string, DomainConfig>,
+	incoming: Record<string, DomainConfig>,
+	mode: RuleImportMode
+): RuleImportPlan {
+	const plan: RuleImportPlan = {
+		added: [],
+		conflicts: [],
+		unchanged: [],
+		removed: [],
+		result: mode === 'merge' ? { ...existing, ...incoming } : { ...incoming },
+	};
+	for (const [pattern, config] of Object.entries(incoming)) {
+		const current = existing[pattern];
+		if (!current) {
+			plan.added.push(pattern);
+		} else if (sameConfig(current, config)) {
+			plan.unchanged.push(pattern);
+		} else {
+			plan.conflicts.push(pattern);
+		}
+	}
+	if (mode === 'replace') {
+		plan.removed = Object.keys(existing).filter((pattern) => !(pattern in incoming));
+	}
+	for (const list of [plan.added, plan.conflicts, plan.unchanged, plan.removed]) {
+		list.sort((a, b) => a.localeCompare(b));
+	}
+	return plan;
+}
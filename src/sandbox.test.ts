@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { describeElement, inspectSelector, parseSnapshot, testRule } from './sandbox';
+
+const page = `<!doctype html>
+<html>
+	<head><title>Snapshot</title></head>
+	<body>
+		<nav>Site menu</nav>
+		<div id="post" class="entry">
+			<h1>Heading</h1>
+			<p>First paragraph with a <a href="/about">relative link</a>.</p>
+			<div class="ad">Sponsored one</div>
+			<div class="ad">Sponsored two</div>
+			<img src="images/photo.png" alt="Photo">
+		</div>
+	</body>
+</html>`;
+
+describe('parseSnapshot', () => {
+	it('uses the page URL as the document base', () => {
+		const doc = parseSnapshot(page, 'https://example.com/blog/post');
+		expect(doc.querySelector('base')?.getAttribute('href')).toBe('https://example.com/blog/post');
+		expect(doc.baseURI).toBe('https://example.com/blog/post');
+	});
+
+	it('keeps a base element the snapshot already has', () => {
+		const doc = parseSnapshot(
+			'<head><base href="https://cdn.example.com/"></head><body></body>',
+			'https://example.com/'
+		);
+		expect(doc.querySelectorAll('base')).toHaveLength(1);
+		expect(doc.baseURI).toBe('https://cdn.example.com/');
+	});
+});
+
+describe('describeElement', () => {
+	it('lists tag, id, classes and the start of the text', () => {
+		const doc = parseSnapshot('<div id="a" class="b c">Hello   world</div>', '');
+		expect(describeElement(doc.querySelector('div') as Element)).toBe('div#a.b.c — "Hello world"');
+	});
+});
+
+describe('inspectSelector', () => {
+	it('counts every match', () => {
+		const report = inspectSelector(parseSnapshot(page, ''), '.ad');
+		expect(report.count).toBe(2);
+		expect(report.matches).toEqual(['div.ad — "Sponsored one"', 'div.ad — "Sponsored two"']);
+		expect(report.error).toBeUndefined();
+	});
+
+	it('reports invalid selectors instead of throwing', () => {
+		const report = inspectSelector(parseSnapshot(page, ''), '[=x]');
+		expect(report.count).toBe(0);
+		expect(report.error).toBeTruthy();
+	});
+});
+
+describe('testRule', () => {
+	it('converts the selected element without the removed ones', () => {
+		const result = testRule(
+			page,
+			'https://example.com/blog/post',
+			{ selector: '#post', remove: ['.ad'], strategy: 'selector' },
+			'readability'
+		);
+		expect(result.source).toBe('selector');
+		expect(result.markdown).toContain('First paragraph');
+		expect(result.markdown).toContain('(https://example.com/about)');
+		expect(result.markdown).toContain('https://example.com/blog/images/photo.png');
+		expect(result.markdown).not.toContain('Sponsored');
+		expect(result.markdown).not.toContain('Site menu');
+		expect(result.content?.count).toBe(1);
+		expect(result.remove[0].count).toBe(2);
+		expect(result.warnings).toEqual([]);
+	});
+
+	it('warns about selectors that are invalid or match nothing', () => {
+		const result = testRule(
+			page,
+			'',
+			{ selector: '#missing', remove: ['.ad', '[=x]', '.comments'], strategy: 'selector' },
+			'readability'
+		);
+		expect(result.source).toBe('fallback');
+		expect(result.warnings).toEqual([
+			'Content selector "#missing" matches nothing.',
+			'Remove selector "[=x]" is not a valid selector.',
+			'Remove selector ".comments" matches nothing.',
+		]);
+		expect(result.markdown).not.toContain('Sponsored');
+	});
+
+	it('reports a repeated remove selector once', () => {
+		const result = testRule(
+			page,
+			'',
+			{ selector: '#post', remove: ['.comments', ' .comments ', '.ad'], strategy: 'selector' },
+			'readability'
+		);
+		expect(result.remove.map((report) => report.selector)).toEqual(['.comments', '.ad']);
+		expect(result.warnings).toEqual(['Remove selector ".comments" matches nothing.']);
+	});
+
+	it('skips an invalid content selector and falls back', () => {
+		const result = testRule(page, '', { selector: '!!!', strategy: 'selector' }, 'readability');
+		expect(result.content?.error).toBeTruthy();
+		expect(result.source).toBe('fallback');
+		expect(result.markdown).toContain('Heading');
+	});
+});
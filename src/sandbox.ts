@@ -0,0 +1,159 @@
+import {
+	convertToMarkdown,
+	type ExtractionSource,
+	frameOptionsFor,
+	getMainElement,
+	joinFootnotes,
+	pageTitles,
+} from './convert';
+import {
+	type ConversionOptions,
+	defaultConversionOptions,
+	resolveConversionOptions,
+} from './pipeline';
+import type { DomainConfig, ExtractionStrategy } from './rules';
+
+/**
+ * Elements listed per selector in a report; the count still covers every match.
+ */
+const MAX_LISTED_MATCHES = 5;
+
+/**
+ * What one selector matched in the test document.
+ */
+export interface SelectorReport {
+	selector: string;
+	/** Number of matching elements in the whole document. */
+	count: number;
+	/** Short descriptions of the first matches, e.g. `div#sidebar.ad — "Sponsored…"`. */
+	matches: string[];
+	/** Parser message when the selector is not valid CSS. */
+	error?: string;
+}
+
+/**
+ * Outcome of running a rule against an HTML snapshot.
+ */
+export interface RuleTestResult {
+	/** Converted body with footnotes. */
+	markdown: string;
+	toc: string;
+	/** Step that produced the content root. */
+	source: ExtractionSource;
+	content: SelectorReport | null;
+	remove: SelectorReport[];
+	/** Human-readable problems: invalid selectors and selectors that match nothing. */
+	warnings: string[];
+}
+
+/**
+ * Parses an HTML snapshot the way the page would have loaded it. The URL becomes the document's
+ * base, so relative links and images resolve as they did on the original page.
+ * @param html - Page source.
+ * @param url - Address of the page, used to resolve relative URLs; optional.
+ */
+export function parseSnapshot(html: string, url: string): Document {
+	const doc = new DOMParser().parseFromString(html, 'text/html');
+	if (url && !doc.querySelector('base[href]')) {
+		const base = doc.createElement('base');
+		base.href = url;
+		doc.head.prepend(base);
+	}
+	return doc;
+}
+
+/**
+ * Describes an element for the match list: its tag, id and classes, then the start of its text.
+ */
+export function describeElement(el: Element): string {
+	const id = el.id ? `#${el.id}` : '';
+	const classes = Array.from(el.classList)
+		.map((name) => `.${name}`)
+		.join('');
+	const text = (el.textContent ?? '').replace(/\s+/g, ' ').trim();
+	const snippet = text ? ` — "${text.length > 40 ? `${text.slice(0, 40)}…` : text}"` : '';
+	return `${el.tagName.toLowerCase()}${id}${classes}${snippet}`;
+}
+
+/**
+ * Runs a selector against a document and summarises what it matched.
+ * @param doc - Parsed snapshot.
+ * @param selector - CSS selector to check.
+ */
+export function inspectSelector(doc: ParentNode, selector: string): SelectorReport {
+	try {
+		const found = Array.from(doc.querySelectorAll(selector));
+		return {
+			selector,
+			count: found.length,
+			matches: found.slice(0, MAX_LISTED_MATCHES).map(describeElement),
+		};
+	} catch (err) {
+		return {
+			selector,
+			count: 0,
+			matches: [],
+			error: err instanceof Error ? err.message : String(err),
+		};
+	}
+}
+
+function warningFor(report: SelectorReport, role: string): string | null {
+	if (report.error !== undefined) {
+		return `${role} "${report.selector}" is not a valid selector.`;
+	}
+	if (report.count === 0) {
+		return `${role} "${report.selector}" matches nothing.`;
+	}
+	return null;
+}
+
+/**
+ * Converts an HTML snapshot with a rule exactly as a page conversion would, using
+ * `getMainElement` and `convertToMarkdown`, and reports what each selector matched.
+ * @param html - Page source.
+ * @param url - Address of the page; optional.
+ * @param config - Rule to test.
+ * @param defaultStrategy - Strategy used when the rule does not set one.
+ * @param globalConversion - Conversion steps from the settings, before the rule's overrides.
+ */
+export function testRule(
+	html: string,
+	url: string,
+	config: DomainConfig,
+	defaultStrategy: ExtractionStrategy,
+	globalConversion: ConversionOptions = defaultConversionOptions
+): RuleTestResult {
+	const doc = parseSnapshot(html, url);
+	const selector = config.selector.trim();
+	// Each selector is reported once, however often the rule lists it.
+	const removeSelectors = Array.from(
+		new Set((config.remove ?? []).map((item) => item.trim()).filter(Boolean))
+	);
+
+	const content = selector ? inspectSelector(doc, selector) : null;
+	const remove = removeSelectors.map((item) => inspectSelector(doc, item));
+	const warnings = [
+		content && warningFor(content, 'Content selector'),
+		...remove.map((report) => warningFor(report, 'Remove selector')),
+	].filter((warning): warning is string => !!warning);
+
+	const validRemove = remove.filter((report) => report.error === undefined).map((r) => r.selector);
+	const options = resolveConversionOptions(globalConversion, config.conversion);
+	const main = getMainElement(
+		doc,
+		{ ...config, selector: content?.error === undefined ? selector : '' },
+		defaultStrategy,
+		frameOptionsFor(options)
+	);
+	const converted = convertToMarkdown(main.element, validRemove, options, pageTitles(doc, main));
+
+	return {
+		markdown: joinFootnotes(converted.markdown, converted.footnotes),
+		toc: converted.toc,
+		source: main.source,
+		content,
+		remove,
+		warnings,
+	};
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { buildSelector, isGeneratedIdentifier } from './selectors';
+
+function setup(html: string): Document {
+	document.body.innerHTML = html;
+	return document;
+}
+
+function pick(doc: Document, selector: string): Element {
+	const el = doc.querySelector(selector);
+	if (!el) throw new Error(`Missing ${selector}`);
+	return el;
+}
+
+describe('isGeneratedIdentifier', () => {
+	it('flags hashed and numbered names', () => {
+		for (const name of ['css-1q2w3e', 'sc-bdVaJa', 'Header_title__3xYz1', 'post-12345', 'x7hj2k']) {
+			expect(isGeneratedIdentifier(name), name).toBe(true);
+		}
+	});
+
+	it('keeps hand-written names', () => {
+		for (const name of ['content', 'post-body', 'main-nav', 'h2', 'article__title']) {
+			expect(isGeneratedIdentifier(name), name).toBe(false);
+		}
+	});
+
+	it('treats utility classes with special characters as unstable', () => {
+		expect(isGeneratedIdentifier('md:flex')).toBe(true);
+		expect(isGeneratedIdentifier('w-[42px]')).toBe(true);
+	});
+});
+
+describe('buildSelector', () => {
+	it('prefers a hand-written id', () => {
+		const doc = setup('<div id="content" class="css-abc123"><p>Hi</p></div>');
+		expect(buildSelector(pick(doc, 'div'))).toBe('#content');
+	});
+
+	it('skips generated ids in favour of data attributes', () => {
+		const doc = setup('<div id="ember1234" data-testid="article-body"><p>Hi</p></div>');
+		expect(buildSelector(pick(doc, 'div'))).toBe('div[data-testid="article-body"]');
+	});
+
+	it('uses a unique semantic tag', () => {
+		const doc = setup('<nav></nav><article class="sc-xyz12"><p>Text</p></article>');
+		expect(buildSelector(pick(doc, 'article'))).toBe('article');
+	});
+
+	it('uses stable classes and ignores generated ones', () => {
+		const doc = setup(
+			'<div class="css-9f8e7d sidebar"></div><div class="css-1a2b3c post-body"></div>'
+		);
+		expect(buildSelector(pick(doc, '.post-body'))).toBe('div.post-body');
+	});
+
+	it('walks up to an identifiable ancestor and disambiguates siblings', () => {
+		const doc = setup(
+			'<main><div class="css-aa11bb"><p>One</p><p>Two</p></div></main><footer><p>Three</p></footer>'
+		);
+		const target = doc.querySelectorAll('main p')[1];
+		const selector = buildSelector(target);
+		expect(selector).toBe('main > div > p:nth-of-type(2)');
+		expect(doc.querySelectorAll(selector)).toHaveLength(1);
+		expect(doc.querySelector(selector)).toBe(target);
+	});
+
+	it('disambiguates siblings whose class needs escaping', () => {
+		const doc = setup(
+			'<main><ul class="css-aa11bb"><li class="a.b">One</li><li class="a.b">Two</li></ul></main>'
+		);
+		const target = doc.querySelectorAll('li')[1];
+		const selector = buildSelector(target);
+		expect(selector).toBe('main > ul > li.a\\.b:nth-of-type(2)');
+		expect(doc.querySelectorAll(selector)).toHaveLength(1);
+	});
+
+	it('always returns a selector matching the element', () => {
+		const doc = setup('<div><span></span><span></span></div><div><span></span></div>');
+		for (const el of Array.from(doc.querySelectorAll('span'))) {
+			const selector = buildSelector(el);
+			expect(doc.querySelector(selector), selector).toBe(el);
+			expect(doc.querySelectorAll(selector)).toHaveLength(1);
+		}
+	});
+});
@@ -0,0 +1,172 @@
+/**
+ * Attributes that sites add for tests, analytics or microdata. They rarely change between
+ * deployments, unlike generated class names, so they make the most durable selectors.
+ */
+const STABLE_ATTRIBUTES = [
+	'data-testid',
+	'data-test',
+	'data-test-id',
+	'data-qa',
+	'data-cy',
+	'data-component',
+	'data-module',
+	'data-section',
+	'itemprop',
+];
+
+/**
+ * Tags that describe their content well enough to be selected on their own.
+ */
+const SEMANTIC_TAGS = new Set([
+	'ARTICLE',
+	'MAIN',
+	'NAV',
+	'ASIDE',
+	'HEADER',
+	'FOOTER',
+	'SECTION',
+	'FORM',
+	'FIGURE',
+	'DIALOG',
+]);
+
+/**
+ * Patterns of identifiers produced by CSS-in-JS libraries, CSS modules and build tools, or that
+ * embed record ids, none of which survive a redeploy or match other pages of the site.
+ */
+const GENERATED_PATTERNS = [
+	/\d{3,}/,
+	/^(css|sc|jsx|emotion|styled|svelte|ember|tw)-/i,
+	/__[\w-]*\d[\w-]*$/,
+	/^(?=[a-z]*\d)(?=\d*[a-z])[a-z\d]{5,}$/i,
+	/[:[\]/@!%]/,
+];
+
+/** Stable classes combined at most in one selector part. */
+const MAX_CLASSES = 2;
+
+/**
+ * Tells whether an id or class name looks generated rather than written by a developer.
+ * @param name - Identifier to inspect.
+ */
+export function isGeneratedIdentifier(name: string): boolean {
+	return GENERATED_PATTERNS.some((pattern) => pattern.test(name));
+}
+
+/**
+ * Escapes an identifier for use in a selector, using `CSS.escape` when the environment has it.
+ */
+function escapeIdentifier(value: string): string {
+	if (typeof CSS !== 'undefined' && typeof CSS.escape === 'function') {
+		return CSS.escape(value);
+	}
+	return value.replace(/^(\d)/, '\\3$1 ').replace(/[^\w-]/g, (char) => `\\${char}`);
+}
+
+function escapeAttributeValue(value: string): string {
+	return value.replace(/["\\]/g, '\\$&');
+}
+
+function matchesOnly(doc: ParentNode, selector: string, el: Element): boolean {
+	try {
+		const matches = doc.querySelectorAll(selector);
+		return matches.length === 1 && matches[0] === el;
+	} catch (_err) {
+		return false;
+	}
+}
+
+/**
+ * Lists selectors that identify an element on their own, most durable first: a hand-written id,
+ * a stable data attribute, a semantic tag, then the tag with its stable classes.
+ */
+function anchorCandidates(el: Element): string[] {
+	const tag = el.tagName.toLowerCase();
+	const candidates: string[] = [];
+
+	if (el.id && !isGeneratedIdentifier(el.id)) {
+		candidates.push(`#${escapeIdentifier(el.id)}`);
+	}
+	for (const attribute of STABLE_ATTRIBUTES) {
+		const value = el.getAttribute(attribute);
+		if (value && !isGeneratedIdentifier(value)) {
+			candidates.push(`${tag}[${attribute}="${escapeAttributeValue(value)}"]`);
+		}
+	}
+	const role = el.getAttribute('role');
+	if (role) {
+		candidates.push(`${tag}[role="${escapeAttributeValue(role)}"]`);
+	}
+	if (SEMANTIC_TAGS.has(el.tagName)) {
+		candidates.push(tag);
+	}
+
+	const classes = stableClasses(el);
+	for (let count = 1; count <= Math.min(MAX_CLASSES, classes.length); count++) {
+		candidates.push(
+			`${tag}${classes
+				.slice(0, count)
+				.map((name) => `.${escapeIdentifier(name)}`)
+				.join('')}`
+		);
+	}
+	return candidates;
+}
+
+/**
+ * Class names that do not look generated, unescaped.
+ */
+function stableClasses(el: Element): string[] {
+	return Array.from(el.classList).filter((name) => !isGeneratedIdentifier(name));
+}
+
+/**
+ * Describes an element relative to its parent: its tag and first stable class, plus
+ * `:nth-of-type` when siblings would otherwise match too.
+ */
+function pathPart(el: Element): string {
+	const tag = el.tagName.toLowerCase();
+	const [firstClass] = stableClasses(el);
+	const part = firstClass ? `${tag}.${escapeIdentifier(firstClass)}` : tag;
+
+	const parent = el.parentElement;
+	if (!parent) return part;
+	const siblings = Array.from(parent.children).filter((child) => child.tagName === el.tagName);
+	const similar = siblings.filter((child) => !firstClass || child.classList.contains(firstClass));
+	if (similar.length <= 1) return part;
+	return `${part}:nth-of-type(${siblings.indexOf(el) + 1})`;
+}
+
+/**
+ * Builds a selector that matches exactly the given element and is likely to keep working when
+ * the site is redeployed. Ids, test and microdata attributes and semantic tags are preferred over
+ * class names; generated class names and ids are ignored. When nothing identifies the element on
+ * its own, the selector walks up to the nearest ancestor that does; a purely positional path is
+ * only used when no ancestor can be identified.
+ * @param el - Element to describe.
+ * @param root - Document or subtree the selector must be unique in.
+ */
+export function buildSelector(el: Element, root: ParentNode = el.ownerDocument): string {
+	const path: string[] = [];
+	let positional: string | null = null;
+
+	for (let node: Element | null = el; node; node = node.parentElement) {
+		if (node.tagName === 'BODY' || node.tagName === 'HTML') {
+			path.unshift(node.tagName.toLowerCase());
+			break;
+		}
+
+		const anchor = anchorCandidates(node).find((candidate) =>
+			matchesOnly(root, [candidate, ...path].join(' > '), el)
+		);
+		if (anchor) {
+			return [anchor, ...path].join(' > ');
+		}
+
+		path.unshift(pathPart(node));
+		if (!positional && matchesOnly(root, path.join(' > '), el)) {
+			positional = path.join(' > ');
+		}
+	}
+	return positional ?? path.join(' > ');
+}
@@ -0,0 +1,126 @@
+import { DEFAULT_FILENAME_TEMPLATE, type FilenameConflict } from './filename';
+import { DEFAULT_FRONT_MATTER_TEMPLATE, type FrontMatterFormat } from './frontmatter';
+import type { OutputFormat, RenderOptions } from './output';
+import { type ConversionOptions, defaultConversionOptions } from './pipeline';
+import type { ExtractionStrategy } from './rules';
+import { readCustomUrlRules, writeCustomUrlRules } from './urlRules';
+
+export interface ExtensionSettings {
+	/** Strategy used when a domain rule does not specify its own. */
+	extractionStrategy: ExtractionStrategy;
+	frontMatterFormat: FrontMatterFormat;
+	/** Front matter template; see `parseFrontMatterTemplate` for the syntax. */
+	frontMatterTemplate: string;
+	/** Layout used when a conversion does not request a specific format. */
+	outputFormat: OutputFormat;
+	/** Maximum estimated tokens for the copied body; 0 disables truncation. */
+	tokenBudget: number;
+	/** Target maximum of estimated tokens per chunk for the chunked output formats. */
+	maxChunkTokens: number;
+	/** Number of past conversions kept in local history; 0 disables history. */
+	historyLimit: number;
+	/** Download path template; see `renderFilename` for the syntax. */
+	filenameTemplate: string;
+	/** Ask where to save each download instead of using the downloads folder. */
+	saveAs: boolean;
+	filenameConflict: FilenameConflict;
+	/** Optional conversion steps; domain rules can override each one. */
+	conversion: ConversionOptions;
+}
+
+/**
+ * Settings applied when the user has not saved any preferences.
+ */
+export const defaultSettings: ExtensionSettings = {
+	extractionStrategy: 'readability',
+	frontMatterFormat: 'yaml',
+	frontMatterTemplate: DEFAULT_FRONT_MATTER_TEMPLATE,
+	outputFormat: 'markdown',
+	tokenBudget: 0,
+	maxChunkTokens: 500,
+	historyLimit: 100,
+	filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
+	saveAs: false,
+	filenameConflict: 'uniquify',
+	conversion: defaultConversionOptions,
+};
+
+/**
+ * In-memory cache of the merged default and user-defined settings.
+ */
+export const settings: ExtensionSettings = { ...defaultSettings };
+
+/**
+ * Whether the custom URL rules are already stored on their own rather than only inside the
+ * `settings` item, where versions before sharded URL rules kept them.
+ */
+let urlRulesStored = true;
+
+function hasChromeStorage(): boolean {
+	return typeof chrome !== 'undefined' && !!chrome.storage;
+}
+
+/**
+ * Hydrates {@link settings} with the user's saved preferences from Chrome sync storage. Custom
+ * URL rules are stored on their own; see `readCustomUrlRules`.
+ * @returns The merged settings.
+ */
+export async function loadSettings(): Promise<ExtensionSettings> {
+	if (!hasChromeStorage()) return settings;
+
+	const [result, urlRules] = await Promise.all([
+		chrome.storage.sync.get('settings').catch((error: unknown) => {
+			console.error('Failed to load settings:', error);
+			return null;
+		}),
+		readCustomUrlRules().catch((error: unknown) => {
+			console.error('Failed to load URL rules:', error);
+			return undefined;
+		}),
+	]);
+	urlRulesStored = urlRules !== null;
+
+	const stored: Partial<ExtensionSettings> =
+		typeof result?.settings === 'object' && result.settings !== null ? result.settings : {};
+	Object.assign(settings, defaultSettings, stored, {
+		// Steps added in later versions get their defaults for users who saved older settings.
+		conversion: {
+			...defaultConversionOptions,
+			...stored.conversion,
+			urlRules: urlRules ?? stored.conversion?.urlRules ?? {},
+		},
+	});
+	return settings;
+}
+
+/**
+ * Persists a partial settings update and refreshes the in-memory cache. Custom URL rules are
+ * written only when they change or still need moving out of the `settings` item.
+ * @param update - Settings keys to overwrite.
+ */
+export async function saveSettings(update: Partial<ExtensionSettings>): Promise<void> {
+	const previousUrlRules = JSON.stringify(settings.conversion.urlRules);
+	Object.assign(settings, update);
+	if (!hasChromeStorage()) return;
+
+	const { urlRules, ...conversion } = settings.conversion;
+	if (!urlRulesStored || JSON.stringify(urlRules) !== previousUrlRules) {
+		await writeCustomUrlRules(urlRules);
+		urlRulesStored = true;
+	}
+	await chrome.storage.sync.set({ settings: { ...settings, conversion } });
+}
+
+/**
+ * Collects the render settings that shape the copied output.
+ * @param current - Loaded settings.
+ */
+export function renderOptionsFor(current: ExtensionSettings): RenderOptions {
+	return {
+		frontMatter: {
+			format: current.frontMatterFormat,
+			template: current.frontMatterTemplate,
+		},
+		maxChunkTokens: current.maxChunkTokens,
+	};
+}
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { convertToMarkdown, getMainElement } from './convert';
+import { flattenShadowDom, hasShadowContent } from './shadow';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Defines a custom element that renders the given template into an open shadow root.
+ */
+function defineComponent(name: string, template: string): void {
+	customElements.define(
+		name,
+		class extends HTMLElement {
+			constructor() {
+				super();
+				this.attachShadow({ mode: 'open' }).innerHTML = template;
+			}
+		}
+	);
+}
+
+defineComponent(
+	'test-card',
+	'<h2><slot name="title">Untitled</slot></h2><div class="body"><slot></slot></div><footer><slot name="footer">No footer</slot></footer>'
+);
+defineComponent(
+	'test-frame',
+	'<section><test-card><slot name="heading" slot="title"></slot><slot></slot></test-card></section>'
+);
+defineComponent('test-article', '<article><h1>Shadow article</h1><slot></slot></article>');
+
+afterEach(() => {
+	document.body.innerHTML = '';
+});
+
+// ---------------------------------------------------------------------------
+// Flattening
+// ---------------------------------------------------------------------------
+
+describe('flattenShadowDom', () => {
+	it('returns the document itself when nothing renders through a shadow root', () => {
+		document.body.innerHTML = '<p>Plain</p>';
+		expect(hasShadowContent(document)).toBe(false);
+		expect(flattenShadowDom(document)).toBe(document);
+	});
+
+	it('puts shadow content in the light DOM and fills slots', () => {
+		document.body.innerHTML =
+			'<test-card><span slot="title">Hello</span><p>First</p>text<p>Second</p></test-card>';
+		const flat = flattenShadowDom(document);
+		const card = flat.querySelector('test-card');
+		expect(card?.querySelector('h2')?.textContent).toBe('Hello');
+		expect(card?.querySelector('.body')?.innerHTML).toBe('<p>First</p>text<p>Second</p>');
+		expect(card?.querySelector('footer')?.textContent).toBe('No footer');
+		expect(flat.querySelector('slot')).toBeNull();
+	});
+
+	it('forwards slots through nested components', () => {
+		document.body.innerHTML =
+			'<test-frame><b slot="heading">Nested</b><p>Inner body</p></test-frame>';
+		const flat = flattenShadowDom(document);
+		expect(flat.querySelector('test-frame section test-card h2 b')?.textContent).toBe('Nested');
+		expect(flat.querySelector('test-card .body p')?.textContent).toBe('Inner body');
+	});
+
+	it('leaves the original document untouched and keeps its base URL', () => {
+		document.body.innerHTML = '<test-card><p>Body</p></test-card>';
+		const flat = flattenShadowDom(document);
+		expect(flat).not.toBe(document);
+		expect(document.querySelector('test-card')?.children).toHaveLength(1);
+		expect(flat.querySelector('base')?.getAttribute('href')).toBe(document.baseURI);
+	});
+
+	it('expands declarative shadow roots in parsed snapshots', () => {
+		const doc = new DOMParser().parseFromString(
+			'<x-post><template shadowrootmode="open"><h2>Title</h2><slot></slot></template><p>Body</p></x-post>',
+			'text/html'
+		);
+		const flat = flattenShadowDom(doc);
+		expect(flat.querySelector('x-post')?.innerHTML).toBe('<h2>Title</h2><p>Body</p>');
+	});
+});
+
+describe('getMainElement with shadow DOM', () => {
+	it('converts content rendered inside shadow roots', () => {
+		document.body.innerHTML =
+			'<test-article><p>Slotted paragraph with enough words to count as content.</p></test-article>';
+		const main = getMainElement(document, { selector: 'article' }, 'selector');
+		expect(main.source).toBe('selector');
+		const { markdown } = convertToMarkdown(main.element, []);
+		expect(markdown).toContain('Shadow article');
+		expect(markdown).toContain('Slotted paragraph with enough words');
+	});
+});
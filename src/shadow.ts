@@ -0,0 +1,130 @@
+/**
+ * Shadow DOM flattening. Readability, selectors and Turndown only see the light DOM, so content
+ * that web components render inside shadow roots is copied into a plain document first, with each
+ * `<slot>` replaced by the children assigned to it.
+ */
+
+/**
+ * The shadow tree being copied and the scope of its host, for resolving slots.
+ */
+interface ShadowScope {
+	host: Element;
+	parent: ShadowScope | null;
+}
+
+/**
+ * Returns the open shadow root of an element, or the content of a declarative shadow root
+ * (`<template shadowrootmode="open">`) left unattached, as in a saved snapshot.
+ */
+function shadowContent(el: Element): DocumentFragment | null {
+	if (el.shadowRoot) return el.shadowRoot;
+	const template = declarativeShadowRoot(el);
+	return template ? template.content : null;
+}
+
+function declarativeShadowRoot(el: Element): HTMLTemplateElement | null {
+	const first = el.firstElementChild;
+	return first?.tagName === 'TEMPLATE' &&
+		(first.getAttribute('shadowrootmode') ?? first.getAttribute('shadowroot')) === 'open'
+		? (first as HTMLTemplateElement)
+		: null;
+}
+
+/**
+ * Lists the light children of a host that a slot receives: elements with a matching `slot`
+ * attribute, plus text for the default slot.
+ */
+function assignedNodes(host: Element, name: string): Node[] {
+	const template = declarativeShadowRoot(host);
+	return Array.from(host.childNodes).filter((node) => {
+		if (node === template) return false;
+		if (node.nodeType === Node.ELEMENT_NODE) {
+			return ((node as Element).getAttribute('slot') ?? '') === name;
+		}
+		return name === '' && node.nodeType === Node.TEXT_NODE;
+	});
+}
+
+/**
+ * Replaces an element of the composed tree while it is copied into `target`.
+ * @returns The node to insert instead, or null to copy the element as usual.
+ */
+export type ElementReplacer = (el: Element, target: Document) => Node | null;
+
+/**
+ * Copies a node of the composed tree into `target`, replacing shadow hosts' light children with
+ * their shadow content and slots with what they display.
+ */
+function composedClone(
+	node: Node,
+	target: Document,
+	scope: ShadowScope | null,
+	replace?: ElementReplacer
+): Node {
+	if (node.nodeType !== Node.ELEMENT_NODE) {
+		return target.importNode(node, false);
+	}
+
+	const el = node as Element;
+	if (el.tagName === 'SLOT' && scope) {
+		const fragment = target.createDocumentFragment();
+		const assigned = assignedNodes(scope.host, el.getAttribute('name') ?? '');
+		const [children, childScope] =
+			assigned.length > 0 ? [assigned, scope.parent] : [Array.from(el.childNodes), scope];
+		for (const child of children) {
+			fragment.appendChild(composedClone(child, target, childScope, replace));
+		}
+		return fragment;
+	}
+
+	const replacement = replace?.(el, target);
+	if (replacement) {
+		return replacement;
+	}
+
+	const clone = target.importNode(el, false);
+	const shadow = shadowContent(el);
+	const [children, childScope] = shadow
+		? [Array.from(shadow.childNodes), { host: el, parent: scope }]
+		: [Array.from(el.childNodes), scope];
+	for (const child of children) {
+		clone.appendChild(composedClone(child, target, childScope, replace));
+	}
+	return clone;
+}
+
+/**
+ * Tests whether anything under a root renders through a non-empty shadow root.
+ * @param root - Document or element to inspect.
+ */
+export function hasShadowContent(root: ParentNode): boolean {
+	return Array.from(root.querySelectorAll('*')).some(
+		(el) => (shadowContent(el)?.childNodes.length ?? 0) > 0
+	);
+}
+
+/**
+ * Copies a document into a new one where the content of open shadow roots is part of the light
+ * DOM. Slotted children appear where their slot is, and slots without assigned children show their
+ * fallback content. A `<base>` keeps relative URLs resolving against the original page.
+ * @param doc - Document to flatten; it is not modified.
+ * @param replace - Substitutes for elements of the copy, such as the content of frames.
+ * @returns The flattened copy, or `doc` itself when it has no shadow content and nothing is
+ * replaced.
+ */
+export function flattenShadowDom(doc: Document, replace?: ElementReplacer): Document {
+	if (!replace && !hasShadowContent(doc)) {
+		return doc;
+	}
+
+	const flat = doc.implementation.createHTMLDocument('');
+	const root = composedClone(doc.documentElement, flat, null, replace) as Element;
+	flat.documentElement.remove();
+	flat.appendChild(root);
+	if (!flat.querySelector('base[href]')) {
+		const base = flat.createElement('base');
+		base.setAttribute('href', doc.baseURI);
+		flat.head?.prepend(base);
+	}
+	return flat;
+}
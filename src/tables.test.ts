@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+
+import { convertToMarkdown } from './convert';
+import { type ConversionOptions, defaultConversionOptions } from './pipeline';
+import { prepareTables, renderTableAppendix, type TableData } from './tables';
+
+function html(markup: string): HTMLElement {
+	const el = document.createElement('div');
+	el.innerHTML = markup;
+	return el;
+}
+
+function markdownOf(markup: string, options: Partial<ConversionOptions> = {}): string {
+	return convertToMarkdown(html(markup), [], { ...defaultConversionOptions, ...options }).markdown;
+}
+
+const spanned = `
+	<table>
+		<caption>Quarterly <b>sales</b></caption>
+		<thead>
+			<tr><th rowspan="2">Region</th><th colspan="2">2024</th></tr>
+			<tr><th>Q1</th><th>Q2</th></tr>
+		</thead>
+		<tbody>
+			<tr><th rowspan="2">North</th><td>1</td><td>2</td></tr>
+			<tr><td colspan="2">3</td></tr>
+		</tbody>
+	</table>
+`;
+
+describe('prepareTables', () => {
+	it('combines header rows and repeats spanning cells', () => {
+		const markdown = markdownOf(spanned);
+		expect(markdown).toContain('_Quarterly **sales**_');
+		expect(markdown).toContain('| Region | 2024 / Q1 | 2024 / Q2 |');
+		expect(markdown).toContain('| North | 1 | 2 |');
+		expect(markdown).toContain('| North | 3 | 3 |');
+	});
+
+	it('writes spanning cells once with a note', () => {
+		const markdown = markdownOf(spanned, { tableSpans: 'note' });
+		expect(markdown).toContain('| North (spans 2 rows) | 1 | 2 |');
+		expect(markdown).toContain('|  | 3 (spans 2 columns) |  |');
+	});
+
+	it('clamps spans to the columns of the table', () => {
+		const markdown = markdownOf(
+			'<table><tr><th>A</th><th>B</th></tr><tr><td>1</td><td>2</td></tr><tr><td colspan="100">Footer note</td></tr></table>'
+		);
+		expect(markdown).toContain('| A | B |');
+		expect(markdown).toContain('| Footer note | Footer note |');
+		expect(markdown.match(/Footer note/g)).toHaveLength(2);
+	});
+
+	it('keeps cells with several blocks on one line and escapes pipes', () => {
+		const markdown = markdownOf(
+			'<table><tr><th>Name</th><th>Notes</th></tr><tr><td></td><td><p>a | b</p><p>c</p></td></tr></table>',
+			{ tableAppendix: 'csv' }
+		);
+		expect(markdown).toContain('|  | a \\| b<br>c |');
+		expect(markdown).toContain(',a | b c\n');
+	});
+
+	it('keeps tables that cannot be grids as plain HTML', () => {
+		const markdown = markdownOf(
+			'<table class="data" style="width: 100%"><tr><td colspan="2">A</td></tr><tr><td>B</td><td>C</td></tr></table>'
+		);
+		expect(markdown).toContain(
+			'<table><tbody><tr><td colspan="2">A</td></tr><tr><td>B</td><td>C</td></tr></tbody></table>'
+		);
+	});
+
+	it('turns tables that cannot be grids into lists when asked', () => {
+		const markdown = markdownOf(
+			'<table><tr><th>Step</th><th>Command</th></tr><tr><th>Build</th><td><pre><code>pnpm build</code></pre></td></tr><tr><th>Test</th><td></td></tr></table>',
+			{ tableFallback: 'list' }
+		);
+		expect(markdown).toContain('-   **Build**');
+		expect(markdown).toContain('**Command:**');
+		expect(markdown).toContain('pnpm build');
+		expect(markdown).toContain('-   **Test**');
+		expect(markdown).not.toContain('<table');
+	});
+
+	it('returns the text of every table in document order', () => {
+		const el = html(
+			`${spanned}<table><tr><th>Outer</th></tr><tr><td><table><tr><th>Inner</th></tr><tr><td>x</td></tr></table></td></tr></table>`
+		);
+		const tables = prepareTables(el, { tableSpans: 'note', tableFallback: 'html' });
+		expect(tables.map((table) => table.headers)).toEqual([
+			['Region', '2024 / Q1', '2024 / Q2'],
+			['Outer'],
+			['Inner'],
+		]);
+		expect(tables[0]).toMatchObject({
+			caption: 'Quarterly sales',
+			rows: [
+				['North', '1', '2'],
+				['North', '3', '3'],
+			],
+		});
+	});
+});
+
+describe('renderTableAppendix', () => {
+	const tables: TableData[] = [
+		{ caption: 'Prices', headers: ['Item', 'Price'], rows: [['Tea, green', '"3"']] },
+		{ caption: '', headers: [], rows: [['a', 'b']] },
+	];
+
+	it('writes CSV blocks', () => {
+		expect(renderTableAppendix(tables, 'csv')).toBe(
+			[
+				'## Tables',
+				'### Table 1: Prices',
+				'```csv\nItem,Price\n"Tea, green","""3"""\n```',
+				'### Table 2',
+				'```csv\na,b\n```',
+			].join('\n\n')
+		);
+	});
+
+	it('writes JSON objects keyed by column, or arrays without a header', () => {
+		const appendix = renderTableAppendix(tables, 'json');
+		expect(appendix).toContain('"Item": "Tea, green"');
+		expect(appendix).toContain('[\n  [\n    "a",\n    "b"\n  ]\n]');
+		expect(renderTableAppendix(tables, 'none')).toBe('');
+	});
+
+	it('is added to the conversion when enabled', () => {
+		expect(markdownOf(spanned, { tableAppendix: 'csv' })).toContain(
+			'## Tables\n\n### Table 1: Quarterly sales\n\n```csv\nRegion,2024 / Q1,2024 / Q2'
+		);
+	});
+});
@@ -0,0 +1,385 @@
+/**
+ * Table normalization. Markdown tables are plain grids with one header row, so each table is
+ * rewritten before Turndown runs: spanning cells are repeated or annotated, several header rows are
+ * combined into one, and tables that still cannot be a grid are kept as HTML or turned into lists.
+ */
+
+import type { TableAppendix, TableFallback, TableSpanStyle } from './pipeline';
+
+/**
+ * Text of a table, for the CSV or JSON appendix.
+ */
+export interface TableData {
+	caption: string;
+	/** Column labels combined from every header row; empty when the table has no header. */
+	headers: string[];
+	rows: string[][];
+}
+
+export interface TableOptions {
+	tableSpans: TableSpanStyle;
+	tableFallback: TableFallback;
+}
+
+/**
+ * One position of the table grid and the cell covering it.
+ */
+interface GridSlot {
+	cell: Element;
+	/** Position within the cell's span; 0, 0 where the cell starts. */
+	row: number;
+	column: number;
+	/** Rows and columns the cell spans, clipped to the table. */
+	rowSpan: number;
+	colSpan: number;
+}
+
+type Grid = Array<Array<GridSlot | null>>;
+
+/** Marks tables kept as HTML, for the Turndown `htmlTables` rule. */
+const HTML_TABLE_ATTRIBUTE = 'data-table-html';
+
+/** Attributes kept on tables written as HTML; everything else is noise for a reader. */
+const HTML_TABLE_ATTRIBUTES = new Set(['colspan', 'rowspan', 'href', 'src', 'alt', 'title']);
+
+// ---------------------------------------------------------------------------
+// Grid
+// ---------------------------------------------------------------------------
+
+function ownRows(table: Element): Element[] {
+	return Array.from(table.querySelectorAll('tr')).filter((row) => row.closest('table') === table);
+}
+
+function cellsOf(row: Element): Element[] {
+	return Array.from(row.children).filter((cell) => cell.tagName === 'TD' || cell.tagName === 'TH');
+}
+
+function spanOf(cell: Element, name: string, max: number): number {
+	const value = parseInt(cell.getAttribute(name) ?? '1', 10);
+	// rowspan="0" spans the remaining rows.
+	if (value === 0 && name === 'rowspan') return max;
+	return Number.isNaN(value) || value < 1 ? 1 : Math.min(value, max);
+}
+
+/**
+ * Counts the real columns of a table: the widest row with every cell taking one column, so that a
+ * footer spanning "every column" with a large `colspan` does not widen the table.
+ */
+function columnCount(rows: Element[]): number {
+	const taken = rows.map(() => 0);
+	rows.forEach((row, r) => {
+		for (const cell of cellsOf(row)) {
+			const rowSpan = spanOf(cell, 'rowspan', rows.length - r);
+			for (let i = 0; i < rowSpan; i++) {
+				taken[r + i]++;
+			}
+		}
+	});
+	return Math.max(1, ...taken);
+}
+
+/**
+ * Lays the cells of a table out on a grid, following the HTML table model: each cell takes the
+ * first free position of its row and covers the positions of its spans.
+ */
+function buildGrid(rows: Element[]): Grid {
+	const columns = columnCount(rows);
+	const grid: Grid = rows.map(() => []);
+	rows.forEach((row, r) => {
+		let c = 0;
+		for (const cell of cellsOf(row)) {
+			while (grid[r][c]) c++;
+			const rowSpan = spanOf(cell, 'rowspan', rows.length - r);
+			const colSpan = spanOf(cell, 'colspan', Math.max(1, columns - c));
+			for (let i = 0; i < rowSpan; i++) {
+				for (let j = 0; j < colSpan; j++) {
+					grid[r + i][c + j] = { cell, row: i, column: j, rowSpan, colSpan };
+				}
+			}
+			c += colSpan;
+		}
+	});
+
+	const width = Math.max(0, ...grid.map((row) => row.length));
+	return grid.map((row) => Array.from({ length: width }, (_, c) => row[c] ?? null));
+}
+
+/**
+ * Counts the header rows: rows in `<thead>`, or else leading rows made of `<th>` cells only.
+ */
+function headerRowCount(rows: Element[]): number {
+	const inHead = rows.findIndex((row) => row.parentElement?.tagName !== 'THEAD');
+	if (inHead !== 0) {
+		return inHead === -1 ? rows.length : inHead;
+	}
+	const count = rows.findIndex((row) => {
+		const cells = cellsOf(row);
+		return cells.length === 0 || cells.some((cell) => cell.tagName !== 'TH');
+	});
+	// A table of header cells only reads as a header row and data.
+	return count === -1 ? Math.min(rows.length, 1) : count;
+}
+
+/** Elements whose text is set apart from the text around them. */
+const BLOCK_SELECTOR =
+	'address, blockquote, br, dd, div, dt, h1, h2, h3, h4, h5, h6, li, p, pre, td, th';
+
+/**
+ * Reads the text of a cell on one line, keeping the words of separate blocks apart.
+ */
+function cellText(cell: Element): string {
+	const copy = cell.cloneNode(true) as Element;
+	for (const block of Array.from(copy.querySelectorAll(BLOCK_SELECTOR))) {
+		block.after(' ');
+	}
+	return (copy.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Combines the header rows into one label per column, e.g. "2024 / Q1" under a "2024" cell that
+ * spans the quarters.
+ */
+function columnLabels(grid: Grid, headerRows: number): string[] {
+	const width = grid[0]?.length ?? 0;
+	return Array.from({ length: width }, (_, c) => {
+		const parts: string[] = [];
+		for (let r = 0; r < headerRows; r++) {
+			const slot = grid[r][c];
+			const text = slot ? cellText(slot.cell) : '';
+			if (text && text !== parts[parts.length - 1]) {
+				parts.push(text);
+			}
+		}
+		return parts.join(' / ');
+	});
+}
+
+function spanNote(slot: GridSlot): string {
+	const parts = [
+		slot.rowSpan > 1 ? `${slot.rowSpan} rows` : '',
+		slot.colSpan > 1 ? `${slot.colSpan} columns` : '',
+	].filter(Boolean);
+	return parts.length > 0 ? ` (spans ${parts.join(' and ')})` : '';
+}
+
+function tableCaption(table: Element): Element | undefined {
+	return Array.from(table.children).find((child) => child.tagName === 'CAPTION');
+}
+
+/**
+ * Tests whether a table can be written as a Markdown grid: it needs a header row, and its cells
+ * must not hold tables or code blocks, whose lines a grid cell cannot hold.
+ */
+function isGridTable(table: Element, headerRows: number): boolean {
+	return headerRows > 0 && !table.querySelector('table, pre');
+}
+
+// ---------------------------------------------------------------------------
+// Output
+// ---------------------------------------------------------------------------
+
+/**
+ * Copies the content of the cell covering a slot into `target`: once where the cell starts, with a
+ * note about its span, or in every slot it covers.
+ */
+function fillSlot(target: Element, slot: GridSlot | null, spans: TableSpanStyle): void {
+	if (!slot) return;
+	const start = slot.row === 0 && slot.column === 0;
+	if (!start && spans === 'note') return;
+	for (const child of Array.from(slot.cell.childNodes)) {
+		target.appendChild(child.cloneNode(true));
+	}
+	if (start && spans === 'note') {
+		target.appendChild(target.ownerDocument.createTextNode(spanNote(slot)));
+	}
+}
+
+/**
+ * Builds a table with a single header row and no spans, which the GFM table rules can write.
+ */
+function gridTable(doc: Document, grid: Grid, headerRows: number, spans: TableSpanStyle): Element {
+	const table = doc.createElement('table');
+	const head = table.appendChild(doc.createElement('thead')).appendChild(doc.createElement('tr'));
+	for (const label of columnLabels(grid, headerRows)) {
+		head.appendChild(doc.createElement('th')).textContent = label;
+	}
+
+	const body = table.appendChild(doc.createElement('tbody'));
+	for (const row of grid.slice(headerRows)) {
+		const tr = body.appendChild(doc.createElement('tr'));
+		for (const slot of row) {
+			fillSlot(tr.appendChild(doc.createElement('td')), slot, spans);
+		}
+	}
+	return table;
+}
+
+/**
+ * Builds a list with one item per body row. A row that starts with a header cell is named after it;
+ * the other cells become sub-items labelled with their column.
+ */
+function listTable(doc: Document, grid: Grid, headerRows: number, spans: TableSpanStyle): Element {
+	const labels = columnLabels(grid, headerRows);
+	const list = doc.createElement('ul');
+	for (const row of grid.slice(headerRows)) {
+		const item = doc.createElement('li');
+		const fields = doc.createElement('ul');
+		row.forEach((slot, c) => {
+			// A cell spanning columns is listed once per row, and one spanning rows once in all.
+			if (!slot || slot.column > 0 || (slot.row > 0 && spans === 'note')) return;
+			if (!cellText(slot.cell)) return;
+			const rowHeader = c === 0 && slot.cell.tagName === 'TH';
+			const target = doc.createElement(rowHeader ? 'strong' : 'li');
+			if (!rowHeader && labels[c]) {
+				target.appendChild(doc.createElement('strong')).textContent = `${labels[c]}:`;
+				target.appendChild(doc.createTextNode(' '));
+			}
+			fillSlot(target, slot, spans);
+			(rowHeader ? item : fields).appendChild(target);
+		});
+		if (fields.children.length > 0) {
+			item.appendChild(fields);
+		}
+		if (item.hasChildNodes()) {
+			list.appendChild(item);
+		}
+	}
+	return list;
+}
+
+/**
+ * Strips a table kept as HTML down to its structure and marks it for the `htmlTables` rule.
+ */
+function markHtmlTable(table: Element): void {
+	for (const el of [table, ...Array.from(table.querySelectorAll('*'))]) {
+		for (const attribute of Array.from(el.attributes)) {
+			if (!HTML_TABLE_ATTRIBUTES.has(attribute.name)) {
+				el.removeAttribute(attribute.name);
+			}
+		}
+	}
+	table.setAttribute(HTML_TABLE_ATTRIBUTE, '');
+}
+
+function captionParagraph(doc: Document, caption: Element): Element {
+	const paragraph = doc.createElement('p');
+	const emphasis = paragraph.appendChild(doc.createElement('em'));
+	for (const child of Array.from(caption.childNodes)) {
+		emphasis.appendChild(child);
+	}
+	return paragraph;
+}
+
+function tableData(grid: Grid, headerRows: number, caption: string): TableData {
+	const text = (slot: GridSlot | null) => (slot ? cellText(slot.cell) : '');
+	return {
+		caption,
+		headers: headerRows > 0 ? columnLabels(grid, headerRows) : [],
+		rows: grid.slice(headerRows).map((row) => row.map(text)),
+	};
+}
+
+/**
+ * Rewrites every table so that Turndown can write it faithfully. Tables with a header row become a
+ * grid with one combined header row and no spans. Other tables, and tables holding tables or code
+ * blocks, are kept as HTML or turned into lists. Captions move to a paragraph above the table.
+ * Nested tables are rewritten before the tables around them.
+ * @param el - Element whose tables are rewritten in place.
+ * @param options - How spans are written and what replaces tables that cannot be grids.
+ * @returns The text of each table, in document order, for {@link renderTableAppendix}.
+ */
+export function prepareTables(el: HTMLElement, options: TableOptions): TableData[] {
+	const doc = el.ownerDocument;
+	const tables = Array.from(el.querySelectorAll('table')).reverse();
+	const data: TableData[] = [];
+
+	for (const table of tables) {
+		const rows = ownRows(table);
+		const grid = buildGrid(rows);
+		const headerRows = headerRowCount(rows);
+		const caption = tableCaption(table);
+		data.unshift(tableData(grid, headerRows, caption ? cellText(caption) : ''));
+
+		const asGrid = isGridTable(table, headerRows);
+		if (!asGrid && options.tableFallback === 'html') {
+			markHtmlTable(table);
+			continue;
+		}
+
+		const replacement = asGrid
+			? gridTable(doc, grid, headerRows, options.tableSpans)
+			: listTable(doc, grid, headerRows, options.tableSpans);
+		table.replaceWith(replacement);
+		if (caption) {
+			replacement.before(captionParagraph(doc, caption));
+		}
+	}
+	return data;
+}
+
+/**
+ * Tests whether a node is a table that {@link prepareTables} kept as HTML.
+ */
+export function isHtmlTable(node: Node): boolean {
+	return node.nodeName === 'TABLE' && (node as Element).hasAttribute(HTML_TABLE_ATTRIBUTE);
+}
+
+/**
+ * Writes a table kept as HTML, without the marker {@link prepareTables} put on it.
+ */
+export function htmlTableMarkup(table: Element): string {
+	const copy = table.cloneNode(true) as Element;
+	copy.removeAttribute(HTML_TABLE_ATTRIBUTE);
+	return `\n\n${copy.outerHTML}\n\n`;
+}
+
+// ---------------------------------------------------------------------------
+// Appendix
+// ---------------------------------------------------------------------------
+
+function csvField(value: string): string {
+	return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toCsv(table: TableData): string {
+	const lines = table.headers.length > 0 ? [table.headers, ...table.rows] : table.rows;
+	return lines.map((line) => line.map(csvField).join(',')).join('\n');
+}
+
+/**
+ * Writes rows as objects keyed by column label, or as arrays when the table has no header.
+ */
+function toJson(table: TableData): string {
+	if (table.headers.length === 0) {
+		return JSON.stringify(table.rows, null, 2);
+	}
+	const keys: string[] = [];
+	for (const [index, header] of table.headers.entries()) {
+		const base = header || `Column ${index + 1}`;
+		let key = base;
+		for (let n = 2; keys.includes(key); n++) key = `${base} (${n})`;
+		keys.push(key);
+	}
+	const objects = table.rows.map((row) =>
+		Object.fromEntries(keys.map((key, index) => [key, row[index] ?? '']))
+	);
+	return JSON.stringify(objects, null, 2);
+}
+
+/**
+ * Renders the "Tables" appendix: the data of each table as a fenced CSV or JSON block.
+ * @param tables - Table data from {@link prepareTables}.
+ * @param format - Appendix format; `none` produces nothing.
+ */
+export function renderTableAppendix(tables: TableData[], format: TableAppendix): string {
+	if (format === 'none' || tables.length === 0) return '';
+
+	const sections = tables.map((table, index) => {
+		const title = `Table ${index + 1}${table.caption ? `: ${table.caption}` : ''}`;
+		const body = format === 'csv' ? toCsv(table) : toJson(table);
+		let fence = '```';
+		while (body.includes(fence)) fence += '`';
+		return `### ${title}\n\n${fence}${format}\n${body}\n${fence}`;
+	});
+	return ['## Tables', ...sections].join('\n\n');
+}
@@ -2,11 +2,17 @@ import { Toast } from '@base-ui/react';
 import { StrictMode, useEffect } from 'react';
 import { createRoot, type Root } from 'react-dom/client';
 
+type ToastAction = {
+	label: string;
+	onClick: () => void;
+};
+
 type ToastOptions = {
 	title: string;
 	description?: string;
 	type?: string;
 	timeout?: number;
+	action?: ToastAction;
 };
 
 let toastRoot: Root | null = null;
@@ -33,7 +39,8 @@ function ensureHost() {
 	containerEl.id = 'page-to-markdown-toast-root';
 	document.documentElement.appendChild(containerEl);
 
-	const shadow = containerEl.attachShadow({ mode: 'open' });
+	// Closed, so that `flattenShadowDom` leaves the extension's own UI out of conversions.
+	const shadow = containerEl.attachShadow({ mode: 'closed' });
 
 	toastRoot = createRoot(shadow);
 	toastRoot.render(
@@ -59,6 +66,9 @@ function ToastHost() {
 				type: options.type,
 				title: options.title,
 				description: options.description,
+				actionProps: options.action
+					? { children: options.action.label, onClick: options.action.onClick }
+					: undefined,
 			});
 		};
 		flushQueue();
@@ -129,6 +139,21 @@ function ToastHost() {
 								{toast.description}
 							</Toast.Description>
 						) : null}
+						{toast.actionProps ? (
+							<Toast.Action
+								style={{
+									marginTop: '0.5rem',
+									border: '0.0625rem solid rgba(15, 23, 42, 0.16)',
+									borderRadius: '0.375rem',
+									background: 'transparent',
+									color: 'inherit',
+									fontSize: '0.75rem',
+									fontWeight: 600,
+									padding: '0.25rem 0.6rem',
+									cursor: 'pointer',
+								}}
+							/>
+						) : null}
 					</div>
 					<Toast.Close
 						aria-label="Dismiss notification"
@@ -168,13 +193,20 @@ function enqueueToast(options: ToastOptions) {
 /**
  * Displays a success toast that indicates Markdown was copied.
  * @param description - Optional body text appended to the notification.
+ * @param title - Optional heading, for outputs other than Markdown.
+ * @param action - Optional button shown below the description; keeps the toast open longer.
  */
-export function showSuccessToast(description?: string) {
+export function showSuccessToast(
+	description?: string,
+	title = 'Markdown copied',
+	action?: ToastAction
+) {
 	enqueueToast({
-		title: 'Markdown copied',
+		title,
 		description: description ?? 'Clean Markdown is ready to paste.',
 		type: 'success',
-		timeout: 2500,
+		timeout: action ? 6000 : 2500,
+		action,
 	});
 }
 
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+
+import { estimateTokens, formatCount, measureText, truncateToBudget } from './tokens';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const paragraph = (words: number) => Array.from({ length: words }, () => 'word').join(' ');
+
+const content = {
+	markdown: [
+		'Intro paragraph.',
+		'## First {#first}',
+		paragraph(40),
+		'## Second {#second}',
+		`${paragraph(40)}[^1]`,
+		'### Nested {#nested}',
+		paragraph(40),
+	].join('\n\n'),
+	toc: '- [First](#first)\n- [Second](#second)\n  - [Nested](#nested)',
+	footnotes: '[^1]: A note.',
+};
+
+// ---------------------------------------------------------------------------
+// Counting
+// ---------------------------------------------------------------------------
+
+describe('estimateTokens', () => {
+	it('counts short words as one token each', () => {
+		expect(estimateTokens('the cat sat on the mat')).toBe(6);
+	});
+
+	it('splits long words, digits and punctuation', () => {
+		expect(estimateTokens('internationalization')).toBe(5);
+		expect(estimateTokens('1234567')).toBe(3);
+		expect(estimateTokens('a --> b')).toBe(4);
+	});
+
+	it('counts CJK characters individually', () => {
+		expect(estimateTokens('日本語')).toBe(3);
+	});
+
+	it('returns zero for empty text', () => {
+		expect(estimateTokens('')).toBe(0);
+	});
+});
+
+describe('measureText', () => {
+	it('counts characters, words and tokens', () => {
+		expect(measureText('Hello, world!')).toEqual({ characters: 13, words: 2, tokens: 4 });
+	});
+});
+
+describe('formatCount', () => {
+	it('abbreviates thousands', () => {
+		expect(formatCount(950)).toBe('950');
+		expect(formatCount(1000)).toBe('1k');
+		expect(formatCount(12_440)).toBe('12.4k');
+		expect(formatCount(250_400)).toBe('250k');
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Budget truncation
+// ---------------------------------------------------------------------------
+
+describe('truncateToBudget', () => {
+	it('returns content unchanged when it fits or the budget is disabled', () => {
+		expect(truncateToBudget(content, 10_000)).toEqual({ ...content, omittedSections: 0 });
+		expect(truncateToBudget(content, 0)).toEqual({ ...content, omittedSections: 0 });
+	});
+
+	it('drops whole sections from the end and marks them in the TOC', () => {
+		const result = truncateToBudget(content, 80);
+		expect(result.omittedSections).toBe(2);
+		expect(result.markdown).toContain('## First {#first}');
+		expect(result.markdown).not.toContain('## Second');
+		expect(result.markdown.endsWith('omitted to fit the token budget (2 sections).]*')).toBe(true);
+		expect(result.toc).toBe(
+			'- [First](#first)\n- [Second](#second) *(omitted)*\n  - [Nested](#nested) *(omitted)*'
+		);
+		expect(result.footnotes).toBe('');
+	});
+
+	it('marks omitted TOC entries when headings have no ids', () => {
+		const result = truncateToBudget(
+			{ ...content, markdown: content.markdown.replace(/ \{#\w+\}/g, '') },
+			80
+		);
+		expect(result.omittedSections).toBe(2);
+		expect(result.toc).toBe(
+			'- [First](#first)\n- [Second](#second) *(omitted)*\n  - [Nested](#nested) *(omitted)*'
+		);
+	});
+
+	it('keeps footnotes referenced by kept sections', () => {
+		const result = truncateToBudget(content, 140);
+		expect(result.omittedSections).toBe(1);
+		expect(result.markdown).toContain('## Second {#second}');
+		expect(result.footnotes).toBe('[^1]: A note.');
+	});
+
+	it('ignores headings inside code fences', () => {
+		const result = truncateToBudget(
+			{
+				markdown: `## Code {#code}\n\n\`\`\`md\n# not a heading\n\`\`\`\n\n${paragraph(80)}`,
+				toc: '',
+				footnotes: '',
+			},
+			200
+		);
+		expect(result.omittedSections).toBe(0);
+	});
+
+	it('keeps whole leading paragraphs when the first section is too large', () => {
+		const markdown = [paragraph(30), paragraph(30), paragraph(30)].join('\n\n');
+		const result = truncateToBudget({ markdown, toc: '', footnotes: '' }, 60);
+		expect(result.omittedSections).toBe(1);
+		expect(result.markdown.startsWith(`${paragraph(30)}\n\n*[Content after`)).toBe(true);
+	});
+});
@@ -0,0 +1,252 @@
+import { createSlugger, slugify, splitFootnoteDefinitions } from './convert';
+
+/**
+ * Size of a converted document. `tokens` is a local estimate of what a BPE tokenizer such as
+ * cl100k would produce; it is meant for budgeting, not billing.
+ */
+export interface TextStats {
+	characters: number;
+	words: number;
+	tokens: number;
+}
+
+/**
+ * Splits text the way GPT-style tokenizers pre-tokenize it: contractions, letter runs with an
+ * optional leading space, digit runs, punctuation runs and whitespace.
+ */
+const PRE_TOKEN_PATTERN =
+	/'(?:s|t|re|ve|m|ll|d)|[^\S\n]?\p{L}+|\p{N}+|[^\S\n]?[^\s\p{L}\p{N}]+|\n+|[^\S\n]+/gu;
+
+/** Scripts that tokenizers encode roughly one token per character. */
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/**
+ * Estimates the number of tokens in a piece of text without a vocabulary. Common words are
+ * usually one token and long words split every four characters or so; digits group by three,
+ * punctuation by two, and CJK characters count one each.
+ * @param text - Text to measure.
+ */
+export function estimateTokens(text: string): number {
+	let tokens = 0;
+
+	for (const [piece] of text.matchAll(PRE_TOKEN_PATTERN)) {
+		const trimmed = piece.trimStart();
+		if (!trimmed) {
+			tokens += piece.includes('\n') ? 1 : 0;
+			continue;
+		}
+		if (/^\p{L}/u.test(trimmed)) {
+			if (CJK_PATTERN.test(trimmed)) {
+				tokens += Array.from(trimmed).length;
+			} else {
+				tokens += Math.max(1, Math.ceil((trimmed.length - 2) / 4));
+			}
+		} else if (/^\p{N}/u.test(trimmed)) {
+			tokens += Math.ceil(trimmed.length / 3);
+		} else if (trimmed.startsWith("'")) {
+			tokens += 1;
+		} else {
+			tokens += Math.ceil(trimmed.length / 2);
+		}
+	}
+
+	return tokens;
+}
+
+/**
+ * Counts characters, words and estimated tokens.
+ * @param text - Text to measure.
+ */
+export function measureText(text: string): TextStats {
+	return {
+		characters: Array.from(text).length,
+		words: text.split(/\s+/).filter(Boolean).length,
+		tokens: estimateTokens(text),
+	};
+}
+
+/**
+ * Formats a count compactly for notifications, e.g. `950` or `12.4k`.
+ * @param count - Number to format.
+ */
+export function formatCount(count: number): string {
+	if (count < 1000) {
+		return String(count);
+	}
+	const thousands = count / 1000;
+	return `${thousands < 100 ? thousands.toFixed(1).replace(/\.0$/, '') : Math.round(thousands)}k`;
+}
+
+// ---------------------------------------------------------------------------
+// Budget truncation
+// ---------------------------------------------------------------------------
+
+/**
+ * The parts of a conversion that {@link truncateToBudget} may shorten.
+ */
+export interface TruncatableContent {
+	markdown: string;
+	toc: string;
+	footnotes: string;
+}
+
+export interface TruncationResult extends TruncatableContent {
+	/** Number of body sections left out or cut short; zero when everything fit. */
+	omittedSections: number;
+}
+
+interface Section {
+	text: string;
+	/** Anchor of the heading that opens the section, if it has one. */
+	slug: string | null;
+}
+
+const HEADING_PATTERN = /^#{1,6}\s+(.*?)(?:\s+\{#([^}]+)\})?\s*$/;
+const FOOTNOTE_REFERENCE_PATTERN = /\[\^([^\]]+)\](?!:)/g;
+/** Tokens held back for the omission note. */
+const NOTE_RESERVE = 24;
+
+/**
+ * Splits a Markdown body at every heading outside fenced code blocks. Text before the first
+ * heading becomes a section of its own.
+ */
+function splitSections(markdown: string): Section[] {
+	const sections: Section[] = [];
+	let lines: string[] = [];
+	let slug: string | null = null;
+	let inFence = false;
+	const uniqueSlug = createSlugger();
+
+	const flush = () => {
+		const text = lines.join('\n').trim();
+		if (text) {
+			sections.push({ text, slug });
+		}
+	};
+
+	for (const line of markdown.split('\n')) {
+		if (/^\s*(```|~~~)/.test(line)) {
+			inFence = !inFence;
+		}
+		const heading = inFence ? null : line.match(HEADING_PATTERN);
+		if (heading) {
+			flush();
+			lines = [];
+			// Without an `{#id}` suffix, the slug is derived from the title as `generateTOC` does.
+			slug = heading[2] ?? (uniqueSlug(slugify(heading[1])) || null);
+		}
+		lines.push(line);
+	}
+	flush();
+
+	return sections;
+}
+
+/**
+ * Keeps leading paragraphs of a section that fit the budget, so an oversized opening section
+ * still yields whole paragraphs instead of nothing.
+ */
+function takeParagraphs(text: string, budget: number): string {
+	const kept: string[] = [];
+	let used = 0;
+	for (const paragraph of text.split(/\n{2,}/)) {
+		const cost = estimateTokens(paragraph) + 1;
+		if (used + cost > budget) {
+			break;
+		}
+		kept.push(paragraph);
+		used += cost;
+	}
+	return kept.join('\n\n');
+}
+
+/**
+ * Marks table of contents entries whose sections were left out.
+ */
+function markOmittedEntries(toc: string, omittedSlugs: Set<string>): string {
+	return toc
+		.split('\n')
+		.map((line) => {
+			const slug = line.match(/\]\(#([^)]+)\)\s*$/)?.[1];
+			return slug && omittedSlugs.has(slug) ? `${line} *(omitted)*` : line;
+		})
+		.join('\n');
+}
+
+/**
+ * Trims a converted body to a token budget one heading section at a time. Sections are kept in
+ * document order until the next one no longer fits; everything after it is replaced by a short
+ * note, and the matching table of contents entries are marked as omitted. Footnote definitions
+ * count towards the section that first references them and are dropped with it.
+ * @param content - Body, table of contents and footnotes of the conversion.
+ * @param budget - Maximum estimated tokens for the body and footnotes; zero or less disables it.
+ */
+export function truncateToBudget(content: TruncatableContent, budget: number): TruncationResult {
+	const footnoteBlocks = splitFootnoteDefinitions(content.footnotes);
+	const totalTokens = estimateTokens(content.markdown) + estimateTokens(content.footnotes);
+	if (budget <= 0 || totalTokens <= budget) {
+		return { ...content, omittedSections: 0 };
+	}
+
+	const sections = splitSections(content.markdown);
+	const available = budget - NOTE_RESERVE;
+	const keptSections: string[] = [];
+	const keptFootnotes: string[] = [];
+	const seenFootnotes = new Set<string>();
+	let used = 0;
+	let index = 0;
+	let partial = false;
+
+	for (; index < sections.length; index++) {
+		const section = sections[index];
+		const labels = Array.from(
+			section.text.matchAll(FOOTNOTE_REFERENCE_PATTERN),
+			(m) => m[1]
+		).filter(
+			(label, position, all) =>
+				footnoteBlocks.has(label) && !seenFootnotes.has(label) && all.indexOf(label) === position
+		);
+		const notes = labels.map((label) => footnoteBlocks.get(label) ?? '');
+		// One extra token per joined part accounts for the blank line separating it.
+		const cost = notes.reduce(
+			(sum, note) => sum + estimateTokens(note) + 1,
+			estimateTokens(section.text) + 1
+		);
+
+		if (used + cost > available) {
+			if (keptSections.length === 0) {
+				const opening = takeParagraphs(section.text, available);
+				if (opening) {
+					keptSections.push(opening);
+					partial = true;
+				}
+			}
+			break;
+		}
+
+		keptSections.push(section.text);
+		keptFootnotes.push(...notes);
+		for (const label of labels) {
+			seenFootnotes.add(label);
+		}
+		used += cost;
+	}
+
+	if (index === sections.length) {
+		return { ...content, omittedSections: 0 };
+	}
+
+	const omittedCount = sections.length - index;
+	const omitted = sections.slice(partial ? index + 1 : index);
+	const omittedSlugs = new Set(
+		omitted.map((section) => section.slug).filter((slug): slug is string => !!slug)
+	);
+	const note = `*[Content after this point was omitted to fit the token budget (${omittedCount} ${omittedCount === 1 ? 'section' : 'sections'}).]*`;
+
+	return {
+		markdown: [...keptSections, note].join('\n\n'),
+		toc: markOmittedEntries(content.toc, omittedSlugs),
+		footnotes: keptFootnotes.join('\n'),
+		omittedSections: omittedCount,
+	};
+}
@@ -0,0 +1,22 @@
+import type { ContentSource } from '../convert';
+import type { ExtractionStrategy } from '../rules';
+
+/**
+ * Display names for each extraction strategy, shared by the rule form and global settings.
+ */
+export const strategyLabels: Record<ExtractionStrategy, string> = {
+	readability: 'Readability, then selector',
+	selector: 'Selector only',
+	'selector-then-readability': 'Selector, then Readability',
+};
+
+/**
+ * Display names for where converted content came from, shown in history and the popup.
+ */
+export const sourceLabels: Record<ContentSource, string> = {
+	readability: 'Readability',
+	selector: 'Rule selector',
+	fallback: 'Page main/body',
+	selection: 'Selection',
+	canonical: 'Published Markdown',
+};
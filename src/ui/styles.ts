@@ -0,0 +1,2 @@
+export const selectClassName =
+	'h-11 w-full rounded-lg border border-slate-300 bg-white px-3 text-sm shadow-sm outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/30';
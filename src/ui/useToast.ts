@@ -0,0 +1,22 @@
+import { Toast } from '@base-ui/react';
+
+export type ToastVariant = 'success' | 'error';
+
+/**
+ * Provides a concise toast enqueue helper backed by the shared toast manager.
+ * @returns Function that triggers toast notifications.
+ */
+export function useToast() {
+	const manager = Toast.useToastManager();
+
+	function notify(title: string, description: string, variant: ToastVariant = 'success') {
+		manager.add({
+			title,
+			description,
+			type: variant,
+			timeout: 4000,
+		});
+	}
+
+	return notify;
+}
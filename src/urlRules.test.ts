@@ -0,0 +1,199 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+	ampToCanonicalUrl,
+	cleanUrl,
+	readCustomUrlRules,
+	sanitizeUrlRule,
+	type UrlCleaningOptions,
+	validateUrlRulePattern,
+	writeCustomUrlRules,
+} from './urlRules';
+
+const options: UrlCleaningOptions = {
+	stripTrackingParams: true,
+	ampToCanonical: false,
+	urlRules: {},
+};
+
+describe('cleanUrl', () => {
+	it('removes tracking parameters on every site', () => {
+		expect(cleanUrl('https://example.com/a?utm_source=x&UTM_Medium=y&id=1&fbclid=2', options)).toBe(
+			'https://example.com/a?id=1'
+		);
+	});
+
+	it('keeps parameters such as ref outside the sites that use them for tracking', () => {
+		expect(cleanUrl('https://git.example/repo/compare?ref=main', options)).toBe(
+			'https://git.example/repo/compare?ref=main'
+		);
+		expect(cleanUrl('https://www.amazon.com/dp/B01?ref=abc&th=1', options)).toBe(
+			'https://www.amazon.com/dp/B01?th=1'
+		);
+	});
+
+	it('unwraps redirect wrappers and cleans the destination', () => {
+		const target = encodeURIComponent('https://example.com/post?utm_source=g&id=7');
+		expect(cleanUrl(`https://www.google.com/url?sa=t&q=${target}`, options)).toBe(
+			'https://example.com/post?id=7'
+		);
+		expect(cleanUrl(`https://l.facebook.com/l.php?u=${target}&h=AT0`, options)).toBe(
+			'https://example.com/post?id=7'
+		);
+		expect(
+			cleanUrl(`https://eur01.safelinks.protection.outlook.com/?url=${target}&data=05`, options)
+		).toBe('https://example.com/post?id=7');
+	});
+
+	it('unwraps nested redirect wrappers', () => {
+		const inner = `https://www.google.com/url?q=${encodeURIComponent('https://example.com/')}`;
+		const outer = `https://l.facebook.com/l.php?u=${encodeURIComponent(inner)}`;
+		expect(cleanUrl(outer, options)).toBe('https://example.com/');
+	});
+
+	it('takes the destination of t.co links from the link', () => {
+		expect(cleanUrl('https://t.co/abc', options, 'https://example.com/article')).toBe(
+			'https://example.com/article'
+		);
+		expect(cleanUrl('https://t.co/abc', options)).toBe('https://t.co/abc');
+	});
+
+	it('ignores redirect parameters that are not URLs', () => {
+		expect(cleanUrl('https://www.google.com/url?q=search+terms', options)).toBe(
+			'https://www.google.com/url?q=search+terms'
+		);
+	});
+
+	it('applies custom rules on top of the built-in ones', () => {
+		const custom: UrlCleaningOptions = {
+			...options,
+			urlRules: {
+				'shop.example': { removeParams: ['*'], keepParams: ['id'] },
+				'example.org': { keepParams: ['utm_campaign'] },
+				'go.example/out': { redirectParams: ['to'] },
+			},
+		};
+		expect(cleanUrl('https://shop.example/p?id=1&color=red&session=x', custom)).toBe(
+			'https://shop.example/p?id=1'
+		);
+		expect(cleanUrl('https://example.org/?utm_campaign=a&utm_source=b', custom)).toBe(
+			'https://example.org/?utm_campaign=a'
+		);
+		expect(cleanUrl('https://go.example/out?to=https%3A%2F%2Fexample.net%2F', custom)).toBe(
+			'https://example.net/'
+		);
+	});
+
+	it('lets a custom rule replace a built-in one', () => {
+		const custom = { ...options, urlRules: { '*': { removeParams: ['fbclid'] } } };
+		expect(cleanUrl('https://example.com/?utm_source=x&fbclid=y', custom)).toBe(
+			'https://example.com/?utm_source=x'
+		);
+	});
+
+	it('rewrites AMP URLs when enabled', () => {
+		const amp = { ...options, ampToCanonical: true };
+		expect(cleanUrl('https://www.google.com/amp/s/example.com/news/story', amp)).toBe(
+			'https://example.com/news/story'
+		);
+		expect(cleanUrl('https://www.google.com/amp/s/example.com/news/story', options)).toBe(
+			'https://www.google.com/amp/s/example.com/news/story'
+		);
+	});
+
+	it('changes nothing when cleaning is off', () => {
+		const off = { ...options, stripTrackingParams: false };
+		const href = 'https://www.google.com/url?q=https://example.com/?utm_source=x';
+		expect(cleanUrl(href, off)).toBe(href);
+		expect(cleanUrl('mailto:someone@example.com', options)).toBe('mailto:someone@example.com');
+	});
+});
+
+describe('ampToCanonicalUrl', () => {
+	const rewrite = (href: string) => ampToCanonicalUrl(new URL(href)).href;
+
+	it('unwraps the AMP cache', () => {
+		expect(rewrite('https://example-com.cdn.ampproject.org/c/s/example.com/a/b')).toBe(
+			'https://example.com/a/b'
+		);
+	});
+
+	it('removes AMP hosts, path segments and parameters', () => {
+		expect(rewrite('https://amp.example.com/story')).toBe('https://example.com/story');
+		expect(rewrite('https://example.com/amp/story?amp')).toBe('https://example.com/story');
+		expect(rewrite('https://amp.example.com/story/amp/')).toBe('https://example.com/story/');
+		expect(rewrite('https://example.com/story.amp.html')).toBe('https://example.com/story.html');
+		expect(rewrite('https://example.com/story?amp=1&outputType=amp')).toBe(
+			'https://example.com/story'
+		);
+	});
+
+	it('leaves pages that only look like AMP alone', () => {
+		expect(rewrite('https://amp.dev/documentation/')).toBe('https://amp.dev/documentation/');
+		expect(rewrite('https://github.com/ampproject/amp')).toBe('https://github.com/ampproject/amp');
+		expect(rewrite('https://example.com/amp/story')).toBe('https://example.com/amp/story');
+	});
+});
+
+describe('URL rule validation', () => {
+	it('accepts domain patterns and * for every site', () => {
+		expect(validateUrlRulePattern('*')).toBeNull();
+		expect(validateUrlRulePattern('example.com/out')).toBeNull();
+		expect(validateUrlRulePattern('https://example.com')).not.toBeNull();
+	});
+
+	it('cleans rules and rejects malformed ones', () => {
+		expect(sanitizeUrlRule({ removeParams: [' ref ', ''], keepParams: [], extra: 1 })).toEqual({
+			removeParams: ['ref'],
+		});
+		expect(sanitizeUrlRule({ removeParams: 'ref' })).toBe(
+			'Removed parameters must be a list of parameter names.'
+		);
+		expect(sanitizeUrlRule({ redirectFromLink: 'yes' })).toBe(
+			'Redirect from link must be true or false.'
+		);
+	});
+});
+
+describe('URL rule storage', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('shards rules and drops invalid ones when read', async () => {
+		const sync: Record<string, unknown> = {};
+		const area = (data: Record<string, unknown>) => ({
+			get: async (keys: string | string[]) =>
+				Object.fromEntries(
+					[keys]
+						.flat()
+						.filter((key) => key in data)
+						.map((key) => [key, data[key]])
+				),
+			set: async (items: Record<string, unknown>) => {
+				Object.assign(data, structuredClone(items));
+			},
+			remove: async (keys: string | string[]) => {
+				for (const key of [keys].flat()) delete data[key];
+			},
+		});
+		vi.stubGlobal('chrome', { storage: { sync: area(sync), local: area({}) } });
+
+		expect(await readCustomUrlRules()).toBeNull();
+		const rules = Object.fromEntries(
+			Array.from({ length: 200 }, (_, index) => [
+				`site${index}.example`,
+				{ removeParams: ['ref', 'source', 'campaign_id'] },
+			])
+		);
+		await expect(writeCustomUrlRules(rules)).resolves.toBe('sync');
+		expect(sync.urlRulesMeta).toMatchObject({ area: 'sync' });
+		expect((sync.urlRulesMeta as { shards: number }).shards).toBeGreaterThan(1);
+
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		(sync['urlRules:0'] as Record<string, unknown>)['https://bad'] = { removeParams: ['x'] };
+		expect(await readCustomUrlRules()).toEqual(rules);
+		expect(warn).toHaveBeenCalledWith('Dropping invalid stored URL rule "https://bad"');
+		warn.mockRestore();
+	});
+});
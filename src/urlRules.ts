@@ -0,0 +1,320 @@
+import {
+	matchDomainConfigs,
+	normalizeDomainPattern,
+	type RuleStorageArea,
+	readShardedRules,
+	type ShardedStorageKeys,
+	validateDomainPattern,
+	writeShardedRules,
+} from './rules';
+
+/**
+ * How URLs on a site are cleaned. Rules are keyed by domain pattern (see `parseDomainPattern`),
+ * or by {@link ALL_SITES_PATTERN} for every site.
+ */
+export interface UrlRule {
+	/** Query parameters to remove. A trailing `*` matches a prefix, and `*` alone every parameter. */
+	removeParams?: string[];
+	/** Query parameters that are never removed, even when a broader rule lists them. */
+	keepParams?: string[];
+	/** Redirect wrapper: query parameters that may hold the destination URL, tried in order. */
+	redirectParams?: string[];
+	/**
+	 * Redirect wrapper whose destination is not part of the URL, such as `t.co`. The destination is
+	 * taken from the link instead: its `data-expanded-url` or `title`, or text that is a full URL.
+	 */
+	redirectFromLink?: boolean;
+}
+
+/** Rule key that applies to every site. */
+export const ALL_SITES_PATTERN = '*';
+
+/**
+ * Built-in URL rules. A custom rule with the same pattern replaces the built-in one.
+ */
+export const defaultUrlRules: Record<string, UrlRule> = {
+	[ALL_SITES_PATTERN]: {
+		removeParams: [
+			'utm_*',
+			'fbclid',
+			'gclid',
+			'dclid',
+			'msclkid',
+			'mc_cid',
+			'mc_eid',
+			'_hsenc',
+			'_hsmi',
+			'mkt_tok',
+			'igshid',
+			'yclid',
+		],
+	},
+	/** Redirect wrappers. */
+	'google.com/url': { redirectParams: ['q', 'url'] },
+	'facebook.com/l.php': { redirectParams: ['u'] },
+	'*.safelinks.protection.outlook.com': { redirectParams: ['url'] },
+	'youtube.com/redirect': { redirectParams: ['q'] },
+	'out.reddit.com': { redirectParams: ['url'] },
+	'slack-redir.net/link': { redirectParams: ['url'] },
+	't.co': { redirectFromLink: true },
+	/** Site-specific tracking. */
+	'twitter.com': { removeParams: ['ref_src', 'ref_url', 's', 't'] },
+	'x.com': { removeParams: ['ref_src', 'ref_url', 's', 't'] },
+	'youtube.com': { removeParams: ['si', 'feature', 'pp'] },
+	'amazon.com': {
+		removeParams: ['ref', 'ref_', 'pf_rd_*', 'pd_rd_*', 'qid', 'sr', 'crid', 'sprefix', 'psc'],
+	},
+};
+
+/**
+ * URL cleaning settings, as found in the conversion options.
+ */
+export interface UrlCleaningOptions {
+	/** Apply the URL rules: remove tracking parameters and unwrap redirects. */
+	stripTrackingParams: boolean;
+	/** Rewrite AMP pages and AMP cache URLs to the regular page. */
+	ampToCanonical: boolean;
+	/** Custom URL rules, applied on top of {@link defaultUrlRules}. */
+	urlRules: Record<string, UrlRule>;
+}
+
+/** Limit on nested redirect wrappers, so that a loop of wrappers cannot hang a conversion. */
+const MAX_REDIRECTS = 5;
+
+function matchesParam(name: string, patterns: string[]): boolean {
+	const lower = name.toLowerCase();
+	return patterns.some((pattern) => {
+		const lowerPattern = pattern.toLowerCase();
+		return lowerPattern.endsWith('*')
+			? lower.startsWith(lowerPattern.slice(0, -1))
+			: lower === lowerPattern;
+	});
+}
+
+/**
+ * Collects the rules that apply to a URL: matching site rules from most to least specific,
+ * followed by the rule for every site.
+ * @param url - URL to look up.
+ * @param rules - Built-in and custom rules keyed by pattern.
+ */
+export function matchUrlRules(url: URL, rules: Record<string, UrlRule>): UrlRule[] {
+	const { [ALL_SITES_PATTERN]: allSites, ...siteRules } = rules;
+	const matches = matchDomainConfigs(url, siteRules).map((match) => match.config);
+	return allSites ? [...matches, allSites] : matches;
+}
+
+function parseHttpUrl(value: string | null | undefined): URL | null {
+	if (!value) return null;
+	try {
+		const url = new URL(value.trim());
+		return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+	} catch (_err) {
+		return null;
+	}
+}
+
+/**
+ * Finds where a redirect wrapper leads, or returns null when the URL is not a wrapper.
+ */
+function redirectTarget(url: URL, rules: UrlRule[], linkTarget: string | null): URL | null {
+	const paramRule = rules.find((rule) => rule.redirectParams?.length);
+	for (const param of paramRule?.redirectParams ?? []) {
+		const target = parseHttpUrl(url.searchParams.get(param));
+		if (target) return target;
+	}
+	const linkRule = rules.find((rule) => rule.redirectFromLink !== undefined);
+	return linkRule?.redirectFromLink ? parseHttpUrl(linkTarget) : null;
+}
+
+/**
+ * Rewrites AMP URLs to the regular page: Google's AMP viewer (`google.com/amp/s/…`), the AMP
+ * cache (`*.cdn.ampproject.org/c/s/…`), `amp.` subdomains, `.amp.html` pages and `amp`
+ * parameters. `/amp` path segments are removed only from URLs marked as AMP in one of these
+ * ways, so that pages such as `github.com/ampproject/amp` keep their path.
+ * @param url - Absolute URL.
+ */
+export function ampToCanonicalUrl(url: URL): URL {
+	const isGoogle = /(^|\.)google\.[a-z.]+$/.test(url.hostname);
+	const isCache = url.hostname.endsWith('.cdn.ampproject.org');
+	const wrapped =
+		(isGoogle && url.pathname.match(/^\/amp\/(s\/)?(.+)$/)) ||
+		(isCache && url.pathname.match(/^\/[cvi]\/(s\/)?(.+)$/));
+	if (wrapped) {
+		const target = parseHttpUrl(`${wrapped[1] ? 'https' : 'http'}://${wrapped[2]}`);
+		if (target) return target;
+	}
+
+	const canonical = new URL(url.href);
+	// `amp.dev` is a site of its own, not the AMP version of `dev`.
+	const ampHost = /^amp\.[^.]+\.[^.]+/.test(canonical.hostname);
+	const ampPage = /\.amp\.html?$/.test(canonical.pathname);
+	const ampParam =
+		canonical.searchParams.has('amp') || canonical.searchParams.get('outputType') === 'amp';
+	if (ampHost) {
+		canonical.hostname = canonical.hostname.slice('amp.'.length);
+	}
+	if (ampPage) {
+		canonical.pathname = canonical.pathname.replace(/\.amp(?=\.html?$)/, '');
+	}
+	if (ampHost || ampPage || ampParam) {
+		canonical.pathname = canonical.pathname.replace(/^\/amp(?=\/)/, '').replace(/\/amp\/?$/, '/');
+	}
+	canonical.searchParams.delete('amp');
+	if (canonical.searchParams.get('outputType') === 'amp') {
+		canonical.searchParams.delete('outputType');
+	}
+	return canonical;
+}
+
+/**
+ * Removes the query parameters the rules deny, unless a rule keeps them.
+ */
+function removeParams(url: URL, rules: UrlRule[]): void {
+	const remove = rules.flatMap((rule) => rule.removeParams ?? []);
+	const keep = rules.flatMap((rule) => rule.keepParams ?? []);
+	const names = Array.from(url.searchParams.keys());
+	for (const name of names) {
+		if (matchesParam(name, remove) && !matchesParam(name, keep)) {
+			url.searchParams.delete(name);
+		}
+	}
+}
+
+/**
+ * Cleans an absolute URL: unwraps redirect wrappers, optionally rewrites AMP URLs and removes
+ * tracking parameters. Other URLs, such as `mailto:` links, are returned unchanged.
+ * @param href - Absolute URL.
+ * @param options - URL cleaning settings.
+ * @param linkTarget - Destination shown by the link, for wrappers such as `t.co` that do not
+ * carry it in the URL.
+ */
+export function cleanUrl(
+	href: string,
+	options: UrlCleaningOptions,
+	linkTarget: string | null = null
+): string {
+	let url = parseHttpUrl(href);
+	if (!url) return href;
+
+	const rules = { ...defaultUrlRules, ...options.urlRules };
+	if (options.stripTrackingParams) {
+		for (let hop = 0; hop < MAX_REDIRECTS; hop++) {
+			const target = redirectTarget(url, matchUrlRules(url, rules), linkTarget);
+			if (!target) break;
+			url = target;
+		}
+	}
+	if (options.ampToCanonical) {
+		url = ampToCanonicalUrl(url);
+	}
+	if (options.stripTrackingParams) {
+		removeParams(url, matchUrlRules(url, rules));
+	}
+	return url.href;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Describes why a URL rule key cannot be used, or returns null when it is valid.
+ * @param pattern - Rule key entered by the user.
+ */
+export function validateUrlRulePattern(pattern: string): string | null {
+	return pattern.trim() === ALL_SITES_PATTERN ? null : validateDomainPattern(pattern);
+}
+
+/**
+ * Canonicalises a URL rule key; see `normalizeDomainPattern`.
+ * @param pattern - Rule key entered by the user.
+ */
+export function normalizeUrlRulePattern(pattern: string): string {
+	return pattern.trim() === ALL_SITES_PATTERN ? ALL_SITES_PATTERN : normalizeDomainPattern(pattern);
+}
+
+function sanitizeList(value: unknown, label: string): string[] | string | undefined {
+	if (value === undefined) return undefined;
+	if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+		return `${label} must be a list of parameter names.`;
+	}
+	const items = value.map((item) => item.trim()).filter(Boolean);
+	return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Checks a stored or entered URL rule and returns a clean copy, or an error message describing
+ * why it cannot be used. Unknown keys and empty lists are dropped.
+ * @param value - Rule as parsed from storage.
+ */
+export function sanitizeUrlRule(value: unknown): UrlRule | string {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		return 'Rule must be an object.';
+	}
+	const record = value as Record<string, unknown>;
+	const rule: UrlRule = {};
+	const lists = [
+		['removeParams', 'Removed parameters'],
+		['keepParams', 'Kept parameters'],
+		['redirectParams', 'Redirect parameters'],
+	] as const;
+	for (const [key, label] of lists) {
+		const list = sanitizeList(record[key], label);
+		if (typeof list === 'string') return list;
+		if (list) rule[key] = list;
+	}
+	if (record.redirectFromLink !== undefined) {
+		if (typeof record.redirectFromLink !== 'boolean') {
+			return 'Redirect from link must be true or false.';
+		}
+		rule.redirectFromLink = record.redirectFromLink;
+	}
+	return rule;
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+/**
+ * Custom URL rules are sharded like domain rules, outside the `settings` item, so that they do
+ * not push it past the sync item quota.
+ */
+const URL_RULE_KEYS: ShardedStorageKeys = { meta: 'urlRulesMeta', shardPrefix: 'urlRules:' };
+
+/** Version of the stored URL rule layout. */
+const URL_RULES_SCHEMA_VERSION = 1;
+
+/**
+ * Loads the user's custom URL rules, dropping any that are no longer valid.
+ * @returns Rules keyed by pattern, or null when none were ever saved.
+ * @throws When storage cannot be read.
+ */
+export async function readCustomUrlRules(): Promise<Record<string, UrlRule> | null> {
+	const { meta, rules } = await readShardedRules(URL_RULE_KEYS);
+	if (!meta) return null;
+
+	const valid: Record<string, UrlRule> = {};
+	for (const [pattern, value] of Object.entries(rules)) {
+		const rule = sanitizeUrlRule(value);
+		if (validateUrlRulePattern(pattern) === null && typeof rule !== 'string') {
+			valid[pattern] = rule;
+		} else {
+			console.warn(`Dropping invalid stored URL rule "${pattern}"`);
+		}
+	}
+	return valid;
+}
+
+/**
+ * Replaces the user's custom URL rules.
+ * @param rules - Complete set of custom rules keyed by pattern.
+ * @returns The storage area the rules were saved to.
+ * @throws When the rules cannot be saved; the message explains why.
+ */
+export async function writeCustomUrlRules(
+	rules: Record<string, UrlRule>
+): Promise<RuleStorageArea> {
+	const { meta } = await readShardedRules(URL_RULE_KEYS);
+	return writeShardedRules(URL_RULE_KEYS, rules, URL_RULES_SCHEMA_VERSION, meta);
+}
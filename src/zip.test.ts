@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from './zip';
+
+/**
+ * Reads stored entries back from an archive through its central directory.
+ */
+function readZip(archive: Uint8Array): Array<{ path: string; data: string; crc: number }> {
+	const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+	const end = archive.length - 22;
+	expect(view.getUint32(end, true)).toBe(0x06054b50);
+	const count = view.getUint16(end + 10, true);
+	let position = view.getUint32(end + 16, true);
+	const decoder = new TextDecoder();
+	const entries = [];
+
+	for (let i = 0; i < count; i++) {
+		expect(view.getUint32(position, true)).toBe(0x02014b50);
+		const crc = view.getUint32(position + 16, true);
+		const size = view.getUint32(position + 24, true);
+		const nameLength = view.getUint16(position + 28, true);
+		const offset = view.getUint32(position + 42, true);
+		const path = decoder.decode(archive.subarray(position + 46, position + 46 + nameLength));
+
+		expect(view.getUint32(offset, true)).toBe(0x04034b50);
+		const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+		const data = decoder.decode(archive.subarray(dataStart, dataStart + size));
+		entries.push({ path, data, crc });
+		position += 46 + nameLength;
+	}
+	return entries;
+}
+
+describe('crc32', () => {
+	it('matches the standard check value', () => {
+		expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+		expect(crc32(new Uint8Array())).toBe(0);
+	});
+});
+
+describe('createZip', () => {
+	it('stores text and binary entries that can be read back', () => {
+		const archive = createZip([
+			{ path: 'index.md', data: '# Café\n' },
+			{ path: 'assets/pixel.bin', data: new Uint8Array([104, 105]) },
+		]);
+
+		const entries = readZip(archive);
+		expect(entries.map((entry) => entry.path)).toEqual(['index.md', 'assets/pixel.bin']);
+		expect(entries[0].data).toBe('# Café\n');
+		expect(entries[0].crc).toBe(crc32(new TextEncoder().encode('# Café\n')));
+		expect(entries[1].data).toBe('hi');
+	});
+
+	it('produces a valid empty archive', () => {
+		expect(readZip(createZip([]))).toEqual([]);
+	});
+});
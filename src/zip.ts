@@ -0,0 +1,123 @@
+/**
+ * A file to store in a zip archive. Text is encoded as UTF-8.
+ */
+export interface ZipEntry {
+	/** Path inside the archive, using forward slashes. */
+	path: string;
+	data: Uint8Array | string;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+	if (crcTable) return crcTable;
+	crcTable = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		crcTable[n] = c >>> 0;
+	}
+	return crcTable;
+}
+
+/**
+ * Computes the CRC-32 checksum that zip archives store for every file.
+ * @param data - Bytes to checksum.
+ */
+export function crc32(data: Uint8Array): number {
+	const table = getCrcTable();
+	let crc = 0xffffffff;
+	for (let i = 0; i < data.length; i++) {
+		crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Packs a date into the MS-DOS time and date fields used by zip headers.
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+	const year = Math.max(1980, date.getFullYear());
+	return {
+		time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+		date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+	};
+}
+
+/** General purpose flag marking file names as UTF-8. */
+const UTF8_FLAG = 0x0800;
+
+/**
+ * Builds an uncompressed (stored) zip archive. Images are already compressed and Markdown is
+ * small, so deflating would add code without saving much space.
+ * @param entries - Files in the order they should appear.
+ * @param modified - Modification time recorded for every file.
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+	const encoder = new TextEncoder();
+	const { time, date } = toDosDateTime(modified);
+	const locals: Uint8Array[] = [];
+	const centrals: Uint8Array[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = encoder.encode(entry.path);
+		const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+		const crc = crc32(data);
+
+		const local = new Uint8Array(30 + name.length + data.length);
+		const lv = new DataView(local.buffer);
+		lv.setUint32(0, 0x04034b50, true);
+		lv.setUint16(4, 20, true);
+		lv.setUint16(6, UTF8_FLAG, true);
+		lv.setUint16(8, 0, true);
+		lv.setUint16(10, time, true);
+		lv.setUint16(12, date, true);
+		lv.setUint32(14, crc, true);
+		lv.setUint32(18, data.length, true);
+		lv.setUint32(22, data.length, true);
+		lv.setUint16(26, name.length, true);
+		lv.setUint16(28, 0, true);
+		local.set(name, 30);
+		local.set(data, 30 + name.length);
+
+		const central = new Uint8Array(46 + name.length);
+		const cv = new DataView(central.buffer);
+		cv.setUint32(0, 0x02014b50, true);
+		cv.setUint16(4, 20, true);
+		cv.setUint16(6, 20, true);
+		cv.setUint16(8, UTF8_FLAG, true);
+		cv.setUint16(10, 0, true);
+		cv.setUint16(12, time, true);
+		cv.setUint16(14, date, true);
+		cv.setUint32(16, crc, true);
+		cv.setUint32(20, data.length, true);
+		cv.setUint32(24, data.length, true);
+		cv.setUint16(28, name.length, true);
+		cv.setUint32(42, offset, true);
+		central.set(name, 46);
+
+		locals.push(local);
+		centrals.push(central);
+		offset += local.length;
+	}
+
+	const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+	const end = new Uint8Array(22);
+	const ev = new DataView(end.buffer);
+	ev.setUint32(0, 0x06054b50, true);
+	ev.setUint16(8, entries.length, true);
+	ev.setUint16(10, entries.length, true);
+	ev.setUint32(12, centralSize, true);
+	ev.setUint32(16, offset, true);
+
+	const archive = new Uint8Array(offset + centralSize + end.length);
+	let position = 0;
+	for (const part of [...locals, ...centrals, end]) {
+		archive.set(part, position);
+		position += part.length;
+	}
+	return archive;
+}
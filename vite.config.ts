@@ -11,6 +11,10 @@ export default defineConfig({
 		minify: 'esbuild', // Uses esbuild internally for minification
 		// The CRX plugin handles bundling into as few files as possible
 		rollupOptions: {
+			// Extension pages that the manifest does not reference
+			input: {
+				history: 'src/history.html',
+			},
 			output: {
 				// Adjust output filenames if needed
 				entryFileNames: '[name].js',